@@ -6,11 +6,32 @@ import HistoryView from './components/HistoryView';
 import ApiKeyManager from './components/ApiKeyManager';
 import MyDishes from './components/MyDishes';
 import UserProfile from './components/UserProfile';
-import { Ingredient, ApiConfig, History, SavedDish, UserProfile as UserProfileType } from './types';
+import BodyMetrics from './components/BodyMetrics';
+import WaterTracker from './components/WaterTracker';
+import { Ingredient, ApiConfig, History, SavedDish, DayAnalysis, BodyMetricEntry, GoalVersion, MealSlot, EditingMeal, UserProfile as UserProfileType } from './types';
 import { DEFAULT_PROVIDER_ID } from './constants/apiProviders';
-import { calculateTotals, calculateProgressPercentages } from './utils/calculations';
+import { getCurrentProviderConfig } from './services/aiService';
+import { calculateTotals, getLocalDateKey } from './utils/calculations';
 import { loadSavedDishes, saveDishToLibrary, updateDishInLibrary, deleteDishFromLibrary } from './utils/savedDishes';
 import { loadUserProfile, saveUserProfile } from './utils/userProfile';
+import { loadBodyMetrics, saveBodyMetrics, calculateWeightTrend, getWeightDrift, getLatestMetric } from './utils/bodyMetrics';
+import { calculateGoalsLocally } from './utils/goalCalculator';
+import { resolveGoalsForDate } from './utils/goalSchedule';
+import { getRecipeIngredients, scaleIngredients } from './utils/recipes';
+import { transferMeal, replaceMeal, createEmptyHistoryEntry, MealTransferMode } from './utils/historyMeals';
+import { buildMealTimestamp, getMealSlots, loadCustomMealSlots, saveCustomMealSlots } from './utils/mealSlots';
+import { calculateWaterGoal, createBeverageIngredient, getBeverage, isHistoryEntryEmpty, DRINKS_MEAL_TYPE } from './utils/water';
+import {
+    loadGoalVersions,
+    saveGoalVersions,
+    createInitialGoalVersions,
+    linkEntriesToGoalVersion,
+    recordGoalVersion,
+    getCurrentGoalVersion,
+    getGoalVersionForDate,
+    applyGoalVersionToEntry,
+    recalculateEntryProgress,
+} from './utils/goalVersions';
 
 const MainTabButton = ({ 
     isActive, 
@@ -46,10 +67,34 @@ const App = () => {
     const [history, setHistory] = useState<History>({});
     const [savedDishes, setSavedDishes] = useState<SavedDish[]>([]);
     const [userProfile, setUserProfile] = useState<UserProfileType | null>(null);
+    const [bodyMetrics, setBodyMetrics] = useState<BodyMetricEntry[]>([]);
+    const [goalVersions, setGoalVersions] = useState<GoalVersion[]>([]);
+    const [isMetricsModalOpen, setIsMetricsModalOpen] = useState(false);
+    const [isDriftDismissed, setIsDriftDismissed] = useState(false);
     const [activeView, setActiveView] = useState<'builder' | 'history' | 'dishes'>('builder');
     const [calculatePer100g, setCalculatePer100g] = useState(false);
+    const [editingRecipe, setEditingRecipe] = useState<SavedDish | null>(null);
+    const [editingMeal, setEditingMeal] = useState<EditingMeal | null>(null);
+    const [customMealSlots, setCustomMealSlots] = useState<MealSlot[]>([]);
 
-    const todayKey = useMemo(() => new Date().toISOString().split('T')[0], []);
+    // Сегодняшний день по местному времени; обновляется в полночь и при возврате во вкладку
+    const [todayKey, setTodayKey] = useState(() => getLocalDateKey());
+    const waterGoal = useMemo(() => calculateWaterGoal(userProfile), [userProfile]);
+    const mealSlots = useMemo(() => getMealSlots(customMealSlots), [customMealSlots]);
+
+    useEffect(() => {
+        const refreshToday = () => setTodayKey(getLocalDateKey());
+        const now = new Date();
+        const nextMidnight = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+        const timer = setTimeout(refreshToday, nextMidnight.getTime() - now.getTime() + 1000);
+        document.addEventListener('visibilitychange', refreshToday);
+        window.addEventListener('focus', refreshToday);
+        return () => {
+            clearTimeout(timer);
+            document.removeEventListener('visibilitychange', refreshToday);
+            window.removeEventListener('focus', refreshToday);
+        };
+    }, [todayKey]);
 
     const loadDishes = () => {
         setSavedDishes(loadSavedDishes());
@@ -57,7 +102,10 @@ const App = () => {
 
     useEffect(() => {
         loadDishes();
-        setUserProfile(loadUserProfile());
+        const storedProfile = loadUserProfile();
+        setUserProfile(storedProfile);
+        setBodyMetrics(loadBodyMetrics());
+        setCustomMealSlots(loadCustomMealSlots());
         
         const storedConfig = localStorage.getItem('api-config');
         if (storedConfig) {
@@ -86,15 +134,27 @@ const App = () => {
             }
         }
         
+        let loadedHistory: History = {};
         const storedHistory = localStorage.getItem('meal-history');
         if (storedHistory) {
             try {
-                setHistory(JSON.parse(storedHistory));
+                loadedHistory = JSON.parse(storedHistory);
+                setHistory(loadedHistory);
             } catch (error) {
                 console.error('Error parsing history:', error);
                 localStorage.removeItem('meal-history');
             }
         }
+
+        let versions = loadGoalVersions();
+        if (versions.length === 0) {
+            versions = createInitialGoalVersions(storedProfile, loadedHistory, getLocalDateKey());
+            if (versions.length > 0) {
+                saveGoalVersions(versions);
+                setHistory(linkEntriesToGoalVersion(loadedHistory, versions[0]));
+            }
+        }
+        setGoalVersions(versions);
     }, []);
     
     useEffect(() => {
@@ -105,29 +165,6 @@ const App = () => {
         }
     }, [history]);
 
-    useEffect(() => {
-        if (userProfile?.dailyGoals) {
-            setHistory(prev => {
-                if (Object.keys(prev).length === 0) return prev;
-                
-                const needsMigration = Object.values(prev).some(dayData => !dayData.progressPercentages);
-                if (!needsMigration) return prev;
-                
-                const migratedHistory: History = {};
-                Object.entries(prev).forEach(([date, dayData]) => {
-                    migratedHistory[date] = {
-                        ...dayData,
-                        progressPercentages: calculateProgressPercentages(
-                            dayData.dailyTotals,
-                            userProfile.dailyGoals || null
-                        ) || undefined
-                    };
-                });
-                return migratedHistory;
-            });
-        }
-    }, [userProfile]);
-
     const handleAddIngredient = (ingredient: Omit<Ingredient, 'weight'>, weight: number = 100) => {
         setDishIngredients(prev => [...prev, { ...ingredient, weight }]);
     };
@@ -143,6 +180,7 @@ const App = () => {
                 fat: ing.fat || 0,
                 carbohydrate: ing.carbohydrate || 0,
                 fiber: ing.fiber || 0,
+                ...(ing.micronutrients ? { micronutrients: ing.micronutrients } : {}),
             }
         }));
         setDishIngredients(prev => [...prev, ...newIngredients]);
@@ -156,65 +194,166 @@ const App = () => {
         }
     };
 
-    const handleUpdateIngredientWeight = (id: string, weight: number) => {
-        setDishIngredients(prev => 
-            prev.map(item => item.id === id ? { ...item, weight: isNaN(weight) ? 0 : weight } : item)
-        );
+    const handleUpdateIngredientWeight = (id: string, weight: number, pieces?: number | null) => {
+        setDishIngredients(prev => prev.map(item => {
+            if (item.id !== id) return item;
+            // Вес в граммах отменяет прежнее число штук
+            const { pieces: _, ...rest } = item;
+            return { ...rest, weight: isNaN(weight) ? 0 : weight, ...(pieces ? { pieces } : {}) };
+        }));
+    };
+
+    const handleScaleDish = (factor: number) => {
+        setDishIngredients(prev => scaleIngredients(prev, factor));
     };
 
     const handleRemoveIngredient = (id: string) => {
         setDishIngredients(prev => prev.filter(item => item.id !== id));
     };
     
-    const handleClearDish = () => setDishIngredients([]);
+    const handleClearDish = () => {
+        setDishIngredients([]);
+        setEditingRecipe(null);
+        setEditingMeal(null);
+    };
+
+    const handleOpenRecipe = (dish: SavedDish) => {
+        if (!dish.recipe) return;
+        if (dishIngredients.length > 0 && !confirm('Заменить текущее блюдо составом рецепта?')) return;
+        setDishIngredients(getRecipeIngredients(dish.recipe));
+        setEditingRecipe(dish);
+        setEditingMeal(null);
+        setCalculatePer100g(false);
+        setActiveView('builder');
+    };
+
+    const handleUpdateMealSlots = (slots: MealSlot[]) => {
+        try {
+            saveCustomMealSlots(slots);
+            setCustomMealSlots(slots);
+        } catch (error) {
+            alert((error as Error).message);
+        }
+    };
+
+    const handleEditMeal = (date: string, mealId: string) => {
+        const meal = history[date]?.meals[mealId];
+        if (!meal) return;
+        if (dishIngredients.length > 0 && !confirm('Заменить текущее блюдо приёмом пищи из истории?')) return;
+        setDishIngredients(meal.ingredients.map(ingredient => ({ ...ingredient })));
+        setEditingMeal({ date, mealId, meal });
+        setEditingRecipe(null);
+        setCalculatePer100g(false);
+        setActiveView('builder');
+    };
+
+    const handleSaveDish = (mealType: string, ingredients: Ingredient[], time: string, date: string) => {
+        if (editingMeal) {
+            const meal = { type: mealType, ingredients, timestamp: buildMealTimestamp(date, time) };
+            try {
+                setHistory(replaceMeal(history, editingMeal.date, editingMeal.mealId, date, meal, goalVersions));
+            } catch (error) {
+                alert((error as Error).message);
+                return;
+            }
+            handleClearDish();
+            return;
+        }
 
-    const handleSaveDish = (mealType: string, ingredients: Ingredient[]) => {
-        const today = new Date().toISOString().split('T')[0];
         const mealId = crypto.randomUUID();
 
         setHistory(prev => {
             const newHistory: History = JSON.parse(JSON.stringify(prev));
-            const dayData = newHistory[today] || { 
-                meals: {}, 
-                dailyTotals: { calories: 0, protein: 0, fat: 0, carbohydrate: 0, fiber: 0, weight: 0 } 
-            };
+            const dayData = newHistory[date] || createEmptyHistoryEntry();
             
-            dayData.meals[mealId] = { type: mealType, ingredients };
+            dayData.meals[mealId] = { type: mealType, ingredients, timestamp: buildMealTimestamp(date, time) };
 
-            const allMealsToday = Object.values(dayData.meals).flatMap((m: any) => m.ingredients);
-            dayData.dailyTotals = calculateTotals(allMealsToday);
-            dayData.progressPercentages = calculateProgressPercentages(
-                dayData.dailyTotals,
-                userProfile?.dailyGoals || null
-            ) || undefined;
+            const allMealsOfDay = Object.values(dayData.meals).flatMap(m => m.ingredients);
+            dayData.dailyTotals = calculateTotals(allMealsOfDay);
 
-            newHistory[today] = dayData;
+            newHistory[date] = recalculateEntryProgress(dayData, date, goalVersions);
             return newHistory;
         });
         handleClearDish();
     };
 
+    const handleTransferMeal = (fromDate: string, mealId: string, toDate: string, mode: MealTransferMode) => {
+        try {
+            setHistory(transferMeal(history, fromDate, mealId, toDate, mode, goalVersions));
+        } catch (error) {
+            alert((error as Error).message);
+        }
+    };
+
     const handleRemoveMeal = (date: string, mealId: string) => {
         setHistory(prev => {
             const newHistory: History = JSON.parse(JSON.stringify(prev));
             if (!newHistory[date]) return newHistory;
             
             delete newHistory[date].meals[mealId];
+            // Запись воды без своего напитка в рационе больше не нужна
+            if (newHistory[date].water) {
+                newHistory[date].water.entries = newHistory[date].water.entries.filter(entry => entry.mealId !== mealId);
+            }
 
-            if (Object.keys(newHistory[date].meals).length === 0) {
+            if (isHistoryEntryEmpty(newHistory[date])) {
                 delete newHistory[date];
             } else {
                 const allMealsToday = Object.values(newHistory[date].meals).flatMap((m: any) => m.ingredients);
                 newHistory[date].dailyTotals = calculateTotals(allMealsToday);
-                newHistory[date].progressPercentages = calculateProgressPercentages(
-                    newHistory[date].dailyTotals,
-                    userProfile?.dailyGoals || null
-                ) || undefined;
+                newHistory[date] = recalculateEntryProgress(newHistory[date], date, goalVersions);
             }
             return newHistory;
         });
     };
     
+    const handleAddWater = (volume: number, beverageId: string) => {
+        const ingredient = createBeverageIngredient(getBeverage(beverageId), volume);
+        const mealId = ingredient ? crypto.randomUUID() : undefined;
+
+        setHistory(prev => {
+            const newHistory: History = JSON.parse(JSON.stringify(prev));
+            let dayData = newHistory[todayKey] || createEmptyHistoryEntry();
+
+            // Калорийный напиток записываем и в рацион, чтобы он попал в итоги дня
+            if (ingredient) {
+                dayData.meals[mealId] = { type: DRINKS_MEAL_TYPE, ingredients: [ingredient], timestamp: new Date().toISOString() };
+                const allMealsToday = Object.values(dayData.meals).flatMap((m: any) => m.ingredients);
+                dayData.dailyTotals = calculateTotals(allMealsToday);
+                dayData = recalculateEntryProgress(dayData, todayKey, goalVersions);
+            }
+
+            dayData.water = {
+                entries: [
+                    ...(dayData.water?.entries || []),
+                    { id: crypto.randomUUID(), time: new Date().toISOString(), volume, beverageId, ...(mealId ? { mealId } : {}) },
+                ],
+                goalMl: waterGoal,
+            };
+            newHistory[todayKey] = dayData;
+            return newHistory;
+        });
+    };
+
+    const handleRemoveWater = (date: string, entryId: string) => {
+        const entry = history[date]?.water?.entries.find(item => item.id === entryId);
+        if (!entry) return;
+        if (entry.mealId) {
+            handleRemoveMeal(date, entry.mealId);
+            return;
+        }
+
+        setHistory(prev => {
+            const newHistory: History = JSON.parse(JSON.stringify(prev));
+            if (!newHistory[date]?.water) return prev;
+            newHistory[date].water.entries = newHistory[date].water.entries.filter(item => item.id !== entryId);
+            if (isHistoryEntryEmpty(newHistory[date])) {
+                delete newHistory[date];
+            }
+            return newHistory;
+        });
+    };
+
     const handleClearDay = (date: string) => {
         setHistory(prev => {
             const newHistory = { ...prev };
@@ -223,11 +362,27 @@ const App = () => {
         });
     };
 
+    const handleSaveAnalysis = (date: string, analysis: DayAnalysis) => {
+        setHistory(prev => {
+            if (!prev[date]) return prev;
+            const analyses = [...(prev[date].analyses || []), analysis];
+            return { ...prev, [date]: { ...prev[date], analyses } };
+        });
+    };
+
+    const handleDeleteAnalysis = (date: string, analysisId: string) => {
+        setHistory(prev => {
+            if (!prev[date]) return prev;
+            const analyses = (prev[date].analyses || []).filter(analysis => analysis.id !== analysisId);
+            return { ...prev, [date]: { ...prev[date], analyses } };
+        });
+    };
+
     const memoizedTotals = useMemo(() => calculateTotals(dishIngredients), [dishIngredients]);
 
     const todayEntry = history[todayKey];
     const heroStats = useMemo(() => {
-        const targetCalories = userProfile?.dailyGoals?.targetCalories;
+        const targetCalories = resolveGoalsForDate(userProfile?.dailyGoals, userProfile?.goalSchedule, todayKey)?.goals.targetCalories;
         const todayCalories = todayEntry?.dailyTotals?.calories ?? 0;
         const todayMeals = todayEntry ? Object.keys(todayEntry.meals).length : 0;
         return [
@@ -247,7 +402,7 @@ const App = () => {
                 helper: 'Готовые пресеты',
             },
         ];
-    }, [todayEntry, userProfile, savedDishes]);
+    }, [todayEntry, userProfile, savedDishes, todayKey]);
 
     const currentDishStats = useMemo(() => ([
         { label: 'Калории', value: `${Math.round(memoizedTotals.calories)} ккал` },
@@ -256,11 +411,67 @@ const App = () => {
         { label: 'Углеводы', value: `${memoizedTotals.carbohydrate.toFixed(1)} г` },
     ]), [memoizedTotals]);
 
-    const isReady = !!config && !!config.providers[config.currentProviderId];
+    // Без настроенного провайдера работают база продуктов и ручной ввод; AI-функции сообщают, что их нужно подключить
+    const aiConfig = useMemo<ApiConfig>(() => config || { currentProviderId: DEFAULT_PROVIDER_ID, providers: {} }, [config]);
+    const isAIReady = getCurrentProviderConfig(aiConfig).isConfigured;
 
+    // Изменённые нормы становятся новой версией с сегодняшнего дня: прошлые дни остаются со своими нормами
     const handleSaveProfile = (profile: UserProfileType) => {
         saveUserProfile(profile);
         setUserProfile(profile);
+
+        const versions = recordGoalVersion(goalVersions, profile, todayKey);
+        if (versions === goalVersions) return;
+        saveGoalVersions(versions);
+        setGoalVersions(versions);
+        setHistory(prev => {
+            const updated = { ...prev };
+            // Новые нормы действуют с сегодняшнего дня — и для дней, ранее привязанных к другой версии
+            Object.keys(prev).filter(date => date >= todayKey).forEach(date => {
+                const version = getGoalVersionForDate(versions, date);
+                updated[date] = version ? applyGoalVersionToEntry(prev[date], date, version) : prev[date];
+            });
+            return updated;
+        });
+    };
+
+    // Явный пересчёт выбранных дней по текущим нормам
+    const handleRecomputeWithCurrentGoals = (dates: string[]) => {
+        const currentVersion = getCurrentGoalVersion(goalVersions);
+        if (!currentVersion) return;
+        setHistory(prev => {
+            const updated = { ...prev };
+            dates.filter(date => prev[date]).forEach(date => {
+                updated[date] = applyGoalVersionToEntry(prev[date], date, currentVersion);
+            });
+            return updated;
+        });
+    };
+
+    const handleChangeBodyMetrics = (entries: BodyMetricEntry[]) => {
+        saveBodyMetrics(entries);
+        setBodyMetrics(entries);
+        setIsDriftDismissed(false);
+    };
+
+    const weightTrend = useMemo(() => calculateWeightTrend(bodyMetrics), [bodyMetrics]);
+    const weightDrift = useMemo(() => getWeightDrift(weightTrend, userProfile), [weightTrend, userProfile]);
+
+    // Переносит вес по тренду (и последний процент жира) в профиль и пересчитывает нормы по формуле
+    const handleRecalculateGoals = () => {
+        if (!userProfile || !weightDrift) return;
+        const latestBodyFat = getLatestMetric(bodyMetrics, 'bodyFatPercent');
+        const updatedProfile: UserProfileType = {
+            ...userProfile,
+            weight: Math.round(weightDrift.trendWeight * 10) / 10,
+            bodyFatPercent: latestBodyFat?.value ?? userProfile.bodyFatPercent,
+        };
+        try {
+            handleSaveProfile({ ...updatedProfile, dailyGoals: calculateGoalsLocally(updatedProfile).goals });
+        } catch (error) {
+            console.error('Error recalculating goals:', error);
+            alert(error instanceof Error ? error.message : 'Не удалось пересчитать нормы');
+        }
     };
 
     const hasProfile = Boolean(userProfile?.name);
@@ -270,19 +481,29 @@ const App = () => {
             <ApiKeyManager
                 config={config}
                 setConfig={setConfig}
-                isOpen={!config || isApiModalOpen}
+                isOpen={isApiModalOpen}
                 onClose={() => setIsApiModalOpen(false)}
             />
             
-            {config && (
-                <UserProfile
-                    isOpen={isProfileModalOpen}
-                    onClose={() => setIsProfileModalOpen(false)}
-                    profile={userProfile}
-                    onSave={handleSaveProfile}
-                    config={config}
-                />
-            )}
+            <UserProfile
+                isOpen={isProfileModalOpen}
+                onClose={() => setIsProfileModalOpen(false)}
+                profile={userProfile}
+                onSave={handleSaveProfile}
+                config={aiConfig}
+                history={history}
+                weightTrend={weightTrend}
+                goalVersions={goalVersions}
+            />
+
+            <BodyMetrics
+                isOpen={isMetricsModalOpen}
+                onClose={() => setIsMetricsModalOpen(false)}
+                entries={bodyMetrics}
+                onChange={handleChangeBodyMetrics}
+                drift={weightDrift}
+                onRecalculateGoals={handleRecalculateGoals}
+            />
             
             <header className="px-2 sm:px-4 lg:px-8 py-2 sm:py-3 animate-fade-up stagger-1">
                 <div className="glass-panel px-3 sm:px-5 lg:px-6 py-2.5 sm:py-3 flex items-center justify-between gap-3">
@@ -299,181 +520,223 @@ const App = () => {
                             </p>
                         </div>
                     </div>
-                    {isReady && (
-                        <div className="flex gap-1.5 sm:gap-2">
-                            <button 
-                                onClick={() => setIsProfileModalOpen(true)} 
-                                className="mono-button text-xs px-2.5 sm:px-3 py-1.5"
-                            >
-                                <span className="hidden sm:inline">👤 </span>Профиль
-                            </button>
-                            <button 
-                                onClick={() => setIsApiModalOpen(true)} 
-                                className="mono-button primary-cta text-xs px-2.5 sm:px-3 py-1.5"
-                            >
-                                <span className="hidden sm:inline">⚙️ </span>API
-                            </button>
-                        </div>
-                    )}
+                    <div className="flex gap-1.5 sm:gap-2">
+                        <button 
+                            onClick={() => setIsProfileModalOpen(true)} 
+                            className="mono-button text-xs px-2.5 sm:px-3 py-1.5"
+                        >
+                            <span className="hidden sm:inline">👤 </span>Профиль
+                        </button>
+                        <button 
+                            onClick={() => setIsMetricsModalOpen(true)} 
+                            className="mono-button text-xs px-2.5 sm:px-3 py-1.5"
+                        >
+                            <span className="hidden sm:inline">⚖️ </span>Вес
+                        </button>
+                        <button 
+                            onClick={() => setIsApiModalOpen(true)} 
+                            className="mono-button primary-cta text-xs px-2.5 sm:px-3 py-1.5"
+                        >
+                            <span className="hidden sm:inline">⚙️ </span>API
+                        </button>
+                    </div>
                 </div>
             </header>
             
-            {isReady ? (
-                <main className="px-2 sm:px-4 lg:px-8 pb-4 sm:pb-10 space-y-3 sm:space-y-6">
-                    {/* Hero секция только на десктопе */}
-                    <section className="hero-section relative overflow-hidden hidden lg:block animate-fade-up stagger-2">
-                        <div className="flex flex-col gap-4 lg:flex-row lg:items-center lg:gap-8">
-                            <div className="flex-1">
-                                <p className="floating-badge mb-3">✨ Умный контроль питания</p>
-                                <h2 className="text-2xl sm:text-3xl font-semibold leading-tight text-gray-900">
-                                    {hasProfile ? 'Ваша персональная панель' : 'Создайте свой центр питания'}
-                                </h2>
-                                <p className="text-gray-600 mt-3 max-w-2xl text-sm sm:text-base leading-relaxed">
-                                    Анализируйте рацион, создавайте блюда и достигайте целей в одном месте.
-                                </p>
-                                <div className="flex flex-wrap gap-3 mt-5">
-                                    <button 
-                                        className="mono-button primary-cta"
-                                        onClick={() => setIsProfileModalOpen(true)}
-                                    >
-                                        👤 Настроить профиль
-                                    </button>
-                                    <button 
-                                        className="mono-button"
-                                        onClick={() => setActiveView('history')}
-                                    >
-                                        📊 История питания
-                                    </button>
-                                </div>
-                            </div>
-                            {dishIngredients.length > 0 && (
-                                <div className="glass-panel px-5 py-5 lg:w-96 hover-glow">
-                                    <p className="text-xs uppercase tracking-[0.15em] text-gray-500 font-semibold mb-3">🍳 Текущее блюдо</p>
-                                    <div className="grid grid-cols-2 gap-3">
-                                        {currentDishStats.map(stat => (
-                                            <div key={stat.label} className="metric-pill text-left">
-                                                <p className="text-xs text-gray-500 mb-1">{stat.label}</p>
-                                                <p className="text-lg font-semibold text-gray-900">{stat.value}</p>
-                                            </div>
-                                        ))}
-                                    </div>
-                                </div>
-                            )}
-                        </div>
-                        <div className="hero-grid">
-                            {heroStats.map((stat, idx) => (
-                                <div key={stat.label} className={`metric-pill animate-fade-up stagger-${idx + 3}`}>
-                                    <p className="text-xs text-gray-500 mb-1">{stat.label}</p>
-                                    <h3 className="text-xl font-semibold text-gray-900">{stat.value}</h3>
-                                    <p className="text-xs text-gray-500 mt-1.5">{stat.helper}</p>
-                                </div>
-                            ))}
-                        </div>
-                    </section>
-
-                    {/* Навигация */}
-                    {isReady && (
-                        <div className="glass-panel px-2 sm:px-4 py-2 animate-fade-up stagger-2 lg:stagger-3">
-                            <div className="flex gap-1.5 sm:gap-2 w-full">
-                                <MainTabButton 
-                                    isActive={activeView === 'builder'} 
-                                    onClick={() => setActiveView('builder')} 
-                                    badge={dishIngredients.length}
+            <main className="px-2 sm:px-4 lg:px-8 pb-4 sm:pb-10 space-y-3 sm:space-y-6">
+                {/* Hero секция только на десктопе */}
+                <section className="hero-section relative overflow-hidden hidden lg:block animate-fade-up stagger-2">
+                    <div className="flex flex-col gap-4 lg:flex-row lg:items-center lg:gap-8">
+                        <div className="flex-1">
+                            <p className="floating-badge mb-3">✨ Умный контроль питания</p>
+                            <h2 className="text-2xl sm:text-3xl font-semibold leading-tight text-gray-900">
+                                {hasProfile ? 'Ваша персональная панель' : 'Создайте свой центр питания'}
+                            </h2>
+                            <p className="text-gray-600 mt-3 max-w-2xl text-sm sm:text-base leading-relaxed">
+                                Анализируйте рацион, создавайте блюда и достигайте целей в одном месте.
+                            </p>
+                            <div className="flex flex-wrap gap-3 mt-5">
+                                <button 
+                                    className="mono-button primary-cta"
+                                    onClick={() => setIsProfileModalOpen(true)}
                                 >
-                                    🔬 Анализ
-                                </MainTabButton>
-                                <MainTabButton 
-                                    isActive={activeView === 'history'} 
+                                    👤 Настроить профиль
+                                </button>
+                                <button 
+                                    className="mono-button"
                                     onClick={() => setActiveView('history')}
                                 >
-                                    📅 История
-                                </MainTabButton>
-                                <MainTabButton 
-                                    isActive={activeView === 'dishes'} 
-                                    onClick={() => setActiveView('dishes')}
-                                    badge={savedDishes.length}
-                                >
-                                    📚 Блюда
-                                </MainTabButton>
+                                    📊 История питания
+                                </button>
                             </div>
                         </div>
-                    )}
+                        {dishIngredients.length > 0 && (
+                            <div className="glass-panel px-5 py-5 lg:w-96 hover-glow">
+                                <p className="text-xs uppercase tracking-[0.15em] text-gray-500 font-semibold mb-3">🍳 Текущее блюдо</p>
+                                <div className="grid grid-cols-2 gap-3">
+                                    {currentDishStats.map(stat => (
+                                        <div key={stat.label} className="metric-pill text-left">
+                                            <p className="text-xs text-gray-500 mb-1">{stat.label}</p>
+                                            <p className="text-lg font-semibold text-gray-900">{stat.value}</p>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                    <div className="hero-grid">
+                        {heroStats.map((stat, idx) => (
+                            <div key={stat.label} className={`metric-pill animate-fade-up stagger-${idx + 3}`}>
+                                <p className="text-xs text-gray-500 mb-1">{stat.label}</p>
+                                <h3 className="text-xl font-semibold text-gray-900">{stat.value}</h3>
+                                <p className="text-xs text-gray-500 mt-1.5">{stat.helper}</p>
+                            </div>
+                        ))}
+                    </div>
+                </section>
+
+                {weightDrift && !isDriftDismissed && (
+                    <div className="glass-panel px-3 sm:px-5 py-3 flex flex-col sm:flex-row sm:items-center gap-2 border border-amber-200 animate-fade-up">
+                        <p className="text-sm text-gray-700 flex-1">
+                            ⚖️ Вес по тренду — {weightDrift.trendWeight.toFixed(1)} кг, а в профиле указано {weightDrift.profileWeight} кг. Пересчитать дневные нормы?
+                        </p>
+                        <div className="flex gap-2">
+                            <button onClick={() => setIsDriftDismissed(true)} className="mono-button text-sm">
+                                Позже
+                            </button>
+                            <button onClick={handleRecalculateGoals} className="mono-button primary-cta text-sm">
+                                Пересчитать
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {/* Навигация */}
+                <div className="glass-panel px-2 sm:px-4 py-2 animate-fade-up stagger-2 lg:stagger-3">
+                    <div className="flex gap-1.5 sm:gap-2 w-full">
+                        <MainTabButton 
+                            isActive={activeView === 'builder'} 
+                            onClick={() => setActiveView('builder')} 
+                            badge={dishIngredients.length}
+                        >
+                            🔬 Анализ
+                        </MainTabButton>
+                        <MainTabButton 
+                            isActive={activeView === 'history'} 
+                            onClick={() => setActiveView('history')}
+                        >
+                            📅 История
+                        </MainTabButton>
+                        <MainTabButton 
+                            isActive={activeView === 'dishes'} 
+                            onClick={() => setActiveView('dishes')}
+                            badge={savedDishes.length}
+                        >
+                            📚 Блюда
+                        </MainTabButton>
+                    </div>
+                </div>
 
-                    {activeView === 'builder' && (
-                        <div className="grid gap-3 sm:gap-5 lg:grid-cols-12">
-                            <div className="lg:col-span-5 space-y-3 sm:space-y-5 animate-slide-left stagger-3 lg:stagger-4">
+                {activeView === 'builder' && (
+                    <div className="grid gap-3 sm:gap-5 lg:grid-cols-12">
+                        <div className="lg:col-span-5 space-y-3 sm:space-y-5 animate-slide-left stagger-3 lg:stagger-4">
+                            {isAIReady ? (
                                 <MealAnalyzer
                                     onAnalysisComplete={handleAnalysisComplete}
-                                    config={config}
+                                    config={aiConfig}
                                     calculatePer100g={calculatePer100g}
                                     onCalculatePer100gChange={handleCalculatePer100gChange}
                                 />
-                                <IngredientSearch 
-                                    onAddIngredient={handleAddIngredient} 
-                                    savedDishes={savedDishes}
-                                />
-                            </div>
-                            <div className="lg:col-span-7 animate-slide-right stagger-4 lg:stagger-5">
-                                <DishBuilder 
-                                    ingredients={dishIngredients} 
-                                    totals={memoizedTotals} 
-                                    onUpdateWeight={handleUpdateIngredientWeight} 
-                                    onRemove={handleRemoveIngredient} 
-                                    onClear={handleClearDish} 
-                                    onSave={handleSaveDish}
-                                    onRefreshSavedDishes={loadDishes}
-                                />
-                            </div>
+                            ) : (
+                                <div className="glass-panel px-4 sm:px-6 py-5 flex items-start gap-4">
+                                    <div className="w-12 h-12 flex-shrink-0 rounded-2xl bg-gradient-to-br from-[#e07a5f] to-[#d06b4f] flex items-center justify-center shadow-lg">
+                                        <span className="text-2xl">🔑</span>
+                                    </div>
+                                    <div className="space-y-2">
+                                        <h2 className="text-lg font-semibold text-gray-900">AI не подключён</h2>
+                                        <p className="text-sm text-gray-600 leading-relaxed">
+                                            Продукты из встроенной базы и свои блюда можно добавлять уже сейчас. Чтобы анализировать фото и описания блюд, подключите токен и выберите модель ИИ.
+                                        </p>
+                                        <button 
+                                            onClick={() => setIsApiModalOpen(true)} 
+                                            className="mono-button primary-cta text-sm"
+                                        >
+                                            ⚙️ Настроить AI
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+                            <IngredientSearch 
+                                onAddIngredient={handleAddIngredient} 
+                                savedDishes={savedDishes}
+                                config={aiConfig}
+                                onRefreshSavedDishes={loadDishes}
+                            />
                         </div>
-                    )}
-
-                    {activeView === 'dishes' && (
-                        <MyDishes
-                            dishes={savedDishes}
-                            onAddDish={(dish) => {
-                                saveDishToLibrary({ ...dish, id: crypto.randomUUID() });
-                                loadDishes();
-                            }}
-                            onUpdateDish={(id, dish) => {
-                                updateDishInLibrary(id, { ...dish, id });
-                                loadDishes();
-                            }}
-                            onDeleteDish={(id) => {
-                                deleteDishFromLibrary(id);
-                                loadDishes();
-                            }}
-                        />
-                    )}
-
-                    {activeView === 'history' && (
-                        <HistoryView 
-                            history={history} 
-                            onRemoveMeal={handleRemoveMeal} 
-                            onClearDay={handleClearDay}
-                            config={config}
-                            userProfile={userProfile}
-                        />
-                    )}
-                </main>
-            ) : (
-                <main className="px-2 sm:px-4 lg:px-8 pb-10 flex items-center justify-center min-h-[60vh]">
-                    <div className="glass-panel px-8 py-10 text-center max-w-md animate-scale-in">
-                        <div className="w-16 h-16 mx-auto mb-5 rounded-2xl bg-gradient-to-br from-[#e07a5f] to-[#d06b4f] flex items-center justify-center shadow-lg">
-                            <span className="text-3xl">🔑</span>
+                        <div className="lg:col-span-7 space-y-3 sm:space-y-5 animate-slide-right stagger-4 lg:stagger-5">
+                            <DishBuilder 
+                                ingredients={dishIngredients} 
+                                totals={memoizedTotals} 
+                                onUpdateWeight={handleUpdateIngredientWeight} 
+                                onScale={handleScaleDish}
+                                onRemove={handleRemoveIngredient} 
+                                onClear={handleClearDish} 
+                                onSave={handleSaveDish}
+                                mealSlots={mealSlots}
+                                onAddMealSlot={(slot) => handleUpdateMealSlots([...customMealSlots, slot])}
+                                onRemoveMealSlot={(type) => handleUpdateMealSlots(customMealSlots.filter(slot => slot.type !== type))}
+                                onRefreshSavedDishes={loadDishes}
+                                editingRecipe={editingRecipe}
+                                onFinishRecipeEdit={() => setEditingRecipe(null)}
+                                editingMeal={editingMeal}
+                                todayKey={todayKey}
+                            />
+                            <WaterTracker
+                                water={todayEntry?.water}
+                                goalMl={waterGoal}
+                                onAdd={handleAddWater}
+                                onRemove={(entryId) => handleRemoveWater(todayKey, entryId)}
+                            />
                         </div>
-                        <h2 className="text-2xl font-semibold mb-3 text-gray-900">Настройка API</h2>
-                        <p className="text-gray-600 mb-6 leading-relaxed">
-                            Подключите токен и выберите модель ИИ, чтобы открыть весь функционал калькулятора.
-                        </p>
-                        <button 
-                            onClick={() => setIsApiModalOpen(true)} 
-                            className="mono-button primary-cta px-6 py-2.5"
-                        >
-                            ⚙️ Настроить сейчас
-                        </button>
                     </div>
-                </main>
-            )}
+                )}
+
+                {activeView === 'dishes' && (
+                    <MyDishes
+                        dishes={savedDishes}
+                        onAddDish={(dish) => {
+                            saveDishToLibrary({ ...dish, id: crypto.randomUUID() });
+                            loadDishes();
+                        }}
+                        onUpdateDish={(id, dish) => {
+                            updateDishInLibrary(id, { ...dish, id });
+                            loadDishes();
+                        }}
+                        onDeleteDish={(id) => {
+                            deleteDishFromLibrary(id);
+                            loadDishes();
+                        }}
+                        onOpenRecipe={handleOpenRecipe}
+                    />
+                )}
+
+                {activeView === 'history' && (
+                    <HistoryView 
+                        history={history} 
+                        onRemoveMeal={handleRemoveMeal} 
+                        onClearDay={handleClearDay}
+                        onTransferMeal={handleTransferMeal}
+                        onEditMeal={handleEditMeal}
+                        onSaveAnalysis={handleSaveAnalysis}
+                        onDeleteAnalysis={handleDeleteAnalysis}
+                        onRecomputeGoals={handleRecomputeWithCurrentGoals}
+                        goalVersions={goalVersions}
+                        mealSlots={mealSlots}
+                        config={aiConfig}
+                        userProfile={userProfile}
+                    />
+                )}
+            </main>
         </div>
     );
 };
@@ -0,0 +1,187 @@
+import { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { CloseIcon, SpinnerIcon, TrashIcon } from './ui/Icons';
+import { AICacheEntry, AICacheKind, AICacheSettings } from '../types';
+import {
+    loadCacheSettings,
+    saveCacheSettings,
+    listCacheEntries,
+    deleteCacheEntry,
+    clearCache,
+    pruneExpiredEntries,
+} from '../services/aiCache';
+
+interface AICacheManagerProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const KIND_LABELS: Record<AICacheKind, string> = {
+    text: 'Текст',
+    image: 'Фото',
+    ingredient: 'Продукт',
+};
+
+const formatDateTime = (timestamp: number) => new Date(timestamp).toLocaleString('ru-RU', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+});
+
+const formatSize = (bytes: number) => bytes < 1024 ? `${bytes} Б` : `${(bytes / 1024).toFixed(1)} КБ`;
+
+const AICacheManager = ({ isOpen, onClose }: AICacheManagerProps) => {
+    const [entries, setEntries] = useState<AICacheEntry[]>([]);
+    const [settings, setSettings] = useState<AICacheSettings>(loadCacheSettings);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadEntries = async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            await pruneExpiredEntries();
+            setEntries(await listCacheEntries());
+        } catch (err) {
+            console.error('Error loading AI cache:', err);
+            setError((err as Error).message || 'Не удалось прочитать кэш');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setSettings(loadCacheSettings());
+        loadEntries();
+    }, [isOpen]);
+
+    const handleSettingsChange = (next: AICacheSettings) => {
+        setSettings(next);
+        try {
+            saveCacheSettings(next);
+        } catch (err) {
+            setError((err as Error).message);
+        }
+    };
+
+    const handleDelete = async (key: string) => {
+        await deleteCacheEntry(key);
+        setEntries(entries.filter(entry => entry.key !== key));
+    };
+
+    const handleClear = async () => {
+        if (!confirm('Удалить все сохранённые ответы AI?')) return;
+        await clearCache();
+        setEntries([]);
+    };
+
+    if (!isOpen) return null;
+
+    const totalSize = entries.reduce((sum, entry) => sum + JSON.stringify(entry.value).length, 0);
+
+    return createPortal(
+        <div
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[9999] p-2 sm:p-4"
+            onClick={onClose}
+        >
+            <div
+                className="bg-white w-full max-w-lg space-y-4 p-4 sm:p-6 rounded-2xl shadow-2xl overflow-y-auto max-h-[90vh] relative"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <button
+                    onClick={onClose}
+                    className="absolute top-2 right-2 p-1 text-gray-500 hover:text-gray-700 rounded-full hover:bg-gray-100 transition-colors"
+                    aria-label="Закрыть"
+                >
+                    <CloseIcon />
+                </button>
+
+                <div>
+                    <h3 className="text-lg font-semibold text-gray-900">Кэш ответов AI</h3>
+                    <p className="text-xs text-gray-500 mt-1">
+                        Повторные запросы с тем же текстом или фото для той же модели берутся из памяти браузера — мгновенно и без сети
+                    </p>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-3">
+                    <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer select-none">
+                        <input
+                            type="checkbox"
+                            checked={settings.enabled}
+                            onChange={(e) => handleSettingsChange({ ...settings, enabled: e.target.checked })}
+                        />
+                        Использовать кэш
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                        Хранить
+                        <input
+                            type="number"
+                            min={1}
+                            max={365}
+                            value={settings.ttlDays}
+                            onChange={(e) => handleSettingsChange({
+                                ...settings,
+                                ttlDays: Math.min(Math.max(parseInt(e.target.value) || 1, 1), 365),
+                            })}
+                            className="glow-input w-20"
+                        />
+                        дн.
+                    </label>
+                </div>
+                <p className="text-xs text-gray-500 -mt-2">
+                    Новый срок применяется к ответам, сохранённым после изменения
+                </p>
+
+                <div className="flex items-center justify-between gap-2 text-sm text-gray-600">
+                    <span>Записей: {entries.length} · {formatSize(totalSize)}</span>
+                    {entries.length > 0 && (
+                        <button
+                            onClick={handleClear}
+                            className="mono-button text-sm text-red-600 hover:text-red-700 border-red-300 hover:border-red-400"
+                        >
+                            Очистить кэш
+                        </button>
+                    )}
+                </div>
+
+                {error && <p className="text-red-600 text-xs bg-red-50 border border-red-200 rounded-lg p-2">{error}</p>}
+
+                {isLoading ? (
+                    <div className="flex items-center justify-center py-6">
+                        <SpinnerIcon className="animate-spin h-6 w-6 text-gray-500" />
+                    </div>
+                ) : entries.length === 0 ? (
+                    <p className="text-sm text-gray-500 text-center py-4">Кэш пуст</p>
+                ) : (
+                    <ul className="space-y-2">
+                        {entries.map(entry => (
+                            <li key={entry.key} className="rounded-lg border border-gray-200 p-2 flex items-start gap-2">
+                                <span className="chip text-[10px] flex-shrink-0">{KIND_LABELS[entry.kind]}</span>
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm font-medium text-gray-900 break-words">{entry.label}</p>
+                                    <p className="text-[11px] text-gray-500">{entry.answeredBy}</p>
+                                    <p className="text-[11px] text-gray-500">
+                                        {formatDateTime(entry.createdAt)} · до {formatDateTime(entry.expiresAt)}
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={() => handleDelete(entry.key)}
+                                    className="p-1 text-gray-400 hover:text-red-600 flex-shrink-0"
+                                    aria-label="Удалить запись"
+                                >
+                                    <TrashIcon />
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>,
+        document.body
+    );
+};
+
+export default AICacheManager;
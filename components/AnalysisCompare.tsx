@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { CloseIcon } from './ui/Icons';
+import { DayAnalysis, History } from '../types';
+import { formatDate } from '../utils/calculations';
+import { compareWithDay, getLatestAnalysis, getNextRecordedDate } from '../utils/dayAnalyses';
+
+interface AnalysisCompareProps {
+    history: History;
+    date: string;
+    analysis: DayAnalysis;
+    onClose: () => void;
+}
+
+const formatValue = (value: number, unit: string) => unit === 'ккал' ? Math.round(value).toString() : value.toFixed(1);
+
+/**
+ * Сравнение дня, для которого давались советы, с другим днём:
+ * приблизились ли итоги к целям, действовавшим на момент анализа
+ */
+const AnalysisCompare = ({ history, date, analysis, onClose }: AnalysisCompareProps) => {
+    const otherDates = Object.keys(history).filter(other => other !== date).sort((a, b) => b.localeCompare(a));
+    const [otherDate, setOtherDate] = useState<string>(getNextRecordedDate(history, date) || otherDates[0] || '');
+
+    const otherEntry = otherDate ? history[otherDate] : undefined;
+    const rows = otherEntry ? compareWithDay(analysis, otherEntry) : [];
+    const otherAnalysis = getLatestAnalysis(otherEntry);
+    const improvedCount = rows.filter(row => row.improved === true).length;
+    const worsenedCount = rows.filter(row => row.improved === false).length;
+
+    return createPortal(
+        <div
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[9999] p-2 sm:p-4"
+            onClick={onClose}
+        >
+            <div
+                className="bg-white w-full max-w-3xl space-y-4 p-4 sm:p-6 rounded-2xl shadow-2xl overflow-y-auto max-h-[90vh] relative"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <button
+                    onClick={onClose}
+                    className="absolute top-2 right-2 p-1 text-gray-500 hover:text-gray-700 rounded-full hover:bg-gray-100 transition-colors"
+                    aria-label="Закрыть"
+                >
+                    <CloseIcon />
+                </button>
+
+                <h3 className="text-lg font-semibold text-gray-900 pr-8">
+                    Выполнены ли советы за {formatDate(date)}?
+                </h3>
+
+                {otherDates.length === 0 ? (
+                    <p className="text-sm text-gray-500">Для сравнения нужен ещё хотя бы один день в истории.</p>
+                ) : (
+                    <>
+                        <label className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+                            Сравнить с днём
+                            <select
+                                value={otherDate}
+                                onChange={(e) => setOtherDate(e.target.value)}
+                                className="glow-input"
+                            >
+                                {otherDates.map(other => (
+                                    <option key={other} value={other}>{formatDate(other)}</option>
+                                ))}
+                            </select>
+                        </label>
+
+                        {!analysis.goals && (
+                            <p className="text-xs text-amber-600">
+                                На момент анализа цели не были заданы — видна только разница в итогах.
+                            </p>
+                        )}
+
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-xs sm:text-sm">
+                                <thead>
+                                    <tr className="text-left text-gray-500 border-b border-gray-200">
+                                        <th className="py-1 pr-2 font-medium">Показатель</th>
+                                        <th className="py-1 px-2 font-medium text-right">Цель</th>
+                                        <th className="py-1 px-2 font-medium text-right">{formatDate(date)}</th>
+                                        <th className="py-1 px-2 font-medium text-right">{otherDate && formatDate(otherDate)}</th>
+                                        <th className="py-1 pl-2" />
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {rows.map(row => (
+                                        <tr key={row.key} className="border-b border-gray-100">
+                                            <td className="py-1 pr-2 text-gray-700">{row.label}, {row.unit}</td>
+                                            <td className="py-1 px-2 text-right text-gray-500">
+                                                {row.target !== null ? formatValue(row.target, row.unit) : '—'}
+                                            </td>
+                                            <td className="py-1 px-2 text-right text-gray-900">{formatValue(row.base, row.unit)}</td>
+                                            <td className="py-1 px-2 text-right text-gray-900">{formatValue(row.other, row.unit)}</td>
+                                            <td className={`py-1 pl-2 text-right font-semibold ${row.improved === true ? 'text-emerald-600' : row.improved === false ? 'text-red-600' : 'text-gray-400'}`}>
+                                                {row.improved === true ? 'ближе к цели' : row.improved === false ? 'дальше' : '—'}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+
+                        {analysis.goals && (
+                            <p className="text-sm text-gray-700">
+                                Ближе к цели: {improvedCount} из {rows.length}, дальше: {worsenedCount}
+                            </p>
+                        )}
+                    </>
+                )}
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <div>
+                        <p className="text-xs font-semibold text-gray-500 mb-1">Советы за {formatDate(date)}</p>
+                        <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 whitespace-pre-wrap text-xs sm:text-sm leading-relaxed text-gray-700">
+                            {analysis.text}
+                        </div>
+                    </div>
+                    {otherDate && (
+                        <div>
+                            <p className="text-xs font-semibold text-gray-500 mb-1">Анализ за {formatDate(otherDate)}</p>
+                            <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 whitespace-pre-wrap text-xs sm:text-sm leading-relaxed text-gray-700">
+                                {otherAnalysis ? otherAnalysis.text : 'Для этого дня анализа нет'}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>,
+        document.body
+    );
+};
+
+export default AnalysisCompare;
@@ -1,8 +1,17 @@
 import { useState, useEffect } from 'react';
 import { CloseIcon, SearchIcon, SpinnerIcon } from './ui/Icons';
-import { ApiConfig } from '../types';
-import { API_PROVIDERS, DEFAULT_PROVIDER_ID } from '../constants/apiProviders';
-import { fetchModels } from '../services/aiService';
+import { ApiConfig, ApiProvider, ApiProtocol, AuthStyle } from '../types';
+import {
+    API_PROVIDERS,
+    DEFAULT_PROVIDER_ID,
+    CUSTOM_PROVIDER_ID_PREFIX,
+    DEFAULT_REQUEST_SETTINGS,
+    resolveProvider,
+} from '../constants/apiProviders';
+import { fetchModels, getProviderConfig } from '../services/aiService';
+import { getAIErrorMessage } from '../services/aiErrors';
+import AICacheManager from './AICacheManager';
+import UsageDashboard from './UsageDashboard';
 
 interface ApiKeyManagerProps {
     config: ApiConfig | null;
@@ -11,31 +20,99 @@ interface ApiKeyManagerProps {
     onClose: () => void;
 }
 
+interface CustomProviderForm {
+    name: string;
+    baseUrl: string;
+    protocol: ApiProtocol;
+    authStyle: AuthStyle;
+    authHeaderName: string;
+    extraHeaders: string;
+}
+
+const NEW_CUSTOM_PROVIDER = 'custom';
+
+const EMPTY_CUSTOM_FORM: CustomProviderForm = {
+    name: '',
+    baseUrl: '',
+    protocol: 'openai',
+    authStyle: 'bearer',
+    authHeaderName: '',
+    extraHeaders: '',
+};
+
+const isCustomProviderId = (id: string) => id === NEW_CUSTOM_PROVIDER || id.startsWith(CUSTOM_PROVIDER_ID_PREFIX);
+
+// Дополнительные заголовки вводятся построчно в формате «Имя: значение»
+const parseExtraHeaders = (text: string): { [header: string]: string } => {
+    const headers: { [header: string]: string } = {};
+    text.split('\n').forEach(line => {
+        const separatorIndex = line.indexOf(':');
+        if (separatorIndex <= 0) return;
+        const name = line.slice(0, separatorIndex).trim();
+        const value = line.slice(separatorIndex + 1).trim();
+        if (name) headers[name] = value;
+    });
+    return headers;
+};
+
+const formatExtraHeaders = (headers?: { [header: string]: string }): string => {
+    return Object.entries(headers || {}).map(([name, value]) => `${name}: ${value}`).join('\n');
+};
+
+const toCustomForm = (provider: ApiProvider): CustomProviderForm => ({
+    name: provider.name,
+    baseUrl: provider.baseUrl,
+    protocol: provider.protocol,
+    authStyle: provider.authStyle || 'bearer',
+    authHeaderName: provider.authHeaderName || '',
+    extraHeaders: formatExtraHeaders(provider.extraHeaders),
+});
+
 const ApiKeyManager = ({ config, setConfig, isOpen, onClose }: ApiKeyManagerProps) => {
     const [currentProviderId, setCurrentProviderId] = useState(DEFAULT_PROVIDER_ID);
     const [tempToken, setTempToken] = useState('');
     const [tempModel, setTempModel] = useState('');
-    const [customEndpoint, setCustomEndpoint] = useState('');
+    const [customForm, setCustomForm] = useState<CustomProviderForm>(EMPTY_CUSTOM_FORM);
+    const [draftCustomId, setDraftCustomId] = useState('');
     const [availableModels, setAvailableModels] = useState<{ id: string; name: string }[]>([]);
     const [isLoadingModels, setIsLoadingModels] = useState(false);
     const [modelSearch, setModelSearch] = useState('');
     const [error, setError] = useState<string | null>(null);
-    const [showCustomEndpoint, setShowCustomEndpoint] = useState(false);
+    const [timeoutSeconds, setTimeoutSeconds] = useState(String(DEFAULT_REQUEST_SETTINGS.timeoutSeconds));
+    const [maxRetries, setMaxRetries] = useState(String(DEFAULT_REQUEST_SETTINGS.maxRetries));
+    const [fallbackIds, setFallbackIds] = useState<string[]>([]);
+    const [isCacheOpen, setIsCacheOpen] = useState(false);
+    const [isUsageOpen, setIsUsageOpen] = useState(false);
+
+    const showCustomEndpoint = isCustomProviderId(currentProviderId);
+    const requiresToken = !showCustomEndpoint || customForm.authStyle !== 'none';
+    const hasToken = !requiresToken || !!tempToken.trim();
+
+    const loadProviderState = (providerId: string) => {
+        const providerConfig = config?.providers[providerId];
+        setTempToken(providerConfig?.token || '');
+        setTempModel(providerConfig?.model || '');
+        setAvailableModels(providerConfig?.models || []);
+
+        const customProvider = config?.customProviders?.find(p => p.id === providerId);
+        setCustomForm(customProvider ? toCustomForm(customProvider) : EMPTY_CUSTOM_FORM);
+    };
 
     useEffect(() => {
+        const settings = { ...DEFAULT_REQUEST_SETTINGS, ...(config?.requestSettings || {}) };
+        setTimeoutSeconds(String(settings.timeoutSeconds));
+        setMaxRetries(String(settings.maxRetries));
+        setFallbackIds(config?.fallbackProviderIds || []);
+
         if (isOpen && config) {
             setCurrentProviderId(config.currentProviderId);
-            const providerConfig = config.providers[config.currentProviderId];
-            if (providerConfig) {
-                setTempToken(providerConfig.token || '');
-                setTempModel(providerConfig.model || '');
-                setAvailableModels(providerConfig.models || []);
-            }
+            loadProviderState(config.currentProviderId);
         } else if (isOpen) {
             setCurrentProviderId(DEFAULT_PROVIDER_ID);
             setTempToken('');
             setTempModel('');
             setAvailableModels([]);
+            setCustomForm(EMPTY_CUSTOM_FORM);
         }
     }, [isOpen, config]);
 
@@ -43,42 +120,74 @@ const ApiKeyManager = ({ config, setConfig, isOpen, onClose }: ApiKeyManagerProp
         setCurrentProviderId(providerId);
         setError(null);
         
-        if (providerId === 'custom') {
-            setShowCustomEndpoint(true);
+        if (providerId === NEW_CUSTOM_PROVIDER) {
+            setDraftCustomId(`${CUSTOM_PROVIDER_ID_PREFIX}${crypto.randomUUID()}`);
             setTempToken('');
             setTempModel('');
             setAvailableModels([]);
+            setCustomForm(EMPTY_CUSTOM_FORM);
         } else {
-            setShowCustomEndpoint(false);
-            setCustomEndpoint('');
-            
-            if (config?.providers[providerId]) {
-                const providerConfig = config.providers[providerId];
-                setTempToken(providerConfig.token || '');
-                setTempModel(providerConfig.model || '');
-                setAvailableModels(providerConfig.models || []);
-            } else {
-                setTempToken('');
-                setTempModel('');
-                setAvailableModels([]);
-            }
+            loadProviderState(providerId);
         }
     };
 
+    const effectiveProviderId = currentProviderId === NEW_CUSTOM_PROVIDER ? draftCustomId : currentProviderId;
+
+    const buildCustomProvider = (): ApiProvider => ({
+        id: effectiveProviderId,
+        name: customForm.name.trim(),
+        baseUrl: customForm.baseUrl.trim().replace(/\/+$/, ''),
+        protocol: customForm.protocol,
+        requiresAuth: customForm.authStyle !== 'none',
+        isCustom: true,
+        authStyle: customForm.authStyle,
+        authHeaderName: customForm.authStyle === 'header' ? customForm.authHeaderName.trim() : undefined,
+        extraHeaders: parseExtraHeaders(customForm.extraHeaders),
+    });
+
+    const validateCustomProvider = (): string | null => {
+        if (!customForm.name.trim()) return 'Введите название провайдера';
+        try {
+            const url = new URL(customForm.baseUrl.trim());
+            if (url.protocol !== 'http:' && url.protocol !== 'https:') return 'URL должен начинаться с http:// или https://';
+        } catch {
+            return 'Введите корректный базовый URL API';
+        }
+        if (customForm.authStyle === 'header' && !customForm.authHeaderName.trim()) {
+            return 'Укажите имя заголовка для токена';
+        }
+        return null;
+    };
+
+    const withCustomProvider = (providers: ApiProvider[] = []): ApiProvider[] => {
+        if (!showCustomEndpoint) return providers;
+        const provider = buildCustomProvider();
+        return [...providers.filter(p => p.id !== provider.id), provider];
+    };
+
     const handleFetchModels = async () => {
-        if (!tempToken.trim()) {
+        if (!hasToken) {
             setError('Введите токен для загрузки списка моделей');
             return;
         }
+        if (showCustomEndpoint) {
+            const validationError = validateCustomProvider();
+            if (validationError) {
+                setError(validationError);
+                return;
+            }
+        }
         
         setIsLoadingModels(true);
         setError(null);
         
         try {
             const tempConfig: ApiConfig = {
-                currentProviderId,
+                currentProviderId: effectiveProviderId,
+                customProviders: withCustomProvider(),
+                requestSettings: config?.requestSettings,
                 providers: {
-                    [currentProviderId]: {
+                    [effectiveProviderId]: {
                         token: tempToken,
                         model: tempModel,
                         models: [],
@@ -86,11 +195,11 @@ const ApiKeyManager = ({ config, setConfig, isOpen, onClose }: ApiKeyManagerProp
                 },
             };
             
-            const models = await fetchModels(tempConfig, currentProviderId);
+            const models = await fetchModels(tempConfig, effectiveProviderId);
             setAvailableModels(models);
             setError(null);
         } catch (err) {
-            setError(`Ошибка загрузки моделей: ${(err as Error).message}`);
+            setError(`Ошибка загрузки моделей: ${getAIErrorMessage(err)}`);
             setAvailableModels([]);
         } finally {
             setIsLoadingModels(false);
@@ -108,16 +217,30 @@ const ApiKeyManager = ({ config, setConfig, isOpen, onClose }: ApiKeyManagerProp
         : filteredModels;
 
     const handleSave = () => {
-        if (!tempToken.trim() || !tempModel.trim()) {
-            setError('Введите токен и выберите модель');
+        if (!hasToken || !tempModel.trim()) {
+            setError(requiresToken ? 'Введите токен и выберите модель' : 'Выберите модель');
             return;
         }
+        if (showCustomEndpoint) {
+            const validationError = validateCustomProvider();
+            if (validationError) {
+                setError(validationError);
+                return;
+            }
+        }
         
         const newConfig: ApiConfig = {
-            currentProviderId,
+            ...(config || {}),
+            currentProviderId: effectiveProviderId,
+            customProviders: withCustomProvider(config?.customProviders),
+            fallbackProviderIds: fallbackIds.filter(id => id !== effectiveProviderId),
+            requestSettings: {
+                timeoutSeconds: Math.min(Math.max(parseInt(timeoutSeconds) || DEFAULT_REQUEST_SETTINGS.timeoutSeconds, 5), 600),
+                maxRetries: Math.min(Math.max(parseInt(maxRetries) || 0, 0), 5),
+            },
             providers: {
                 ...(config?.providers || {}),
-                [currentProviderId]: {
+                [effectiveProviderId]: {
                     token: tempToken,
                     model: tempModel,
                     models: availableModels,
@@ -138,6 +261,47 @@ const ApiKeyManager = ({ config, setConfig, isOpen, onClose }: ApiKeyManagerProp
         setAvailableModels([]);
         setError(null);
         setCurrentProviderId(DEFAULT_PROVIDER_ID);
+        setCustomForm(EMPTY_CUSTOM_FORM);
+    };
+
+    const handleDeleteCustomProvider = () => {
+        if (!config || currentProviderId === NEW_CUSTOM_PROVIDER) return;
+        if (!confirm('Удалить этого провайдера?')) return;
+
+        const { [currentProviderId]: _removed, ...providers } = config.providers;
+        const nextProviderId = config.currentProviderId === currentProviderId
+            ? (Object.keys(providers).find(id => resolveProvider(config, id) && id !== currentProviderId) || DEFAULT_PROVIDER_ID)
+            : config.currentProviderId;
+        const newConfig: ApiConfig = {
+            ...config,
+            currentProviderId: nextProviderId,
+            customProviders: (config.customProviders || []).filter(p => p.id !== currentProviderId),
+            fallbackProviderIds: (config.fallbackProviderIds || []).filter(id => id !== currentProviderId),
+            providers,
+        };
+
+        localStorage.setItem('api-config', JSON.stringify(newConfig));
+        setConfig(newConfig);
+        handleProviderChange(nextProviderId);
+    };
+
+    // Резервными могут быть только сохранённые провайдеры с токеном и моделью
+    const fallbackCandidates = config
+        ? Object.keys(config.providers)
+            .filter(id => id !== effectiveProviderId && getProviderConfig(config, id).isConfigured)
+            .map(id => ({ id, ...getProviderConfig(config, id) }))
+        : [];
+    const selectedFallbacks = fallbackIds
+        .map(id => fallbackCandidates.find(candidate => candidate.id === id))
+        .filter(Boolean);
+    const availableFallbacks = fallbackCandidates.filter(candidate => !fallbackIds.includes(candidate.id));
+
+    const handleMoveFallback = (index: number, direction: -1 | 1) => {
+        const ids = selectedFallbacks.map(candidate => candidate.id);
+        const target = index + direction;
+        if (target < 0 || target >= ids.length) return;
+        [ids[index], ids[target]] = [ids[target], ids[index]];
+        setFallbackIds(ids);
     };
 
     if (!isOpen) {
@@ -145,161 +309,372 @@ const ApiKeyManager = ({ config, setConfig, isOpen, onClose }: ApiKeyManagerProp
     }
 
     const currentProvider = API_PROVIDERS.find(p => p.id === currentProviderId);
+    const isSavedCustomProvider = !!config?.customProviders?.some(p => p.id === currentProviderId);
 
     return (
-        <div 
-            className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-2 sm:p-4 animate-fade-in"
-            onClick={onClose}
-        >
+        <>
             <div 
-                className="glass-panel p-3 sm:p-6 w-full max-w-lg relative max-h-[95vh] overflow-y-auto space-y-3 sm:space-y-4 bg-white"
-                onClick={(e) => e.stopPropagation()}
+                className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-2 sm:p-4 animate-fade-in"
+                onClick={onClose}
             >
-                <button 
-                    onClick={onClose} 
-                    className="absolute top-2 right-2 p-1 text-gray-500 hover:text-gray-700 rounded-full hover:bg-gray-100 transition-colors" 
-                    aria-label="Закрыть"
+                <div 
+                    className="glass-panel p-3 sm:p-6 w-full max-w-lg relative max-h-[95vh] overflow-y-auto space-y-3 sm:space-y-4 bg-white"
+                    onClick={(e) => e.stopPropagation()}
                 >
-                    <CloseIcon />
-                </button>
+                    <button 
+                        onClick={onClose} 
+                        className="absolute top-2 right-2 p-1 text-gray-500 hover:text-gray-700 rounded-full hover:bg-gray-100 transition-colors" 
+                        aria-label="Закрыть"
+                    >
+                        <CloseIcon />
+                    </button>
                 
-                <h2 className="text-lg sm:text-xl font-semibold mb-3 text-gray-900">Настройки API</h2>
+                    <h2 className="text-lg sm:text-xl font-semibold mb-3 text-gray-900">Настройки API</h2>
                 
-                <div className="space-y-4">
-                    <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1">
-                            Провайдер API
-                        </label>
-                        <select
-                            value={currentProviderId}
-                            onChange={(e) => handleProviderChange(e.target.value)}
-                            className="glow-input w-full"
-                        >
-                            {API_PROVIDERS.map(provider => (
-                                <option key={provider.id} value={provider.id}>
-                                    {provider.name}
-                                </option>
-                            ))}
-                            <option value="custom">Другой (ввести URL)</option>
-                        </select>
-                        {currentProvider && (
-                            <p className="text-xs text-gray-500 mt-1">
-                                {currentProvider.baseUrl}
-                            </p>
-                        )}
-                    </div>
-
-                    {showCustomEndpoint && (
+                    <div className="space-y-4">
                         <div>
                             <label className="block text-sm font-medium text-gray-700 mb-1">
-                                Базовый URL API
+                                Провайдер API
                             </label>
-                            <input
-                                type="url"
-                                value={customEndpoint}
-                                onChange={(e) => setCustomEndpoint(e.target.value)}
-                                placeholder="https://api.example.com/v1"
-                                className="glow-input w-full"
-                            />
-                        </div>
-                    )}
-
-                    <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1">
-                            Токен API
-                        </label>
-                        <input
-                            type="password"
-                            value={tempToken}
-                            onChange={(e) => setTempToken(e.target.value)}
-                            placeholder="Введите ваш API токен..."
-                            className="glow-input w-full"
-                        />
-                        <p className="text-xs text-gray-500 mt-1">
-                            Токен сохраняется отдельно для каждого провайдера
-                        </p>
-                    </div>
-
-                    <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1">
-                            Модель
-                        </label>
-                        <div className="relative">
-                            <input
-                                type="text"
-                                value={modelSearch}
-                                onChange={(e) => setModelSearch(e.target.value)}
-                                placeholder="Поиск модели..."
-                                className="glow-input w-full pr-10"
-                            />
-                            <SearchIcon className="absolute right-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
-                        </div>
-                        
-                        <button
-                            onClick={handleFetchModels}
-                            disabled={!tempToken.trim() || isLoadingModels}
-                            className="mono-button primary-cta mt-2 w-full flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
-                        >
-                            {isLoadingModels ? <SpinnerIcon /> : null}
-                            {availableModels.length > 0 ? 'Обновить список' : 'Загрузить модели'}
-                        </button>
-                        
-                        {error && <p className="text-red-600 text-xs mt-1 bg-red-50 border border-red-200 rounded-lg p-2">{error}</p>}
-                        
-                        {availableModels.length > 0 && (
                             <select
-                                value={tempModel}
-                                onChange={(e) => setTempModel(e.target.value)}
-                                className="glow-input mt-2 w-full max-h-40"
+                                value={currentProviderId}
+                                onChange={(e) => handleProviderChange(e.target.value)}
+                                className="glow-input w-full"
                             >
-                                <option value="">Выберите модель</option>
-                                {displayModels.map(model => (
-                                    <option key={model.id} value={model.id}>
-                                        {model.name}
+                                {API_PROVIDERS.map(provider => (
+                                    <option key={provider.id} value={provider.id}>
+                                        {provider.name}
+                                    </option>
+                                ))}
+                                {config?.customProviders?.map(provider => (
+                                    <option key={provider.id} value={provider.id}>
+                                        {provider.name} (свой)
                                     </option>
                                 ))}
+                                <option value={NEW_CUSTOM_PROVIDER}>Другой (ввести URL)</option>
                             </select>
+                            {currentProvider && (
+                                <p className="text-xs text-gray-500 mt-1">
+                                    {currentProvider.baseUrl}
+                                </p>
+                            )}
+                        </div>
+
+                        {showCustomEndpoint && (
+                            <div className="space-y-3 rounded-lg border border-gray-200 bg-gray-50 p-3">
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                                        Название
+                                    </label>
+                                    <input
+                                        type="text"
+                                        value={customForm.name}
+                                        onChange={(e) => setCustomForm({ ...customForm, name: e.target.value })}
+                                        placeholder="Например, Ollama дома"
+                                        className="glow-input w-full"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                                        Базовый URL API
+                                    </label>
+                                    <input
+                                        type="url"
+                                        value={customForm.baseUrl}
+                                        onChange={(e) => setCustomForm({ ...customForm, baseUrl: e.target.value })}
+                                        placeholder="http://192.168.1.10:11434/v1"
+                                        className="glow-input w-full"
+                                    />
+                                    <p className="text-xs text-gray-500 mt-1">
+                                        Ollama: …:11434/v1, LM Studio: …:1234/v1, vLLM: …:8000/v1
+                                    </p>
+                                </div>
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                                            Протокол
+                                        </label>
+                                        <select
+                                            value={customForm.protocol}
+                                            onChange={(e) => setCustomForm({ ...customForm, protocol: e.target.value as ApiProtocol })}
+                                            className="glow-input w-full"
+                                        >
+                                            <option value="openai">OpenAI-совместимый</option>
+                                            <option value="anthropic">Anthropic Messages</option>
+                                            <option value="gemini">Gemini</option>
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                                            Авторизация
+                                        </label>
+                                        <select
+                                            value={customForm.authStyle}
+                                            onChange={(e) => setCustomForm({ ...customForm, authStyle: e.target.value as AuthStyle })}
+                                            className="glow-input w-full"
+                                        >
+                                            <option value="bearer">Bearer-токен</option>
+                                            <option value="header">Токен в заголовке</option>
+                                            <option value="none">Без авторизации</option>
+                                        </select>
+                                    </div>
+                                </div>
+                                {customForm.authStyle === 'header' && (
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                                            Имя заголовка
+                                        </label>
+                                        <input
+                                            type="text"
+                                            value={customForm.authHeaderName}
+                                            onChange={(e) => setCustomForm({ ...customForm, authHeaderName: e.target.value })}
+                                            placeholder="X-API-Key"
+                                            className="glow-input w-full"
+                                        />
+                                    </div>
+                                )}
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                                        Дополнительные заголовки
+                                    </label>
+                                    <textarea
+                                        value={customForm.extraHeaders}
+                                        onChange={(e) => setCustomForm({ ...customForm, extraHeaders: e.target.value })}
+                                        placeholder="Имя: значение (по одному на строку)"
+                                        className="glow-input w-full min-h-[60px] resize-none text-sm"
+                                        rows={2}
+                                    />
+                                </div>
+                                {isSavedCustomProvider && (
+                                    <button
+                                        onClick={handleDeleteCustomProvider}
+                                        className="text-xs text-red-600 hover:text-red-700"
+                                    >
+                                        Удалить провайдера
+                                    </button>
+                                )}
+                            </div>
                         )}
-                        
-                        {availableModels.length === 0 && tempToken.trim() && !isLoadingModels && (
-                            <p className="text-gray-500 text-xs mt-1">
-                                Нажмите "Загрузить модели" для получения списка
-                            </p>
+
+                        {requiresToken && (
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                    Токен API
+                                </label>
+                                <input
+                                    type="password"
+                                    value={tempToken}
+                                    onChange={(e) => setTempToken(e.target.value)}
+                                    placeholder="Введите ваш API токен..."
+                                    className="glow-input w-full"
+                                />
+                                <p className="text-xs text-gray-500 mt-1">
+                                    Токен сохраняется отдельно для каждого провайдера
+                                </p>
+                            </div>
                         )}
-                    </div>
 
-                    <div className="flex flex-col sm:flex-row gap-2 pt-2">
-                        <button
-                            onClick={handleSave}
-                            disabled={!tempToken.trim() || !tempModel.trim() || isLoadingModels}
-                            className="mono-button primary-cta flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
-                        >
-                            Сохранить
-                        </button>
-                        {config && (
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                                Модель
+                            </label>
+                            <div className="relative">
+                                <input
+                                    type="text"
+                                    value={modelSearch}
+                                    onChange={(e) => setModelSearch(e.target.value)}
+                                    placeholder="Поиск модели..."
+                                    className="glow-input w-full pr-10"
+                                />
+                                <SearchIcon className="absolute right-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                            </div>
+                        
                             <button
-                                onClick={handleClear}
-                                className="mono-button flex-1 text-red-600 hover:text-red-700 border-red-300 hover:border-red-400"
+                                onClick={handleFetchModels}
+                                disabled={!hasToken || isLoadingModels}
+                                className="mono-button primary-cta mt-2 w-full flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
                             >
-                                Очистить всё
+                                {isLoadingModels ? <SpinnerIcon /> : null}
+                                {availableModels.length > 0 ? 'Обновить список' : 'Загрузить модели'}
                             </button>
+                        
+                            {error && <p className="text-red-600 text-xs mt-1 bg-red-50 border border-red-200 rounded-lg p-2">{error}</p>}
+                        
+                            {availableModels.length > 0 && (
+                                <select
+                                    value={tempModel}
+                                    onChange={(e) => setTempModel(e.target.value)}
+                                    className="glow-input mt-2 w-full max-h-40"
+                                >
+                                    <option value="">Выберите модель</option>
+                                    {displayModels.map(model => (
+                                        <option key={model.id} value={model.id}>
+                                            {model.name}
+                                        </option>
+                                    ))}
+                                </select>
+                            )}
+                        
+                            {availableModels.length === 0 && hasToken && !isLoadingModels && (
+                                <p className="text-gray-500 text-xs mt-1">
+                                    Нажмите "Загрузить модели" для получения списка
+                                </p>
+                            )}
+
+                            {showCustomEndpoint && availableModels.length === 0 && (
+                                <input
+                                    type="text"
+                                    value={tempModel}
+                                    onChange={(e) => setTempModel(e.target.value)}
+                                    placeholder="Или введите ID модели вручную, например llama3.1:8b"
+                                    className="glow-input mt-2 w-full"
+                                />
+                            )}
+                        </div>
+
+                        {fallbackCandidates.length > 0 && (
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                    Резервные провайдеры
+                                </label>
+                                {selectedFallbacks.length > 0 && (
+                                    <ol className="space-y-1 mb-2">
+                                        {selectedFallbacks.map((candidate, index) => (
+                                            <li key={candidate.id} className="flex items-center gap-2 rounded-lg border border-gray-200 px-2 py-1 text-sm">
+                                                <span className="text-gray-400">{index + 1}.</span>
+                                                <span className="flex-1 min-w-0 truncate text-gray-900">
+                                                    {candidate.provider.name}
+                                                    <span className="text-xs text-gray-500"> · {candidate.model}</span>
+                                                </span>
+                                                <button
+                                                    onClick={() => handleMoveFallback(index, -1)}
+                                                    disabled={index === 0}
+                                                    className="px-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                                                    aria-label="Выше"
+                                                >
+                                                    ↑
+                                                </button>
+                                                <button
+                                                    onClick={() => handleMoveFallback(index, 1)}
+                                                    disabled={index === selectedFallbacks.length - 1}
+                                                    className="px-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                                                    aria-label="Ниже"
+                                                >
+                                                    ↓
+                                                </button>
+                                                <button
+                                                    onClick={() => setFallbackIds(fallbackIds.filter(id => id !== candidate.id))}
+                                                    className="px-1 text-gray-400 hover:text-red-600"
+                                                    aria-label="Убрать"
+                                                >
+                                                    <CloseIcon className="h-4 w-4" />
+                                                </button>
+                                            </li>
+                                        ))}
+                                    </ol>
+                                )}
+                                {availableFallbacks.length > 0 && (
+                                    <select
+                                        value=""
+                                        onChange={(e) => e.target.value && setFallbackIds([...selectedFallbacks.map(c => c.id), e.target.value])}
+                                        className="glow-input w-full"
+                                    >
+                                        <option value="">Добавить резервного провайдера...</option>
+                                        {availableFallbacks.map(candidate => (
+                                            <option key={candidate.id} value={candidate.id}>
+                                                {candidate.provider.name} · {candidate.model}
+                                            </option>
+                                        ))}
+                                    </select>
+                                )}
+                                <p className="text-xs text-gray-500 mt-1">
+                                    Если основной провайдер не ответит (ошибка токена, квота, таймаут, модель без поддержки фото), запрос уйдёт следующему по списку
+                                </p>
+                            </div>
                         )}
-                    </div>
 
-                    <p className="text-xs text-gray-500">
-                        По умолчанию используется OpenRouter. Получите токен на{' '}
-                        <a 
-                            href="https://openrouter.ai" 
-                            target="_blank" 
-                            rel="noopener noreferrer" 
-                            className="text-indigo-600 hover:text-indigo-700 hover:underline"
-                        >
-                            openrouter.ai
-                        </a>
-                    </p>
+                        <div className="grid grid-cols-2 gap-2">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                    Таймаут, с
+                                </label>
+                                <input
+                                    type="number"
+                                    min={5}
+                                    max={600}
+                                    value={timeoutSeconds}
+                                    onChange={(e) => setTimeoutSeconds(e.target.value)}
+                                    className="glow-input w-full"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                    Повторы при сбоях
+                                </label>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    max={5}
+                                    value={maxRetries}
+                                    onChange={(e) => setMaxRetries(e.target.value)}
+                                    className="glow-input w-full"
+                                />
+                            </div>
+                            <p className="col-span-2 text-xs text-gray-500">
+                                Повторяются только временные ошибки: 429, 5xx, таймаут и обрыв сети
+                            </p>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-2">
+                            <button
+                                onClick={() => setIsUsageOpen(true)}
+                                className="mono-button text-sm"
+                            >
+                                Расходы на AI
+                            </button>
+                            <button
+                                onClick={() => setIsCacheOpen(true)}
+                                className="mono-button text-sm"
+                            >
+                                Кэш ответов AI
+                            </button>
+                        </div>
+
+                        <div className="flex flex-col sm:flex-row gap-2 pt-2">
+                            <button
+                                onClick={handleSave}
+                                disabled={!hasToken || !tempModel.trim() || isLoadingModels}
+                                className="mono-button primary-cta flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Сохранить
+                            </button>
+                            {config && (
+                                <button
+                                    onClick={handleClear}
+                                    className="mono-button flex-1 text-red-600 hover:text-red-700 border-red-300 hover:border-red-400"
+                                >
+                                    Очистить всё
+                                </button>
+                            )}
+                        </div>
+
+                        <p className="text-xs text-gray-500">
+                            По умолчанию используется OpenRouter. Получите токен на{' '}
+                            <a 
+                                href="https://openrouter.ai" 
+                                target="_blank" 
+                                rel="noopener noreferrer" 
+                                className="text-indigo-600 hover:text-indigo-700 hover:underline"
+                            >
+                                openrouter.ai
+                            </a>
+                        </p>
+                    </div>
                 </div>
             </div>
-        </div>
+            <AICacheManager isOpen={isCacheOpen} onClose={() => setIsCacheOpen(false)} />
+            <UsageDashboard isOpen={isUsageOpen} onClose={() => setIsUsageOpen(false)} />
+        </>
     );
 };
 
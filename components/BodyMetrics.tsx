@@ -0,0 +1,249 @@
+import { useState, useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import { CloseIcon, TrashIcon } from './ui/Icons';
+import { BodyMetricEntry } from '../types';
+import { formatDate, getLocalDateKey } from '../utils/calculations';
+import {
+    calculateWeightTrend,
+    getLatestMetric,
+    getWeeklyRate,
+    upsertBodyMetric,
+    WeightDrift,
+    WeightTrendPoint,
+} from '../utils/bodyMetrics';
+
+interface BodyMetricsProps {
+    isOpen: boolean;
+    onClose: () => void;
+    entries: BodyMetricEntry[];
+    onChange: (entries: BodyMetricEntry[]) => void;
+    drift: WeightDrift | null;
+    onRecalculateGoals: () => void;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = 12;
+
+const parseOptional = (value: string): number | undefined => {
+    const parsed = parseFloat(value.replace(',', '.'));
+    return parsed > 0 ? parsed : undefined;
+};
+
+const TrendChart = ({ points }: { points: WeightTrendPoint[] }) => {
+    const first = new Date(points[0].date).getTime();
+    const last = new Date(points[points.length - 1].date).getTime();
+    const values = points.flatMap(point => [point.weight, point.trend]);
+    const min = Math.min(...values) - 0.5;
+    const max = Math.max(...values) + 0.5;
+
+    const x = (date: string) => last > first
+        ? CHART_PADDING + ((new Date(date).getTime() - first) / (last - first)) * (CHART_WIDTH - CHART_PADDING * 2)
+        : CHART_WIDTH / 2;
+    const y = (value: number) => CHART_PADDING + ((max - value) / (max - min)) * (CHART_HEIGHT - CHART_PADDING * 2);
+
+    return (
+        <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-40 rounded-lg bg-gray-50 border border-gray-200">
+            <polyline
+                points={points.map(point => `${x(point.date)},${y(point.trend)}`).join(' ')}
+                fill="none"
+                stroke="#6366f1"
+                strokeWidth="2.5"
+            />
+            {points.map(point => (
+                <circle key={point.date} cx={x(point.date)} cy={y(point.weight)} r="3" fill="#9ca3af">
+                    <title>{`${formatDate(point.date)}: ${point.weight} кг (тренд ${point.trend.toFixed(1)})`}</title>
+                </circle>
+            ))}
+            <text x={CHART_PADDING} y={CHART_PADDING + 4} className="fill-gray-400 text-[10px]">{max.toFixed(1)}</text>
+            <text x={CHART_PADDING} y={CHART_HEIGHT - 4} className="fill-gray-400 text-[10px]">{min.toFixed(1)}</text>
+        </svg>
+    );
+};
+
+/**
+ * Журнал веса, талии и процента жира со сглаженным трендом
+ */
+const BodyMetrics = ({ isOpen, onClose, entries, onChange, drift, onRecalculateGoals }: BodyMetricsProps) => {
+    const [date, setDate] = useState(() => getLocalDateKey());
+    const [weight, setWeight] = useState('');
+    const [waist, setWaist] = useState('');
+    const [bodyFat, setBodyFat] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const trend = useMemo(() => calculateWeightTrend(entries), [entries]);
+    const weeklyRate = useMemo(() => getWeeklyRate(trend), [trend]);
+    const latestWaist = getLatestMetric(entries, 'waist');
+    const latestBodyFat = getLatestMetric(entries, 'bodyFatPercent');
+
+    const handleAdd = () => {
+        const entry: BodyMetricEntry = {
+            id: crypto.randomUUID(),
+            date,
+            weight: parseOptional(weight),
+            waist: parseOptional(waist),
+            bodyFatPercent: parseOptional(bodyFat),
+        };
+        if (!entry.weight && !entry.waist && !entry.bodyFatPercent) {
+            setError('Введите хотя бы один показатель');
+            return;
+        }
+        onChange(upsertBodyMetric(entries, entry));
+        setWeight('');
+        setWaist('');
+        setBodyFat('');
+        setError(null);
+    };
+
+    const handleDelete = (id: string) => {
+        onChange(entries.filter(entry => entry.id !== id));
+    };
+
+    if (!isOpen) return null;
+
+    const latestTrend = trend[trend.length - 1];
+
+    return createPortal(
+        <div
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[9999] p-2 sm:p-4"
+            onClick={onClose}
+        >
+            <div
+                className="bg-white w-full max-w-2xl space-y-4 p-4 sm:p-6 rounded-2xl shadow-2xl overflow-y-auto max-h-[90vh] relative"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <button
+                    onClick={onClose}
+                    className="absolute top-2 right-2 p-1 text-gray-500 hover:text-gray-700 rounded-full hover:bg-gray-100 transition-colors"
+                    aria-label="Закрыть"
+                >
+                    <CloseIcon />
+                </button>
+
+                <h3 className="text-lg font-semibold text-gray-900">Вес и замеры</h3>
+
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 items-end">
+                    <div className="col-span-2 sm:col-span-1">
+                        <label className="block text-xs font-medium text-gray-700 mb-1">Дата</label>
+                        <input
+                            type="date"
+                            value={date}
+                            onChange={(e) => setDate(e.target.value)}
+                            className="glow-input w-full bg-transparent"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">Вес, кг</label>
+                        <input
+                            type="number"
+                            value={weight}
+                            onChange={(e) => setWeight(e.target.value)}
+                            className="glow-input w-full"
+                            min="0"
+                            step="0.1"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">Талия, см</label>
+                        <input
+                            type="number"
+                            value={waist}
+                            onChange={(e) => setWaist(e.target.value)}
+                            className="glow-input w-full"
+                            min="0"
+                            step="0.5"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">Жир, %</label>
+                        <input
+                            type="number"
+                            value={bodyFat}
+                            onChange={(e) => setBodyFat(e.target.value)}
+                            className="glow-input w-full"
+                            min="0"
+                            max="70"
+                            step="0.1"
+                        />
+                    </div>
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                    <p className="text-xs text-gray-500">Замер за уже записанную дату обновит указанные показатели</p>
+                    <button onClick={handleAdd} className="mono-button primary-cta text-sm">
+                        Добавить
+                    </button>
+                </div>
+                {error && <p className="text-sm text-red-600">{error}</p>}
+
+                {latestTrend && (
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                        <div className="rounded-lg border border-gray-200 bg-gray-50 p-2">
+                            <p className="text-[11px] text-gray-500">Вес по тренду</p>
+                            <p className="text-base font-bold text-gray-900">{latestTrend.trend.toFixed(1)} кг</p>
+                        </div>
+                        <div className="rounded-lg border border-gray-200 bg-gray-50 p-2">
+                            <p className="text-[11px] text-gray-500">Темп</p>
+                            <p className="text-base font-bold text-gray-900">
+                                {weeklyRate !== null ? `${weeklyRate > 0 ? '+' : ''}${weeklyRate.toFixed(2)} кг/нед` : '—'}
+                            </p>
+                        </div>
+                        <div className="rounded-lg border border-gray-200 bg-gray-50 p-2">
+                            <p className="text-[11px] text-gray-500">Талия</p>
+                            <p className="text-base font-bold text-gray-900">{latestWaist ? `${latestWaist.value} см` : '—'}</p>
+                        </div>
+                        <div className="rounded-lg border border-gray-200 bg-gray-50 p-2">
+                            <p className="text-[11px] text-gray-500">Жир</p>
+                            <p className="text-base font-bold text-gray-900">{latestBodyFat ? `${latestBodyFat.value}%` : '—'}</p>
+                        </div>
+                    </div>
+                )}
+
+                {weeklyRate === null && trend.length > 0 && (
+                    <p className="text-xs text-gray-500">Темп появится, когда замеры охватят хотя бы неделю</p>
+                )}
+
+                {drift && (
+                    <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 flex flex-col sm:flex-row sm:items-center gap-2">
+                        <p className="text-sm text-amber-800 flex-1">
+                            Вес по тренду ({drift.trendWeight.toFixed(1)} кг) отличается от веса в профиле ({drift.profileWeight} кг) — нормы стоит пересчитать.
+                        </p>
+                        <button onClick={onRecalculateGoals} className="mono-button primary-cta text-sm">
+                            Пересчитать нормы
+                        </button>
+                    </div>
+                )}
+
+                {trend.length > 1 && <TrendChart points={trend} />}
+
+                {entries.length > 0 ? (
+                    <ul className="space-y-1 text-sm">
+                        {[...entries].reverse().map(entry => (
+                            <li key={entry.id} className="flex items-center gap-2 border-t border-gray-100 pt-1">
+                                <span className="w-32 text-gray-600 flex-shrink-0">{formatDate(entry.date)}</span>
+                                <span className="flex-1 text-gray-900">
+                                    {[
+                                        entry.weight && `${entry.weight} кг`,
+                                        entry.waist && `талия ${entry.waist} см`,
+                                        entry.bodyFatPercent && `жир ${entry.bodyFatPercent}%`,
+                                    ].filter(Boolean).join(' · ')}
+                                </span>
+                                <button
+                                    onClick={() => handleDelete(entry.id)}
+                                    className="p-0.5 text-gray-400 hover:text-red-600"
+                                    aria-label="Удалить замер"
+                                >
+                                    <TrashIcon className="w-4 h-4" />
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                ) : (
+                    <p className="text-sm text-gray-500 text-center py-2">Замеров пока нет</p>
+                )}
+            </div>
+        </div>,
+        document.body
+    );
+};
+
+export default BodyMetrics;
@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { DayAnalysis } from '../types';
+import { TrashIcon } from './ui/Icons';
+
+interface DayAnalysesProps {
+    analyses: DayAnalysis[];
+    onDelete: (analysisId: string) => void;
+    onCompare: (analysis: DayAnalysis) => void;
+}
+
+const formatAnalysisMeta = (analysis: DayAnalysis) => {
+    const time = new Date(analysis.createdAt).toLocaleString('ru-RU', {
+        day: '2-digit',
+        month: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+    });
+    return analysis.model ? `${time} · ${analysis.model}` : time;
+};
+
+/**
+ * Сохранённые AI-анализы дня: последний виден сразу, предыдущие свёрнуты
+ */
+const DayAnalyses = ({ analyses, onDelete, onCompare }: DayAnalysesProps) => {
+    const [isExpanded, setIsExpanded] = useState(false);
+    const [showAll, setShowAll] = useState(false);
+
+    if (analyses.length === 0) return null;
+
+    const ordered = [...analyses].reverse();
+    const visible = showAll ? ordered : ordered.slice(0, 1);
+
+    return (
+        <div className="rounded border border-indigo-100 bg-indigo-50/50 p-2 sm:p-3 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+                <h3 className="text-sm font-semibold text-gray-900">✨ AI-анализ</h3>
+                {analyses.length > 1 && (
+                    <button
+                        onClick={() => setShowAll(!showAll)}
+                        className="text-xs text-indigo-600 hover:text-indigo-700"
+                    >
+                        {showAll ? 'Только последний' : `Все (${analyses.length})`}
+                    </button>
+                )}
+            </div>
+            {visible.map(analysis => (
+                <div key={analysis.id} className="border-t border-indigo-100 pt-2 first:border-t-0 first:pt-0">
+                    <p
+                        className={`text-xs sm:text-sm text-gray-700 whitespace-pre-wrap leading-relaxed ${isExpanded ? '' : 'line-clamp-3'}`}
+                    >
+                        {analysis.text}
+                    </p>
+                    <div className="flex flex-wrap items-center justify-between gap-2 mt-1">
+                        <span className="text-[10px] sm:text-xs text-gray-500">
+                            {formatAnalysisMeta(analysis)}
+                            {analysis.goals && ` · цель ${Math.round(analysis.goals.targetCalories)} ккал`}
+                        </span>
+                        <div className="flex items-center gap-2">
+                            <button
+                                onClick={() => setIsExpanded(!isExpanded)}
+                                className="text-xs text-indigo-600 hover:text-indigo-700"
+                            >
+                                {isExpanded ? 'Свернуть' : 'Читать'}
+                            </button>
+                            <button
+                                onClick={() => onCompare(analysis)}
+                                className="text-xs text-indigo-600 hover:text-indigo-700"
+                            >
+                                Сравнить
+                            </button>
+                            <button
+                                onClick={() => onDelete(analysis.id)}
+                                className="p-0.5 text-gray-400 hover:text-red-600"
+                                aria-label="Удалить анализ"
+                            >
+                                <TrashIcon className="w-3 h-3 sm:w-4 sm:h-4" />
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default DayAnalyses;
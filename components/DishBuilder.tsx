@@ -1,9 +1,17 @@
-import { useState } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { createPortal } from 'react-dom';
-import { Ingredient, SavedDish } from '../types';
+import { EditingMeal, Ingredient, MealSlot, Micronutrients, SavedDish } from '../types';
 import { SaveIcon, TrashIcon, BookmarkIcon } from './ui/Icons';
-import { calculatePer100g } from '../utils/calculations';
-import { saveDishToLibrary } from '../utils/savedDishes';
+import { calculatePer100g, formatDate, getMealTypeLabel } from '../utils/calculations';
+import { saveDishToLibrary, updateDishInLibrary } from '../utils/savedDishes';
+import { buildRecipeDish, calculateRecipeNutrition } from '../utils/recipes';
+import { hasMicronutrients } from '../utils/micronutrients';
+import MicronutrientList from './MicronutrientList';
+import RecipeScaler from './RecipeScaler';
+import WeightInput from './WeightInput';
+import { describeInHouseholdUnits } from '../utils/householdUnits';
+import { CUSTOM_MEAL_SLOT_EMOJI } from '../constants/mealSlots';
+import { createCustomMealSlot, formatMealTime, formatTimeOfDay, isCustomMealSlot, suggestMealSlot } from '../utils/mealSlots';
 
 interface DishBuilderProps {
     ingredients: Ingredient[];
@@ -14,12 +22,25 @@ interface DishBuilderProps {
         carbohydrate: number;
         fiber: number;
         weight: number;
+        micronutrients?: Micronutrients;
     };
-    onUpdateWeight: (id: string, weight: number) => void;
+    onUpdateWeight: (id: string, weight: number, pieces?: number | null) => void;
+    onScale: (factor: number) => void;
     onRemove: (id: string) => void;
     onClear: () => void;
-    onSave: (mealType: string, ingredients: Ingredient[]) => void;
+    // date — день истории по местному времени, time — время приёма пищи «ЧЧ:ММ»
+    onSave: (mealType: string, ingredients: Ingredient[], time: string, date: string) => void;
+    mealSlots: MealSlot[];
+    onAddMealSlot: (slot: MealSlot) => void;
+    onRemoveMealSlot: (type: string) => void;
     onRefreshSavedDishes?: () => void;
+    // Рецепт из справочника, открытый для редактирования
+    editingRecipe?: SavedDish | null;
+    onFinishRecipeEdit?: () => void;
+    // Приём пищи из истории: сохранение заменяет его, а не добавляет новый
+    editingMeal?: EditingMeal | null;
+    // Сегодняшний день по местному времени — меняется после полуночи
+    todayKey: string;
 }
 
 type Accent = 'blue' | 'green' | 'orange' | 'purple' | 'cyan' | 'slate';
@@ -45,25 +66,120 @@ const NutritionLabel = ({ label, value, unit, color, precision = 1 }: { label: s
     );
 };
 
-const DishBuilder = ({ ingredients, totals, onUpdateWeight, onRemove, onClear, onSave, onRefreshSavedDishes }: DishBuilderProps) => {
-    const [mealType, setMealType] = useState('lunch');
+const DishBuilder = ({
+    ingredients,
+    totals,
+    onUpdateWeight,
+    onScale,
+    onRemove,
+    onClear,
+    onSave,
+    mealSlots,
+    onAddMealSlot,
+    onRemoveMealSlot,
+    onRefreshSavedDishes,
+    editingRecipe,
+    onFinishRecipeEdit,
+    editingMeal,
+    todayKey,
+}: DishBuilderProps) => {
+    const [mealDate, setMealDate] = useState(todayKey);
+    const previousTodayRef = useRef(todayKey);
+    const [mealTime, setMealTime] = useState(() => formatTimeOfDay());
+    const [mealType, setMealType] = useState(() => suggestMealSlot(mealSlots, formatTimeOfDay()).type);
+    const [isAddingSlot, setIsAddingSlot] = useState(false);
+    const [newSlotLabel, setNewSlotLabel] = useState('');
+    const [newSlotTime, setNewSlotTime] = useState('');
+    const [slotError, setSlotError] = useState<string | null>(null);
     const [isNamingModalOpen, setIsNamingModalOpen] = useState(false);
     const [dishName, setDishName] = useState('');
+    const [cookedWeight, setCookedWeight] = useState('');
+    const [servings, setServings] = useState('1');
     const [saveError, setSaveError] = useState<string | null>(null);
+    const [showMicronutrients, setShowMicronutrients] = useState(false);
+    const [showScaler, setShowScaler] = useState(false);
+    // Число порций после масштабирования; иначе берётся из рецепта
+    const [scaledServings, setScaledServings] = useState<number | null>(null);
+
+    const currentServings = scaledServings ?? editingRecipe?.recipe?.servings ?? 1;
+    const isEmpty = ingredients.length === 0;
+
+    useEffect(() => {
+        setScaledServings(null);
+    }, [editingRecipe, isEmpty]);
+
+    // Новое блюдо по умолчанию записывается на текущее время
+    useEffect(() => {
+        if (!isEmpty || editingMeal) return;
+        const now = formatTimeOfDay();
+        setMealTime(now);
+        setMealType(suggestMealSlot(mealSlots, now).type);
+    }, [isEmpty]);
+
+    // Редактируемый приём пищи сохраняется с прежними типом, днём и временем, пока их не поменяют
+    useEffect(() => {
+        if (!editingMeal) {
+            setMealDate(todayKey);
+            return;
+        }
+        const slot = mealSlots.find(item => item.type === editingMeal.meal.type);
+        setMealType(editingMeal.meal.type);
+        setMealDate(editingMeal.date);
+        setMealTime(formatMealTime(editingMeal.meal) || slot?.time || formatTimeOfDay());
+    }, [editingMeal]);
+
+    // После полуночи запись «на сегодня» переходит на новый день; выбранная вручную дата остаётся
+    useEffect(() => {
+        const previousToday = previousTodayRef.current;
+        previousTodayRef.current = todayKey;
+        setMealDate(current => current === previousToday ? todayKey : current);
+    }, [todayKey]);
+
+    const handleScale = (factor: number, servings: number) => {
+        onScale(factor);
+        setScaledServings(servings);
+    };
+
+    const ingredientsWithMicronutrients = ingredients.filter(item => hasMicronutrients(item.baseCPFC.micronutrients)).length;
 
     const handleSave = () => {
-        onSave(mealType, ingredients);
+        onSave(mealType, ingredients, mealTime || formatTimeOfDay(), mealDate || todayKey);
+    };
+
+    const isOtherDay = mealDate !== todayKey;
+
+    const selectedSlot = mealSlots.find(slot => slot.type === mealType);
+
+    const handleAddSlot = () => {
+        try {
+            const slot = createCustomMealSlot(newSlotLabel, newSlotTime || mealTime, mealSlots);
+            onAddMealSlot(slot);
+            setMealType(slot.type);
+            setIsAddingSlot(false);
+            setNewSlotLabel('');
+            setNewSlotTime('');
+            setSlotError(null);
+        } catch (error) {
+            setSlotError((error as Error).message);
+        }
+    };
+
+    const handleRemoveSlot = () => {
+        if (!selectedSlot || !confirm(`Убрать «${selectedSlot.label}» из списка? Записи в истории сохранятся.`)) return;
+        onRemoveMealSlot(selectedSlot.type);
+        setMealType(suggestMealSlot(mealSlots.filter(slot => slot !== selectedSlot), mealTime).type);
     };
 
     const handleSaveToLibrary = () => {
         if (ingredients.length === 0) return;
         
-        if (ingredients.length === 1) {
+        if (ingredients.length === 1 && !editingRecipe) {
             const per100g = calculatePer100g(ingredients);
             const newDish: SavedDish = {
                 id: crypto.randomUUID(),
                 name: ingredients[0].name,
                 per100g,
+                ...(ingredients[0].portions ? { portions: ingredients[0].portions } : {}),
             };
             try {
                 saveDishToLibrary(newDish);
@@ -73,8 +189,13 @@ const DishBuilder = ({ ingredients, totals, onUpdateWeight, onRemove, onClear, o
                 setSaveError((error as Error).message);
             }
         } else {
+            const recipe = editingRecipe?.recipe;
+            // Сохраняем прежний выход готового блюда относительно сырого веса
+            const yieldRatio = recipe && recipe.rawWeight > 0 ? recipe.cookedWeight / recipe.rawWeight : 1;
             setIsNamingModalOpen(true);
-            setDishName('');
+            setDishName(editingRecipe?.name || '');
+            setCookedWeight(String(Math.round(totals.weight * yieldRatio)));
+            setServings(String(currentServings));
             setSaveError(null);
         }
     };
@@ -85,15 +206,20 @@ const DishBuilder = ({ ingredients, totals, onUpdateWeight, onRemove, onClear, o
             return;
         }
         
-        const per100g = calculatePer100g(ingredients);
-        const newDish: SavedDish = {
-            id: crypto.randomUUID(),
-            name: dishName.trim(),
-            per100g,
-        };
-        
         try {
-            saveDishToLibrary(newDish);
+            const dish = buildRecipeDish(
+                editingRecipe?.id || crypto.randomUUID(),
+                dishName.trim(),
+                ingredients,
+                parseFloat(cookedWeight),
+                parseFloat(servings)
+            );
+            if (editingRecipe) {
+                updateDishInLibrary(dish.id, editingRecipe.portions ? { ...dish, portions: editingRecipe.portions } : dish);
+                onFinishRecipeEdit?.();
+            } else {
+                saveDishToLibrary(dish);
+            }
             onRefreshSavedDishes?.();
             setIsNamingModalOpen(false);
             setDishName('');
@@ -103,6 +229,25 @@ const DishBuilder = ({ ingredients, totals, onUpdateWeight, onRemove, onClear, o
         }
     };
 
+    let recipePreview = null;
+    if (isNamingModalOpen) {
+        try {
+            recipePreview = calculateRecipeNutrition(ingredients, parseFloat(cookedWeight), parseFloat(servings));
+        } catch {
+            recipePreview = null;
+        }
+    }
+
+    const handleCancelRecipeEdit = () => {
+        onFinishRecipeEdit?.();
+        onClear();
+    };
+
+    // Тип приёма из истории может отсутствовать в списке (удалённый свой приём, напитки)
+    const slotOptions = editingMeal && !mealSlots.some(slot => slot.type === editingMeal.meal.type)
+        ? [...mealSlots, { type: editingMeal.meal.type, label: getMealTypeLabel(editingMeal.meal.type), emoji: CUSTOM_MEAL_SLOT_EMOJI, time: '' }]
+        : mealSlots;
+
     return (
         <div className="glass-panel p-3 sm:p-4 space-y-3 w-full animate-fade-up">
             <div className="flex items-start justify-between gap-2">
@@ -122,6 +267,28 @@ const DishBuilder = ({ ingredients, totals, onUpdateWeight, onRemove, onClear, o
                 )}
             </div>
 
+            {editingMeal && (
+                <div className="rounded-lg border border-indigo-200 bg-indigo-50 px-3 py-2 flex items-center justify-between gap-2">
+                    <p className="text-xs sm:text-sm text-indigo-900">
+                        ✏️ {getMealTypeLabel(editingMeal.meal.type)} за {formatDate(editingMeal.date)}: измените состав и нажмите «Сохранить изменения»
+                    </p>
+                    <button onClick={onClear} className="text-xs text-indigo-700 hover:text-indigo-900 flex-shrink-0">
+                        Отменить
+                    </button>
+                </div>
+            )}
+
+            {editingRecipe && (
+                <div className="rounded-lg border border-indigo-200 bg-indigo-50 px-3 py-2 flex items-center justify-between gap-2">
+                    <p className="text-xs sm:text-sm text-indigo-900">
+                        ✏️ Рецепт «{editingRecipe.name}»: измените состав и нажмите «Обновить рецепт»
+                    </p>
+                    <button onClick={handleCancelRecipeEdit} className="text-xs text-indigo-700 hover:text-indigo-900 flex-shrink-0">
+                        Отменить
+                    </button>
+                </div>
+            )}
+
             <div className="space-y-1.5 sm:space-y-2 max-h-[300px] sm:max-h-[400px] overflow-y-auto scrollbar-sleek">
                 {ingredients.length === 0 ? (
                     <div className="glass-panel p-4 sm:p-6 text-center bg-gray-50">
@@ -143,15 +310,20 @@ const DishBuilder = ({ ingredients, totals, onUpdateWeight, onRemove, onClear, o
                                 </div>
                                 <div className="flex items-center gap-1.5 sm:gap-2">
                                     <div className="flex items-center gap-1.5 bg-gray-50 rounded px-2 py-1 border border-gray-200">
-                                        <input 
-                                            type="number" 
-                                            value={item.weight} 
-                                            onChange={(e) => onUpdateWeight(item.id, parseInt(e.target.value, 10))} 
-                                            className="bg-transparent text-center w-12 sm:w-16 focus:outline-none text-sm sm:text-base text-gray-900"
-                                            min="0" 
+                                        <WeightInput
+                                            value={item.weight}
+                                            name={item.name}
+                                            portions={item.portions}
+                                            onChange={(weight, pieces) => onUpdateWeight(item.id, weight, pieces)}
+                                            className="bg-transparent text-center w-16 sm:w-20 focus:outline-none text-sm sm:text-base text-gray-900"
                                         />
                                         <span className="text-gray-600 text-xs">г</span>
                                     </div>
+                                    {describeInHouseholdUnits(item.name, item.weight) && (
+                                        <span className="text-[10px] sm:text-xs text-gray-500 whitespace-nowrap">
+                                            {describeInHouseholdUnits(item.name, item.weight)}
+                                        </span>
+                                    )}
                                     <button 
                                         onClick={() => onRemove(item.id)} 
                                         className="text-gray-400 hover:text-red-600 transition-colors p-0.5"
@@ -180,35 +352,145 @@ const DishBuilder = ({ ingredients, totals, onUpdateWeight, onRemove, onClear, o
                         </div>
                     </div>
 
+                    {hasMicronutrients(totals.micronutrients) && (
+                        <div>
+                            <button
+                                onClick={() => setShowMicronutrients(!showMicronutrients)}
+                                className="text-xs sm:text-sm text-indigo-600 hover:text-indigo-700"
+                            >
+                                {showMicronutrients ? 'Скрыть микронутриенты' : 'Микронутриенты'}
+                            </button>
+                            {showMicronutrients && (
+                                <div className="mt-2 space-y-1">
+                                    <MicronutrientList values={totals.micronutrients} />
+                                    {ingredientsWithMicronutrients < ingredients.length && (
+                                        <p className="text-[11px] text-gray-500">
+                                            Данные есть для {ingredientsWithMicronutrients} из {ingredients.length} ингредиентов — итог может быть занижен
+                                        </p>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    <div>
+                        <button
+                            onClick={() => setShowScaler(!showScaler)}
+                            className="text-xs sm:text-sm text-indigo-600 hover:text-indigo-700"
+                        >
+                            {showScaler ? 'Скрыть масштабирование' : '⚖️ Масштабировать и перевести меры'}
+                        </button>
+                        {showScaler && (
+                            <div className="mt-2 rounded-lg border border-gray-200 p-3">
+                                <RecipeScaler
+                                    ingredients={ingredients}
+                                    totalWeight={totals.weight}
+                                    servings={currentServings}
+                                    recipe={editingRecipe?.recipe}
+                                    onScale={handleScale}
+                                    onUpdateWeight={onUpdateWeight}
+                                />
+                            </div>
+                        )}
+                    </div>
+
                     <div className="glass-panel p-3 sm:p-4 space-y-2 sm:space-y-3 bg-gray-50">
                         <h3 className="text-xs sm:text-sm font-semibold text-gray-900">Сохранить как</h3>
                         <div className="flex flex-col lg:flex-row gap-2">
-                            <select 
-                                value={mealType} 
-                                onChange={e => setMealType(e.target.value)} 
-                                className="glow-input flex-1"
-                            >
-                                <option value="breakfast">🌅 Завтрак</option>
-                                <option value="lunch">☀️ Обед</option>
-                                <option value="dinner">🌙 Ужин</option>
-                                <option value="snack">🍎 Перекус</option>
-                            </select>
+                            <div className="flex flex-wrap gap-2 flex-1">
+                                <select 
+                                    value={mealType} 
+                                    onChange={e => {
+                                        if (e.target.value === '') {
+                                            setIsAddingSlot(true);
+                                            return;
+                                        }
+                                        setMealType(e.target.value);
+                                    }} 
+                                    className="glow-input flex-1 min-w-0"
+                                >
+                                    {slotOptions.map(slot => (
+                                        <option key={slot.type} value={slot.type}>{slot.emoji} {slot.label}</option>
+                                    ))}
+                                    <option value="">➕ Свой приём пищи…</option>
+                                </select>
+                                <input
+                                    type="date"
+                                    value={mealDate}
+                                    onChange={(e) => setMealDate(e.target.value)}
+                                    className="glow-input w-36"
+                                    aria-label="День приёма пищи"
+                                />
+                                <input
+                                    type="time"
+                                    value={mealTime}
+                                    onChange={(e) => setMealTime(e.target.value)}
+                                    className="glow-input w-28"
+                                    aria-label="Время приёма пищи"
+                                />
+                            </div>
                             <div className="flex flex-col sm:flex-row gap-2 sm:gap-3 flex-1">
                                 <button 
                                     onClick={handleSaveToLibrary} 
                                     className="mono-button flex-1 flex items-center justify-center gap-2 text-sm py-2.5"
                                     title="Сохранить в справочник"
                                 >
-                                    <BookmarkIcon /> 📚 В справочник
+                                    <BookmarkIcon /> {editingRecipe ? '📚 Обновить рецепт' : '📚 В справочник'}
                                 </button>
                                 <button 
                                     onClick={handleSave} 
                                     className="mono-button primary-cta flex-1 flex items-center justify-center gap-2 text-sm py-2.5"
                                 >
-                                    <SaveIcon /> ✅ Внести в день
+                                    <SaveIcon /> {editingMeal ? '✅ Сохранить изменения' : '✅ Внести в день'}
                                 </button>
                             </div>
                         </div>
+                        {isOtherDay && mealDate && (
+                            <p className="text-[11px] text-amber-700">
+                                Запись попадёт в {formatDate(mealDate)} —{' '}
+                                <button onClick={() => setMealDate(todayKey)} className="underline hover:text-amber-900">
+                                    вернуть сегодня
+                                </button>
+                            </p>
+                        )}
+                        {selectedSlot && isCustomMealSlot(selectedSlot) && !isAddingSlot && (
+                            <button onClick={handleRemoveSlot} className="text-[11px] text-gray-500 hover:text-red-600">
+                                Убрать «{selectedSlot.label}» из списка
+                            </button>
+                        )}
+                        {isAddingSlot && (
+                            <div className="space-y-2 rounded-lg border border-gray-200 bg-white p-2">
+                                <div className="flex flex-wrap gap-2">
+                                    <input
+                                        type="text"
+                                        value={newSlotLabel}
+                                        onChange={(e) => setNewSlotLabel(e.target.value)}
+                                        onKeyDown={(e) => e.key === 'Enter' && handleAddSlot()}
+                                        placeholder="Например, Перед тренировкой"
+                                        className="glow-input flex-1 min-w-[10rem] text-sm"
+                                        autoFocus
+                                    />
+                                    <input
+                                        type="time"
+                                        value={newSlotTime || mealTime}
+                                        onChange={(e) => setNewSlotTime(e.target.value)}
+                                        className="glow-input w-28 text-sm"
+                                        aria-label="Обычное время приёма"
+                                    />
+                                    <button onClick={handleAddSlot} className="mono-button text-sm px-3">Добавить</button>
+                                    <button
+                                        onClick={() => {
+                                            setIsAddingSlot(false);
+                                            setSlotError(null);
+                                        }}
+                                        className="mono-button text-sm px-3"
+                                    >
+                                        Отмена
+                                    </button>
+                                </div>
+                                {slotError && <p className="text-xs text-red-600">{slotError}</p>}
+                            </div>
+                        )}
                     </div>
                 </div>
             )}
@@ -227,7 +509,9 @@ const DishBuilder = ({ ingredients, totals, onUpdateWeight, onRemove, onClear, o
                         onClick={(e) => e.stopPropagation()}
                         style={{ margin: 'auto' }}
                     >
-                        <h3 className="text-xl sm:text-2xl font-bold text-gray-900 text-center">📝 Название блюда</h3>
+                        <h3 className="text-xl sm:text-2xl font-bold text-gray-900 text-center">
+                            {editingRecipe ? '📝 Обновить рецепт' : '📝 Сохранить рецепт'}
+                        </h3>
                         <input
                             type="text"
                             value={dishName}
@@ -237,6 +521,43 @@ const DishBuilder = ({ ingredients, totals, onUpdateWeight, onRemove, onClear, o
                             autoFocus
                             onKeyDown={(e) => e.key === 'Enter' && handleConfirmSaveToLibrary()}
                         />
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <label className="block text-xs font-medium text-gray-700 mb-1">Вес готового блюда, г</label>
+                                <input
+                                    type="number"
+                                    value={cookedWeight}
+                                    onChange={(e) => setCookedWeight(e.target.value)}
+                                    className="glow-input w-full"
+                                    min="1"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-medium text-gray-700 mb-1">Порций</label>
+                                <input
+                                    type="number"
+                                    value={servings}
+                                    onChange={(e) => setServings(e.target.value)}
+                                    className="glow-input w-full"
+                                    min="1"
+                                />
+                            </div>
+                        </div>
+                        <p className="text-xs text-gray-500">
+                            Сырые ингредиенты весят {Math.round(totals.weight)} г. Взвесьте готовое блюдо: при варке крупы впитывают воду, при жарке и запекании вес уходит.
+                        </p>
+                        {recipePreview && (
+                            <div className="rounded-lg border border-gray-200 bg-gray-50 p-3 text-xs text-gray-700 space-y-1">
+                                <p>
+                                    <span className="font-semibold text-gray-900">На 100 г:</span>{' '}
+                                    {recipePreview.per100g.calories} ккал · Б {recipePreview.per100g.protein} · Ж {recipePreview.per100g.fat} · У {recipePreview.per100g.carbohydrate}
+                                </p>
+                                <p>
+                                    <span className="font-semibold text-gray-900">Порция {recipePreview.perServing.weight} г:</span>{' '}
+                                    {recipePreview.perServing.calories} ккал · Б {recipePreview.perServing.protein} · Ж {recipePreview.perServing.fat} · У {recipePreview.perServing.carbohydrate}
+                                </p>
+                            </div>
+                        )}
                         {saveError && (
                             <p className="text-red-600 text-sm font-medium bg-red-50 p-3 rounded-lg">{saveError}</p>
                         )}
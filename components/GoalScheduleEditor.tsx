@@ -0,0 +1,188 @@
+import { useState } from 'react';
+import { DailyGoals, GoalDayRule, GoalDayType, GoalOverride, GoalSchedule } from '../types';
+import { TrashIcon } from './ui/Icons';
+import { formatDate } from '../utils/calculations';
+import { DAY_TYPE_LABELS, WEEKDAYS, suggestDayTypeOverride } from '../utils/goalSchedule';
+
+interface GoalScheduleEditorProps {
+    schedule: GoalSchedule;
+    baseGoals: DailyGoals | null;
+    onChange: (schedule: GoalSchedule) => void;
+}
+
+const OVERRIDE_FIELDS: Array<{ key: keyof GoalOverride; label: string }> = [
+    { key: 'targetCalories', label: 'Ккал' },
+    { key: 'protein', label: 'Б, г' },
+    { key: 'fat', label: 'Ж, г' },
+    { key: 'carbohydrate', label: 'У, г' },
+];
+
+const parseOverrideValue = (value: string): number | undefined => {
+    const parsed = parseFloat(value);
+    return parsed > 0 ? parsed : undefined;
+};
+
+const DayTypeSelect = ({ value, onChange }: { value?: GoalDayType; onChange: (value?: GoalDayType) => void }) => (
+    <select
+        value={value || ''}
+        onChange={(e) => onChange((e.target.value || undefined) as GoalDayType | undefined)}
+        className="glow-input py-1 text-xs"
+    >
+        <option value="">Обычный</option>
+        {(Object.keys(DAY_TYPE_LABELS) as GoalDayType[]).map(type => (
+            <option key={type} value={type}>{DAY_TYPE_LABELS[type]}</option>
+        ))}
+    </select>
+);
+
+const CaloriesInput = ({ rule, onChange }: { rule?: GoalDayRule; onChange: (calories?: number) => void }) => (
+    <input
+        type="number"
+        value={rule?.override?.targetCalories ?? ''}
+        onChange={(e) => onChange(parseOverrideValue(e.target.value))}
+        placeholder="ккал"
+        className="glow-input w-20 py-1 text-xs"
+        min="0"
+        aria-label="Свои калории"
+    />
+);
+
+/**
+ * Редактор расписания норм: особые типы дней, правила по дням недели и разовые даты
+ */
+const GoalScheduleEditor = ({ schedule, baseGoals, onChange }: GoalScheduleEditorProps) => {
+    const [newDate, setNewDate] = useState('');
+
+    const updateDayType = (dayType: GoalDayType, key: keyof GoalOverride, value: string) => {
+        onChange({
+            ...schedule,
+            dayTypes: {
+                ...schedule.dayTypes,
+                [dayType]: { ...schedule.dayTypes[dayType], [key]: parseOverrideValue(value) },
+            },
+        });
+    };
+
+    const updateRule = (group: 'weekdays' | 'dates', key: string | number, rule: GoalDayRule) => {
+        onChange({ ...schedule, [group]: { ...schedule[group], [key]: rule } });
+    };
+
+    const setRuleCalories = (rule: GoalDayRule | undefined, calories?: number): GoalDayRule => ({
+        ...rule,
+        override: { ...rule?.override, targetCalories: calories },
+    });
+
+    const handleAddDate = () => {
+        if (!newDate || schedule.dates[newDate]) return;
+        updateRule('dates', newDate, { dayType: 'refeed' });
+        setNewDate('');
+    };
+
+    const handleRemoveDate = (date: string) => {
+        const { [date]: _removed, ...dates } = schedule.dates;
+        onChange({ ...schedule, dates });
+    };
+
+    return (
+        <div className="space-y-4">
+            <div>
+                <p className="text-sm font-medium text-gray-900 mb-1">Нормы особых дней</p>
+                <p className="text-xs text-gray-500 mb-2">
+                    Пустые поля — по умолчанию: дополнительные калории за счёт углеводов
+                </p>
+                <div className="space-y-2">
+                    {(Object.keys(DAY_TYPE_LABELS) as GoalDayType[]).map(dayType => {
+                        const suggestion = baseGoals ? { ...baseGoals, ...suggestDayTypeOverride(baseGoals, dayType) } : null;
+                        return (
+                            <div key={dayType} className="flex flex-wrap items-center gap-2">
+                                <span className="w-24 text-xs text-gray-700">{DAY_TYPE_LABELS[dayType]}</span>
+                                {OVERRIDE_FIELDS.map(field => (
+                                    <input
+                                        key={field.key}
+                                        type="number"
+                                        value={schedule.dayTypes[dayType]?.[field.key] ?? ''}
+                                        onChange={(e) => updateDayType(dayType, field.key, e.target.value)}
+                                        placeholder={suggestion ? String(Math.round(suggestion[field.key])) : field.label}
+                                        className="glow-input w-20 py-1 text-xs"
+                                        min="0"
+                                        aria-label={field.label}
+                                        title={field.label}
+                                    />
+                                ))}
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+
+            <div>
+                <p className="text-sm font-medium text-gray-900 mb-2">По дням недели</p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {WEEKDAYS.map(({ value, label }) => {
+                        const rule = schedule.weekdays[value];
+                        return (
+                            <div key={value} className="flex items-center gap-2">
+                                <span className="w-8 text-xs text-gray-700">{label}</span>
+                                <DayTypeSelect
+                                    value={rule?.dayType}
+                                    onChange={(dayType) => updateRule('weekdays', value, { ...rule, dayType })}
+                                />
+                                <CaloriesInput
+                                    rule={rule}
+                                    onChange={(calories) => updateRule('weekdays', value, setRuleCalories(rule, calories))}
+                                />
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+
+            <div>
+                <p className="text-sm font-medium text-gray-900 mb-1">Отдельные даты</p>
+                <p className="text-xs text-gray-500 mb-2">Правило на дату заменяет правило дня недели</p>
+                <ul className="space-y-1 mb-2">
+                    {Object.keys(schedule.dates).sort().map(date => {
+                        const rule = schedule.dates[date];
+                        return (
+                            <li key={date} className="flex items-center gap-2">
+                                <span className="w-32 text-xs text-gray-700">{formatDate(date)}</span>
+                                <DayTypeSelect
+                                    value={rule.dayType}
+                                    onChange={(dayType) => updateRule('dates', date, { ...rule, dayType })}
+                                />
+                                <CaloriesInput
+                                    rule={rule}
+                                    onChange={(calories) => updateRule('dates', date, setRuleCalories(rule, calories))}
+                                />
+                                <button
+                                    onClick={() => handleRemoveDate(date)}
+                                    className="p-0.5 text-gray-400 hover:text-red-600"
+                                    aria-label="Удалить правило"
+                                >
+                                    <TrashIcon className="w-4 h-4" />
+                                </button>
+                            </li>
+                        );
+                    })}
+                </ul>
+                <div className="flex items-center gap-2">
+                    <input
+                        type="date"
+                        value={newDate}
+                        onChange={(e) => setNewDate(e.target.value)}
+                        className="glow-input py-1 text-xs bg-transparent"
+                    />
+                    <button
+                        onClick={handleAddDate}
+                        disabled={!newDate || !!schedule.dates[newDate]}
+                        className="mono-button text-xs px-3 py-1 disabled:opacity-50"
+                    >
+                        Добавить дату
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default GoalScheduleEditor;
@@ -1,9 +1,19 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useRef } from 'react';
 import { TrashIcon, SparklesIcon, CloseIcon, SpinnerIcon } from './ui/Icons';
-import { History, ApiConfig, UserProfile } from '../types';
+import { History, ApiConfig, UserProfile, DayAnalysis, GoalVersion, MealSlot } from '../types';
+import { MealTransferMode } from '../utils/historyMeals';
 import { exportToCSV, exportToJSON } from '../utils/exportHistory';
 import { formatDate, getMealTypeLabel } from '../utils/calculations';
-import { analyzeDailyIntake } from '../services/aiService';
+import { DAY_TYPE_LABELS } from '../utils/goalSchedule';
+import { hasMicronutrients } from '../utils/micronutrients';
+import { formatLiters, getWaterTotal } from '../utils/water';
+import { formatMealTime, sortMealsChronologically } from '../utils/mealSlots';
+import { analyzeDailyIntake, describeAnswer, getCurrentProviderConfig, AIAnswerInfo } from '../services/aiService';
+import { getAIErrorMessage, isCancelledError } from '../services/aiErrors';
+import DayAnalyses from './DayAnalyses';
+import AnalysisCompare from './AnalysisCompare';
+import PeriodReport from './PeriodReport';
+import MicronutrientList from './MicronutrientList';
 
 const NutritionLabel = ({ 
     label, 
@@ -87,11 +97,21 @@ interface HistoryViewProps {
     history: History;
     onRemoveMeal: (date: string, mealId: string) => void;
     onClearDay: (date: string) => void;
+    // Перенос или копирование приёма пищи; копия в тот же день — дубликат
+    onTransferMeal: (fromDate: string, mealId: string, toDate: string, mode: MealTransferMode) => void;
+    // Открывает приём пищи в конструкторе для правки
+    onEditMeal: (date: string, mealId: string) => void;
+    onSaveAnalysis: (date: string, analysis: DayAnalysis) => void;
+    onDeleteAnalysis: (date: string, analysisId: string) => void;
+    onRecomputeGoals: (dates: string[]) => void;
+    goalVersions: GoalVersion[];
+    // Стандартные и свои приёмы пищи — для сортировки записей без времени
+    mealSlots: MealSlot[];
     config: ApiConfig;
     userProfile: UserProfile | null;
 }
 
-const HistoryView = ({ history, onRemoveMeal, onClearDay, config, userProfile }: HistoryViewProps) => {
+const HistoryView = ({ history, onRemoveMeal, onClearDay, onTransferMeal, onEditMeal, onSaveAnalysis, onDeleteAnalysis, onRecomputeGoals, goalVersions, mealSlots, config, userProfile }: HistoryViewProps) => {
     const [startDate, setStartDate] = useState('');
     const [endDate, setEndDate] = useState('');
     const [showFilters, setShowFilters] = useState(false);
@@ -99,6 +119,16 @@ const HistoryView = ({ history, onRemoveMeal, onClearDay, config, userProfile }:
     const [analysisResult, setAnalysisResult] = useState<string | null>(null);
     const [analysisError, setAnalysisError] = useState<string | null>(null);
     const [isAnalyzing, setIsAnalyzing] = useState(false);
+    const [answerInfo, setAnswerInfo] = useState<AIAnswerInfo | null>(null);
+    const [isStopped, setIsStopped] = useState(false);
+    const [isReportOpen, setIsReportOpen] = useState(false);
+    const [comparing, setComparing] = useState<{ date: string; analysis: DayAnalysis } | null>(null);
+    const [micronutrientsDate, setMicronutrientsDate] = useState<string | null>(null);
+    const [transferring, setTransferring] = useState<{ date: string; mealId: string } | null>(null);
+    const [transferDate, setTransferDate] = useState('');
+    // Дни, анализ которых дописывается после закрытия окна
+    const [backgroundDates, setBackgroundDates] = useState<string[]>([]);
+    const abortControllerRef = useRef<AbortController | null>(null);
 
     // Диагностический вывод в консоль
     console.log('🔍 HistoryView диагностика:', {
@@ -128,42 +158,116 @@ const HistoryView = ({ history, onRemoveMeal, onClearDay, config, userProfile }:
         exportToJSON(history, startDate, endDate);
     };
 
+    const currentGoalVersion = goalVersions[goalVersions.length - 1];
+    const isAIReady = getCurrentProviderConfig(config).isConfigured;
+
+    const handleRecomputeFiltered = () => {
+        if (!confirm(`Пересчитать прогресс за ${filteredDates.length} дн. по текущим нормам? Нормы, действовавшие в эти дни, будут заменены.`)) return;
+        onRecomputeGoals(filteredDates);
+    };
+
     const handleClearFilters = () => {
         setStartDate('');
         setEndDate('');
     };
 
+    const handleOpenTransfer = (date: string, mealId: string) => {
+        const isOpen = transferring?.date === date && transferring.mealId === mealId;
+        setTransferring(isOpen ? null : { date, mealId });
+        setTransferDate(date);
+    };
+
+    const handleTransfer = (mode: MealTransferMode) => {
+        if (!transferring || !transferDate) return;
+        onTransferMeal(transferring.date, transferring.mealId, transferDate, mode);
+        setTransferring(null);
+    };
+
     const handleAnalyzeDay = async (date: string) => {
+        abortControllerRef.current?.abort();
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
         setAnalyzingDate(date);
         setAnalysisResult(null);
         setAnalysisError(null);
+        setAnswerInfo(null);
+        setIsStopped(false);
         setIsAnalyzing(true);
 
+        let answeredBy: AIAnswerInfo | null = null;
+        // После закрытия окна запрос продолжается, но экран больше не обновляет
+        const isShown = () => abortControllerRef.current === controller;
         try {
             const dayData = history[date];
-            const meals = Object.values(dayData.meals);
-            const userGoals = userProfile?.dailyGoals || null;
+            const meals = sortMealsChronologically(dayData.meals, mealSlots).map(([, meal]) => meal);
+            const userGoals = dayData.goalsSnapshot || userProfile?.dailyGoals || null;
             
             const analysis = await analyzeDailyIntake(
                 formatDate(date),
                 dayData.dailyTotals,
                 meals,
                 userGoals,
-                config
+                userProfile?.micronutrientGoals || null,
+                config,
+                {
+                    signal: controller.signal,
+                    onChunk: text => {
+                        if (isShown()) setAnalysisResult(text);
+                    },
+                    onAnswer: info => {
+                        answeredBy = info;
+                        if (isShown()) setAnswerInfo(info);
+                    },
+                }
             );
             
-            setAnalysisResult(analysis);
+            if (isShown()) setAnalysisResult(analysis);
+            // Вместе с текстом сохраняем цели и итоги, на которых он основан
+            onSaveAnalysis(date, {
+                id: crypto.randomUUID(),
+                createdAt: new Date().toISOString(),
+                providerName: answeredBy?.providerName || '',
+                model: answeredBy?.model || '',
+                goals: userGoals,
+                totals: dayData.dailyTotals,
+                text: analysis,
+            });
         } catch (error) {
-            setAnalysisError((error as Error).message);
+            if (isCancelledError(error)) return;
+            if (isShown()) {
+                setAnalysisError(getAIErrorMessage(error));
+            } else {
+                console.error(`Error finishing analysis for ${date}:`, error);
+            }
         } finally {
-            setIsAnalyzing(false);
+            setBackgroundDates(prev => prev.filter(item => item !== date));
+            // Результат устаревшего запроса не должен сбрасывать состояние нового
+            if (isShown()) {
+                abortControllerRef.current = null;
+                setIsAnalyzing(false);
+            }
         }
     };
 
+    const handleCancelAnalysis = () => {
+        abortControllerRef.current?.abort();
+        setIsStopped(true);
+    };
+
+    /**
+     * Закрытие окна не прерывает анализ: он дописывается в фоне и сохраняется в историю дня
+     */
     const handleCloseAnalysis = () => {
+        if (abortControllerRef.current && analyzingDate) {
+            const date = analyzingDate;
+            setBackgroundDates(prev => prev.includes(date) ? prev : [...prev, date]);
+        }
+        abortControllerRef.current = null;
+        setIsAnalyzing(false);
         setAnalyzingDate(null);
         setAnalysisResult(null);
         setAnalysisError(null);
+        setIsStopped(false);
     };
 
     if (Object.keys(history).length === 0) {
@@ -181,12 +285,20 @@ const HistoryView = ({ history, onRemoveMeal, onClearDay, config, userProfile }:
             <div className="glass-panel p-4 sm:p-6">
                 <div className="flex justify-between items-center mb-3">
                     <h2 className="text-xl font-semibold">Фильтры и экспорт</h2>
-                    <button
-                        onClick={() => setShowFilters(!showFilters)}
-                        className="text-sm text-indigo-600 hover:text-indigo-700 transition-colors"
-                    >
-                        {showFilters ? 'Скрыть' : 'Показать'}
-                    </button>
+                    <div className="flex items-center gap-3">
+                        <button
+                            onClick={() => setIsReportOpen(true)}
+                            className="mono-button px-3 py-1 text-sm"
+                        >
+                            Отчёт за период
+                        </button>
+                        <button
+                            onClick={() => setShowFilters(!showFilters)}
+                            className="text-sm text-indigo-600 hover:text-indigo-700 transition-colors"
+                        >
+                            {showFilters ? 'Скрыть' : 'Показать'}
+                        </button>
+                    </div>
                 </div>
 
                 {showFilters && (
@@ -245,6 +357,22 @@ const HistoryView = ({ history, onRemoveMeal, onClearDay, config, userProfile }:
                                 </button>
                             </div>
                         </div>
+
+                        {currentGoalVersion && (
+                            <div className="border-t border-gray-200 pt-4">
+                                <p className="text-sm font-medium text-gray-900 mb-1">Нормы в истории</p>
+                                <p className="text-xs text-gray-500 mb-2">
+                                    Каждый день хранит нормы, действовавшие в него. Изменение профиля не меняет прошлые дни.
+                                </p>
+                                <button
+                                    onClick={handleRecomputeFiltered}
+                                    disabled={filteredDates.length === 0}
+                                    className="mono-button w-full disabled:opacity-50"
+                                >
+                                    Пересчитать {(startDate || endDate) ? 'выбранный период' : 'всю историю'} по текущим нормам
+                                </button>
+                            </div>
+                        )}
                     </div>
                 )}
             </div>
@@ -259,7 +387,10 @@ const HistoryView = ({ history, onRemoveMeal, onClearDay, config, userProfile }:
                     const dayData = history[date];
                     const totals = dayData.dailyTotals;
                     const progress = dayData.progressPercentages;
-                    const goals = userProfile?.dailyGoals;
+                    // Прогресс показываем относительно норм, действовавших в этот день
+                    const goals = dayData.goalsSnapshot || userProfile?.dailyGoals;
+                    const goalVersion = goalVersions.find(version => version.id === dayData.goalVersionId);
+                    const hasOutdatedGoals = !!currentGoalVersion && dayData.goalVersionId !== currentGoalVersion.id;
                     
                     // Диагностика для каждого дня
                     console.log(`📅 День ${date}:`, {
@@ -272,16 +403,27 @@ const HistoryView = ({ history, onRemoveMeal, onClearDay, config, userProfile }:
                     return (
                         <div key={date} className="glass-panel p-2 sm:p-4 space-y-2 sm:space-y-3 animate-fade-up">
                             <div className="flex justify-between items-center gap-2 border-b border-gray-200 pb-2">
-                                <h2 className="text-base sm:text-lg font-semibold text-gray-900">
+                                <h2 className="text-base sm:text-lg font-semibold text-gray-900 flex items-center gap-2">
                                     {formatDate(date)}
+                                    {dayData.dayType && (
+                                        <span className="chip text-[10px]">{DAY_TYPE_LABELS[dayData.dayType]}</span>
+                                    )}
+                                    {dayData.water?.entries.length > 0 && (
+                                        <span className="chip text-[10px]" title="Вода и напитки">
+                                            💧 {formatLiters(getWaterTotal(dayData.water))}
+                                            {dayData.water.goalMl ? ` / ${formatLiters(dayData.water.goalMl)}` : ''}
+                                        </span>
+                                    )}
                                 </h2>
                                 <div className="flex gap-1 sm:gap-2">
                                     <button 
                                         onClick={() => handleAnalyzeDay(date)} 
-                                        className="mono-button px-2 sm:px-3 py-1 text-xs sm:text-sm flex items-center gap-1"
-                                        title="Анализ рациона с помощью AI"
+                                        disabled={!isAIReady}
+                                        className="mono-button px-2 sm:px-3 py-1 text-xs sm:text-sm flex items-center gap-1 disabled:opacity-50"
+                                        title={!isAIReady ? 'Подключите AI в настройках API' : dayData.analyses?.length ? 'Проанализировать день заново' : 'Анализ рациона с помощью AI'}
                                     >
-                                        <SparklesIcon className="w-3 h-3 sm:w-4 sm:h-4" /> <span className="hidden sm:inline">AI</span>
+                                        <SparklesIcon className="w-3 h-3 sm:w-4 sm:h-4" />
+                                        <span className="hidden sm:inline">AI</span>
                                     </button>
                                     <button 
                                         onClick={() => onClearDay(date)} 
@@ -343,22 +485,123 @@ const HistoryView = ({ history, onRemoveMeal, onClearDay, config, userProfile }:
                                     showPlaceholder={!!goals}
                                 />
                             </div>
+
+                            {hasOutdatedGoals && (
+                                <div className="flex items-center justify-between gap-2 text-[11px] sm:text-xs text-gray-500">
+                                    <span>
+                                        {goalVersion
+                                            ? `Нормы от ${formatDate(goalVersion.effectiveFrom)}`
+                                            : progress ? 'Нормы на момент записи' : 'Прогресс не рассчитан'}
+                                    </span>
+                                    <button
+                                        onClick={() => onRecomputeGoals([date])}
+                                        className="text-indigo-600 hover:text-indigo-700"
+                                    >
+                                        Пересчитать по текущим нормам
+                                    </button>
+                                </div>
+                            )}
+
+                            {hasMicronutrients(totals.micronutrients) && (
+                                <div>
+                                    <button
+                                        onClick={() => setMicronutrientsDate(micronutrientsDate === date ? null : date)}
+                                        className="text-[11px] sm:text-xs text-indigo-600 hover:text-indigo-700"
+                                    >
+                                        {micronutrientsDate === date ? 'Скрыть микронутриенты' : 'Микронутриенты'}
+                                    </button>
+                                    {micronutrientsDate === date && (
+                                        <div className="mt-1">
+                                            <MicronutrientList values={totals.micronutrients} goals={userProfile?.micronutrientGoals} />
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+
+                            {backgroundDates.includes(date) && (
+                                <p className="text-[11px] sm:text-xs text-gray-500 flex items-center gap-1.5">
+                                    <SpinnerIcon className="animate-spin h-3 w-3 text-cyan-400" />
+                                    AI дописывает анализ — он появится здесь
+                                </p>
+                            )}
+
+                            <DayAnalyses
+                                analyses={dayData.analyses || []}
+                                onDelete={(analysisId) => onDeleteAnalysis(date, analysisId)}
+                                onCompare={(analysis) => setComparing({ date, analysis })}
+                            />
                             
                             <div className="space-y-1.5 sm:space-y-2">
-                                {Object.entries(dayData.meals).map(([mealId, meal]: [string, any]) => (
+                                {sortMealsChronologically(dayData.meals, mealSlots).map(([mealId, meal]) => (
                                     <div key={mealId} className="rounded border border-gray-200 bg-white p-2 sm:p-3">
                                         <div className="flex justify-between items-center mb-1">
-                                            <h3 className="font-semibold text-sm capitalize flex items-center gap-1.5 text-gray-900">
+                                            <h3 className="font-semibold text-sm flex items-center gap-1.5 text-gray-900">
+                                                {formatMealTime(meal) && (
+                                                    <span className="text-xs font-normal text-gray-500 tabular-nums">{formatMealTime(meal)}</span>
+                                                )}
                                                 {getMealTypeLabel(meal.type)}
-                                                <span className="chip text-[10px] capitalize">{meal.type}</span>
+                                                {getMealTypeLabel(meal.type) !== meal.type && (
+                                                    <span className="chip text-[10px] capitalize">{meal.type}</span>
+                                                )}
                                             </h3>
-                                            <button 
-                                                onClick={() => onRemoveMeal(date, mealId)} 
-                                                className="p-0.5 text-gray-400 hover:text-red-600"
-                                            >
-                                                <TrashIcon className="w-3 h-3 sm:w-4 sm:h-4" />
-                                            </button>
+                                            <div className="flex items-center gap-1.5">
+                                                <button
+                                                    onClick={() => onEditMeal(date, mealId)}
+                                                    className="text-[11px] text-gray-500 hover:text-indigo-600"
+                                                    title="Изменить состав, вес и тип приёма пищи"
+                                                >
+                                                    Изменить
+                                                </button>
+                                                <button
+                                                    onClick={() => onTransferMeal(date, mealId, date, 'copy')}
+                                                    className="text-[11px] text-gray-500 hover:text-indigo-600"
+                                                    title="Добавить такой же приём пищи в этот день"
+                                                >
+                                                    Повторить
+                                                </button>
+                                                <button
+                                                    onClick={() => handleOpenTransfer(date, mealId)}
+                                                    className="text-[11px] text-gray-500 hover:text-indigo-600"
+                                                    title="Перенести или скопировать в другой день"
+                                                >
+                                                    В другой день
+                                                </button>
+                                                <button 
+                                                    onClick={() => onRemoveMeal(date, mealId)} 
+                                                    className="p-0.5 text-gray-400 hover:text-red-600"
+                                                >
+                                                    <TrashIcon className="w-3 h-3 sm:w-4 sm:h-4" />
+                                                </button>
+                                            </div>
                                         </div>
+                                        {transferring?.date === date && transferring.mealId === mealId && (
+                                            <div className="flex flex-wrap items-center gap-2 mb-2 rounded border border-indigo-100 bg-indigo-50 p-2 text-xs">
+                                                <input
+                                                    type="date"
+                                                    value={transferDate}
+                                                    onChange={(e) => setTransferDate(e.target.value)}
+                                                    className="glow-input py-1 text-xs"
+                                                    aria-label="День, куда перенести"
+                                                />
+                                                <button
+                                                    onClick={() => handleTransfer('move')}
+                                                    disabled={!transferDate || transferDate === date}
+                                                    className="mono-button text-xs px-3 py-1 disabled:opacity-50"
+                                                >
+                                                    Перенести
+                                                </button>
+                                                <button
+                                                    onClick={() => handleTransfer('copy')}
+                                                    disabled={!transferDate}
+                                                    className="mono-button text-xs px-3 py-1 disabled:opacity-50"
+                                                >
+                                                    Копировать
+                                                </button>
+                                                <button onClick={() => setTransferring(null)} className="text-gray-500 hover:text-gray-700">
+                                                    Отмена
+                                                </button>
+                                            </div>
+                                        )}
                                         <ul className="text-xs sm:text-sm space-y-1">
                                             {meal.ingredients.map((ing: any) => (
                                                 <li 
@@ -412,12 +655,26 @@ const HistoryView = ({ history, onRemoveMeal, onClearDay, config, userProfile }:
 
                         <div className="p-4 sm:p-6 space-y-4">
                             {isAnalyzing && (
-                                <div className="flex items-center justify-center py-8">
-                                    <SpinnerIcon className="animate-spin h-8 w-8 text-cyan-400" />
-                                    <span className="ml-3 text-gray-600">Анализирую ваш рацион...</span>
+                                <div className={`flex items-center justify-center ${analysisResult ? '' : 'py-8'}`}>
+                                    <SpinnerIcon className={`animate-spin text-cyan-400 ${analysisResult ? 'h-4 w-4' : 'h-8 w-8'}`} />
+                                    <span className="ml-3 text-gray-600 text-sm">
+                                        {analysisResult ? 'AI пишет анализ...' : 'Анализирую ваш рацион...'}
+                                    </span>
+                                    <button
+                                        onClick={handleCancelAnalysis}
+                                        className="mono-button ml-4 text-sm text-red-600 hover:text-red-700 border-red-300 hover:border-red-400"
+                                    >
+                                        Остановить
+                                    </button>
                                 </div>
                             )}
 
+                            {isStopped && (
+                                <p className="text-sm text-gray-600 bg-gray-50 border border-gray-200 rounded-lg p-3">
+                                    Анализ остановлен{analysisResult ? ' — неполный текст не сохранён' : ''}.
+                                </p>
+                            )}
+
                             {analysisError && (
                                 <div className="bg-red-500/10 border border-red-400/40 rounded-2xl p-4">
                                     <p className="text-red-200 font-semibold mb-2">Ошибка анализа</p>
@@ -430,10 +687,43 @@ const HistoryView = ({ history, onRemoveMeal, onClearDay, config, userProfile }:
                                         {analysisResult}
                                 </div>
                             )}
+
+                            {analysisResult && answerInfo && !isAnalyzing && (
+                                <p className="text-xs text-gray-500" title={answerInfo.failures.join('\n')}>
+                                    {describeAnswer(answerInfo)}
+                                </p>
+                            )}
+
+                            {!isAnalyzing && (isStopped || analysisError) && (
+                                <button
+                                    onClick={() => handleAnalyzeDay(analyzingDate)}
+                                    className="mono-button primary-cta w-full flex items-center justify-center gap-2 text-sm"
+                                >
+                                    <SparklesIcon className="w-4 h-4" />
+                                    Повторить анализ
+                                </button>
+                            )}
                         </div>
                     </div>
                 </div>
             )}
+
+            {comparing && (
+                <AnalysisCompare
+                    history={history}
+                    date={comparing.date}
+                    analysis={comparing.analysis}
+                    onClose={() => setComparing(null)}
+                />
+            )}
+
+            <PeriodReport
+                isOpen={isReportOpen}
+                onClose={() => setIsReportOpen(false)}
+                history={history}
+                config={config}
+                userProfile={userProfile}
+            />
         </div>
     );
 };
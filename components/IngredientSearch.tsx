@@ -1,47 +1,204 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { createPortal } from 'react-dom';
-import { PlusCircleIcon, SearchIcon } from './ui/Icons';
-import { Ingredient, SavedDish } from '../types';
-import { searchDishes } from '../utils/savedDishes';
+import { PlusCircleIcon, SearchIcon, SparklesIcon, SpinnerIcon } from './ui/Icons';
+import { Ingredient, SavedDish, FoodSearchResult, ApiConfig, Micronutrients } from '../types';
+import { searchFoods, normalizeFoodName } from '../utils/foodSearch';
+import { saveDishToLibrary } from '../utils/savedDishes';
+import { getPortionHints, parsePieceCount, parseWeightExpression } from '../utils/portions';
+import { fetchIngredientData, describeAnswer, getCurrentProviderConfig, AIAnswerInfo } from '../services/aiService';
+import { getAIErrorMessage, isCancelledError } from '../services/aiErrors';
+import { FOOD_DATABASE_VERSION, REFERENCE_FOODS } from '../constants/foodDatabase';
 
 interface IngredientSearchProps {
     onAddIngredient: (ingredient: Omit<Ingredient, 'weight'>, weight?: number) => void;
     savedDishes: SavedDish[];
+    config: ApiConfig;
+    onRefreshSavedDishes?: () => void;
 }
 
-const IngredientSearch = ({ onAddIngredient, savedDishes }: IngredientSearchProps) => {
+interface AiLookupForm {
+    name: string;
+    calories: string;
+    protein: string;
+    fat: string;
+    carbohydrate: string;
+    fiber: string;
+    weight: string;
+    // Микронутриенты из ответа AI; вручную не редактируются
+    micronutrients?: Micronutrients;
+}
+
+const AI_LOOKUP_FIELDS: Array<{ key: Exclude<keyof AiLookupForm, 'micronutrients'>; label: string }> = [
+    { key: 'calories', label: 'Калории (ккал)' },
+    { key: 'protein', label: 'Белки (г)' },
+    { key: 'fat', label: 'Жиры (г)' },
+    { key: 'carbohydrate', label: 'Углеводы (г)' },
+    { key: 'fiber', label: 'Клетчатка (г)' },
+];
+
+const IngredientSearch = ({ onAddIngredient, savedDishes, config, onRefreshSavedDishes }: IngredientSearchProps) => {
     const [query, setQuery] = useState('');
-    const [searchResults, setSearchResults] = useState<SavedDish[]>([]);
-    const [selectedDish, setSelectedDish] = useState<SavedDish | null>(null);
+    const [searchResults, setSearchResults] = useState<FoodSearchResult[]>([]);
+    const [selectedDish, setSelectedDish] = useState<FoodSearchResult | null>(null);
     const [portionWeight, setPortionWeight] = useState('');
     const [isWeightModalOpen, setIsWeightModalOpen] = useState(false);
+    const [isAiModalOpen, setIsAiModalOpen] = useState(false);
+    const [isAiLoading, setIsAiLoading] = useState(false);
+    const [aiError, setAiError] = useState<string | null>(null);
+    const [aiForm, setAiForm] = useState<AiLookupForm | null>(null);
+    const [aiAnswerInfo, setAiAnswerInfo] = useState<AIAnswerInfo | null>(null);
+    const [saveAiToLibrary, setSaveAiToLibrary] = useState(true);
+    const abortControllerRef = useRef<AbortController | null>(null);
 
     useEffect(() => {
         if (query.trim()) {
-            const results = searchDishes(query);
+            const results = searchFoods(query, savedDishes);
             setSearchResults(results);
         } else {
             setSearchResults([]);
         }
     }, [query, savedDishes]);
 
-    const handleSelectDish = (dish: SavedDish) => {
+    const handleSelectDish = (dish: FoodSearchResult) => {
         setSelectedDish(dish);
         setPortionWeight('100');
         setIsWeightModalOpen(true);
     };
 
-    const handleAddWithWeight = () => {
-        if (!selectedDish || !portionWeight) return;
+    const trimmedQuery = query.trim();
+    // Без настроенного провайдера поиск работает только по базе и своим блюдам
+    const isAIReady = getCurrentProviderConfig(config).isConfigured;
+    const hasExactMatch = searchResults.some(
+        result => result.source === 'library' && normalizeFoodName(result.name) === normalizeFoodName(trimmedQuery)
+    );
+
+    const handleCloseAiModal = () => {
+        // Закрытие во время запроса отменяет его
+        abortControllerRef.current?.abort();
+        setIsAiModalOpen(false);
+        setAiForm(null);
+        setAiError(null);
+    };
+
+    const handleAskAI = async () => {
+        if (!trimmedQuery) return;
+
+        setIsAiModalOpen(true);
+        setIsAiLoading(true);
+        setAiError(null);
+        setAiForm(null);
+        setAiAnswerInfo(null);
+        setSaveAiToLibrary(true);
+
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        let data: Awaited<ReturnType<typeof fetchIngredientData>> | null = null;
+        try {
+            data = await fetchIngredientData(trimmedQuery, config, { signal: controller.signal, onAnswer: setAiAnswerInfo });
+        } catch (err) {
+            // Отменённый запрос закрывает окно без сообщения
+            if (isCancelledError(err) || controller.signal.aborted) return;
+            setAiError(`${getAIErrorMessage(err)} Можно ввести значения вручную.`);
+        } finally {
+            if (abortControllerRef.current === controller) abortControllerRef.current = null;
+            setIsAiLoading(false);
+        }
+
+        setAiForm({
+            name: trimmedQuery,
+            calories: data ? data.calories.toString() : '',
+            protein: data ? data.protein.toString() : '',
+            fat: data ? data.fat.toString() : '',
+            carbohydrate: data ? data.carbohydrate.toString() : '',
+            fiber: data ? data.fiber.toString() : '',
+            weight: '100',
+            micronutrients: data?.micronutrients,
+        });
+    };
+
+    const handleConfirmAiLookup = () => {
+        if (!aiForm) return;
+
+        if (!aiForm.name.trim()) {
+            setAiError('Введите название продукта');
+            return;
+        }
+
+        const values = AI_LOOKUP_FIELDS.map(field => {
+            const raw = aiForm[field.key].trim().replace(',', '.');
+            return raw === '' ? 0 : parseFloat(raw);
+        });
+        if (values.some(value => isNaN(value) || value < 0)) {
+            setAiError('Значения КБЖУК должны быть неотрицательными числами');
+            return;
+        }
 
-        const weight = parseFloat(portionWeight);
-        if (isNaN(weight) || weight <= 0) return;
+        let weight: number;
+        try {
+            weight = parseWeightExpression(aiForm.weight, aiForm.name);
+        } catch (error) {
+            setAiError(`Вес порции: ${(error as Error).message}`);
+            return;
+        }
+
+        const [calories, protein, fat, carbohydrate, fiber] = values;
+        const per100g = {
+            calories: Math.round(calories),
+            protein: Number(protein.toFixed(1)),
+            fat: Number(fat.toFixed(1)),
+            carbohydrate: Number(carbohydrate.toFixed(1)),
+            fiber: Number(fiber.toFixed(1)),
+            ...(aiForm.micronutrients ? { micronutrients: aiForm.micronutrients } : {}),
+        };
+
+        if (saveAiToLibrary) {
+            try {
+                saveDishToLibrary({ id: crypto.randomUUID(), name: aiForm.name.trim(), per100g });
+                onRefreshSavedDishes?.();
+            } catch (error) {
+                setAiError((error as Error).message);
+                return;
+            }
+        }
+
+        const pieces = parsePieceCount(aiForm.weight);
+        onAddIngredient({
+            id: crypto.randomUUID(),
+            name: aiForm.name.trim(),
+            baseCPFC: per100g,
+            ...(pieces ? { pieces } : {}),
+        }, weight);
+
+        setQuery('');
+        setSearchResults([]);
+        handleCloseAiModal();
+    };
+
+    // Свои меры блюда показываются кнопками, бытовые — подсказкой
+    const householdHints = selectedDish
+        ? getPortionHints(selectedDish.name, selectedDish.portions).slice(selectedDish.portions?.length || 0)
+        : [];
+    let parsedPortionWeight: number | null = null;
+    let portionWeightError: string | null = null;
+    if (selectedDish && portionWeight.trim()) {
+        try {
+            parsedPortionWeight = parseWeightExpression(portionWeight, selectedDish.name, selectedDish.portions);
+        } catch (error) {
+            portionWeightError = (error as Error).message;
+        }
+    }
 
+    const handleAddWithWeight = () => {
+        if (!selectedDish || !parsedPortionWeight) return;
+
+        const pieces = parsePieceCount(portionWeight, selectedDish.portions);
         onAddIngredient({
             id: crypto.randomUUID(),
             name: selectedDish.name,
             baseCPFC: selectedDish.per100g,
-        }, weight);
+            ...(selectedDish.portions ? { portions: selectedDish.portions } : {}),
+            ...(pieces ? { pieces } : {}),
+        }, parsedPortionWeight);
 
         setQuery('');
         setSearchResults([]);
@@ -54,19 +211,21 @@ const IngredientSearch = ({ onAddIngredient, savedDishes }: IngredientSearchProp
         <div className="glass-panel p-3 sm:p-4 space-y-3 w-full animate-fade-up">
             <div className="flex items-center justify-between gap-2">
                 <h2 className="text-base sm:text-lg font-semibold text-gray-900">📖 Поиск по справочнику</h2>
-                <span className="chip text-[10px]">Мои блюда</span>
+                <span className="chip text-[10px]" title={`Встроенная база v${FOOD_DATABASE_VERSION}`}>
+                    Мои блюда + {REFERENCE_FOODS.length} продуктов
+                </span>
             </div>
             <div className="relative w-full">
                 <input 
                     type="text" 
                     value={query} 
                     onChange={(e) => setQuery(e.target.value)} 
-                    placeholder="Начните вводить «Смузи», «Лосось» или любое блюдо..." 
+                    placeholder="Начните вводить «Гречка», «Лосось» или любое блюдо..." 
                     className="glow-input w-full min-w-0 pr-10"
                 />
                 <SearchIcon className="absolute right-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
                 
-                {searchResults.length > 0 && (
+                {searchResults.length > 0 && !isAiModalOpen && (
                     <div className="absolute z-20 w-full mt-2 glass-panel max-h-60 overflow-y-auto scrollbar-sleek p-1 shadow-lg border border-gray-200">
                         {searchResults.map(dish => (
                             <button
@@ -74,7 +233,17 @@ const IngredientSearch = ({ onAddIngredient, savedDishes }: IngredientSearchProp
                                 onClick={() => handleSelectDish(dish)}
                                 className="w-full text-left px-3 py-2.5 rounded-lg hover:bg-gray-50 transition-colors border-b border-gray-100 last:border-b-0"
                             >
-                                <h3 className="font-semibold text-sm capitalize text-gray-900">{dish.name}</h3>
+                                <div className="flex items-center justify-between gap-2">
+                                    <h3 className="font-semibold text-sm capitalize text-gray-900">{dish.name}</h3>
+                                    <span
+                                        className={`text-[10px] px-1.5 py-0.5 rounded flex-shrink-0 ${
+                                            dish.source === 'library' ? 'bg-orange-50 text-orange-700' : 'bg-gray-100 text-gray-600'
+                                        }`}
+                                        title={dish.category}
+                                    >
+                                        {dish.sourceLabel}
+                                    </span>
+                                </div>
                                 <div className="flex flex-wrap gap-3 text-xs text-gray-600 mt-1">
                                     <span>К:{dish.per100g.calories}</span>
                                     <span>Б:{dish.per100g.protein}</span>
@@ -84,14 +253,134 @@ const IngredientSearch = ({ onAddIngredient, savedDishes }: IngredientSearchProp
                                 </div>
                             </button>
                         ))}
+                        {!hasExactMatch && isAIReady && (
+                            <button
+                                onClick={handleAskAI}
+                                className="w-full text-left px-3 py-2.5 rounded-lg hover:bg-orange-50 transition-colors flex items-center gap-2 text-sm text-orange-700"
+                            >
+                                <SparklesIcon className="w-4 h-4" />
+                                <span>Спросить AI о КБЖУК на 100 г для «{trimmedQuery}»</span>
+                            </button>
+                        )}
                     </div>
                 )}
             </div>
             
             {query && searchResults.length === 0 && (
-                <p className="text-sm text-gray-600">
-                    Блюд не найдено. Сохраните блюдо в конструкторе или уточните поисковый запрос.
-                </p>
+                <div className="space-y-2">
+                    <p className="text-sm text-gray-600">
+                        Ничего не найдено. Сохраните блюдо в конструкторе или уточните поисковый запрос.
+                    </p>
+                    {trimmedQuery && isAIReady && (
+                        <button
+                            onClick={handleAskAI}
+                            disabled={isAiLoading}
+                            className="mono-button w-full flex items-center justify-center gap-2 text-sm py-2 disabled:opacity-50"
+                        >
+                            <SparklesIcon className="w-4 h-4" />
+                            <span>Спросить AI о КБЖУК на 100 г</span>
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {isAiModalOpen && createPortal(
+                <div 
+                    className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[9999] p-4 sm:p-6"
+                    onClick={handleCloseAiModal}
+                >
+                    <div 
+                        className="bg-white w-full max-w-md space-y-4 p-5 sm:p-6 rounded-2xl shadow-2xl overflow-y-auto max-h-[85vh]"
+                        onClick={(e) => e.stopPropagation()}
+                        style={{ margin: 'auto' }}
+                    >
+                        <h3 className="text-xl font-bold text-gray-900 text-center">✨ КБЖУК от AI</h3>
+
+                        {isAiLoading && (
+                            <div className="flex items-center justify-center py-6">
+                                <SpinnerIcon className="animate-spin h-6 w-6 text-gray-500" />
+                                <span className="ml-3 text-sm text-gray-600">Узнаю пищевую ценность «{trimmedQuery}»...</span>
+                            </div>
+                        )}
+
+                        {aiForm && (
+                            <>
+                                <p className="text-sm text-gray-600 text-center">
+                                    Проверьте значения на 100 г и при необходимости исправьте их.
+                                </p>
+                                {aiAnswerInfo && (
+                                    <p className="text-xs text-gray-500 text-center" title={aiAnswerInfo.failures.join('\n')}>
+                                        {describeAnswer(aiAnswerInfo)}
+                                    </p>
+                                )}
+                                <div>
+                                    <label className="block text-sm text-gray-600 mb-1">Название продукта</label>
+                                    <input
+                                        type="text"
+                                        value={aiForm.name}
+                                        onChange={(e) => setAiForm({ ...aiForm, name: e.target.value })}
+                                        className="glow-input w-full bg-white"
+                                    />
+                                </div>
+                                <div className="grid grid-cols-2 gap-3">
+                                    {AI_LOOKUP_FIELDS.map(field => (
+                                        <div key={field.key}>
+                                            <label className="block text-sm text-gray-600 mb-1">{field.label}</label>
+                                            <input
+                                                type="number"
+                                                value={aiForm[field.key]}
+                                                onChange={(e) => setAiForm({ ...aiForm, [field.key]: e.target.value })}
+                                                placeholder="0"
+                                                className="glow-input w-full bg-white"
+                                                step="0.1"
+                                                min="0"
+                                            />
+                                        </div>
+                                    ))}
+                                    <div>
+                                        <label className="block text-sm text-gray-600 mb-1">Вес порции (г или «2 шт»)</label>
+                                        <input
+                                            type="text"
+                                            value={aiForm.weight}
+                                            onChange={(e) => setAiForm({ ...aiForm, weight: e.target.value })}
+                                            className="glow-input w-full bg-white"
+                                            title={getPortionHints(aiForm.name).join(', ')}
+                                        />
+                                    </div>
+                                </div>
+                                <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer select-none">
+                                    <input
+                                        type="checkbox"
+                                        checked={saveAiToLibrary}
+                                        onChange={(e) => setSaveAiToLibrary(e.target.checked)}
+                                    />
+                                    <span>Сохранить в «Мои блюда»</span>
+                                </label>
+                            </>
+                        )}
+
+                        {aiError && (
+                            <p className="text-red-600 text-sm font-medium bg-red-50 p-3 rounded-lg">{aiError}</p>
+                        )}
+
+                        <div className="flex gap-3 justify-end pt-2">
+                            <button
+                                onClick={handleCloseAiModal}
+                                className="mono-button px-5 py-2.5"
+                            >
+                                Отмена
+                            </button>
+                            <button
+                                onClick={handleConfirmAiLookup}
+                                className="mono-button primary-cta flex items-center gap-2 px-5 py-2.5 disabled:opacity-50"
+                                disabled={isAiLoading || !aiForm}
+                            >
+                                <PlusCircleIcon /> Добавить
+                            </button>
+                        </div>
+                    </div>
+                </div>,
+                document.body
             )}
 
             {isWeightModalOpen && selectedDish && createPortal(
@@ -109,28 +398,52 @@ const IngredientSearch = ({ onAddIngredient, savedDishes }: IngredientSearchProp
                         style={{ margin: 'auto' }}
                     >
                         <h3 className="text-xl font-bold text-gray-900 text-center">{selectedDish.name}</h3>
-                        <p className="text-sm text-gray-600 text-center">Укажите вес порции:</p>
+                        <p className="text-xs text-gray-500 text-center -mt-2">
+                            {selectedDish.sourceLabel}{selectedDish.category ? ` · ${selectedDish.category}` : ''}
+                        </p>
+                        <p className="text-sm text-gray-600 text-center">Укажите вес порции в граммах или мерах: «150+30», «2 шт»</p>
                         
                         <div className="flex items-center gap-3 justify-center">
                             <input
-                                type="number"
+                                type="text"
                                 value={portionWeight}
                                 onChange={(e) => setPortionWeight(e.target.value)}
                                 placeholder="Вес"
-                                className="glow-input w-32 text-center text-lg bg-white"
+                                className="glow-input w-40 text-center text-lg bg-white"
                                 autoFocus
-                                min="1"
-                                step="1"
                                 onKeyDown={(e) => e.key === 'Enter' && handleAddWithWeight()}
                             />
-                            <span className="text-gray-600 font-medium">грамм</span>
+                            <span className="text-gray-600 font-medium">
+                                {parsedPortionWeight !== null && String(parsedPortionWeight) !== portionWeight.trim()
+                                    ? `= ${parsedPortionWeight} г`
+                                    : 'грамм'}
+                            </span>
                         </div>
+                        {portionWeightError && (
+                            <p className="text-xs text-red-600 text-center">{portionWeightError}</p>
+                        )}
+                        {(selectedDish.portions?.length > 0 || householdHints.length > 0) && (
+                            <div className="flex flex-wrap justify-center gap-2">
+                                {selectedDish.portions?.map(portion => (
+                                    <button
+                                        key={portion.label}
+                                        onClick={() => setPortionWeight(`1 ${portion.label}`)}
+                                        className="chip text-xs"
+                                    >
+                                        1 {portion.label} · {portion.grams} г
+                                    </button>
+                                ))}
+                                {householdHints.map(hint => (
+                                    <span key={hint} className="text-xs text-gray-500">{hint}</span>
+                                ))}
+                            </div>
+                        )}
 
                         <div className="bg-gray-50 p-4 rounded-xl border border-gray-200">
-                            <p className="text-xs text-gray-500 mb-3 uppercase tracking-wide font-medium">КБЖУК для {portionWeight || 0} г:</p>
+                            <p className="text-xs text-gray-500 mb-3 uppercase tracking-wide font-medium">КБЖУК для {parsedPortionWeight || 0} г:</p>
                             <div className="grid grid-cols-5 gap-2 text-center text-xs">
                                 {(['Кал', 'Б', 'Ж', 'У', 'Кл'] as const).map((label, idx) => {
-                                    const weightValue = parseFloat(portionWeight) || 0;
+                                    const weightValue = parsedPortionWeight || 0;
                                     const nutrientMap = [
                                         Math.round((selectedDish.per100g.calories * weightValue) / 100),
                                         ((selectedDish.per100g.protein * weightValue) / 100).toFixed(1),
@@ -162,7 +475,7 @@ const IngredientSearch = ({ onAddIngredient, savedDishes }: IngredientSearchProp
                             <button
                                 onClick={handleAddWithWeight}
                                 className="mono-button primary-cta flex items-center gap-2 px-5 py-2.5"
-                                disabled={!portionWeight || parseFloat(portionWeight) <= 0}
+                                disabled={!parsedPortionWeight}
                             >
                                 <PlusCircleIcon /> Добавить
                             </button>
@@ -1,5 +1,6 @@
 import { useState, useRef } from 'react';
-import { analyzeImageWithAI, analyzeTextWithAI } from '../services/aiService';
+import { analyzeImageWithAI, analyzeTextWithAI, describeAnswer, AIAnswerInfo } from '../services/aiService';
+import { getAIErrorMessage, isCancelledError } from '../services/aiErrors';
 import { PhotoIcon, SpinnerIcon } from './ui/Icons';
 import { ApiConfig } from '../types';
 
@@ -15,7 +16,9 @@ const MealAnalyzer = ({ onAnalysisComplete, config, calculatePer100g, onCalculat
     const [image, setImage] = useState<{ file: File, previewUrl: string } | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [answerInfo, setAnswerInfo] = useState<AIAnswerInfo | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
 
     const handleFileSelect = () => { 
         setError(null); 
@@ -32,15 +35,19 @@ const MealAnalyzer = ({ onAnalysisComplete, config, calculatePer100g, onCalculat
     const handleAnalyze = async () => {
         if (isLoading || (!image && !text.trim())) return;
         
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
         setIsLoading(true);
         setError(null);
+        setAnswerInfo(null);
         
+        const options = { signal: controller.signal, onAnswer: setAnswerInfo };
         let result;
         try {
             if (image) {
-                result = await analyzeImageWithAI(image.file, text, config, calculatePer100g);
+                result = await analyzeImageWithAI(image.file, text, config, calculatePer100g, options);
             } else {
-                result = await analyzeTextWithAI(text, config, calculatePer100g);
+                result = await analyzeTextWithAI(text, config, calculatePer100g, options);
             }
             
             if (result && Array.isArray(result) && result.length > 0) {
@@ -51,12 +58,19 @@ const MealAnalyzer = ({ onAnalysisComplete, config, calculatePer100g, onCalculat
                 setError("Не удалось распознать. Попробуйте уточнить запрос или загрузить другое фото.");
             }
         } catch (err) {
-            setError(`Ошибка анализа: ${(err as Error).message}`);
+            if (!isCancelledError(err)) {
+                setError(`Ошибка анализа: ${getAIErrorMessage(err)}`);
+            }
         } finally {
+            abortControllerRef.current = null;
             setIsLoading(false);
         }
     };
 
+    const handleCancel = () => {
+        abortControllerRef.current?.abort();
+    };
+
     const handleClearImage = () => {
         if (image) URL.revokeObjectURL(image.previewUrl);
         setImage(null);
@@ -141,8 +155,22 @@ const MealAnalyzer = ({ onAnalysisComplete, config, calculatePer100g, onCalculat
                     {isLoading ? <SpinnerIcon className="w-4 h-4" /> : <span>✨</span>}
                     <span>{isLoading ? 'Анализирую...' : 'Анализировать'}</span>
                 </button>
+                {isLoading && (
+                    <button 
+                        onClick={handleCancel} 
+                        className="mono-button w-full sm:w-auto text-sm py-2.5 text-red-600 hover:text-red-700 border-red-300 hover:border-red-400"
+                    >
+                        Отменить
+                    </button>
+                )}
             </div>
 
+            {answerInfo && !isLoading && (
+                <p className="text-xs text-gray-500" title={answerInfo.failures.join('\n')}>
+                    {describeAnswer(answerInfo)}
+                </p>
+            )}
+
             {error && (
                 <p className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-lg p-3">
                     {error}
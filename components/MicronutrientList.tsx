@@ -0,0 +1,46 @@
+import { Micronutrients } from '../types';
+import { MICRONUTRIENTS, formatMicronutrient } from '../utils/micronutrients';
+
+interface MicronutrientListProps {
+    values: Micronutrients | undefined;
+    goals?: Micronutrients | null;
+}
+
+/**
+ * Компактный список известных микронутриентов с отметкой относительно норм
+ */
+const MicronutrientList = ({ values, goals }: MicronutrientListProps) => {
+    const known = MICRONUTRIENTS.filter(nutrient => values?.[nutrient.key] !== undefined);
+    if (known.length === 0) return null;
+
+    return (
+        <ul className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-0.5 text-[11px] sm:text-xs">
+            {known.map(nutrient => {
+                const value = values[nutrient.key];
+                const goal = goals?.[nutrient.key];
+                const percent = goal ? Math.round((value / goal) * 100) : null;
+                // Для пределов плохо превышение, для целевых — недобор
+                const color = percent === null
+                    ? 'text-gray-900'
+                    : nutrient.kind === 'limit'
+                        ? percent > 100 ? 'text-red-600' : 'text-gray-900'
+                        : percent >= 100 ? 'text-emerald-700' : 'text-gray-900';
+                return (
+                    <li key={nutrient.key} className="flex items-center justify-between gap-2 border-b border-gray-100 py-0.5">
+                        <span className="text-gray-600">{nutrient.label}</span>
+                        <span className={`font-medium ${color}`}>
+                            {formatMicronutrient(nutrient, value)}
+                            {percent !== null && (
+                                <span className="text-gray-500 font-normal">
+                                    {' '}· {percent}% {nutrient.kind === 'limit' ? 'предела' : 'нормы'}
+                                </span>
+                            )}
+                        </span>
+                    </li>
+                );
+            })}
+        </ul>
+    );
+};
+
+export default MicronutrientList;
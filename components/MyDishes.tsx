@@ -1,13 +1,16 @@
 import { useState } from 'react';
 import { createPortal } from 'react-dom';
-import { SavedDish } from '../types';
+import { PortionDefinition, SavedDish } from '../types';
 import { PlusCircleIcon, TrashIcon, EditIcon } from './ui/Icons';
+import { getServingWeight } from '../utils/recipes';
+import { formatPortion, parsePortionDefinition } from '../utils/portions';
 
 interface MyDishesProps {
     dishes: SavedDish[];
     onAddDish: (dish: Omit<SavedDish, 'id'>) => void;
     onUpdateDish: (id: string, dish: Omit<SavedDish, 'id'>) => void;
     onDeleteDish: (id: string) => void;
+    onOpenRecipe: (dish: SavedDish) => void;
 }
 
 interface DishFormData {
@@ -17,9 +20,11 @@ interface DishFormData {
     fat: string;
     carbohydrate: string;
     fiber: string;
+    // Свои меры блюда, по одной на строку: «1 кусок = 120 г»
+    portions: string;
 }
 
-const MyDishes = ({ dishes, onAddDish, onUpdateDish, onDeleteDish }: MyDishesProps) => {
+const MyDishes = ({ dishes, onAddDish, onUpdateDish, onDeleteDish, onOpenRecipe }: MyDishesProps) => {
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [editingId, setEditingId] = useState<string | null>(null);
     const [formData, setFormData] = useState<DishFormData>({
@@ -29,6 +34,7 @@ const MyDishes = ({ dishes, onAddDish, onUpdateDish, onDeleteDish }: MyDishesPro
         fat: '',
         carbohydrate: '',
         fiber: '',
+        portions: '',
     });
     const [formError, setFormError] = useState<string | null>(null);
 
@@ -40,6 +46,7 @@ const MyDishes = ({ dishes, onAddDish, onUpdateDish, onDeleteDish }: MyDishesPro
             fat: '',
             carbohydrate: '',
             fiber: '',
+            portions: '',
         });
         setFormError(null);
         setEditingId(null);
@@ -58,6 +65,7 @@ const MyDishes = ({ dishes, onAddDish, onUpdateDish, onDeleteDish }: MyDishesPro
             fat: dish.per100g.fat.toString(),
             carbohydrate: dish.per100g.carbohydrate.toString(),
             fiber: dish.per100g.fiber.toString(),
+            portions: (dish.portions || []).map(formatPortion).join('\n'),
         });
         setEditingId(dish.id);
         setFormError(null);
@@ -86,7 +94,20 @@ const MyDishes = ({ dishes, onAddDish, onUpdateDish, onDeleteDish }: MyDishesPro
             return;
         }
 
-        const dishData = {
+        let portions: PortionDefinition[];
+        try {
+            portions = formData.portions
+                .split('\n')
+                .filter(line => line.trim())
+                .map(parsePortionDefinition);
+        } catch (error) {
+            setFormError((error as Error).message);
+            return;
+        }
+
+        // Микронутриенты в форме не редактируются — сохраняем известные значения блюда
+        const micronutrients = dishes.find(dish => dish.id === editingId)?.per100g.micronutrients;
+        const dishData: Omit<SavedDish, 'id'> = {
             name: formData.name.trim(),
             per100g: {
                 calories: Math.round(calories),
@@ -94,7 +115,9 @@ const MyDishes = ({ dishes, onAddDish, onUpdateDish, onDeleteDish }: MyDishesPro
                 fat: Number(fat.toFixed(1)),
                 carbohydrate: Number(carbohydrate.toFixed(1)),
                 fiber: Number(fiber.toFixed(1)),
+                ...(micronutrients ? { micronutrients } : {}),
             },
+            ...(portions.length > 0 ? { portions } : {}),
         };
 
         if (editingId) {
@@ -135,14 +158,21 @@ const MyDishes = ({ dishes, onAddDish, onUpdateDish, onDeleteDish }: MyDishesPro
                     {dishes.map(dish => (
                         <div key={dish.id} className="rounded-lg border border-gray-200 bg-white p-4">
                             <div className="flex justify-between items-start gap-3 mb-3">
-                                <h3 className="font-semibold text-base capitalize flex-1">
-                                    {dish.name}
-                                </h3>
+                                <div className="flex-1">
+                                    <h3 className="font-semibold text-base capitalize">
+                                        {dish.name}
+                                    </h3>
+                                    {dish.recipe && (
+                                        <p className="text-xs text-gray-500 mt-0.5">
+                                            Рецепт: {dish.recipe.ingredients.length} ингр. · {dish.recipe.rawWeight} г сырых → {dish.recipe.cookedWeight} г готового · {dish.recipe.servings} порц. по {getServingWeight(dish.recipe)} г
+                                        </p>
+                                    )}
+                                </div>
                                 <div className="flex gap-2 flex-shrink-0">
                                     <button
-                                        onClick={() => handleOpenEdit(dish)}
+                                        onClick={() => dish.recipe ? onOpenRecipe(dish) : handleOpenEdit(dish)}
                                         className="text-indigo-600 hover:text-indigo-700 transition-colors"
-                                        title="Редактировать"
+                                        title={dish.recipe ? 'Открыть рецепт в конструкторе' : 'Редактировать'}
                                     >
                                         <EditIcon className="h-4 w-4" />
                                     </button>
@@ -170,6 +200,16 @@ const MyDishes = ({ dishes, onAddDish, onUpdateDish, onDeleteDish }: MyDishesPro
                                     </div>
                                 ))}
                             </div>
+                            {dish.recipe && (
+                                <p className="text-xs text-gray-600 mt-2">
+                                    Порция {getServingWeight(dish.recipe)} г: {Math.round(dish.per100g.calories * getServingWeight(dish.recipe) / 100)} ккал
+                                </p>
+                            )}
+                            {dish.portions && dish.portions.length > 0 && (
+                                <p className="text-xs text-gray-500 mt-1">
+                                    Меры: {dish.portions.map(formatPortion).join(' · ')}
+                                </p>
+                            )}
                         </div>
                     ))}
                 </div>
@@ -231,6 +271,20 @@ const MyDishes = ({ dishes, onAddDish, onUpdateDish, onDeleteDish }: MyDishesPro
                                     ))}
                                 </div>
                             </div>
+
+                            <div className="border-t border-gray-200 pt-4">
+                                <label className="block text-sm font-semibold text-gray-900 uppercase tracking-wide mb-1">Меры</label>
+                                <p className="text-xs text-gray-500 mb-2">
+                                    По одной на строку, например «1 яйцо = 55 г» или «1 ст. л. = 17 г». Тогда в поле веса можно писать «2 яйца».
+                                </p>
+                                <textarea
+                                    value={formData.portions}
+                                    onChange={(e) => setFormData({ ...formData, portions: e.target.value })}
+                                    placeholder="1 кусок = 120 г"
+                                    className="glow-input w-full bg-white text-sm"
+                                    rows={3}
+                                />
+                            </div>
                         </div>
 
                         {formError && (
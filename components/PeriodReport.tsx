@@ -0,0 +1,275 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { CloseIcon, SparklesIcon, SpinnerIcon } from './ui/Icons';
+import { ApiConfig, History, ReportPeriod, UserProfile } from '../types';
+import { getLocalDateKey, getMealTypeLabel } from '../utils/calculations';
+import { buildPeriodSummary, formatPeriodTitle, getNutrientLabel, shiftPeriod } from '../utils/periodReport';
+import { exportPeriodReport } from '../utils/exportHistory';
+import { analyzePeriod, describeAnswer, AIAnswerInfo } from '../services/aiService';
+import { getAIErrorMessage, isCancelledError } from '../services/aiErrors';
+
+interface PeriodReportProps {
+    isOpen: boolean;
+    onClose: () => void;
+    history: History;
+    config: ApiConfig;
+    userProfile: UserProfile | null;
+}
+
+const PERIOD_OPTIONS: Array<{ value: ReportPeriod; label: string }> = [
+    { value: 'week', label: 'Неделя' },
+    { value: 'month', label: 'Месяц' },
+];
+
+const PeriodReport = ({ isOpen, onClose, history, config, userProfile }: PeriodReportProps) => {
+    const [period, setPeriod] = useState<ReportPeriod>('week');
+    const [anchorDate, setAnchorDate] = useState(() => getLocalDateKey());
+    const [aiReport, setAiReport] = useState<string | null>(null);
+    const [aiError, setAiError] = useState<string | null>(null);
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [isStopped, setIsStopped] = useState(false);
+    const [answerInfo, setAnswerInfo] = useState<AIAnswerInfo | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    const summary = useMemo(
+        () => buildPeriodSummary(history, period, anchorDate, userProfile?.dailyGoals || null),
+        [history, period, anchorDate, userProfile]
+    );
+
+    // Отчёт AI относится к конкретному периоду: при смене периода или закрытии он сбрасывается
+    useEffect(() => {
+        abortControllerRef.current?.abort();
+        setAiReport(null);
+        setAiError(null);
+        setIsStopped(false);
+        setAnswerInfo(null);
+    }, [period, anchorDate, isOpen]);
+
+    const handleGenerate = async () => {
+        abortControllerRef.current?.abort();
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        setAiReport(null);
+        setAiError(null);
+        setIsStopped(false);
+        setAnswerInfo(null);
+        setIsGenerating(true);
+
+        try {
+            const report = await analyzePeriod(summary, config, {
+                signal: controller.signal,
+                onChunk: setAiReport,
+                onAnswer: setAnswerInfo,
+            });
+            setAiReport(report);
+        } catch (error) {
+            if (isCancelledError(error)) return;
+            setAiError(getAIErrorMessage(error));
+        } finally {
+            if (abortControllerRef.current === controller) {
+                abortControllerRef.current = null;
+                setIsGenerating(false);
+            }
+        }
+    };
+
+    const handleStop = () => {
+        abortControllerRef.current?.abort();
+        setIsStopped(true);
+    };
+
+    if (!isOpen) return null;
+
+    const isCurrentPeriod = summary.endDate >= getLocalDateKey();
+    const hasData = summary.loggedDays > 0;
+
+    return createPortal(
+        <div
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[9999] p-2 sm:p-4"
+            onClick={onClose}
+        >
+            <div
+                className="bg-white w-full max-w-3xl space-y-4 p-4 sm:p-6 rounded-2xl shadow-2xl overflow-y-auto max-h-[90vh] relative"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <button
+                    onClick={onClose}
+                    className="absolute top-2 right-2 p-1 text-gray-500 hover:text-gray-700 rounded-full hover:bg-gray-100 transition-colors"
+                    aria-label="Закрыть"
+                >
+                    <CloseIcon />
+                </button>
+
+                <h3 className="text-lg font-semibold text-gray-900 pr-8">Отчёт за период</h3>
+
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex gap-1">
+                        {PERIOD_OPTIONS.map(option => (
+                            <button
+                                key={option.value}
+                                onClick={() => setPeriod(option.value)}
+                                className={`mono-button px-3 py-1 text-sm ${period === option.value ? 'primary-cta' : ''}`}
+                            >
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex items-center gap-2 text-sm">
+                        <button
+                            onClick={() => setAnchorDate(shiftPeriod(period, anchorDate, -1))}
+                            className="mono-button px-2 py-1"
+                            aria-label="Предыдущий период"
+                        >
+                            ←
+                        </button>
+                        <span className="font-medium text-gray-900 text-center min-w-[10rem]">
+                            {formatPeriodTitle(period, summary.startDate, summary.endDate)}
+                        </span>
+                        <button
+                            onClick={() => setAnchorDate(shiftPeriod(period, anchorDate, 1))}
+                            disabled={isCurrentPeriod}
+                            className="mono-button px-2 py-1 disabled:opacity-40"
+                            aria-label="Следующий период"
+                        >
+                            →
+                        </button>
+                    </div>
+                </div>
+
+                {!hasData ? (
+                    <p className="text-sm text-gray-500 text-center py-6">Нет записей за этот период</p>
+                ) : (
+                    <>
+                        <p className="text-xs text-gray-500">
+                            Дней с записями: {summary.loggedDays} из {summary.totalDays} · в среднем {summary.mealsPerDay.toFixed(1)} приёма пищи в день
+                        </p>
+
+                        <div>
+                            <h4 className="text-sm font-semibold text-gray-900 mb-2">Среднее за день</h4>
+                            <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+                                {(['calories', 'protein', 'fat', 'carbohydrate', 'fiber'] as const).map(nutrient => {
+                                    const adherence = summary.adherence.find(item => item.nutrient === nutrient);
+                                    return (
+                                        <div key={nutrient} className="rounded-lg border border-gray-200 bg-gray-50 p-2">
+                                            <p className="text-[11px] text-gray-500">{getNutrientLabel(nutrient)}</p>
+                                            <p className="text-base font-bold text-gray-900">
+                                                {nutrient === 'calories'
+                                                    ? `${Math.round(summary.averages.calories)} ккал`
+                                                    : `${summary.averages[nutrient].toFixed(1)} г`}
+                                            </p>
+                                            {adherence && (
+                                                <p className={`text-[11px] ${Math.abs(adherence.averagePercent - 100) <= 10 ? 'text-emerald-600' : 'text-amber-600'}`}>
+                                                    {adherence.averagePercent}% цели · {adherence.daysOnTarget}/{summary.loggedDays} дн.
+                                                </p>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                            {!summary.goals && (
+                                <p className="text-xs text-gray-500 mt-1">Заполните профиль, чтобы видеть выполнение целей</p>
+                            )}
+                        </div>
+
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            <div>
+                                <h4 className="text-sm font-semibold text-gray-900 mb-2">Приёмы пищи</h4>
+                                <ul className="space-y-1 text-xs">
+                                    {summary.mealPattern.map(item => (
+                                        <li key={item.type} className="flex items-center gap-2">
+                                            <span className="w-20 text-gray-600 flex-shrink-0">{getMealTypeLabel(item.type)}</span>
+                                            <div className="flex-1 h-3 rounded bg-gray-100 overflow-hidden">
+                                                <div className="h-full bg-indigo-400" style={{ width: `${item.caloriesShare}%` }} />
+                                            </div>
+                                            <span className="w-24 text-right text-gray-900">
+                                                {item.caloriesShare}% · ~{Math.round(item.averageCalories)}
+                                            </span>
+                                        </li>
+                                    ))}
+                                </ul>
+                                {summary.weekdayCalories !== null && summary.weekendCalories !== null && (
+                                    <p className="text-xs text-gray-600 mt-2">
+                                        Будни: ~{Math.round(summary.weekdayCalories)} ккал · выходные: ~{Math.round(summary.weekendCalories)} ккал
+                                    </p>
+                                )}
+                            </div>
+                            <div>
+                                <h4 className="text-sm font-semibold text-gray-900 mb-2">Чаще всего</h4>
+                                <ul className="space-y-1 text-xs">
+                                    {summary.topFoods.map(food => (
+                                        <li key={food.name} className="flex justify-between gap-2">
+                                            <span className="text-gray-700 capitalize truncate">{food.name}</span>
+                                            <span className="text-gray-500 flex-shrink-0">
+                                                {food.count}× · {Math.round(food.totalCalories)} ккал
+                                            </span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        </div>
+
+                        <div className="border-t border-gray-200 pt-4 space-y-3">
+                            {isGenerating ? (
+                                <div className="flex items-center justify-center">
+                                    <SpinnerIcon className="animate-spin text-cyan-400 h-4 w-4" />
+                                    <span className="ml-3 text-gray-600 text-sm">
+                                        {aiReport ? 'AI пишет отчёт...' : 'Анализирую период...'}
+                                    </span>
+                                    <button
+                                        onClick={handleStop}
+                                        className="mono-button ml-4 text-sm text-red-600 hover:text-red-700 border-red-300 hover:border-red-400"
+                                    >
+                                        Остановить
+                                    </button>
+                                </div>
+                            ) : (
+                                <div className="flex flex-col sm:flex-row gap-2">
+                                    <button
+                                        onClick={handleGenerate}
+                                        className="mono-button primary-cta flex-1 flex items-center justify-center gap-2 text-sm"
+                                    >
+                                        <SparklesIcon className="w-4 h-4" />
+                                        {aiReport ? 'Составить заново' : 'AI-отчёт о тенденциях'}
+                                    </button>
+                                    <button
+                                        onClick={() => exportPeriodReport(summary, isStopped ? null : aiReport)}
+                                        className="mono-button flex-1 text-sm"
+                                    >
+                                        Экспорт отчёта
+                                    </button>
+                                </div>
+                            )}
+
+                            {isStopped && (
+                                <p className="text-sm text-gray-600 bg-gray-50 border border-gray-200 rounded-lg p-3">
+                                    Отчёт остановлен{aiReport ? ' — неполный текст не попадёт в экспорт' : ''}.
+                                </p>
+                            )}
+
+                            {aiError && (
+                                <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                                    <p className="text-red-700 text-sm">{aiError}</p>
+                                </div>
+                            )}
+
+                            {aiReport && (
+                                <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 whitespace-pre-wrap text-sm leading-relaxed text-gray-700">
+                                    {aiReport}
+                                </div>
+                            )}
+
+                            {aiReport && answerInfo && !isGenerating && (
+                                <p className="text-xs text-gray-500" title={answerInfo.failures.join('\n')}>
+                                    {describeAnswer(answerInfo)}
+                                </p>
+                            )}
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>,
+        document.body
+    );
+};
+
+export default PeriodReport;
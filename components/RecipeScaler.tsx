@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { Ingredient, Recipe } from '../types';
+import { HouseholdUnitId } from '../constants/householdUnits';
+import { getAvailableUnits } from '../utils/householdUnits';
+
+type ScaleMode = 'servings' | 'weight' | 'cooked';
+
+interface RecipeScalerProps {
+    ingredients: Ingredient[];
+    totalWeight: number;
+    servings: number;
+    // Рецепт задаёт выход готового блюда; без него масштаб по готовому весу недоступен
+    recipe?: Recipe;
+    onScale: (factor: number, servings: number) => void;
+    onUpdateWeight: (id: string, weight: number, pieces?: number | null) => void;
+}
+
+const MODE_LABELS: Record<ScaleMode, string> = {
+    servings: 'Порции',
+    weight: 'Вес ингредиентов, г',
+    cooked: 'Вес готового блюда, г',
+};
+
+/**
+ * Масштабирование состава блюда и перевод бытовых мер в граммы
+ */
+const RecipeScaler = ({ ingredients, totalWeight, servings, recipe, onScale, onUpdateWeight }: RecipeScalerProps) => {
+    const [mode, setMode] = useState<ScaleMode>('servings');
+    const [target, setTarget] = useState('');
+    const [unitIngredientId, setUnitIngredientId] = useState('');
+    const [unitAmount, setUnitAmount] = useState('1');
+    const [unitId, setUnitId] = useState<HouseholdUnitId | ''>('');
+
+    const cookedWeight = recipe && recipe.rawWeight > 0 ? totalWeight * (recipe.cookedWeight / recipe.rawWeight) : null;
+    const current = mode === 'servings' ? servings : mode === 'weight' ? totalWeight : cookedWeight || 0;
+    const targetValue = parseFloat(target);
+    const factor = targetValue > 0 && current > 0 ? targetValue / current : null;
+    const modes = (Object.keys(MODE_LABELS) as ScaleMode[]).filter(item => item !== 'cooked' || cookedWeight);
+
+    const handleApply = () => {
+        if (!factor) return;
+        onScale(factor, mode === 'servings' ? targetValue : servings);
+        setTarget('');
+    };
+
+    const unitIngredient = ingredients.find(item => item.id === unitIngredientId) || ingredients[0];
+    const units = unitIngredient ? getAvailableUnits(unitIngredient.name) : [];
+    const selectedUnit = units.find(unit => unit.id === unitId) || units[0];
+    const amount = parseFloat(unitAmount.replace(',', '.')) || 0;
+    const unitGrams = selectedUnit ? amount * selectedUnit.grams : 0;
+    const unitPieces = selectedUnit?.id === 'piece' && Number.isInteger(amount) && amount >= 1 ? amount : null;
+
+    return (
+        <div className="space-y-3">
+            <div className="space-y-2">
+                <div className="flex flex-wrap gap-1.5">
+                    {modes.map(item => (
+                        <button
+                            key={item}
+                            onClick={() => setMode(item)}
+                            className={`chip text-[11px] ${item === mode ? 'bg-indigo-100 text-indigo-800 border-indigo-300' : ''}`}
+                        >
+                            {MODE_LABELS[item]}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex flex-wrap items-center gap-2 text-xs text-gray-700">
+                    <span>Сейчас {Math.round(current)} → </span>
+                    <input
+                        type="number"
+                        value={target}
+                        onChange={(e) => setTarget(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleApply()}
+                        className="glow-input w-24 py-1 text-xs"
+                        min="0"
+                        aria-label={MODE_LABELS[mode]}
+                    />
+                    {factor && <span className="text-gray-500">×{factor.toFixed(2)}</span>}
+                    <button
+                        onClick={handleApply}
+                        disabled={!factor}
+                        className="mono-button text-xs px-3 py-1 disabled:opacity-50"
+                    >
+                        Пересчитать
+                    </button>
+                </div>
+                <p className="text-[11px] text-gray-500">
+                    Веса округляются до 0,5–5 г, продукты целыми штуками остаются целыми штуками
+                </p>
+            </div>
+
+            {unitIngredient && (
+                <div className="border-t border-gray-200 pt-2 space-y-2">
+                    <p className="text-xs font-semibold text-gray-900">Бытовые меры → граммы</p>
+                    <div className="flex flex-wrap items-center gap-2 text-xs">
+                        <select
+                            value={unitIngredient.id}
+                            onChange={(e) => {
+                                setUnitIngredientId(e.target.value);
+                                setUnitId('');
+                            }}
+                            className="glow-input py-1 text-xs max-w-[10rem]"
+                        >
+                            {ingredients.map(item => (
+                                <option key={item.id} value={item.id}>{item.name}</option>
+                            ))}
+                        </select>
+                        {units.length > 0 ? (
+                            <>
+                                <input
+                                    type="text"
+                                    inputMode="decimal"
+                                    value={unitAmount}
+                                    onChange={(e) => setUnitAmount(e.target.value)}
+                                    className="glow-input w-14 py-1 text-xs"
+                                    aria-label="Количество"
+                                />
+                                <select
+                                    value={selectedUnit.id}
+                                    onChange={(e) => setUnitId(e.target.value as HouseholdUnitId)}
+                                    className="glow-input py-1 text-xs"
+                                >
+                                    {units.map(unit => (
+                                        <option key={unit.id} value={unit.id}>{unit.label} ({Math.round(unit.grams)} г)</option>
+                                    ))}
+                                </select>
+                                <span className="text-gray-700">= {Math.round(unitGrams)} г</span>
+                                <button
+                                    onClick={() => onUpdateWeight(unitIngredient.id, Math.round(unitGrams), unitPieces)}
+                                    disabled={!(unitGrams > 0)}
+                                    className="mono-button text-xs px-3 py-1 disabled:opacity-50"
+                                >
+                                    Подставить
+                                </button>
+                            </>
+                        ) : (
+                            <span className="text-gray-500">Для этого продукта меры не известны</span>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default RecipeScaler;
@@ -0,0 +1,299 @@
+import { useState, useEffect, useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import { CloseIcon } from './ui/Icons';
+import { AIFeature, UsageRecord, UsageSettings } from '../types';
+import {
+    FEATURE_LABELS,
+    loadUsageLedger,
+    loadUsageSettings,
+    saveUsageSettings,
+    clearUsageLedger,
+    summarizeUsage,
+    getRecordsForMonth,
+    groupUsageByDay,
+    groupUsageBy,
+    getModelPrice,
+    formatCost,
+    UsageTotals,
+} from '../services/usageLedger';
+
+interface UsageDashboardProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const formatTokens = (tokens: number) => tokens >= 10000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+const SummaryCard = ({ title, totals }: { title: string; totals: UsageTotals }) => (
+    <div className="rounded-lg border border-gray-200 bg-gray-50 p-3">
+        <p className="text-xs text-gray-500">{title}</p>
+        <p className="text-xl font-bold text-gray-900">{formatCost(totals.cost)}</p>
+        <p className="text-[11px] text-gray-500">
+            {totals.requests} запр. · {formatTokens(totals.promptTokens)} → {formatTokens(totals.completionTokens)} ток.
+        </p>
+        {totals.unpricedRequests > 0 && (
+            <p className="text-[11px] text-amber-600">Без цены: {totals.unpricedRequests}</p>
+        )}
+    </div>
+);
+
+const UsageDashboard = ({ isOpen, onClose }: UsageDashboardProps) => {
+    const [records, setRecords] = useState<UsageRecord[]>([]);
+    const [settings, setSettings] = useState<UsageSettings>(loadUsageSettings);
+    const [budgetInput, setBudgetInput] = useState('');
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const loaded = loadUsageSettings();
+        setRecords(loadUsageLedger());
+        setSettings(loaded);
+        setBudgetInput(loaded.monthlyBudget !== null ? String(loaded.monthlyBudget) : '');
+    }, [isOpen]);
+
+    const monthRecords = useMemo(() => getRecordsForMonth(records), [records]);
+    const todayKey = new Date().toLocaleDateString('sv-SE');
+    const days = useMemo(() => groupUsageByDay(monthRecords), [monthRecords]);
+    const monthTotals = useMemo(() => summarizeUsage(monthRecords), [monthRecords]);
+    const byFeature = useMemo(() => groupUsageBy(monthRecords, 'feature'), [monthRecords]);
+    const byModel = useMemo(() => groupUsageBy(monthRecords, 'model'), [monthRecords]);
+    const todayTotals = days[todayKey] || summarizeUsage([]);
+    const maxDayCost = Math.max(...Object.values(days).map(day => day.cost), 0);
+
+    const updateSettings = (next: UsageSettings) => {
+        setSettings(next);
+        saveUsageSettings(next);
+    };
+
+    const handleBudgetChange = (value: string) => {
+        setBudgetInput(value);
+        const budget = parseFloat(value.replace(',', '.'));
+        updateSettings({ ...settings, monthlyBudget: value.trim() && budget >= 0 ? budget : null });
+    };
+
+    const handlePriceChange = (model: string, field: 'input' | 'output', value: string) => {
+        const current = getModelPrice(model, settings) || { input: 0, output: 0 };
+        const price = parseFloat(value.replace(',', '.'));
+        updateSettings({
+            ...settings,
+            customPrices: {
+                ...settings.customPrices,
+                [model]: { ...current, [field]: isNaN(price) ? 0 : price },
+            },
+        });
+    };
+
+    const handleResetPrice = (model: string) => {
+        const { [model]: _removed, ...customPrices } = settings.customPrices;
+        updateSettings({ ...settings, customPrices });
+    };
+
+    const handleClear = () => {
+        if (!confirm('Удалить журнал расходов?')) return;
+        clearUsageLedger();
+        setRecords([]);
+    };
+
+    if (!isOpen) return null;
+
+    const budgetPercent = settings.monthlyBudget
+        ? Math.round((monthTotals.cost / settings.monthlyBudget) * 100)
+        : null;
+    const usedModels = Array.from(new Set([...Object.keys(byModel), ...Object.keys(settings.customPrices)]));
+
+    return createPortal(
+        <div
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[9999] p-2 sm:p-4"
+            onClick={onClose}
+        >
+            <div
+                className="bg-white w-full max-w-2xl space-y-4 p-4 sm:p-6 rounded-2xl shadow-2xl overflow-y-auto max-h-[90vh] relative"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <button
+                    onClick={onClose}
+                    className="absolute top-2 right-2 p-1 text-gray-500 hover:text-gray-700 rounded-full hover:bg-gray-100 transition-colors"
+                    aria-label="Закрыть"
+                >
+                    <CloseIcon />
+                </button>
+
+                <div>
+                    <h3 className="text-lg font-semibold text-gray-900">Расходы на AI</h3>
+                    <p className="text-xs text-gray-500 mt-1">
+                        Стоимость — оценка по таблице цен; ответы из кэша бесплатны и сюда не попадают
+                    </p>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                    <SummaryCard title="Сегодня" totals={todayTotals} />
+                    <SummaryCard title="Этот месяц" totals={monthTotals} />
+                </div>
+
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Месячный лимит, $
+                    </label>
+                    <input
+                        type="number"
+                        min={0}
+                        step="0.5"
+                        value={budgetInput}
+                        onChange={(e) => handleBudgetChange(e.target.value)}
+                        placeholder="Без ограничения"
+                        className="glow-input w-full"
+                    />
+                    {budgetPercent !== null && (
+                        <div className="mt-2">
+                            <div className="h-2 rounded-full bg-gray-200 overflow-hidden">
+                                <div
+                                    className={`h-full ${budgetPercent >= 100 ? 'bg-red-500' : budgetPercent >= 80 ? 'bg-amber-500' : 'bg-emerald-500'}`}
+                                    style={{ width: `${Math.min(budgetPercent, 100)}%` }}
+                                />
+                            </div>
+                            <p className={`text-xs mt-1 ${budgetPercent >= 100 ? 'text-red-600' : 'text-gray-500'}`}>
+                                {budgetPercent >= 100
+                                    ? 'Лимит исчерпан — запросы к AI заблокированы до следующего месяца или увеличения лимита'
+                                    : `Использовано ${budgetPercent}% лимита`}
+                            </p>
+                            <p className="text-[11px] text-gray-500 mt-1">
+                                Модели без цены при заданном лимите не используются — укажите их цену в таблице ниже
+                            </p>
+                        </div>
+                    )}
+                </div>
+
+                {Object.keys(days).length > 0 && (
+                    <div>
+                        <h4 className="text-sm font-semibold text-gray-900 mb-2">По дням</h4>
+                        <ul className="space-y-1">
+                            {Object.entries(days).sort(([a], [b]) => b.localeCompare(a)).map(([date, totals]) => (
+                                <li key={date} className="flex items-center gap-2 text-xs">
+                                    <span className="w-20 text-gray-600 flex-shrink-0">{date.slice(8)}.{date.slice(5, 7)}</span>
+                                    <div className="flex-1 h-3 rounded bg-gray-100 overflow-hidden">
+                                        <div
+                                            className="h-full bg-indigo-400"
+                                            style={{ width: `${maxDayCost > 0 ? (totals.cost / maxDayCost) * 100 : 0}%` }}
+                                        />
+                                    </div>
+                                    <span className="w-16 text-right text-gray-900">{formatCost(totals.cost)}</span>
+                                    <span className="w-14 text-right text-gray-500">{totals.requests} запр.</span>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+
+                {Object.keys(byFeature).length > 0 && (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        <div>
+                            <h4 className="text-sm font-semibold text-gray-900 mb-2">По функциям</h4>
+                            <ul className="space-y-1 text-xs">
+                                {Object.entries(byFeature).map(([feature, totals]) => (
+                                    <li key={feature} className="flex justify-between gap-2">
+                                        <span className="text-gray-600">{FEATURE_LABELS[feature as AIFeature] || feature}</span>
+                                        <span className="text-gray-900">{formatCost(totals.cost)} · {totals.requests}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                        <div>
+                            <h4 className="text-sm font-semibold text-gray-900 mb-2">По моделям</h4>
+                            <ul className="space-y-1 text-xs">
+                                {Object.entries(byModel).map(([model, totals]) => (
+                                    <li key={model} className="flex justify-between gap-2">
+                                        <span className="text-gray-600 truncate">{model}</span>
+                                        <span className="text-gray-900 flex-shrink-0">{formatCost(totals.cost)} · {totals.requests}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    </div>
+                )}
+
+                {usedModels.length > 0 && (
+                    <div>
+                        <h4 className="text-sm font-semibold text-gray-900 mb-1">Цены моделей, $ за 1 млн токенов</h4>
+                        <div className="space-y-1">
+                            {usedModels.map(model => {
+                                const price = getModelPrice(model, settings);
+                                const isCustom = !!settings.customPrices[model];
+                                return (
+                                    <div key={model} className="flex items-center gap-2 text-xs">
+                                        <span className="flex-1 min-w-0 truncate text-gray-700" title={model}>{model}</span>
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            step="0.01"
+                                            value={price?.input ?? ''}
+                                            onChange={(e) => handlePriceChange(model, 'input', e.target.value)}
+                                            placeholder="ввод"
+                                            className="glow-input w-20 py-1 text-xs"
+                                            aria-label="Цена ввода"
+                                        />
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            step="0.01"
+                                            value={price?.output ?? ''}
+                                            onChange={(e) => handlePriceChange(model, 'output', e.target.value)}
+                                            placeholder="вывод"
+                                            className="glow-input w-20 py-1 text-xs"
+                                            aria-label="Цена вывода"
+                                        />
+                                        {isCustom ? (
+                                            <button
+                                                onClick={() => handleResetPrice(model)}
+                                                className="text-gray-400 hover:text-gray-700"
+                                                title="Вернуть встроенную цену"
+                                            >
+                                                ↺
+                                            </button>
+                                        ) : <span className="w-3" />}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                        <p className="text-[11px] text-gray-500 mt-1">
+                            Новые цены применяются к следующим запросам
+                        </p>
+                    </div>
+                )}
+
+                {records.length > 0 ? (
+                    <div>
+                        <div className="flex items-center justify-between mb-2">
+                            <h4 className="text-sm font-semibold text-gray-900">Последние запросы</h4>
+                            <button
+                                onClick={handleClear}
+                                className="text-xs text-red-600 hover:text-red-700"
+                            >
+                                Очистить журнал
+                            </button>
+                        </div>
+                        <ul className="space-y-1 text-[11px]">
+                            {records.slice(-20).reverse().map(record => (
+                                <li
+                                    key={record.id}
+                                    className={`flex flex-wrap gap-x-2 border-t border-gray-100 pt-1 ${record.success ? 'text-gray-600' : 'text-red-600'}`}
+                                    title={record.error}
+                                >
+                                    <span>{new Date(record.timestamp).toLocaleString('ru-RU', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })}</span>
+                                    <span>{FEATURE_LABELS[record.feature] || record.feature}</span>
+                                    <span className="truncate max-w-[10rem]">{record.providerName} · {record.model}</span>
+                                    <span>{record.promptTokens} → {record.completionTokens}</span>
+                                    <span>{record.cost !== null ? formatCost(record.cost) : '—'}</span>
+                                    <span>{(record.latencyMs / 1000).toFixed(1)} с</span>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                ) : (
+                    <p className="text-sm text-gray-500 text-center py-2">Запросов к AI пока не было</p>
+                )}
+            </div>
+        </div>,
+        document.body
+    );
+};
+
+export default UsageDashboard;
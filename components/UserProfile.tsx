@@ -1,8 +1,16 @@
-import { useState, useEffect } from 'react';
-import { UserProfile as UserProfileType, Gender, ActivityLevel, Goal, ApiConfig } from '../types';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { UserProfile as UserProfileType, Gender, ActivityLevel, Goal, ApiConfig, DailyGoals, History, GoalVersion, MicronutrientKey } from '../types';
 import { CloseIcon, SpinnerIcon } from './ui/Icons';
 import { getActivityLevelLabel, getGoalLabel } from '../utils/userProfile';
-import { calculateDailyGoals } from '../services/aiService';
+import { calculateGoalsLocally, compareGoals, BmrFormula, BMR_FORMULA_LABELS } from '../utils/goalCalculator';
+import { estimateTdee, applyTdeeEstimate, TDEE_CONFIDENCE_LABELS } from '../utils/tdeeEstimator';
+import { WeightTrendPoint } from '../utils/bodyMetrics';
+import { formatDate } from '../utils/calculations';
+import { EMPTY_GOAL_SCHEDULE, hasGoalSchedule } from '../utils/goalSchedule';
+import GoalScheduleEditor from './GoalScheduleEditor';
+import { MICRONUTRIENTS, getRecommendedMicronutrientGoals, hasMicronutrients } from '../utils/micronutrients';
+import { calculateDailyGoals, describeAnswer, AIAnswerInfo } from '../services/aiService';
+import { getAIErrorMessage, isCancelledError } from '../services/aiErrors';
 
 interface UserProfileProps {
     isOpen: boolean;
@@ -10,9 +18,32 @@ interface UserProfileProps {
     profile: UserProfileType | null;
     onSave: (profile: UserProfileType) => void;
     config: ApiConfig;
+    history: History;
+    weightTrend: WeightTrendPoint[];
+    goalVersions: GoalVersion[];
 }
 
-const UserProfile = ({ isOpen, onClose, profile, onSave, config }: UserProfileProps) => {
+const goalsToForm = (goals: DailyGoals) => ({
+    bmr: goals.bmr.toString(),
+    tdee: goals.tdee.toString(),
+    targetCalories: goals.targetCalories.toString(),
+    protein: goals.protein.toString(),
+    fat: goals.fat.toString(),
+    carbohydrate: goals.carbohydrate.toString(),
+    fiber: goals.fiber.toString(),
+});
+
+const formToGoals = (form: ReturnType<typeof goalsToForm>): DailyGoals => ({
+    bmr: parseFloat(form.bmr) || 0,
+    tdee: parseFloat(form.tdee) || 0,
+    targetCalories: parseFloat(form.targetCalories) || 0,
+    protein: parseFloat(form.protein) || 0,
+    fat: parseFloat(form.fat) || 0,
+    carbohydrate: parseFloat(form.carbohydrate) || 0,
+    fiber: parseFloat(form.fiber) || 0,
+});
+
+const UserProfile = ({ isOpen, onClose, profile, onSave, config, history, weightTrend, goalVersions }: UserProfileProps) => {
     const [formData, setFormData] = useState<UserProfileType>({
         name: '',
         gender: 'male',
@@ -33,8 +64,16 @@ const UserProfile = ({ isOpen, onClose, profile, onSave, config }: UserProfilePr
         fiber: '',
     });
     
+    const [formula, setFormula] = useState<BmrFormula | null>(null);
+    const [localError, setLocalError] = useState<string | null>(null);
+    const [aiGoals, setAiGoals] = useState<DailyGoals | null>(null);
     const [isCalculating, setIsCalculating] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [answerInfo, setAnswerInfo] = useState<AIAnswerInfo | null>(null);
+    const [showGoalVersions, setShowGoalVersions] = useState(false);
+    const [showSchedule, setShowSchedule] = useState(false);
+    const [showMicronutrientGoals, setShowMicronutrientGoals] = useState(false);
+    const abortControllerRef = useRef<AbortController | null>(null);
 
     useEffect(() => {
         if (!isOpen) return;
@@ -49,22 +88,34 @@ const UserProfile = ({ isOpen, onClose, profile, onSave, config }: UserProfilePr
         if (profile) {
             setFormData(profile);
             if (profile.dailyGoals) {
-                setDailyGoalsForm({
-                    bmr: profile.dailyGoals.bmr.toString(),
-                    tdee: profile.dailyGoals.tdee.toString(),
-                    targetCalories: profile.dailyGoals.targetCalories.toString(),
-                    protein: profile.dailyGoals.protein.toString(),
-                    fat: profile.dailyGoals.fat.toString(),
-                    carbohydrate: profile.dailyGoals.carbohydrate.toString(),
-                    fiber: profile.dailyGoals.fiber.toString(),
-                });
+                setDailyGoalsForm(goalsToForm(profile.dailyGoals));
             }
         }
     }, [profile]);
 
+    // Закрытие окна прерывает незавершённый расчёт
+    useEffect(() => {
+        if (!isOpen) abortControllerRef.current?.abort();
+    }, [isOpen]);
+
+    const handleCalculateLocally = () => {
+        try {
+            const calculation = calculateGoalsLocally(formData);
+            setDailyGoalsForm(goalsToForm(calculation.goals));
+            setFormula(calculation.formula);
+            setLocalError(null);
+        } catch (err) {
+            setLocalError(err instanceof Error ? err.message : 'Не удалось рассчитать нормы');
+        }
+    };
+
     const handleCalculateGoals = async () => {
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
         setIsCalculating(true);
         setError(null);
+        setAnswerInfo(null);
+        setAiGoals(null);
         
         console.log('[UserProfile] Starting calculation with formData:', formData);
         console.log('[UserProfile] Config:', { 
@@ -74,41 +125,73 @@ const UserProfile = ({ isOpen, onClose, profile, onSave, config }: UserProfilePr
         });
         
         try {
-            const goals = await calculateDailyGoals(formData, config);
+            const goals = await calculateDailyGoals(formData, config, {
+                signal: controller.signal,
+                onAnswer: setAnswerInfo,
+            });
             console.log('[UserProfile] Received goals from AI:', goals);
-            
-            const newGoalsForm = {
-                bmr: goals.bmr.toString(),
-                tdee: goals.tdee.toString(),
-                targetCalories: goals.targetCalories.toString(),
-                protein: goals.protein.toString(),
-                fat: goals.fat.toString(),
-                carbohydrate: goals.carbohydrate.toString(),
-                fiber: goals.fiber.toString(),
-            };
-            
-            console.log('[UserProfile] Setting new goals form:', newGoalsForm);
-            setDailyGoalsForm(newGoalsForm);
+            // Ответ AI не заменяет нормы сразу — сначала его можно сравнить с расчётом по формуле
+            setAiGoals(goals);
         } catch (err) {
+            if (isCancelledError(err)) return;
             console.error('[UserProfile] Error during calculation:', err);
-            setError((err as Error).message);
+            setError(getAIErrorMessage(err));
         } finally {
+            abortControllerRef.current = null;
             setIsCalculating(false);
         }
     };
 
+    const handleCancelCalculation = () => {
+        abortControllerRef.current?.abort();
+    };
+
+    const handleApplyAiGoals = () => {
+        if (!aiGoals) return;
+        setDailyGoalsForm(goalsToForm(aiGoals));
+        setFormula(null);
+        setAiGoals(null);
+    };
+
+    const tdeeEstimate = useMemo(
+        () => isOpen ? estimateTdee(history, weightTrend, formData) : null,
+        [isOpen, history, weightTrend, formData]
+    );
+
+    // Белок и клетчатку берём из текущих норм, а если их нет — из расчёта по формуле
+    const handleApplyTdeeEstimate = () => {
+        if (!tdeeEstimate) return;
+        try {
+            const baseGoals = dailyGoalsForm.targetCalories
+                ? formToGoals(dailyGoalsForm)
+                : calculateGoalsLocally(formData).goals;
+            setDailyGoalsForm(goalsToForm(applyTdeeEstimate(baseGoals, tdeeEstimate)));
+            setFormula(null);
+            setLocalError(null);
+        } catch (err) {
+            setLocalError(err instanceof Error ? err.message : 'Не удалось применить оценку расхода');
+        }
+    };
+
+    const handleMicronutrientGoalChange = (key: MicronutrientKey, value: string) => {
+        const parsed = parseFloat(value);
+        setFormData({
+            ...formData,
+            micronutrientGoals: { ...formData.micronutrientGoals, [key]: parsed > 0 ? parsed : undefined },
+        });
+    };
+
+    const handleFillMicronutrientGoals = () => {
+        setFormData({
+            ...formData,
+            micronutrientGoals: getRecommendedMicronutrientGoals(formData, parseFloat(dailyGoalsForm.targetCalories) || 0),
+        });
+    };
+
     const handleSave = () => {
         const updatedProfile: UserProfileType = {
             ...formData,
-            dailyGoals: dailyGoalsForm.targetCalories ? {
-                bmr: parseFloat(dailyGoalsForm.bmr) || 0,
-                tdee: parseFloat(dailyGoalsForm.tdee) || 0,
-                targetCalories: parseFloat(dailyGoalsForm.targetCalories) || 0,
-                protein: parseFloat(dailyGoalsForm.protein) || 0,
-                fat: parseFloat(dailyGoalsForm.fat) || 0,
-                carbohydrate: parseFloat(dailyGoalsForm.carbohydrate) || 0,
-                fiber: parseFloat(dailyGoalsForm.fiber) || 0,
-            } : undefined,
+            dailyGoals: dailyGoalsForm.targetCalories ? formToGoals(dailyGoalsForm) : undefined,
         };
         onSave(updatedProfile);
         onClose();
@@ -116,6 +199,15 @@ const UserProfile = ({ isOpen, onClose, profile, onSave, config }: UserProfilePr
 
     if (!isOpen) return null;
 
+    let goalDiff = null;
+    if (aiGoals) {
+        try {
+            goalDiff = compareGoals(calculateGoalsLocally(formData).goals, aiGoals);
+        } catch {
+            goalDiff = null;
+        }
+    }
+
     return (
         <div 
             className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-start sm:items-center justify-center z-50 p-2 sm:p-4 overflow-y-auto overscroll-contain"
@@ -196,6 +288,20 @@ const UserProfile = ({ isOpen, onClose, profile, onSave, config }: UserProfilePr
                                 />
                             </div>
                             
+                            <div>
+                                <label className="block text-sm font-medium mb-1 text-gray-700">Процент жира (%)</label>
+                                <input
+                                    type="number"
+                                    value={formData.bodyFatPercent ?? ''}
+                                    onChange={(e) => setFormData({ ...formData, bodyFatPercent: parseFloat(e.target.value) || undefined })}
+                                    placeholder="Необязательно"
+                                    className="glow-input w-full"
+                                    min="3"
+                                    max="70"
+                                    step="0.1"
+                                />
+                            </div>
+                            
                             <div>
                                 <label className="block text-sm font-medium mb-1 text-gray-700">Уровень активности</label>
                                 <select
@@ -211,7 +317,7 @@ const UserProfile = ({ isOpen, onClose, profile, onSave, config }: UserProfilePr
                                 </select>
                             </div>
                             
-                            <div className="sm:col-span-2">
+                            <div>
                                 <label className="block text-sm font-medium mb-1 text-gray-700">Ваша цель</label>
                                 <select
                                     value={formData.goal}
@@ -226,16 +332,45 @@ const UserProfile = ({ isOpen, onClose, profile, onSave, config }: UserProfilePr
                         </div>
                     </div>
 
-                    {/* Кнопка расчета */}
+                    {/* Кнопки расчета */}
                     <div>
-                        <button
-                            onClick={handleCalculateGoals}
-                            disabled={isCalculating}
-                            className="mono-button primary-cta w-full flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
-                        >
-                            {isCalculating ? <SpinnerIcon /> : null}
-                            {isCalculating ? 'Расчет...' : 'Рассчитать с помощью AI'}
-                        </button>
+                        <div className="flex flex-col sm:flex-row gap-2">
+                            <button
+                                onClick={handleCalculateLocally}
+                                className="mono-button primary-cta flex-1"
+                            >
+                                Рассчитать по формуле
+                            </button>
+                            <button
+                                onClick={handleCalculateGoals}
+                                disabled={isCalculating}
+                                className="mono-button flex-1 flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {isCalculating ? <SpinnerIcon /> : null}
+                                {isCalculating ? 'Расчет...' : 'Второе мнение AI'}
+                            </button>
+                        </div>
+                        {formula && (
+                            <p className="text-xs text-gray-500 mt-1">
+                                BMR по формуле {BMR_FORMULA_LABELS[formula]}
+                            </p>
+                        )}
+                        {localError && (
+                            <p className="text-sm text-red-600 mt-1">{localError}</p>
+                        )}
+                        {isCalculating && (
+                            <button
+                                onClick={handleCancelCalculation}
+                                className="mono-button w-full mt-2 text-red-600 hover:text-red-700 border-red-300 hover:border-red-400"
+                            >
+                                Отменить расчет
+                            </button>
+                        )}
+                        {answerInfo && !isCalculating && (
+                            <p className="text-xs text-gray-500 mt-1" title={answerInfo.failures.join('\n')}>
+                                {describeAnswer(answerInfo)}
+                            </p>
+                        )}
                         {error && (
                             <div className="bg-red-50 border border-red-200 rounded-lg p-4 mt-2">
                                 <p className="text-red-600 text-sm font-semibold mb-1">Ошибка расчета</p>
@@ -246,6 +381,51 @@ const UserProfile = ({ isOpen, onClose, profile, onSave, config }: UserProfilePr
                                 </p>
                             </div>
                         )}
+                        {aiGoals && (
+                            <div className="rounded-lg border border-indigo-100 bg-indigo-50/50 p-3 mt-2 space-y-2">
+                                <p className="text-sm font-semibold text-gray-900">Формула или AI</p>
+                                {goalDiff ? (
+                                    <table className="w-full text-xs sm:text-sm">
+                                        <thead>
+                                            <tr className="text-left text-gray-500">
+                                                <th className="py-1 pr-2 font-medium">Показатель</th>
+                                                <th className="py-1 px-2 font-medium text-right">Формула</th>
+                                                <th className="py-1 px-2 font-medium text-right">AI</th>
+                                                <th className="py-1 pl-2 font-medium text-right">Разница</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {goalDiff.map(row => (
+                                                <tr key={row.key} className="border-t border-indigo-100">
+                                                    <td className="py-1 pr-2 text-gray-700">{row.label}, {row.unit}</td>
+                                                    <td className="py-1 px-2 text-right text-gray-900">{row.local}</td>
+                                                    <td className="py-1 px-2 text-right text-gray-900">{row.ai}</td>
+                                                    <td className={`py-1 pl-2 text-right ${Math.abs(row.diffPercent) > 10 ? 'text-amber-600 font-semibold' : 'text-gray-500'}`}>
+                                                        {row.diffPercent > 0 ? '+' : ''}{row.diffPercent}%
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                ) : (
+                                    <p className="text-xs text-gray-500">Заполните возраст, вес и рост, чтобы сравнить с расчётом по формуле</p>
+                                )}
+                                <div className="flex gap-2 justify-end">
+                                    <button
+                                        onClick={() => setAiGoals(null)}
+                                        className="mono-button text-sm"
+                                    >
+                                        Оставить мои нормы
+                                    </button>
+                                    <button
+                                        onClick={handleApplyAiGoals}
+                                        className="mono-button primary-cta text-sm"
+                                    >
+                                        Применить вариант AI
+                                    </button>
+                                </div>
+                            </div>
+                        )}
                     </div>
 
                     {/* Блок 2: Ваши дневные нормы */}
@@ -254,7 +434,7 @@ const UserProfile = ({ isOpen, onClose, profile, onSave, config }: UserProfilePr
                             <h3 className="text-base sm:text-lg font-bold text-gray-900">Ваши дневные нормы</h3>
                             {!dailyGoalsForm.targetCalories && (
                                 <span className="text-xs text-gray-500 hidden sm:inline">
-                                    Используйте AI или введите вручную
+                                    Рассчитайте по формуле или введите вручную
                                 </span>
                             )}
                         </div>
@@ -342,6 +522,160 @@ const UserProfile = ({ isOpen, onClose, profile, onSave, config }: UserProfilePr
                             </div>
                     </div>
 
+                    {/* Расписание норм */}
+                    <div className="rounded-lg border border-gray-200 p-3">
+                        <div className="flex items-center justify-between gap-2">
+                            <div>
+                                <h3 className="text-sm sm:text-base font-bold text-gray-900">Расписание норм</h3>
+                                <p className="text-xs text-gray-500">
+                                    {hasGoalSchedule(formData.goalSchedule)
+                                        ? 'Нормы меняются по дням недели и датам'
+                                        : 'Тренировочные дни, рефиды и циклирование калорий'}
+                                </p>
+                            </div>
+                            <button
+                                onClick={() => setShowSchedule(!showSchedule)}
+                                className="text-sm text-indigo-600 hover:text-indigo-700"
+                            >
+                                {showSchedule ? 'Скрыть' : 'Настроить'}
+                            </button>
+                        </div>
+                        {showSchedule && (
+                            <div className="mt-3">
+                                <GoalScheduleEditor
+                                    schedule={formData.goalSchedule || EMPTY_GOAL_SCHEDULE}
+                                    baseGoals={dailyGoalsForm.targetCalories ? formToGoals(dailyGoalsForm) : null}
+                                    onChange={(goalSchedule) => setFormData({ ...formData, goalSchedule })}
+                                />
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Нормы микронутриентов */}
+                    <div className="rounded-lg border border-gray-200 p-3">
+                        <div className="flex items-center justify-between gap-2">
+                            <div>
+                                <h3 className="text-sm sm:text-base font-bold text-gray-900">Микронутриенты</h3>
+                                <p className="text-xs text-gray-500">
+                                    {hasMicronutrients(formData.micronutrientGoals)
+                                        ? 'Пределы и нормы заданы'
+                                        : 'Сахар, соль, холестерин, витамины и минералы — по желанию'}
+                                </p>
+                            </div>
+                            <button
+                                onClick={() => setShowMicronutrientGoals(!showMicronutrientGoals)}
+                                className="text-sm text-indigo-600 hover:text-indigo-700"
+                            >
+                                {showMicronutrientGoals ? 'Скрыть' : 'Настроить'}
+                            </button>
+                        </div>
+                        {showMicronutrientGoals && (
+                            <div className="mt-3 space-y-3">
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                                    {MICRONUTRIENTS.map(nutrient => (
+                                        <label key={nutrient.key} className="flex items-center gap-2">
+                                            <span className="flex-1 text-xs text-gray-700">
+                                                {nutrient.label}, {nutrient.unit}
+                                                <span className="text-gray-400"> · {nutrient.kind === 'limit' ? 'не более' : 'не менее'}</span>
+                                            </span>
+                                            <input
+                                                type="number"
+                                                value={formData.micronutrientGoals?.[nutrient.key] ?? ''}
+                                                onChange={(e) => handleMicronutrientGoalChange(nutrient.key, e.target.value)}
+                                                className="glow-input w-24 py-1 text-xs"
+                                                min="0"
+                                            />
+                                        </label>
+                                    ))}
+                                </div>
+                                <div className="flex flex-wrap gap-2">
+                                    <button onClick={handleFillMicronutrientGoals} className="mono-button text-sm">
+                                        Заполнить рекомендациями
+                                    </button>
+                                    {hasMicronutrients(formData.micronutrientGoals) && (
+                                        <button
+                                            onClick={() => setFormData({ ...formData, micronutrientGoals: undefined })}
+                                            className="mono-button text-sm"
+                                        >
+                                            Очистить
+                                        </button>
+                                    )}
+                                </div>
+                                <p className="text-xs text-gray-500">
+                                    Рекомендации ориентировочные для взрослых; сахар и насыщенные жиры — не более 10% калорий
+                                </p>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* История норм */}
+                    {goalVersions.length > 1 && (
+                        <div className="rounded-lg border border-gray-200 p-3">
+                            <div className="flex items-center justify-between gap-2">
+                                <div>
+                                    <h3 className="text-sm sm:text-base font-bold text-gray-900">История норм</h3>
+                                    <p className="text-xs text-gray-500">Прошлые дни оцениваются по нормам, действовавшим тогда</p>
+                                </div>
+                                <button
+                                    onClick={() => setShowGoalVersions(!showGoalVersions)}
+                                    className="text-sm text-indigo-600 hover:text-indigo-700"
+                                >
+                                    {showGoalVersions ? 'Скрыть' : 'Показать'}
+                                </button>
+                            </div>
+                            {showGoalVersions && (
+                                <ul className="mt-3 space-y-1 text-sm">
+                                    {[...goalVersions].reverse().map(version => (
+                                        <li key={version.id} className="flex items-center justify-between gap-2 border-t border-gray-100 pt-1">
+                                            <span className="text-gray-600">с {formatDate(version.effectiveFrom)}</span>
+                                            <span className="text-gray-900">
+                                                {version.goals.targetCalories} ккал · Б {version.goals.protein} · Ж {version.goals.fat} · У {version.goals.carbohydrate}
+                                                {hasGoalSchedule(version.schedule) && ' · по расписанию'}
+                                            </span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Блок 3: Расход по фактическим данным */}
+                    <div className="rounded-lg border border-gray-200 bg-gray-50 p-3 space-y-2">
+                        <h3 className="text-sm sm:text-base font-bold text-gray-900">Расход по вашим данным</h3>
+                        {tdeeEstimate ? (
+                            <>
+                                <div className="flex flex-wrap items-baseline gap-x-4 gap-y-1">
+                                    <p className="text-sm text-gray-700">
+                                        TDEE ≈ <span className="font-bold text-gray-900">{tdeeEstimate.tdee} ккал</span>
+                                        {dailyGoalsForm.tdee && ` (сейчас ${dailyGoalsForm.tdee})`}
+                                    </p>
+                                    <p className="text-sm text-gray-700">
+                                        Цель ≈ <span className="font-bold text-gray-900">{tdeeEstimate.targetCalories} ккал</span>
+                                    </p>
+                                    <span className={`chip text-[11px] ${tdeeEstimate.confidence === 'high' ? 'text-emerald-700' : tdeeEstimate.confidence === 'medium' ? 'text-amber-700' : 'text-red-600'}`}>
+                                        Надёжность: {TDEE_CONFIDENCE_LABELS[tdeeEstimate.confidence]}
+                                    </span>
+                                </div>
+                                <p className="text-xs text-gray-500">
+                                    {formatDate(tdeeEstimate.startDate)} – {formatDate(tdeeEstimate.endDate)}: записи питания за {tdeeEstimate.loggedDays} из {tdeeEstimate.spanDays + 1} дн.,
+                                    {' '}{tdeeEstimate.weighIns} взвешиваний, в среднем {tdeeEstimate.averageIntake} ккал/день,
+                                    {' '}вес по тренду {tdeeEstimate.trendChange > 0 ? '+' : ''}{tdeeEstimate.trendChange.toFixed(1)} кг
+                                </p>
+                                <button
+                                    onClick={handleApplyTdeeEstimate}
+                                    className="mono-button text-sm"
+                                >
+                                    Подставить в нормы
+                                </button>
+                            </>
+                        ) : (
+                            <p className="text-xs text-gray-500">
+                                Нужны хотя бы неделя взвешиваний и 5 дней с записями питания за последние 4 недели —
+                                тогда расход оценится по фактическому балансу калорий и изменению веса.
+                            </p>
+                        )}
+                    </div>
+
                     {/* Кнопка сохранения */}
                     <div className="flex gap-2 justify-end pt-4 border-t border-gray-200">
                         <button
@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { WaterIntake } from '../types';
+import { TrashIcon } from './ui/Icons';
+import { BEVERAGES, DEFAULT_BEVERAGE_ID } from '../constants/beverages';
+import { QUICK_ADD_VOLUMES, formatLiters, getBeverage, getWaterTotal } from '../utils/water';
+
+interface WaterTrackerProps {
+    water: WaterIntake | undefined;
+    goalMl: number | null;
+    onAdd: (volume: number, beverageId: string) => void;
+    onRemove: (entryId: string) => void;
+}
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Учёт воды и напитков за сегодня с быстрым добавлением объёма
+ */
+const WaterTracker = ({ water, goalMl, onAdd, onRemove }: WaterTrackerProps) => {
+    const [beverageId, setBeverageId] = useState(DEFAULT_BEVERAGE_ID);
+    const [customVolume, setCustomVolume] = useState('');
+
+    const total = getWaterTotal(water);
+    const percent = goalMl ? Math.round((total / goalMl) * 100) : null;
+    const beverage = getBeverage(beverageId);
+    const entries = [...(water?.entries || [])].reverse();
+
+    const handleAddCustom = () => {
+        const volume = parseFloat(customVolume);
+        if (!(volume > 0)) return;
+        onAdd(Math.round(volume), beverageId);
+        setCustomVolume('');
+    };
+
+    return (
+        <div className="glass-panel p-3 sm:p-4 space-y-3 w-full animate-fade-up">
+            <div className="flex items-baseline justify-between gap-2">
+                <h2 className="text-base sm:text-xl font-semibold text-gray-900">💧 Вода</h2>
+                <p className="text-sm text-gray-700">
+                    <span className="font-bold text-gray-900">{formatLiters(total)}</span>
+                    {goalMl ? ` из ${formatLiters(goalMl)}` : ''}
+                </p>
+            </div>
+
+            {percent !== null ? (
+                <div className="h-2 rounded-full bg-gray-200 overflow-hidden">
+                    <div className="h-full bg-sky-500 transition-all duration-300" style={{ width: `${Math.min(percent, 100)}%` }} />
+                </div>
+            ) : (
+                <p className="text-xs text-gray-500">Укажите вес в профиле, чтобы рассчитать норму воды</p>
+            )}
+
+            <div className="flex flex-wrap gap-1.5">
+                {BEVERAGES.map(item => (
+                    <button
+                        key={item.id}
+                        onClick={() => setBeverageId(item.id)}
+                        className={`chip text-[11px] ${item.id === beverageId ? 'bg-sky-100 text-sky-800 border-sky-300' : ''}`}
+                    >
+                        {item.name}
+                    </button>
+                ))}
+            </div>
+            {beverage.per100ml && (
+                <p className="text-[11px] text-gray-500">
+                    {beverage.per100ml.calories} ккал на 100 мл — напиток будет добавлен в рацион дня
+                </p>
+            )}
+
+            <div className="flex flex-wrap items-center gap-1.5">
+                {QUICK_ADD_VOLUMES.map(volume => (
+                    <button
+                        key={volume}
+                        onClick={() => onAdd(volume, beverageId)}
+                        className="mono-button text-xs px-3 py-1.5"
+                    >
+                        +{volume} мл
+                    </button>
+                ))}
+                <input
+                    type="number"
+                    value={customVolume}
+                    onChange={(e) => setCustomVolume(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAddCustom()}
+                    placeholder="мл"
+                    className="glow-input w-20 py-1 text-xs"
+                    min="0"
+                    aria-label="Свой объём"
+                />
+                <button
+                    onClick={handleAddCustom}
+                    disabled={!(parseFloat(customVolume) > 0)}
+                    className="mono-button text-xs px-3 py-1.5 disabled:opacity-50"
+                >
+                    Добавить
+                </button>
+            </div>
+
+            {entries.length > 0 && (
+                <ul className="space-y-0.5 text-xs max-h-40 overflow-y-auto scrollbar-sleek">
+                    {entries.map(entry => (
+                        <li key={entry.id} className="flex items-center gap-2 border-t border-gray-100 pt-0.5">
+                            <span className="w-10 text-gray-500">{formatTime(entry.time)}</span>
+                            <span className="flex-1 text-gray-800">
+                                {getBeverage(entry.beverageId).name}
+                                {entry.mealId && <span className="text-gray-400"> · в рационе</span>}
+                            </span>
+                            <span className="text-gray-900">{entry.volume} мл</span>
+                            <button
+                                onClick={() => onRemove(entry.id)}
+                                className="p-0.5 text-gray-400 hover:text-red-600"
+                                aria-label="Удалить запись"
+                            >
+                                <TrashIcon className="w-3 h-3" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default WaterTracker;
@@ -0,0 +1,63 @@
+import { useState, useEffect } from 'react';
+import { PortionDefinition } from '../types';
+import { getPortionHints, parsePieceCount, parseWeightExpression } from '../utils/portions';
+
+interface WeightInputProps {
+    value: number;
+    // Название продукта нужно для бытовых мер: «2 шт» яиц и «2 шт» картофеля весят по-разному
+    name: string;
+    portions?: PortionDefinition[];
+    // pieces — число штук, если вес введён штуками («2 шт»), иначе null
+    onChange: (weight: number, pieces: number | null) => void;
+    className?: string;
+}
+
+/**
+ * Поле веса, принимающее выражения: «150+30», «2 шт», «1.5 стакана».
+ * Значение пересчитывается в граммы по Enter или при потере фокуса
+ */
+const WeightInput = ({ value, name, portions, onChange, className = '' }: WeightInputProps) => {
+    const [draft, setDraft] = useState(String(value));
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setDraft(String(value));
+        setError(null);
+    }, [value]);
+
+    const commit = () => {
+        if (draft.trim() === String(value)) return;
+        try {
+            const weight = parseWeightExpression(draft, name, portions);
+            const pieces = parsePieceCount(draft, portions);
+            setError(null);
+            if (weight === value) setDraft(String(value));
+            if (weight !== value || pieces !== null) onChange(weight, pieces);
+        } catch (e) {
+            setError((e as Error).message);
+        }
+    };
+
+    const hints = getPortionHints(name, portions);
+    const title = error || (hints.length > 0 ? `Можно вводить меры: ${hints.join(', ')}` : 'Вес в граммах, можно складывать: 150+30');
+
+    return (
+        <input
+            type="text"
+            inputMode="text"
+            value={draft}
+            onChange={(e) => {
+                setDraft(e.target.value);
+                setError(null);
+            }}
+            onBlur={commit}
+            onKeyDown={(e) => e.key === 'Enter' && commit()}
+            title={title}
+            aria-label="Вес"
+            aria-invalid={!!error}
+            className={`${className} ${error ? 'text-red-600 underline decoration-dotted' : ''}`}
+        />
+    );
+};
+
+export default WeightInput;
@@ -1,4 +1,4 @@
-import { ApiProvider } from '../types';
+import { ApiProvider, ApiConfig, AIRequestSettings } from '../types';
 
 export const API_PROVIDERS: ApiProvider[] = [
     {
@@ -6,64 +6,95 @@ export const API_PROVIDERS: ApiProvider[] = [
         name: 'OpenRouter',
         baseUrl: 'https://openrouter.ai/api/v1',
         requiresAuth: true,
+        protocol: 'openai',
     },
     {
         id: 'openai',
         name: 'OpenAI',
         baseUrl: 'https://api.openai.com/v1',
         requiresAuth: true,
+        protocol: 'openai',
     },
     {
         id: 'anthropic',
         name: 'Anthropic',
         baseUrl: 'https://api.anthropic.com/v1',
         requiresAuth: true,
+        protocol: 'anthropic',
     },
     {
         id: 'google',
         name: 'Google AI',
-        baseUrl: 'https://generativelanguage.googleapis.com/v1',
+        baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
         requiresAuth: true,
+        protocol: 'gemini',
     },
     {
         id: 'deepseek',
         name: 'DeepSeek',
         baseUrl: 'https://api.deepseek.com/v1',
         requiresAuth: true,
+        protocol: 'openai',
     },
     {
         id: 'together',
         name: 'Together AI',
         baseUrl: 'https://api.together.xyz/v1',
         requiresAuth: true,
+        protocol: 'openai',
     },
     {
         id: 'mistral',
         name: 'Mistral AI',
         baseUrl: 'https://api.mistral.ai/v1',
         requiresAuth: true,
+        protocol: 'openai',
     },
     {
         id: 'polza',
         name: 'Polza AI',
         baseUrl: 'https://api.polza.ai/v1',
         requiresAuth: true,
+        protocol: 'openai',
     },
     {
         id: 'lightai',
         name: 'Light AI',
         baseUrl: 'https://api.lightai.io/v1',
         requiresAuth: true,
+        protocol: 'openai',
     },
 ];
 
 export const DEFAULT_PROVIDER_ID = 'openrouter';
 
+// Анализ фото большими моделями может занимать до минуты
+export const DEFAULT_REQUEST_SETTINGS: AIRequestSettings = {
+    timeoutSeconds: 60,
+    maxRetries: 2,
+};
+
+export const getRequestSettings = (config: ApiConfig): AIRequestSettings => ({
+    ...DEFAULT_REQUEST_SETTINGS,
+    ...(config.requestSettings || {}),
+});
+
 export const getProviderById = (id: string): ApiProvider | undefined => {
     return API_PROVIDERS.find(p => p.id === id);
 };
 
-export const getProviderBaseUrl = (id: string): string => {
-    const provider = getProviderById(id);
-    return provider?.baseUrl || API_PROVIDERS[0].baseUrl;
+export const CUSTOM_PROVIDER_ID_PREFIX = 'custom-';
+
+/**
+ * Ищет провайдера среди пользовательских из конфигурации и встроенных
+ */
+export const resolveProvider = (config: ApiConfig | null, id: string): ApiProvider | undefined => {
+    return config?.customProviders?.find(p => p.id === id) || getProviderById(id);
+};
+
+/**
+ * Возвращает встроенных и пользовательских провайдеров одним списком
+ */
+export const getAllProviders = (config: ApiConfig | null): ApiProvider[] => {
+    return [...API_PROVIDERS, ...(config?.customProviders || [])];
 };
\ No newline at end of file
@@ -0,0 +1,19 @@
+import { Beverage } from '../types';
+
+/**
+ * Напитки для быстрого учёта воды. Калорийные напитки дополнительно
+ * записываются в рацион, поэтому их КБЖУ попадает в итоги дня.
+ * Плотность напитков принимается равной 1 г/мл.
+ */
+export const BEVERAGES: Beverage[] = [
+    { id: 'water', name: 'Вода', per100ml: null },
+    { id: 'tea', name: 'Чай без сахара', per100ml: null },
+    { id: 'coffee', name: 'Кофе чёрный', per100ml: null },
+    { id: 'sweet-tea', name: 'Чай с сахаром', per100ml: { calories: 16, protein: 0, fat: 0, carbohydrate: 4, fiber: 0 } },
+    { id: 'milk', name: 'Молоко 2,5%', per100ml: { calories: 52, protein: 2.8, fat: 2.5, carbohydrate: 4.7, fiber: 0 } },
+    { id: 'kefir', name: 'Кефир 2,5%', per100ml: { calories: 50, protein: 2.9, fat: 2.5, carbohydrate: 4, fiber: 0 } },
+    { id: 'juice', name: 'Сок апельсиновый', per100ml: { calories: 45, protein: 0.7, fat: 0.2, carbohydrate: 10.4, fiber: 0.2 } },
+    { id: 'soda', name: 'Сладкая газировка', per100ml: { calories: 42, protein: 0, fat: 0, carbohydrate: 10.6, fiber: 0 } },
+];
+
+export const DEFAULT_BEVERAGE_ID = 'water';
@@ -0,0 +1,2920 @@
+import { ReferenceFood } from '../types';
+
+/**
+ * Встроенный справочник пищевой ценности продуктов.
+ * Значения КБЖУК указаны на 100 г съедобной части (средние табличные данные).
+ * При изменении таблицы увеличивайте версию — она показывается в интерфейсе.
+ */
+export const FOOD_DATABASE_VERSION = '2026.10.2';
+export const FOOD_DATABASE_SOURCE_LABEL = 'Справочник';
+
+// [название, ккал, белки, жиры, углеводы, клетчатка, синонимы через «|»]
+type FoodRow = [string, number, number, number, number, number, string?];
+
+const FOOD_TABLE: { [category: string]: FoodRow[] } = {
+    'Крупы и каши': [
+        ['гречка сухая', 313, 12.6, 3.3, 62.1, 11.3, 'гречневая крупа|ядрица'],
+        ['гречка отварная', 110, 4.2, 1.1, 21.3, 2.7, 'гречневая каша|гречка вареная'],
+        ['рис белый сухой', 344, 6.7, 0.7, 78.9, 0.4, 'рис сырой|рис круглозерный'],
+        ['рис белый отварной', 116, 2.2, 0.5, 24.9, 0.3, 'рис вареный|рис готовый'],
+        ['рис бурый сухой', 337, 7.4, 1.8, 72.9, 3.5, 'рис нешлифованный'],
+        ['рис бурый отварной', 112, 2.3, 0.8, 23.5, 1.8, 'бурый рис вареный'],
+        ['рис басмати отварной', 121, 3.5, 0.4, 25.2, 0.4, 'басмати'],
+        ['рис дикий отварной', 101, 4, 0.3, 21.3, 1.8],
+        ['овсяные хлопья сухие', 366, 11.9, 7.2, 59.5, 10, 'геркулес|овсянка сухая'],
+        ['овсяная каша на воде', 88, 3, 1.7, 15, 1.9, 'овсянка|овсянка на воде|геркулес на воде'],
+        ['овсяная каша на молоке', 102, 3.2, 4.1, 14.2, 1.2, 'овсянка на молоке'],
+        ['пшено сухое', 348, 11.5, 3.3, 66.5, 3.6],
+        ['пшенная каша на воде', 90, 3, 0.7, 17, 1, 'пшенка'],
+        ['пшенная каша на молоке', 121, 3.9, 4.2, 16.6, 0.9],
+        ['манная крупа сухая', 333, 10.3, 1, 70.6, 3.6, 'манка'],
+        ['манная каша на молоке', 98, 3, 3.2, 15.3, 0.2, 'манка на молоке'],
+        ['манная каша на воде', 80, 2.5, 0.2, 16.8, 0.2],
+        ['перловая крупа сухая', 315, 9.3, 1.1, 66.9, 7.8, 'перловка'],
+        ['перловая каша', 109, 3.1, 0.4, 22.2, 2.5, 'перловка отварная'],
+        ['булгур сухой', 342, 12.3, 1.3, 75.9, 12.5],
+        ['булгур отварной', 83, 3.1, 0.2, 18.6, 4.5],
+        ['киноа сухая', 368, 14.1, 6.1, 57.2, 7, 'кинва'],
+        ['киноа отварная', 120, 4.4, 1.9, 21.3, 2.8],
+        ['кускус сухой', 376, 12.8, 0.6, 72.4, 5],
+        ['кускус отварной', 112, 3.8, 0.2, 23.2, 1.4],
+        ['ячневая крупа сухая', 313, 10, 1.3, 65.4, 8.1],
+        ['ячневая каша', 76, 2.3, 0.2, 16.3, 1.5],
+        ['кукурузная крупа сухая', 328, 8.3, 1.2, 71, 4.8, 'полента сухая'],
+        ['кукурузная каша', 86, 2.1, 0.7, 17.8, 1.1, 'полента|мамалыга'],
+        ['полба сухая', 338, 14.6, 2.4, 59.7, 10.7],
+        ['полба отварная', 127, 5.5, 0.9, 26.4, 3.9],
+        ['амарант сухой', 371, 13.6, 7, 65.2, 6.7],
+        ['гранола', 471, 10, 20, 60, 7, 'мюсли запеченные'],
+        ['мюсли', 352, 10, 6, 62, 8],
+        ['кукурузные хлопья', 357, 7.3, 1.2, 83.6, 1.2, 'корнфлекс'],
+        ['отруби пшеничные', 216, 15.6, 4.2, 22.1, 42.8, 'отруби'],
+        ['отруби овсяные', 320, 17.3, 7, 50.8, 15.4],
+        ['гречка зеленая сухая', 310, 12.6, 3.1, 62, 10, 'зеленая гречка'],
+        ['гречка зеленая отварная', 105, 4, 1, 20.5, 3],
+        ['гречневая каша на молоке', 120, 4.9, 3.7, 17.4, 1.7, 'гречка с молоком'],
+        ['гречневые хлопья сухие', 330, 12, 3, 65, 8, 'хлопья гречневые'],
+        ['гречневая мука', 353, 13.6, 1.3, 71, 10],
+        ['продел гречневый сухой', 326, 9.5, 2.3, 65.9, 9.7, 'продел'],
+        ['рис жасмин сухой', 350, 7, 0.5, 79, 1, 'жасмин'],
+        ['рис жасмин отварной', 129, 2.7, 0.3, 28.2, 0.4],
+        ['рис басмати сухой', 349, 8, 0.6, 77.5, 1.3],
+        ['рис пропаренный сухой', 350, 7.4, 1, 77, 2, 'пропаренный рис'],
+        ['рис пропаренный отварной', 123, 2.9, 0.4, 26, 0.9],
+        ['рис дикий сухой', 357, 14.7, 1.1, 75, 6.2],
+        ['рис красный сухой', 362, 7.5, 2.5, 72, 3.6, 'красный рис'],
+        ['рис красный отварной', 111, 2.4, 0.8, 23, 1.8],
+        ['рис черный сухой', 356, 8.9, 3.3, 72, 4.9, 'черный рис'],
+        ['рис черный отварной', 120, 3, 1, 24, 2],
+        ['рис для суши отварной', 130, 2.4, 0.3, 28.7, 0.3, 'рис для роллов'],
+        ['рис длиннозерный сухой', 360, 7.1, 0.7, 78, 1.3],
+        ['рисовая каша на молоке', 97, 2.9, 3.1, 14.4, 0.2, 'молочная рисовая каша'],
+        ['рисовая каша на воде', 78, 1.5, 0.2, 17.3, 0.3],
+        ['рисовые хлопья сухие', 354, 6.5, 0.9, 78, 2.2],
+        ['рис жареный с овощами', 163, 3.2, 5.5, 25, 1.1, 'жареный рис'],
+        ['рис жареный с яйцом', 174, 4.6, 6.3, 24.5, 0.8, 'рис с яйцом'],
+        ['овсяная крупа сухая', 342, 12.3, 6.1, 59.5, 8, 'овес цельный'],
+        ['овсяные хлопья быстрого приготовления', 350, 12, 6, 61, 9, 'хлопья овсяные экстра'],
+        ['овсяная каша быстрого приготовления с добавками', 375, 8, 5, 72, 6, 'каша овсяная порционная'],
+        ['овсяная каша с бананом', 102, 2.9, 1.6, 19.4, 2.1],
+        ['овсяная каша с ягодами', 94, 2.8, 1.6, 17.2, 2.6],
+        ['ленивая овсянка', 103, 4.9, 3.2, 14.5, 1.9, 'овсянка в банке'],
+        ['овсяная мука', 369, 13, 6.8, 64.9, 6, 'мука овсяная'],
+        ['толокно', 363, 12.2, 5.8, 64.9, 6.8],
+        ['пшеничная крупа сухая', 329, 11.5, 1.3, 68.9, 3.4, 'артек|полтавская крупа'],
+        ['пшеничная каша на воде', 105, 3.5, 0.5, 22, 1.2, 'пшеничная каша'],
+        ['пшенная каша с тыквой', 100, 2.6, 2.6, 16.5, 1.3, 'пшенка с тыквой'],
+        ['манная каша на молоке без сахара', 80, 3.1, 3.2, 10.5, 0.2],
+        ['перловая каша с маслом', 135, 3.1, 3.4, 22.4, 2.4],
+        ['ячневая каша на молоке', 111, 3.6, 3.3, 16.6, 1.4],
+        ['кукурузная каша на молоке', 107, 3.1, 3.2, 16.2, 0.9],
+        ['булгур с овощами', 110, 3.2, 3.2, 17.5, 3.5],
+        ['киноа с овощами', 113, 3.9, 3.5, 16.5, 2.5],
+        ['кускус с овощами', 125, 3.7, 3.1, 20.3, 1.6],
+        ['полба с овощами', 118, 4.4, 3.1, 18, 3],
+        ['фреекех сухой', 325, 12.6, 2.7, 62, 13.2, 'фрике'],
+        ['теф сухой', 367, 13.3, 2.4, 73, 8],
+        ['сорго сухое', 329, 10.6, 3.5, 72, 6.7],
+        ['ячмень цельный сухой', 354, 12.5, 2.3, 73.5, 17.3, 'ячмень'],
+        ['рожь цельная сухая', 338, 10.3, 1.6, 75.9, 15.1, 'рожь'],
+        ['пшеница цельная сухая', 327, 12.6, 1.5, 71.2, 12.2, 'пшеница'],
+        ['пророщенная пшеница', 198, 7.5, 1.3, 41.4, 1.1, 'проростки пшеницы'],
+        ['камут сухой', 337, 14.7, 2.2, 70.4, 9.1],
+        ['гранола без сахара', 430, 12, 22, 48, 9],
+        ['гранола с медом', 480, 10, 19, 66, 6, 'гранола медовая'],
+        ['гранола шоколадная', 473, 9, 20, 63, 6.5],
+        ['мюсли с орехами', 375, 10.5, 9.6, 60, 7.5],
+        ['мюсли с фруктами', 340, 8.7, 5.7, 63, 7, 'мюсли фруктовые'],
+        ['хлопья с шоколадом', 387, 7.5, 3.8, 80, 4, 'шоколадные шарики|хлопья шоколадные'],
+        ['хлопья медовые', 380, 7, 1.5, 85, 3, 'медовые колечки'],
+        ['подушечки с начинкой', 420, 6, 14, 68, 3, 'подушечки'],
+        ['колечки кукурузные', 382, 7.3, 2.3, 83, 3.5, 'колечки'],
+        ['хлопья отрубные', 320, 11, 3, 60, 20, 'отрубные хлопья'],
+        ['хлопья пшеничные', 330, 10, 2, 70, 9],
+        ['хлопья ржаные', 321, 9.5, 1.8, 68, 12],
+        ['хлопья ячменные', 330, 9.4, 2.1, 70.5, 11],
+        ['отруби ржаные', 221, 12.2, 3.4, 32, 43.5],
+        ['отруби рисовые', 316, 13.4, 20.9, 28.7, 21],
+        ['отруби кукурузные', 224, 8.4, 0.9, 6.6, 79, 'кукурузные отруби'],
+        ['крахмал картофельный', 313, 0.1, 0, 78.2, 0, 'крахмал'],
+        ['крахмал кукурузный', 343, 1, 0.6, 85.2, 0.9],
+        ['мука пшеничная высший сорт', 334, 10.3, 1.1, 70, 3.5, 'мука|мука пшеничная'],
+        ['мука пшеничная первый сорт', 331, 10.6, 1.3, 67.6, 4.4],
+        ['мука пшеничная цельнозерновая', 304, 13.2, 2.5, 57.8, 10.7, 'цельнозерновая мука'],
+        ['мука ржаная', 298, 8.9, 1.7, 61.8, 9.9, 'ржаная мука'],
+        ['мука кукурузная', 331, 7.2, 1.5, 72, 3.9, 'кукурузная мука'],
+        ['мука рисовая', 366, 6, 1.4, 80.1, 2.4, 'рисовая мука'],
+        ['мука миндальная', 571, 21, 50, 10, 10, 'миндальная мука'],
+        ['мука кокосовая', 400, 19, 14, 22, 39, 'кокосовая мука'],
+        ['мука нутовая', 387, 22.4, 6.7, 57.8, 10.8, 'нутовая мука'],
+        ['мука льняная', 270, 36, 10, 9, 25, 'льняная мука'],
+        ['мука цельнозерновая ржаная', 294, 10.8, 1.8, 58.5, 14.6],
+        ['разрыхлитель теста', 79, 0, 0, 20.5, 0, 'разрыхлитель'],
+        ['дрожжи сухие', 325, 40.4, 7.6, 22, 27, 'дрожжи'],
+        ['дрожжи прессованные', 109, 12.7, 2.7, 8.5, 2.1],
+        ['клейковина пшеничная', 370, 75, 1.9, 13.8, 0.6, 'глютен'],
+        ['каша дружба', 116, 3.1, 3.2, 18.5, 0.9, 'рисово-пшенная каша'],
+        ['каша геркулес с изюмом', 115, 3, 1.8, 21.5, 1.8],
+        ['смесь круп четыре злака сухая', 338, 11.2, 3.2, 65.7, 7.5, 'четыре злака'],
+        ['каша овсяная на молоке без сахара', 88, 3.6, 3.6, 10.6, 1.2],
+        ['каша овсяная на воде с медом', 108, 2.9, 1.7, 20.5, 1.8],
+        ['каша овсяная с орехами', 143, 4.3, 5.8, 18.7, 2.4],
+        ['каша пшенная на молоке без сахара', 110, 3.8, 3.9, 15.2, 0.9],
+        ['каша гречневая на воде с маслом', 132, 4.2, 3.9, 20.6, 2.7],
+        ['каша гречневая молочная без сахара', 103, 4.7, 3.3, 14.7, 1.4],
+        ['каша рисовая на молоке без сахара', 83, 2.8, 2.7, 12.1, 0.2],
+        ['каша манная на воде без сахара', 72, 2.5, 0.2, 15.2, 0.2],
+        ['каша кукурузная на воде', 86, 2.1, 0.7, 17.8, 1.1],
+        ['каша ячневая на воде', 76, 2.3, 0.2, 16.3, 1.5],
+        ['каша перловая на воде', 109, 3.1, 0.4, 22.2, 2.5],
+        ['каша из киноа на молоке', 122, 5.2, 3.9, 16.5, 1.7],
+        ['каша льняная', 280, 19, 13, 18, 17, 'льняная каша'],
+        ['каша тыквенная с рисом', 96, 1.8, 3, 15.6, 0.9],
+        ['рис с маслом', 146, 2.3, 3.9, 25.3, 0.3],
+        ['рис с овощами и яйцом', 142, 4.5, 5, 19.8, 0.9],
+        ['булгур с маслом', 115, 3.2, 3.5, 17.7, 4.2],
+        ['киноа с маслом', 148, 4.4, 4.7, 20.5, 2.6],
+        ['гречка с маслом', 132, 4.2, 3.9, 20.6, 2.7],
+        ['кускус с маслом', 142, 3.8, 3.4, 23.2, 1.4],
+        ['пшено отварное', 119, 3.5, 1, 23.7, 1.3, 'пшено вареное'],
+        ['овес отварной', 71, 2.5, 1.5, 12, 1.7],
+        ['ячмень отварной', 123, 2.3, 0.4, 28.2, 3.8],
+        ['полента жареная', 140, 2.5, 5.2, 21, 1.4],
+        ['рисовая лапша с овощами', 120, 2.4, 3.3, 20.5, 1.2],
+    ],
+    'Макароны и хлеб': [
+        ['макароны сухие', 344, 10.4, 1.1, 69.7, 3.7, 'паста сухая|спагетти сухие'],
+        ['макароны отварные', 112, 3.5, 0.4, 23.2, 1.2, 'паста|спагетти|макароны вареные'],
+        ['макароны из твердых сортов отварные', 118, 4.4, 0.7, 23.8, 1.6, 'паста из твердых сортов'],
+        ['макароны цельнозерновые отварные', 124, 5.3, 0.5, 25.6, 3.9],
+        ['лапша яичная отварная', 138, 4.5, 2.1, 25.2, 1.2],
+        ['лапша гречневая соба отварная', 99, 5.1, 0.1, 21.4, 0.5, 'соба'],
+        ['лапша рисовая отварная', 108, 1.8, 0.2, 24, 1, 'рисовая лапша'],
+        ['лапша быстрого приготовления сухая', 450, 9, 20, 58, 2.4, 'доширак|роллтон'],
+        ['хлеб пшеничный', 242, 8.1, 1, 48.8, 2.7, 'белый хлеб|батон'],
+        ['хлеб ржаной', 210, 6.6, 1.2, 42.5, 5.8, 'черный хлеб'],
+        ['хлеб бородинский', 208, 6.8, 1.3, 40.7, 5.8, 'бородинский'],
+        ['хлеб цельнозерновой', 247, 13, 3.4, 41.3, 6.8],
+        ['хлеб отрубной', 227, 7.5, 1.3, 45.2, 8],
+        ['батон нарезной', 264, 7.5, 2.9, 51.4, 2.2],
+        ['багет', 262, 7.5, 2.9, 51.4, 2.2],
+        ['лаваш армянский', 236, 7.9, 1, 47.6, 1.5, 'лаваш'],
+        ['тортилья пшеничная', 312, 8.2, 8, 52, 3.5, 'тортилья|лепешка'],
+        ['хлебцы ржаные', 310, 11, 2.7, 58, 16.5, 'хлебцы'],
+        ['хлебцы рисовые', 387, 8, 3, 81.5, 4.2],
+        ['сухари панировочные', 347, 9.7, 1.9, 77.6, 4.5, 'панировка'],
+        ['сушки', 339, 11, 1.3, 73, 3],
+        ['булочка сдобная', 339, 7.9, 9.4, 55.5, 2],
+        ['круассан', 406, 8.2, 21, 45.8, 2.6],
+        ['пита', 275, 9.1, 1.2, 55.7, 2.2],
+        ['спагетти из твердых сортов сухие', 350, 12, 1.5, 71, 3],
+        ['спагетти цельнозерновые сухие', 348, 14.6, 2.5, 66, 8.3],
+        ['макароны рисовые сухие', 364, 5.9, 1, 82, 1.8],
+        ['макароны кукурузные сухие', 357, 7.5, 2, 79, 4, 'кукурузная паста'],
+        ['макароны из чечевицы сухие', 340, 25, 2, 56, 8, 'чечевичная паста'],
+        ['макароны из нута сухие', 357, 21, 5, 54, 12, 'нутовая паста'],
+        ['макароны безглютеновые отварные', 130, 2.6, 0.9, 28, 1.2],
+        ['паста с томатным соусом', 133, 4.2, 3.4, 21.5, 1.9, 'макароны с соусом'],
+        ['паста с сыром', 180, 7.3, 6.8, 22.3, 1, 'макароны с сыром'],
+        ['макароны с маслом', 151, 3.6, 4.3, 24, 1.1],
+        ['фузилли сухие', 350, 12, 1.5, 71, 3, 'спирали'],
+        ['пенне сухие', 350, 12, 1.5, 71, 3, 'перья'],
+        ['фарфалле сухие', 350, 12, 1.5, 71, 3, 'бабочки'],
+        ['тальятелле яичные сухие', 370, 14, 4, 70, 2.5, 'тальятелле|феттучине'],
+        ['лингвине сухие', 350, 12, 1.5, 71, 3],
+        ['вермишель сухая', 344, 10.4, 1.1, 69.7, 3.7, 'вермишель|паутинка'],
+        ['вермишель отварная', 112, 3.5, 0.4, 23.2, 1.2],
+        ['рожки отварные', 112, 3.5, 0.4, 23.2, 1.2, 'рожки'],
+        ['ракушки отварные', 112, 3.5, 0.4, 23.2, 1.2, 'ракушки'],
+        ['листы для лазаньи сухие', 350, 12.5, 1.5, 71, 3, 'лазанья листы'],
+        ['каннеллони сухие', 350, 12.5, 1.5, 71, 3],
+        ['лапша удон отварная', 110, 2.6, 0.4, 23.5, 0.8, 'удон'],
+        ['лапша фунчоза сухая', 351, 0.2, 0.1, 86, 0.5, 'фунчоза'],
+        ['фунчоза отварная', 84, 0.1, 0, 20.4, 0.2, 'стеклянная лапша'],
+        ['лапша рамен сухая', 438, 10, 17, 60, 2.3],
+        ['лапша пшеничная отварная', 138, 4.5, 0.6, 28, 1.2],
+        ['лапша домашняя отварная', 145, 5.1, 1.7, 27, 1],
+        ['клецки', 190, 5.5, 3.5, 34.2, 1.3, 'галушки'],
+        ['ньокки', 133, 3.3, 0.3, 30, 1.8, 'картофельные клецки'],
+        ['хлеб украинский', 215, 6.6, 1.2, 44.1, 5.5],
+        ['хлеб дарницкий', 206, 6.7, 1.1, 42.2, 6, 'дарницкий'],
+        ['хлеб рижский', 242, 6.4, 1, 51.5, 4.9],
+        ['хлеб зерновой', 262, 11.4, 4.7, 43.3, 6.5, 'хлеб с семечками'],
+        ['хлеб гречневый', 246, 8.8, 2.9, 46, 6],
+        ['хлеб кукурузный', 259, 6.7, 3.5, 49, 2.4],
+        ['хлеб овсяный', 269, 8.4, 4.4, 48.5, 4],
+        ['хлеб безглютеновый', 246, 3.4, 7, 42, 6],
+        ['хлеб тостовый', 265, 8.9, 3.3, 48.9, 2.3, 'тостовый хлеб|тост'],
+        ['хлеб тостовый цельнозерновой', 247, 10, 3.4, 41, 6.8],
+        ['тост поджаренный', 313, 10.6, 3.8, 58, 2.7, 'гренки из хлеба'],
+        ['гренки жареные с маслом', 390, 9, 16.5, 51, 2.5],
+        ['хлеб пшеничный из муки первого сорта', 232, 7.7, 0.9, 47.6, 3.2],
+        ['булка французская', 262, 7.5, 2.9, 51.4, 2.2, 'французская булка'],
+        ['чиабатта', 271, 8.5, 3.1, 50.8, 2.4],
+        ['фокачча', 249, 8.8, 7.9, 35.8, 2.4],
+        ['батон с изюмом', 278, 7.7, 2.5, 55.8, 2.3],
+        ['булочка для гамбургера', 279, 9.5, 4.3, 49.5, 2.2, 'булочка для бургера'],
+        ['булочка для хот-дога', 279, 9.5, 4.3, 49.5, 2.2],
+        ['булочка с маком', 320, 7.8, 7.6, 54.6, 2, 'булочка маковая'],
+        ['булочка с корицей', 387, 6.1, 15.5, 55.5, 2, 'синнабон|улитка с корицей'],
+        ['булочка с кремом', 368, 6.1, 16.8, 46.7, 1, 'булочка с заварным кремом'],
+        ['плюшка московская', 386, 7.6, 13.4, 60.1, 1.8, 'плюшка'],
+        ['бублик', 336, 11, 1.3, 70, 3, 'баранки'],
+        ['соломка сладкая', 372, 9.8, 5.9, 70, 2.8, 'соломка'],
+        ['бейгл', 257, 10, 1.6, 50.5, 2.2, 'бублик нью-йоркский'],
+        ['английский маффин', 227, 8.9, 1.8, 44.2, 3.5],
+        ['лепешка тандырная', 275, 8.1, 2, 56, 2.4, 'лепешка узбекская|тандырная лепешка'],
+        ['лаваш грузинский', 274, 9.1, 1.1, 55.1, 2, 'шоти'],
+        ['лаваш тонкий цельнозерновой', 252, 9.8, 2.2, 47, 7],
+        ['тортилья кукурузная', 218, 5.7, 2.9, 44.6, 6.3],
+        ['чапати', 297, 9.6, 7.5, 46.4, 4.9],
+        ['пита цельнозерновая', 262, 9.8, 2.6, 52, 7.4],
+        ['хлебцы гречневые', 308, 10.2, 2.9, 60, 9, 'гречневые хлебцы'],
+        ['хлебцы кукурузные', 380, 8.3, 3.1, 79, 4.5, 'кукурузные хлебцы'],
+        ['хлебцы цельнозерновые', 300, 11, 3, 55, 15],
+        ['хлебцы мультизлаковые', 345, 11, 3.5, 62, 11],
+        ['хлебцы многозерновые хрустящие', 397, 11, 9, 64, 8, 'крекер-хлебцы'],
+        ['сухари ржаные', 324, 16, 1, 69.9, 4, 'ржаные сухари'],
+        ['сухари с изюмом', 383, 8.9, 6, 73, 2.4],
+        ['сухари ванильные', 397, 8.5, 6.2, 71.4, 2.2],
+        ['гренки', 366, 11.1, 1.4, 75.1, 3, 'кириешки|сухарики'],
+        ['сухарики со вкусом', 420, 10, 14, 63, 3],
+        ['грисини', 412, 12.3, 9.5, 68.4, 3, 'хлебные палочки'],
+        ['крекер соленый', 421, 9.5, 10.2, 72.3, 2.7],
+        ['тарталетки', 490, 6.9, 23.3, 63, 1.8, 'тарталетка'],
+        ['корзиночки вафельные', 350, 3.7, 2.5, 79, 1],
+        ['тесто слоеное бездрожжевое', 362, 5.9, 22.8, 33.5, 1.5, 'слоеное тесто'],
+        ['тесто слоеное дрожжевое', 336, 6, 19.8, 33.9, 1.6],
+        ['тесто дрожжевое', 236, 6.8, 3.7, 44.2, 1.8, 'дрожжевое тесто'],
+        ['тесто для пиццы', 245, 6.8, 4.9, 43.5, 1.9],
+        ['тесто фило', 299, 7.1, 6, 52.6, 1.9, 'фило'],
+        ['тесто для пельменей', 263, 8.3, 3.2, 49.6, 2.1, 'пельменное тесто'],
+        ['тесто песочное', 450, 6, 25, 50, 1.5, 'песочное тесто'],
+        ['тесто блинное', 160, 5.5, 4.8, 23.5, 0.6],
+        ['листы для спринг-роллов', 272, 8.3, 1.2, 58, 1.8, 'рисовая бумага'],
+        ['рисовая бумага сухая', 331, 2.4, 0.6, 80, 0.8],
+    ],
+    'Бобовые': [
+        ['чечевица красная сухая', 318, 24, 1.5, 48, 11],
+        ['чечевица отварная', 116, 9, 0.4, 20.1, 7.9, 'чечевица'],
+        ['фасоль белая сухая', 298, 21, 2, 47, 15.2],
+        ['фасоль отварная', 123, 7.8, 0.5, 21.5, 6.4, 'фасоль'],
+        ['фасоль красная консервированная', 99, 6.7, 0.3, 17.4, 5.5, 'фасоль в банке'],
+        ['фасоль стручковая', 24, 2, 0.2, 3.6, 2.5, 'стручковая фасоль'],
+        ['нут сухой', 364, 19.3, 6, 61, 17.4, 'турецкий горох'],
+        ['нут отварной', 164, 8.9, 2.6, 27.4, 7.6, 'нут'],
+        ['хумус', 166, 7.9, 9.6, 14.3, 6],
+        ['горох сухой', 298, 20.5, 2, 49.5, 11.2, 'горох колотый'],
+        ['гороховое пюре', 90, 6, 0.4, 15, 5],
+        ['горошек зеленый консервированный', 58, 3.1, 0.2, 10.5, 4.1, 'зеленый горошек'],
+        ['горошек зеленый свежий', 81, 5.4, 0.4, 14.5, 5.1],
+        ['соя сухая', 446, 36.5, 19.9, 30.2, 9.3],
+        ['тофу', 76, 8.1, 4.2, 1.9, 0.3, 'соевый творог'],
+        ['эдамаме', 121, 11.9, 5.2, 8.9, 5.2],
+        ['маш отварной', 105, 7, 0.4, 19.2, 7.6, 'маш'],
+        ['чечевица зеленая сухая', 295, 24, 1.5, 46.3, 11.5, 'зеленая чечевица'],
+        ['чечевица зеленая отварная', 111, 8.8, 0.4, 19, 7.8],
+        ['чечевица красная отварная', 105, 7.6, 0.4, 18.5, 4.3, 'красная чечевица'],
+        ['чечевица черная белуга сухая', 330, 25, 1.5, 53, 11, 'чечевица белуга'],
+        ['чечевица коричневая сухая', 310, 24.3, 1.2, 50, 11],
+        ['чечевица консервированная', 91, 6.8, 0.3, 15.8, 3.5],
+        ['фасоль красная сухая', 292, 21.5, 1.4, 46, 15.2, 'красная фасоль'],
+        ['фасоль красная отварная', 127, 8.7, 0.5, 22.8, 6.4],
+        ['фасоль белая отварная', 125, 8.8, 0.5, 22.3, 6.3, 'белая фасоль'],
+        ['фасоль белая консервированная', 88, 6.2, 0.3, 15.5, 5, 'фасоль консервированная'],
+        ['фасоль в томатном соусе', 89, 4.6, 0.4, 16.9, 4.1, 'фасоль в томате'],
+        ['фасоль черная сухая', 341, 21.6, 1.4, 62.4, 15.5, 'черная фасоль'],
+        ['фасоль черная отварная', 132, 8.9, 0.5, 23.7, 8.7],
+        ['фасоль пинто отварная', 143, 9, 0.7, 26.2, 9],
+        ['фасоль лима отварная', 115, 7.8, 0.4, 20.9, 7],
+        ['фасоль мунг сухая', 347, 23.9, 1.2, 62.6, 16.3],
+        ['фасоль стручковая замороженная', 28, 2, 0.3, 4.3, 2.8],
+        ['фасоль стручковая отварная', 35, 1.9, 0.3, 7.9, 3.2],
+        ['фасоль стручковая тушеная', 64, 2, 3.6, 6.3, 2.9],
+        ['нут консервированный', 119, 7, 2, 18, 5.4],
+        ['нут жареный', 368, 21, 6.3, 55, 16, 'жареный нут|снек из нута'],
+        ['горох отварной', 118, 8.3, 0.4, 21.1, 8.3, 'горох вареный'],
+        ['горох зеленый сухой', 341, 24.6, 1.2, 60.4, 25.5],
+        ['горошек зеленый замороженный', 77, 5, 0.4, 13.6, 5.1, 'горошек замороженный'],
+        ['горошек отварной', 84, 5.4, 0.2, 15.6, 5.5],
+        ['маш сухой', 323, 23.5, 2, 46, 11.1],
+        ['соевые бобы отварные', 173, 16.6, 9, 9.9, 6],
+        ['соевое мясо сухое', 296, 52, 1, 14, 14, 'соевый текстурат|соевый фарш'],
+        ['соевое мясо готовое', 110, 17, 0.5, 6, 4],
+        ['тофу копченый', 146, 15.6, 8.5, 2, 0.5],
+        ['тофу жареный', 271, 17.3, 20.2, 8.9, 3.9],
+        ['темпе', 192, 20.3, 10.8, 7.6, 4.5],
+        ['соевый соус сладкий', 222, 5.6, 0.4, 49, 0.5, 'кецап манис'],
+        ['мисо паста', 198, 11.7, 6, 26.5, 5.4, 'мисо'],
+        ['нут хумус с кедровыми орехами', 195, 7.2, 13.5, 12.1, 5.5],
+        ['фалафель замороженный', 280, 10.5, 14, 27, 5],
+        ['фава сухая', 341, 26, 1.5, 49, 25, 'бобы фава|конские бобы'],
+        ['бобы отварные', 110, 7.6, 0.4, 19.6, 5.4, 'бобы'],
+        ['арахис отварной', 318, 13.5, 22, 21.3, 8.8],
+        ['люпин отварной', 116, 15.6, 2.9, 9.9, 2.8],
+        ['соевая спаржа фучжу сухая', 440, 45, 20, 16, 2, 'фучжу|соевая спаржа'],
+        ['соевая спаржа по-корейски', 234, 13, 17, 7, 2],
+        ['горох нутовый пюре', 160, 8.4, 2.6, 27, 7.5],
+        ['чечевичный суп-пюре', 62, 3.8, 1.4, 8.4, 2.8],
+        ['лобио', 110, 6, 3.7, 13.5, 5, 'лобио из фасоли'],
+    ],
+    'Овощи': [
+        ['картофель сырой', 77, 2, 0.4, 16.3, 1.4, 'картошка'],
+        ['картофель отварной', 82, 2, 0.4, 16.7, 1.4, 'картошка вареная|картофель вареный'],
+        ['картофель запеченный', 93, 2.5, 0.1, 21.2, 2.2, 'печеная картошка'],
+        ['картофель жареный', 192, 2.8, 9.5, 23.4, 2.2, 'жареная картошка'],
+        ['картофельное пюре', 106, 2.5, 4.2, 14.7, 1.2, 'пюре картофельное|пюре'],
+        ['картофель фри', 312, 3.4, 15, 41, 3.8, 'фри'],
+        ['батат', 86, 1.6, 0.1, 20.1, 3, 'сладкий картофель'],
+        ['морковь сырая', 35, 1.3, 0.1, 6.9, 2.4, 'морковка'],
+        ['морковь отварная', 35, 0.8, 0.3, 5, 3, 'морковь вареная'],
+        ['морковь по-корейски', 134, 1.3, 11, 6.8, 2.1, 'корейская морковка'],
+        ['свекла сырая', 43, 1.5, 0.1, 8.8, 2.5, 'свёкла|буряк'],
+        ['свекла отварная', 49, 1.8, 0, 10.8, 2.5, 'свекла вареная'],
+        ['капуста белокочанная', 27, 1.8, 0.1, 4.7, 2, 'капуста'],
+        ['капуста тушеная', 75, 2, 3.5, 9.2, 2.3],
+        ['капуста квашеная', 23, 1.8, 0.1, 3, 2.9, 'квашеная капуста'],
+        ['капуста пекинская', 16, 1.2, 0.2, 2, 1.2],
+        ['капуста краснокочанная', 26, 0.8, 0.2, 5.1, 2.1],
+        ['капуста цветная', 30, 2.5, 0.3, 4.2, 2.1, 'цветная капуста'],
+        ['капуста брюссельская', 43, 4.8, 0, 5.9, 3.8],
+        ['брокколи', 34, 2.8, 0.4, 6.6, 2.6, 'брокколи свежая'],
+        ['брокколи отварная', 35, 2.4, 0.4, 7.2, 3.3],
+        ['кабачок', 24, 0.6, 0.3, 4.6, 1, 'цуккини'],
+        ['кабачки жареные', 88, 1.2, 6, 7.3, 1.1],
+        ['баклажан', 24, 1.2, 0.1, 4.5, 3.4],
+        ['баклажаны жареные', 107, 1.3, 8.7, 5.4, 3.1],
+        ['огурец', 15, 0.8, 0.1, 2.8, 0.7, 'огурцы свежие'],
+        ['огурец соленый', 11, 0.8, 0.1, 1.7, 1, 'соленые огурцы|огурец маринованный'],
+        ['помидор', 20, 1.1, 0.2, 3.7, 1.2, 'томат|помидоры'],
+        ['помидоры черри', 18, 0.9, 0.2, 3.9, 1.2, 'черри'],
+        ['перец болгарский', 27, 1.3, 0, 5.3, 1.9, 'сладкий перец|перец сладкий'],
+        ['перец чили', 40, 1.9, 0.4, 8.8, 1.5, 'острый перец'],
+        ['лук репчатый', 41, 1.4, 0, 8.2, 3, 'лук'],
+        ['лук зеленый', 19, 1.3, 0, 3.2, 1.2, 'зеленый лук'],
+        ['лук порей', 33, 2, 0, 6.5, 1.8, 'порей'],
+        ['лук жареный', 251, 2.5, 17, 22, 3],
+        ['чеснок', 149, 6.5, 0.5, 29.9, 1.5],
+        ['тыква', 22, 1, 0.1, 4.4, 2, 'тыква свежая'],
+        ['тыква запеченная', 37, 1.1, 0.1, 8, 2.6],
+        ['редис', 20, 1.2, 0.1, 3.4, 1.6, 'редиска'],
+        ['редька', 36, 1.9, 0.2, 6.7, 2.1, 'дайкон'],
+        ['репа', 28, 1.5, 0.1, 5.9, 1.9],
+        ['сельдерей стебель', 13, 0.9, 0.1, 2.1, 1.8, 'сельдерей'],
+        ['сельдерей корень', 32, 1.3, 0.3, 6.5, 3.1],
+        ['шпинат', 22, 2.9, 0.3, 2, 2.2],
+        ['салат листовой', 14, 1.2, 0.3, 1.3, 1.2, 'салат|листья салата|латук'],
+        ['салат айсберг', 14, 0.9, 0.1, 1.8, 1.2, 'айсберг'],
+        ['руккола', 25, 2.6, 0.7, 2.1, 1.6, 'рукола'],
+        ['укроп', 40, 2.5, 0.5, 6.3, 2.8],
+        ['петрушка', 49, 3.7, 0.4, 7.6, 2.1, 'петрушка зелень'],
+        ['кинза', 23, 2.1, 0.5, 1.9, 2.8, 'кориандр'],
+        ['базилик', 27, 2.5, 0.6, 4.3, 1.6],
+        ['щавель', 22, 1.5, 0.3, 2.9, 1.2],
+        ['спаржа', 21, 1.9, 0.1, 3.1, 2.1],
+        ['кукуруза вареная', 123, 4.1, 2.3, 22.5, 2.5, 'кукуруза в початках'],
+        ['кукуруза консервированная', 58, 2.2, 0.4, 11.2, 3.2, 'кукуруза в банке'],
+        ['оливки', 166, 1.3, 15.3, 6.3, 3.2, 'маслины'],
+        ['авокадо', 160, 2, 14.7, 1.8, 6.7],
+        ['шампиньоны', 27, 4.3, 1, 0.1, 2.6, 'грибы'],
+        ['шампиньоны жареные', 45, 3.7, 2.4, 1.9, 2.2],
+        ['вешенки', 38, 2.5, 0.3, 6.5, 2.3],
+        ['белые грибы', 34, 3.7, 1.7, 1.1, 2.1],
+        ['лисички', 19, 1.5, 1, 1, 2.3],
+        ['опята', 22, 2.2, 1.2, 0.5, 5.1],
+        ['грибы маринованные', 24, 2.2, 0.4, 2.3, 2.5],
+        ['овощная смесь замороженная', 38, 2, 0.2, 6.8, 3, 'мексиканская смесь|овощная смесь'],
+        ['овощи на гриле', 63, 1.4, 4, 5.6, 2.5, 'овощи гриль'],
+        ['рагу овощное', 99, 2.1, 4.8, 11.5, 2.3, 'овощное рагу'],
+        ['имбирь', 80, 1.8, 0.8, 15.8, 2],
+        ['картофель молодой', 61, 2.4, 0.4, 12.4, 1.8, 'молодая картошка'],
+        ['картофель в мундире', 82, 2, 0.4, 16.7, 1.4, 'картошка в мундире'],
+        ['картофель тушеный', 101, 1.9, 3.4, 15.3, 1.5, 'тушеная картошка'],
+        ['картофель по-деревенски', 170, 2.6, 8, 21, 2.3, 'картошка по-деревенски|дольки картофельные'],
+        ['картофель запеченный с маслом', 135, 2.4, 5, 20.3, 2.1],
+        ['картофель жареный с луком', 174, 2.8, 9.5, 19.5, 2.1],
+        ['картофельное пюре на воде', 76, 2, 0.3, 16.3, 1.4],
+        ['картофельное пюре с молоком без масла', 83, 2.1, 0.8, 16.5, 1.3],
+        ['картофель фри замороженный', 150, 2.5, 5.5, 22, 2, 'фри полуфабрикат'],
+        ['картофельные оладьи', 177, 4, 8.6, 21.2, 2, 'картофельные котлеты'],
+        ['батат запеченный', 90, 2, 0.2, 20.7, 3.3, 'запеченный батат'],
+        ['батат фри', 170, 2, 8, 22, 3.2],
+        ['топинамбур', 61, 2.1, 0.1, 12.8, 4.5, 'земляная груша'],
+        ['пастернак', 75, 1.2, 0.3, 18, 4.9],
+        ['брюква', 37, 1.2, 0.1, 7.7, 2.2],
+        ['кольраби', 27, 1.7, 0.1, 6.2, 3.6, 'капуста кольраби'],
+        ['капуста савойская', 28, 2, 0.1, 6.1, 3.1],
+        ['капуста кале', 49, 4.3, 0.9, 5.6, 3.6, 'кейл|капуста кейл|грюнколь'],
+        ['капуста романеско', 31, 2.9, 0.3, 4, 2.5, 'романеско'],
+        ['капуста бок-чой', 13, 1.5, 0.2, 2.2, 1, 'бок чой|пак-чой'],
+        ['капуста белокочанная тушеная без масла', 47, 2.2, 0.1, 8.5, 2.5],
+        ['капуста цветная отварная', 23, 1.8, 0.5, 4.1, 2.3],
+        ['капуста цветная замороженная', 24, 2, 0.3, 3.9, 2.3],
+        ['капуста цветная жареная', 103, 2.3, 7.5, 5.7, 2.1],
+        ['капуста брюссельская отварная', 36, 2.6, 0.5, 7.1, 2.6],
+        ['капуста брюссельская замороженная', 41, 3.8, 0.4, 5.5, 3.8],
+        ['брокколи замороженная', 28, 3, 0.3, 4.1, 3],
+        ['брокколи на пару', 35, 2.4, 0.4, 7.2, 3.3, 'брокколи пар'],
+        ['капуста морская маринованная', 49, 0.9, 2.8, 4.2, 0.6, 'салат из морской капусты'],
+        ['капуста маринованная', 48, 0.9, 0.2, 10.2, 2, 'маринованная капуста|капуста провансаль'],
+        ['капуста по-корейски', 55, 1.1, 2.5, 6.6, 2, 'чимча'],
+        ['кимчи', 23, 1.1, 0.5, 2.4, 1.6],
+        ['кабачок отварной', 17, 0.6, 0.3, 3.2, 1, 'кабачок вареный'],
+        ['кабачок запеченный', 24, 1.2, 0.4, 3.7, 1.1, 'цукини запеченный'],
+        ['кабачковая икра', 97, 1.2, 7, 7.4, 1.2, 'икра кабачковая'],
+        ['баклажан запеченный', 35, 0.8, 0.2, 6.9, 2.5],
+        ['баклажанная икра', 148, 1.7, 13.3, 5.1, 3, 'икра баклажанная'],
+        ['баклажан тушеный', 61, 1, 3.5, 6.5, 2.6],
+        ['патиссон', 19, 0.6, 0.1, 4.1, 1.3],
+        ['огурец малосольный', 11, 0.8, 0.1, 1.7, 1, 'малосольные огурцы'],
+        ['корнишоны', 16, 1, 0.1, 2.5, 0.8],
+        ['помидор соленый', 13, 1.1, 0.1, 1.6, 0.8, 'соленые помидоры'],
+        ['помидор маринованный', 20, 1.1, 0.1, 3.7, 0.8, 'маринованные помидоры'],
+        ['помидоры вяленые', 258, 14, 3, 43.5, 12.3, 'вяленые томаты'],
+        ['помидоры вяленые в масле', 213, 5.1, 14.1, 21, 5.8],
+        ['помидоры в собственном соку', 20, 1.1, 0.1, 3.5, 1.1, 'томаты в собственном соку|консервированные помидоры'],
+        ['помидоры жареные', 60, 1, 4.5, 4, 1.2],
+        ['помидор желтый', 15, 1, 0.3, 3, 0.7],
+        ['перец болгарский красный', 31, 1, 0.3, 6, 2.1, 'красный перец'],
+        ['перец болгарский желтый', 27, 1, 0.2, 6.3, 0.9, 'желтый перец'],
+        ['перец болгарский зеленый', 20, 0.9, 0.2, 4.6, 1.7, 'зеленый перец'],
+        ['перец запеченный', 38, 1.3, 0.2, 6.7, 2],
+        ['перец маринованный', 28, 1, 0.3, 5.2, 1.5],
+        ['перец халапеньо', 29, 0.9, 0.4, 6.5, 2.8, 'халапеньо'],
+        ['перец рамиро', 29, 1.1, 0.3, 5.8, 1.9],
+        ['лук красный', 42, 1.4, 0.2, 9.1, 1.7, 'красный лук|ялтинский лук'],
+        ['лук шалот', 72, 2.5, 0.1, 16.8, 3.2, 'шалот'],
+        ['лук маринованный', 40, 1, 0.1, 9, 1.5],
+        ['лук пассерованный', 101, 1.7, 4.8, 12.9, 2.4, 'пассерованный лук'],
+        ['лук жареный хрустящий', 590, 6, 44, 41, 5, 'луковые чипсы'],
+        ['черемша', 35, 2.4, 0.1, 6.5, 1, 'дикий чеснок'],
+        ['чеснок маринованный', 95, 4.8, 0.3, 18.7, 1.2],
+        ['чеснок сушеный молотый', 331, 16.6, 0.7, 72.7, 9, 'чесночный порошок'],
+        ['стрелки чеснока', 24, 1.3, 0.1, 3.4, 3.1, 'чесночные стрелки'],
+        ['тыква отварная', 20, 0.7, 0.1, 4.9, 1.1],
+        ['тыквенное пюре', 34, 1.1, 0.3, 8.1, 2.9],
+        ['тыква мускатная', 45, 1, 0.1, 11.7, 2, 'тыква баттернат'],
+        ['морковь тушеная', 47, 1.3, 1.7, 7.2, 2.7],
+        ['морковь запеченная', 41, 1, 0.2, 8.2, 3],
+        ['морковь замороженная', 36, 0.8, 0.5, 7.9, 3.3],
+        ['морковь мини', 35, 0.6, 0.1, 8.2, 2.9, 'беби морковь'],
+        ['свекла запеченная', 44, 1.7, 0.2, 8.3, 2.8],
+        ['свекла маринованная', 65, 0.8, 0.1, 16.3, 1.2],
+        ['свекла тертая с чесноком и майонезом', 165, 1.8, 14, 8.9, 2.5, 'свекла с чесноком'],
+        ['редис черный', 36, 1.9, 0.2, 6.7, 2.1, 'черная редька'],
+        ['редька зеленая', 32, 2, 0.2, 6.5, 1.6, 'маргеланская редька'],
+        ['дайкон маринованный', 35, 0.6, 0.1, 8.2, 1.6],
+        ['хрен корень', 59, 3.2, 0.4, 10.5, 7.3],
+        ['сельдерей черешковый отварной', 18, 0.8, 0.2, 4, 1.6],
+        ['фенхель', 31, 1.2, 0.2, 7.3, 3.1],
+        ['артишок', 47, 3.3, 0.2, 5.1, 5.4],
+        ['артишоки маринованные', 100, 1.6, 8, 6, 3.8],
+        ['спаржа отварная', 22, 2.4, 0.2, 4.1, 2],
+        ['спаржа зеленая замороженная', 24, 3.2, 0.2, 1.9, 1.9],
+        ['спаржа белая', 20, 1.9, 0.1, 2.7, 1.8],
+        ['кресс-салат', 32, 2.6, 0.7, 5.5, 1.1, 'кресс салат'],
+        ['салат ромэн', 17, 1.2, 0.3, 3.3, 2.1, 'ромэн|романо'],
+        ['салат корн', 21, 2, 0.4, 3.6, 1.5, 'корн|валерианелла'],
+        ['салат фризе', 17, 1.3, 0.2, 3.4, 3.1, 'фризе'],
+        ['салат радиччио', 23, 1.4, 0.3, 4.5, 0.9, 'радиччио'],
+        ['салат лолло россо', 16, 1.5, 0.2, 2.3, 1.3, 'лолло россо'],
+        ['салат микс', 18, 1.4, 0.3, 2.7, 1.5, 'салатная смесь|микс салатов'],
+        ['шпинат замороженный', 29, 3.6, 0.6, 2.3, 3.2],
+        ['шпинат тушеный', 30, 3, 0.3, 3.8, 2.4],
+        ['мангольд', 19, 1.8, 0.2, 3.7, 1.6, 'листовая свекла'],
+        ['цикорий салатный', 23, 1.7, 0.3, 4.7, 4, 'эндивий'],
+        ['зелень микс', 34, 2.3, 0.5, 5.4, 2.1, 'зелень'],
+        ['петрушка корень', 51, 1.5, 0.6, 10.1, 3.2],
+        ['мята', 44, 3.8, 0.9, 5.3, 8, 'мята свежая'],
+        ['тимьян свежий', 101, 5.6, 1.7, 10.5, 14, 'чабрец'],
+        ['розмарин свежий', 131, 3.3, 5.9, 20.7, 14.1],
+        ['эстрагон свежий', 295, 22.8, 7.2, 50.2, 7.4, 'тархун'],
+        ['орегано сушеный', 265, 9, 4.3, 26.4, 42.5, 'душица'],
+        ['шалфей сушеный', 315, 10.6, 12.8, 20.4, 40.3],
+        ['зеленый лук перо', 20, 1.3, 0.1, 4.6, 1.8],
+        ['кукуруза свежая', 86, 3.3, 1.4, 18.7, 2, 'кукуруза сырая'],
+        ['кукуруза замороженная', 88, 3.2, 1.2, 18.2, 2.1],
+        ['початок кукурузы на гриле', 128, 3.4, 2.6, 25, 2.8],
+        ['кукуруза мини маринованная', 23, 1.6, 0.4, 3.7, 1.7, 'мини-кукуруза'],
+        ['оливки зеленые фаршированные', 145, 1, 15, 0.5, 3.3, 'оливки фаршированные'],
+        ['маслины черные', 116, 0.8, 10.9, 6, 3.2, 'маслины вяленые'],
+        ['каперсы', 23, 2.4, 0.9, 4.9, 3.2],
+        ['шампиньоны отварные', 28, 2.2, 0.5, 3.3, 2.2],
+        ['шампиньоны консервированные', 24, 2.1, 0.3, 3.3, 2.4],
+        ['шампиньоны запеченные', 35, 3.9, 0.6, 3.1, 2.2],
+        ['грибы жареные с луком', 87, 2.4, 6.6, 4.4, 2.3],
+        ['грибы тушеные', 54, 3.3, 3.2, 2.9, 2.1, 'тушеные грибы'],
+        ['подберезовики', 20, 2.1, 0.8, 1.2, 3.2, 'подберезовик'],
+        ['подосиновики', 22, 3.3, 0.5, 1.2, 4.5, 'подосиновик'],
+        ['маслята', 19, 2.4, 0.7, 0.5, 1.2],
+        ['рыжики', 17, 1.9, 0.8, 0.5, 2.2],
+        ['грузди соленые', 16, 1.8, 0.5, 0.8, 2.7, 'грузди'],
+        ['белые грибы сушеные', 286, 30.3, 14.3, 9, 26.2, 'сушеные грибы'],
+        ['грибы шиитаке', 34, 2.2, 0.5, 4.3, 2.5, 'шиитаке'],
+        ['шиитаке сушеные', 296, 9.6, 1, 63.9, 11.5],
+        ['грибы эноки', 37, 2.7, 0.3, 5.1, 2.7, 'эноки'],
+        ['древесные грибы сухие', 152, 10.6, 0.2, 14, 34, 'муэр|черный древесный гриб'],
+        ['вешенки жареные', 75, 2.4, 4.8, 5.3, 2.3],
+        ['опята маринованные', 22, 2.2, 1.2, 0.5, 3.1],
+        ['трюфель', 24, 3, 0.5, 2, 2],
+        ['смесь для жарки замороженная', 78, 2.5, 3.5, 8, 2.8, 'овощи для жарки'],
+        ['овощи по-китайски замороженные', 42, 2, 0.3, 7, 2.6],
+        ['овощи на пару', 32, 1.8, 0.2, 5.2, 2.5, 'овощи пар'],
+        ['лечо', 63, 1.2, 3.5, 6.6, 1.8, 'лечо из перца'],
+        ['аджапсандал', 72, 1.2, 5, 5.5, 2.4],
+        ['рататуй', 67, 1.3, 4.4, 5.5, 2.2],
+        ['сотэ из баклажанов', 85, 1.2, 6.1, 6.3, 2.7, 'сотэ'],
+        ['овощное пюре', 48, 1.4, 1.9, 6.4, 2],
+        ['печеные овощи', 73, 1.5, 4, 7.8, 2.6],
+        ['перец фаршированный овощами', 88, 1.7, 4.9, 8.9, 2.2],
+        ['кабачки фаршированные', 104, 5.8, 5.8, 6.9, 1.1],
+        ['баклажаны с чесноком', 145, 1.4, 12.9, 5.5, 3],
+        ['ростки сои', 49, 5.3, 0.7, 7.4, 2, 'соевые ростки|проростки'],
+        ['ростки маша', 30, 3, 0.2, 5.9, 1.8, 'проростки маша'],
+        ['ростки люцерны', 23, 4, 0.7, 2.1, 1.9, 'люцерна'],
+        ['микрозелень', 24, 2.6, 0.5, 3.3, 2.2],
+        ['бамбук побеги', 27, 2.6, 0.3, 5.2, 2.2, 'бамбуковые побеги'],
+        ['водяной каштан', 97, 1.4, 0.1, 23.9, 3],
+        ['батат отварной', 76, 1.4, 0.1, 17.7, 2.5],
+        ['ямс', 118, 1.5, 0.2, 27.9, 4.1],
+        ['маниока', 160, 1.4, 0.3, 38.1, 1.8, 'кассава|юка'],
+        ['таро', 112, 1.5, 0.2, 26.5, 4.1],
+        ['лопух корень', 72, 1.5, 0.2, 17.3, 3.3, 'гобо'],
+        ['окра', 33, 1.9, 0.2, 7.5, 3.2, 'бамия'],
+        ['чайот', 19, 0.8, 0.1, 4.5, 1.7],
+        ['брокколи запеченная', 44, 3, 1.5, 5.2, 3.1],
+        ['брокколи жареная', 85, 3, 5.8, 5.4, 2.8],
+        ['цветная капуста запеченная', 45, 2.2, 1.8, 4.3, 2.3],
+        ['капуста брюссельская запеченная', 63, 3.4, 3, 5.9, 3.8],
+        ['спаржа на гриле', 40, 2.4, 2.1, 3.4, 2],
+        ['спаржа жареная', 60, 2.3, 4.4, 3.5, 2],
+        ['кабачок на гриле', 34, 1.1, 1.3, 4.3, 1.1],
+        ['баклажан на гриле', 45, 1.1, 2.2, 5.1, 2.6],
+        ['перец болгарский на гриле', 35, 1.1, 1, 5.2, 1.9],
+        ['шампиньоны на гриле', 32, 4.1, 1, 1.7, 2.4],
+        ['помидоры запеченные', 32, 1.1, 1.1, 4.2, 1.3],
+        ['лук запеченный', 48, 1.4, 0.2, 10.2, 1.9],
+        ['морковь на пару', 33, 0.8, 0.2, 6.9, 2.8],
+        ['зеленая фасоль на пару', 31, 1.9, 0.3, 4.9, 3],
+        ['тыква на пару', 22, 1, 0.1, 4.4, 1.6],
+        ['свекла на пару', 46, 1.7, 0.1, 9.1, 2.7],
+        ['кукуруза на гриле', 110, 3.3, 2, 20.5, 2.5],
+        ['картофель на пару', 80, 2, 0.1, 17.3, 1.6],
+        ['картофель печеный в фольге', 95, 2.5, 0.1, 21.2, 2.2],
+        ['пюре из цветной капусты', 55, 2, 3.5, 4.1, 1.9],
+        ['пюре из брокколи', 52, 2.6, 3, 4.1, 2.5],
+        ['пюре из батата', 92, 1.6, 1.9, 17.1, 2.5],
+        ['пюре тыквенное со сливками', 58, 1.1, 3.1, 6.5, 1.8],
+        ['морковное пюре', 42, 0.9, 1.9, 5.5, 2.3],
+        ['шпинат со сливками', 80, 3.1, 6, 3.5, 1.8],
+        ['капуста тушеная с грибами', 60, 2.3, 3, 6.2, 2.5],
+        ['фасоль стручковая с яйцом', 72, 3.9, 4.5, 4.1, 2.3],
+        ['кабачки тушеные', 56, 1, 3.6, 4.7, 1.1, 'тушеные кабачки'],
+        ['баклажаны тушеные с овощами', 65, 1.2, 3.9, 6.4, 2.6],
+        ['грибы запеченные с сыром', 135, 7.2, 10.4, 2.7, 1.7],
+        ['шампиньоны фаршированные', 120, 5.4, 8.5, 4.4, 1.5],
+        ['овощи по-мексикански', 55, 2.3, 1.5, 8.6, 2.7],
+        ['овощное соте', 70, 1.5, 4.1, 6.8, 2.2],
+        ['огурцы по-корейски', 75, 0.9, 6.1, 4.2, 0.8],
+        ['баклажаны по-корейски', 104, 1.1, 8.4, 6, 2.6],
+        ['грибы по-корейски', 74, 2.2, 5.2, 4.8, 2.1],
+        ['свекла по-корейски', 90, 1.4, 5.6, 8.6, 2.3],
+        ['редька по-корейски', 60, 1.3, 3.5, 6, 1.6],
+        ['кимчи из дайкона', 29, 1.2, 0.4, 5.1, 1.7, 'какдуги'],
+        ['соленые грузди со сметаной', 60, 2, 4.6, 2.3, 2.4],
+        ['ассорти грибное жареное', 80, 3.1, 5.9, 3.4, 2.1],
+    ],
+    'Фрукты и ягоды': [
+        ['яблоко', 47, 0.4, 0.4, 9.8, 1.8, 'яблоки'],
+        ['яблоко печеное', 66, 0.5, 0.4, 13.6, 2.4],
+        ['груша', 47, 0.4, 0.3, 10.3, 2.8],
+        ['банан', 96, 1.5, 0.2, 21, 1.7, 'бананы'],
+        ['апельсин', 43, 0.9, 0.2, 8.1, 2.2, 'апельсины'],
+        ['мандарин', 38, 0.8, 0.2, 7.5, 1.9, 'мандарины'],
+        ['грейпфрут', 35, 0.7, 0.2, 6.5, 1.8],
+        ['лимон', 34, 0.9, 0.1, 3, 2],
+        ['лайм', 30, 0.7, 0.2, 10.5, 2.8],
+        ['помело', 38, 0.8, 0, 9.6, 1],
+        ['киви', 47, 0.8, 0.4, 8.1, 3.8],
+        ['ананас', 52, 0.4, 0.2, 11.5, 1.2],
+        ['манго', 60, 0.8, 0.4, 15, 1.6],
+        ['персик', 45, 0.9, 0.1, 9.5, 2.1, 'персики'],
+        ['нектарин', 44, 1.1, 0.3, 10.6, 1.7],
+        ['абрикос', 44, 0.9, 0.1, 9, 2.1, 'абрикосы'],
+        ['слива', 49, 0.8, 0.3, 9.6, 1.5, 'сливы'],
+        ['вишня', 52, 0.8, 0.2, 10.6, 1.6],
+        ['черешня', 52, 1.1, 0.4, 10.6, 1.1],
+        ['виноград', 72, 0.6, 0.6, 15.4, 1.6],
+        ['арбуз', 27, 0.6, 0.1, 5.8, 0.4],
+        ['дыня', 35, 0.6, 0.3, 7.4, 0.9],
+        ['хурма', 67, 0.5, 0.4, 15.3, 3.6],
+        ['гранат', 72, 0.7, 0.6, 14.5, 0.9],
+        ['инжир свежий', 74, 0.7, 0.2, 13.7, 2.5],
+        ['клубника', 41, 0.8, 0.4, 7.5, 2.2, 'земляника'],
+        ['малина', 46, 0.8, 0.5, 8.3, 3.7],
+        ['черника', 44, 1.1, 0.4, 7.6, 3.1],
+        ['голубика', 57, 0.7, 0.3, 14.5, 2.4],
+        ['смородина черная', 44, 1, 0.4, 7.3, 4.8, 'черная смородина'],
+        ['смородина красная', 43, 0.6, 0.2, 7.7, 3.4],
+        ['крыжовник', 45, 0.7, 0.2, 9.1, 3.4],
+        ['клюква', 28, 0.5, 0.2, 3.7, 3.3],
+        ['брусника', 46, 0.7, 0.5, 8.2, 2.5],
+        ['облепиха', 82, 1.2, 5.4, 5.7, 2],
+        ['ежевика', 34, 2, 0, 4.4, 5.3],
+        ['вишня замороженная', 46, 0.9, 0.4, 11.3, 1.6],
+        ['ягодная смесь замороженная', 45, 0.9, 0.3, 9, 3.4, 'ягоды замороженные'],
+        ['финики сушеные', 282, 2.5, 0.4, 69.2, 8, 'финики'],
+        ['курага', 232, 5.2, 0.3, 51, 7.3],
+        ['изюм', 264, 2.9, 0.6, 66, 3.7],
+        ['чернослив', 240, 2.3, 0.7, 57.5, 7.1],
+        ['инжир сушеный', 257, 3.1, 0.8, 57.9, 9.8],
+        ['клюква сушеная', 308, 0.1, 1.1, 77, 5.3],
+        ['яблоки сушеные', 243, 0.9, 0.3, 65.9, 8.7, 'сухофрукты'],
+        ['кокос мякоть', 354, 3.3, 33.5, 6.2, 9, 'кокос'],
+        ['яблоко зеленое', 41, 0.4, 0.4, 9.6, 1.8, 'яблоко гренни смит|зеленое яблоко'],
+        ['яблоко красное', 52, 0.3, 0.2, 11.4, 2.4, 'красное яблоко'],
+        ['яблоко моченое', 32, 0.3, 0.3, 6.7, 1.8],
+        ['яблочное пюре', 53, 0.4, 0.2, 12.4, 1.5, 'пюре яблочное'],
+        ['яблоки запеченные с медом', 98, 0.5, 0.4, 23.2, 2.3],
+        ['груша конференция', 57, 0.4, 0.1, 13.3, 3.1],
+        ['груша сушеная', 249, 2.3, 0.6, 62.6, 3.1, 'сушеная груша'],
+        ['айва', 57, 0.6, 0.5, 9.6, 3.6],
+        ['банан сушеный', 346, 3.9, 1.8, 81, 9.9, 'банановые чипсы сушеные'],
+        ['банановые чипсы', 519, 2.3, 33.6, 51, 7.7],
+        ['банан мини', 89, 1.1, 0.3, 21, 2.6, 'бейби банан'],
+        ['плантан жареный', 236, 1.5, 11.8, 33, 2.3, 'плантан'],
+        ['апельсин красный', 36, 0.7, 0.1, 8.6, 1.6, 'корольки|сицилийский апельсин'],
+        ['клементин', 47, 0.9, 0.2, 10.6, 1.7, 'клементины'],
+        ['танжерин', 53, 0.8, 0.3, 11.5, 1.8],
+        ['кумкват', 71, 1.9, 0.9, 9.4, 6.5, 'кинкан'],
+        ['свити', 58, 0.7, 0.2, 13, 1],
+        ['цедра лимона', 47, 1.5, 0.3, 5.4, 10.6, 'цедра'],
+        ['цедра апельсина', 97, 1.5, 0.2, 14.4, 10.6],
+        ['лимон без кожуры', 29, 1.1, 0.3, 6.5, 2.8],
+        ['грейпфрут красный', 42, 0.8, 0.1, 8.4, 1.6],
+        ['ананас консервированный', 60, 0.4, 0.1, 15.2, 0.8, 'ананас в сиропе'],
+        ['ананас сушеный', 347, 1, 0, 85.5, 2.2, 'цукаты ананаса'],
+        ['манго сушеное', 314, 2.5, 1.2, 78.6, 2.4, 'сушеный манго'],
+        ['папайя', 43, 0.5, 0.3, 9.1, 1.7],
+        ['маракуйя', 97, 2.2, 0.7, 13.4, 10.4, 'маракуйя свежая'],
+        ['личи', 66, 0.8, 0.4, 16.5, 1.3],
+        ['рамбутан', 82, 0.7, 0.2, 20.9, 0.9],
+        ['лонган', 60, 1.3, 0.1, 13.8, 1.1],
+        ['питахайя', 50, 1.1, 0.4, 11, 3, 'драконий фрукт|питайя'],
+        ['мангостин', 73, 0.4, 0.6, 16.1, 1.8],
+        ['гуава', 68, 2.6, 1, 8.6, 5.4, 'гуайява'],
+        ['фейхоа', 49, 1.2, 0.6, 8.2, 6.4],
+        ['физалис', 53, 1.9, 0.7, 11.2, 1],
+        ['черимойя', 75, 1.6, 0.7, 16.4, 3],
+        ['карамбола', 31, 1, 0.3, 6.7, 2.8],
+        ['джекфрут', 95, 1.7, 0.6, 21.8, 1.5],
+        ['дуриан', 147, 1.5, 5.3, 24.3, 3.8],
+        ['тамаринд', 239, 2.8, 0.6, 57.4, 5.1],
+        ['хурма королек', 63, 0.5, 0.3, 16.8, 1.6, 'королек'],
+        ['хурма сушеная', 274, 1.4, 0.6, 73.4, 14.5],
+        ['персики консервированные', 64, 0.5, 0.1, 15.5, 1.3, 'персики в сиропе'],
+        ['персик сушеный', 239, 3.6, 0.8, 61.3, 8.2],
+        ['абрикосы консервированные', 48, 0.5, 0.1, 11.1, 1.6],
+        ['урюк', 241, 5.2, 0.3, 53, 6.8],
+        ['алыча', 34, 0.2, 0.1, 7.9, 0.5],
+        ['терн', 54, 1.5, 0.3, 9.4, 2],
+        ['кизил', 44, 1, 0, 9, 1.5],
+        ['вишня консервированная', 55, 0.8, 0.1, 12.9, 1.1, 'вишня в сиропе'],
+        ['вишня сушеная', 292, 1.5, 0, 73, 3.1, 'сушеная вишня'],
+        ['черешня желтая', 48, 1.1, 0.4, 9.5, 1.1],
+        ['слива желтая', 42, 0.8, 0.3, 9, 1.5],
+        ['слива сушеная', 256, 2.3, 0.6, 63, 6, 'вяленая слива'],
+        ['виноград киш-миш', 72, 0.6, 0.6, 15.4, 1.6, 'кишмиш'],
+        ['виноград черный', 72, 0.6, 0.2, 15.4, 1.6],
+        ['виноград зеленый', 69, 0.7, 0.2, 16.2, 0.9],
+        ['изюм темный', 264, 2.9, 0.6, 66, 3.7],
+        ['арбуз желтый', 38, 0.6, 0.2, 8, 0.5],
+        ['дыня канталупа', 34, 0.8, 0.2, 8.2, 0.9, 'канталупа'],
+        ['дыня торпеда', 33, 0.6, 0.3, 7.4, 0.9],
+        ['гранатовые зерна', 83, 1.7, 1.2, 18.7, 4, 'зерна граната'],
+        ['клубника замороженная', 35, 0.4, 0.1, 9.1, 2.1],
+        ['малина замороженная', 52, 1.2, 0.7, 11.9, 6.5],
+        ['черника замороженная', 51, 0.4, 0.6, 12.2, 2.7],
+        ['брусника замороженная', 43, 0.6, 0.4, 9.2, 2.5],
+        ['клюква замороженная', 26, 0.5, 0.2, 3.7, 3.3],
+        ['смородина черная замороженная', 63, 1, 0.4, 15.4, 4.8],
+        ['облепиха замороженная', 82, 1.2, 5.4, 5.7, 2],
+        ['морошка', 40, 0.8, 0.9, 7.4, 6.3],
+        ['голубика сушеная', 317, 2.5, 2.5, 72.5, 7.5],
+        ['черника сушеная', 309, 0.9, 0.6, 72.3, 9.5],
+        ['земляника лесная', 34, 0.8, 0.4, 7.5, 2.2],
+        ['шелковица', 43, 0.7, 0, 12, 1.6, 'тутовник'],
+        ['ирга', 45, 0.6, 0, 12, 2],
+        ['жимолость', 30, 0, 0, 8, 2.8],
+        ['арония', 55, 1.5, 0.2, 10.9, 4.1, 'черноплодная рябина|черноплодка'],
+        ['рябина красная', 50, 1.4, 0.2, 8.9, 5.4, 'рябина'],
+        ['калина', 26, 0, 0, 7, 2.5],
+        ['шиповник сушеный', 284, 3.4, 0, 60, 22.4, 'шиповник'],
+        ['боярышник', 52, 0, 0, 14, 3.6],
+        ['годжи сушеные', 349, 14.3, 0.4, 64, 13, 'ягоды годжи|годжи'],
+        ['физалис сушеный', 324, 7.4, 1.3, 70, 5.5],
+        ['финики медджул', 277, 1.8, 0.2, 75, 6.7, 'медджул'],
+        ['финики без косточки', 274, 2.5, 0.5, 69.2, 6],
+        ['чернослив копченый', 256, 2.3, 0.7, 57.5, 7.1],
+        ['курага без сахара', 215, 5.2, 0.3, 51, 7.3],
+        ['цукаты', 216, 0.5, 0.3, 53, 1, 'цукаты фруктовые'],
+        ['смесь сухофруктов', 255, 2.7, 0.5, 62, 6, 'компотная смесь'],
+        ['фруктовые чипсы', 350, 2, 0.5, 85, 9, 'яблочные чипсы'],
+        ['фрукты в сиропе', 75, 0.4, 0.1, 18.5, 1, 'фруктовый коктейль консервированный'],
+        ['фруктовый салат', 54, 0.7, 0.3, 12.7, 1.9],
+        ['яблоки в карамели', 210, 0.4, 2.5, 46, 1.6],
+        ['кокосовая стружка', 592, 5.3, 64.5, 5.8, 16.3, 'кокосовая стружка несладкая'],
+        ['кокосовые чипсы', 658, 7, 62, 20, 16, 'кокосовые хлопья'],
+        ['кокосовая вода', 19, 0.7, 0.2, 3.7, 1.1],
+        ['авокадо хасс', 167, 2, 15.4, 1.8, 6.8, 'хасс'],
+        ['гуакамоле', 155, 1.9, 14, 5.5, 5, 'гуакамоле соус'],
+        ['оливковая паста', 262, 1.2, 26.4, 4.5, 3.2, 'тапенада'],
+    ],
+    'Мясо': [
+        ['говядина сырая', 187, 18.9, 12.4, 0, 0, 'говядина'],
+        ['говядина отварная', 254, 25.8, 16.8, 0, 0, 'говядина вареная'],
+        ['говядина тушеная', 232, 16.8, 18.3, 0, 0, 'тушеная говядина'],
+        ['говяжья вырезка', 158, 20.2, 8.6, 0, 0, 'вырезка'],
+        ['стейк говяжий жареный', 243, 27.4, 14.8, 0, 0, 'стейк|рибай'],
+        ['фарш говяжий', 254, 17.2, 20, 0, 0, 'говяжий фарш'],
+        ['фарш говяжье-свиной', 263, 17, 21.5, 0, 0, 'фарш домашний|фарш смешанный'],
+        ['телятина', 97, 19.7, 1.2, 0, 0],
+        ['свинина сырая', 259, 16, 21.6, 0, 0, 'свинина'],
+        ['свинина жареная', 330, 23, 26, 0, 0, 'жареная свинина'],
+        ['свинина запеченная', 262, 25.1, 17.6, 0, 0],
+        ['свиная вырезка', 142, 19.4, 7.1, 0, 0],
+        ['свиная шея', 267, 13.6, 23.8, 0, 0, 'шейка свиная'],
+        ['свиная корейка', 181, 21.1, 10.7, 0, 0, 'корейка'],
+        ['свиные ребра', 321, 15.2, 29.3, 0, 0, 'ребрышки'],
+        ['фарш свиной', 263, 17, 21.5, 0, 0],
+        ['сало', 797, 2.4, 89, 0, 0, 'шпик'],
+        ['бекон', 500, 23, 45, 0, 0],
+        ['баранина', 203, 16.3, 15.3, 0, 0],
+        ['баранина тушеная', 268, 17.3, 22.1, 0, 0],
+        ['кролик', 183, 21, 11, 0, 0, 'крольчатина'],
+        ['конина', 167, 20.2, 7, 0, 0],
+        ['оленина', 155, 19.5, 8.5, 0, 0],
+        ['говяжья печень', 127, 17.9, 3.7, 5.3, 0, 'печень говяжья|печень'],
+        ['говяжья печень жареная', 199, 22.9, 10.2, 3.9, 0],
+        ['говяжий язык', 146, 12.2, 10.9, 2.2, 0, 'язык'],
+        ['сердце говяжье', 96, 16, 3.5, 2, 0],
+        ['котлета говяжья', 260, 14.6, 16.5, 11.9, 0.3, 'котлеты'],
+        ['котлета домашняя', 290, 16, 21, 10, 0.3, 'котлета свиная'],
+        ['тефтели', 190, 10.7, 11.7, 10.8, 0.6],
+        ['плов с говядиной', 161, 6.5, 6.3, 19.6, 0.7, 'плов'],
+        ['гуляш', 145, 14.6, 8.8, 2, 0.5, 'гуляш из говядины'],
+        ['бефстроганов', 207, 16.5, 14.3, 3.3, 0.4],
+        ['шашлык свиной', 324, 19, 27, 0, 0, 'шашлык'],
+        ['шашлык из курицы', 178, 20, 10.3, 0.6, 0],
+        ['пельмени', 275, 11.9, 12.4, 29, 1.4, 'пельмени отварные'],
+        ['вареники с картофелем', 148, 4.4, 2.8, 26.4, 1.5, 'вареники'],
+        ['манты', 226, 10.9, 11, 21, 1],
+        ['голубцы', 102, 6.3, 5.5, 7, 1.5],
+        ['перец фаршированный', 118, 6.8, 6.5, 8, 1.7],
+        ['говядина постная', 158, 22.2, 7.1, 0, 0, 'постная говядина'],
+        ['говядина жирная', 249, 17.6, 19.9, 0, 0],
+        ['говядина запеченная', 217, 28, 11.5, 0, 0, 'запеченная говядина|ростбиф'],
+        ['говядина жареная', 256, 26.1, 16.8, 0, 0, 'жареная говядина'],
+        ['говядина на гриле', 215, 29.3, 10.6, 0, 0],
+        ['говяжья грудинка', 251, 16.5, 20.6, 0, 0, 'грудинка говяжья'],
+        ['говяжья лопатка', 179, 19.6, 11.2, 0, 0, 'лопатка говяжья'],
+        ['говяжий огузок', 155, 21.3, 7.7, 0, 0, 'огузок'],
+        ['говяжья вырезка жареная', 202, 28.7, 9.6, 0, 0, 'филе миньон'],
+        ['стейк стриплойн жареный', 230, 27, 13.5, 0, 0, 'стриплойн'],
+        ['стейк т-бон жареный', 255, 24, 17.5, 0, 0, 'т-бон'],
+        ['стейк из говядины средней прожарки', 225, 27, 13, 0, 0, 'стейк медиум'],
+        ['говяжьи щеки тушеные', 192, 26.8, 9.4, 0, 0, 'щечки говяжьи'],
+        ['говяжий хвост тушеный', 262, 30.9, 14.1, 0, 0, 'бычий хвост'],
+        ['ребра говяжьи', 290, 16.3, 25, 0, 0, 'говяжьи ребра'],
+        ['фарш говяжий постный', 176, 20, 10, 0, 0, 'постный фарш'],
+        ['фарш говяжий жареный', 250, 24, 16.8, 0, 0],
+        ['котлета из говядины на гриле', 255, 24, 17, 0, 0, 'котлета для бургера|бургерная котлета'],
+        ['ростбиф нарезка', 141, 24, 5, 0, 0],
+        ['говядина вяленая', 245, 41, 8, 3.5, 0, 'джерки|вяленое мясо'],
+        ['бастурма', 235, 29, 13, 0, 0],
+        ['суджук', 452, 15.7, 43, 1.5, 0],
+        ['телятина отварная', 131, 30.7, 0.9, 0, 0],
+        ['телятина запеченная', 158, 28.8, 4.6, 0, 0],
+        ['телячья печень', 124, 19.2, 3.3, 4.1, 0, 'печень телячья'],
+        ['телячьи котлеты', 195, 18.5, 10.5, 7, 0.3],
+        ['свинина постная', 142, 19.4, 7.1, 0, 0, 'постная свинина'],
+        ['свинина жирная', 489, 11.7, 49.3, 0, 0],
+        ['свинина отварная', 375, 22.6, 31.6, 0, 0, 'отварная свинина'],
+        ['свинина тушеная', 349, 14.6, 32.2, 0, 0, 'тушеная свинина'],
+        ['свиная вырезка запеченная', 143, 26.2, 3.5, 0, 0],
+        ['свиная корейка запеченная', 213, 27, 11.7, 0, 0],
+        ['свиной окорок', 261, 18, 21.4, 0, 0, 'окорок'],
+        ['свиная лопатка', 225, 15.5, 17.7, 0, 0, 'лопатка свиная'],
+        ['свиная грудинка', 518, 9.3, 53, 0, 0, 'грудинка свиная'],
+        ['свиная рулька', 291, 19.5, 23.5, 0, 0, 'рулька'],
+        ['свиная отбивная жареная', 263, 25, 17.5, 2.7, 0.1, 'отбивная свиная'],
+        ['свиные ребра запеченные', 360, 23, 29.6, 0, 0],
+        ['свиные ребра барбекю', 302, 21, 20.7, 8.4, 0.3, 'ребрышки барбекю'],
+        ['свиная печень', 109, 18.8, 3.8, 4.7, 0, 'печень свиная'],
+        ['свиное сердце', 118, 16.2, 4.8, 1.3, 0],
+        ['свиной язык', 208, 15.9, 16, 0, 0, 'язык свиной'],
+        ['свиные уши', 211, 22.2, 13.6, 0.6, 0],
+        ['сало соленое', 816, 1.4, 89.8, 0, 0, 'соленое сало'],
+        ['сало копченое', 634, 10.5, 65.5, 0, 0],
+        ['шкварки', 544, 37.2, 43.8, 0, 0],
+        ['бекон жареный', 541, 37, 42, 1.4, 0, 'бекон хрустящий'],
+        ['бекон сырокопченый', 467, 12.6, 46.5, 0, 0],
+        ['грудинка копченая', 514, 7.6, 53.5, 0, 0, 'копченая грудинка'],
+        ['корейка копченая', 308, 10.5, 29.3, 0, 0],
+        ['шейка копченая', 343, 14.4, 31.4, 0, 0, 'копченая шея'],
+        ['окорок копченый', 380, 14, 36, 0, 0],
+        ['хамон', 241, 31, 13, 0, 0, 'прошутто'],
+        ['пармская ветчина', 269, 25.9, 18.5, 0.3, 0, 'пармская'],
+        ['баранья корейка', 294, 16.2, 25.5, 0, 0],
+        ['баранья нога запеченная', 233, 28.5, 13, 0, 0],
+        ['баранина на гриле', 258, 26.9, 16.8, 0, 0],
+        ['бараньи ребра', 330, 15.5, 30, 0, 0],
+        ['фарш бараний', 282, 16.6, 23.4, 0, 0],
+        ['баранья печень', 101, 18.7, 2.9, 0, 0],
+        ['шашлык из баранины', 225, 21.4, 15.5, 0, 0],
+        ['кролик тушеный', 206, 24.6, 11.7, 0, 0],
+        ['кролик запеченный', 197, 29, 8.4, 0, 0],
+        ['козлятина', 143, 20.6, 6.1, 0, 0],
+        ['лосятина', 101, 21.4, 1.7, 0, 0],
+        ['кабанятина', 122, 21.5, 3.3, 0, 0, 'мясо кабана'],
+        ['конина отварная', 175, 25, 8.2, 0, 0],
+        ['говяжьи почки', 66, 12.5, 1.8, 0, 0, 'почки'],
+        ['говяжий рубец', 96, 14.8, 4.2, 0, 0, 'рубец'],
+        ['говяжий мозг', 124, 9.5, 9.5, 0, 0, 'мозги'],
+        ['говяжье вымя', 173, 12.3, 13.7, 0, 0, 'вымя'],
+        ['говяжий язык отварной', 231, 23.9, 15.9, 0, 0, 'язык отварной'],
+        ['говяжье сердце отварное', 165, 26.4, 5.6, 0, 0],
+        ['печень говяжья тушеная', 166, 17.4, 7, 7.7, 0, 'печень тушеная'],
+        ['печень жареная с луком', 204, 19.6, 10.6, 6.8, 0.4],
+        ['печеночные оладьи', 199, 14.9, 10.4, 11.6, 0.4, 'печеночники'],
+        ['холодец', 80, 14, 3, 0, 0, 'студень'],
+        ['холодец свиной', 186, 20.2, 11.2, 0, 0],
+        ['заливное из говядины', 101, 14.5, 4.5, 0.6, 0, 'заливное'],
+        ['зразы мясные', 201, 13.2, 12.4, 9.4, 0.6, 'зразы'],
+        ['котлета по-киевски', 250, 15.5, 16.3, 11.5, 0.2, 'по-киевски'],
+        ['котлета пожарская', 260, 17, 15, 14, 0.3, 'пожарские котлеты'],
+        ['котлета свиная жареная', 312, 14.5, 23.9, 9.1, 0.3],
+        ['котлета говяжья на пару', 196, 16.4, 10.1, 9, 0.3, 'паровые котлеты'],
+        ['биточки', 238, 13.8, 15.4, 11.4, 0.4],
+        ['люля-кебаб', 280, 16, 23, 2.1, 0.2, 'люля кебаб'],
+        ['кебаб', 245, 17.5, 17.4, 3.5, 0.4],
+        ['мясо по-французски', 264, 11.2, 22.6, 4.3, 0.5],
+        ['отбивная из говядины', 231, 25.1, 13.4, 2.9, 0.1, 'отбивная'],
+        ['шницель свиной', 306, 16.8, 20.1, 14.3, 0.5, 'шницель'],
+        ['эскалоп', 365, 19.8, 31.6, 0, 0],
+        ['антрекот', 345, 21.3, 29.1, 0, 0],
+        ['азу', 151, 10.6, 9.5, 5.3, 0.9, 'азу по-татарски'],
+        ['бифштекс', 200, 23.5, 11.5, 0, 0, 'бифштекс рубленый'],
+        ['ромштекс', 280, 18.4, 16.1, 13, 0.4],
+        ['рагу из говядины', 128, 10, 7.2, 5.4, 1.1],
+        ['рагу из свинины', 187, 10.5, 14.1, 4.9, 1],
+        ['мясо тушеное с овощами', 142, 10.6, 8.3, 5.8, 1.4],
+        ['тефтели в томатном соусе', 158, 9, 10.3, 7.7, 0.7, 'тефтели с подливой'],
+        ['фрикадельки', 225, 13.6, 16.8, 5.2, 0.3, 'фрикадельки мясные'],
+        ['фрикадельки шведские', 238, 13.2, 16.7, 9, 0.2],
+        ['мясной рулет', 245, 14.5, 17.4, 7.8, 0.4, 'рулет мясной'],
+        ['запеканка картофельная с мясом', 143, 7.8, 7.4, 11.6, 1.1, 'картофельная запеканка с фаршем'],
+        ['мусака', 135, 7.6, 8.7, 7, 1.9],
+        ['плов со свининой', 215, 8.1, 11.2, 20.8, 0.8],
+        ['плов с бараниной', 232, 7.4, 13.4, 21.2, 0.7, 'узбекский плов'],
+        ['вареники с мясом', 216, 10.5, 9.8, 21.3, 0.9],
+        ['хинкали', 236, 10.3, 10.6, 24.5, 1],
+        ['пельмени говяжьи', 250, 12.3, 10.9, 25.8, 1.2],
+        ['пельмени свино-говяжьи', 275, 11.9, 12.4, 29, 1.4, 'пельмени домашние'],
+        ['пельмени жареные', 330, 12.4, 19.2, 27.4, 1.3, 'жареные пельмени'],
+        ['равиоли с мясом', 211, 9.2, 8.1, 25.2, 1.4, 'равиоли'],
+        ['гедза', 218, 8.9, 9, 24.6, 1.3, 'гёдза|гедзы'],
+        ['мясо в горшочке', 148, 8.9, 9.2, 7.2, 1.2, 'жаркое в горшочке'],
+        ['чанахи', 98, 6.2, 5.1, 6.9, 1.5],
+        ['хашлама', 167, 18.4, 10.1, 0.9, 0.3],
+        ['говядина тушеная с овощами', 132, 12.1, 7.1, 4.5, 1.1],
+        ['говядина в соевом соусе', 170, 18.5, 8.4, 4.6, 0.3],
+        ['говядина отварная постная', 175, 30.7, 5.8, 0, 0],
+        ['говяжья грудинка тушеная', 292, 24.5, 21.6, 0, 0],
+        ['котлета из телятины', 210, 17.1, 11.8, 8.6, 0.4],
+        ['свинина отварная постная', 209, 30.2, 9.7, 0, 0],
+        ['свинина на гриле', 262, 25.2, 17.8, 0, 0, 'свинина гриль'],
+        ['свинина в кляре', 290, 15.8, 18.4, 15.7, 0.5],
+        ['свиной стейк', 263, 25.2, 17.8, 0, 0],
+        ['свиная шейка запеченная', 336, 23.5, 27, 0, 0],
+        ['свиной карбонад запеченный', 185, 27.6, 8.4, 0, 0],
+        ['фарш свиной жареный', 297, 25.6, 21.3, 0, 0],
+        ['баранина отварная', 293, 21.9, 22.7, 0, 0],
+        ['баранина запеченная', 258, 26.9, 16.8, 0, 0],
+        ['стейк из баранины', 280, 25.6, 19.7, 0, 0],
+        ['шашлык из свинины на гриле', 324, 19, 27, 0, 0],
+        ['шашлык из телятины', 190, 25, 9.9, 0, 0],
+        ['мясо оленя запеченное', 158, 30.2, 3.2, 0, 0],
+        ['колбаски из баранины', 310, 15, 27.5, 1, 0],
+        ['котлета из баранины', 290, 16.5, 22.6, 5, 0.3],
+        ['печень свиная жареная', 212, 24.3, 9.2, 8.8, 0.2],
+        ['язык говяжий заливной', 190, 18, 12.6, 1.1, 0],
+        ['рубец тушеный', 125, 15.9, 5.9, 1.5, 0.3],
+        ['почки тушеные', 156, 17.2, 8.3, 2.4, 0.3],
+    ],
+    'Птица': [
+        ['куриная грудка сырая', 113, 23.6, 1.9, 0.4, 0, 'куриное филе|филе курицы|грудка'],
+        ['куриная грудка отварная', 137, 29.8, 1.8, 0.5, 0, 'вареная грудка|курица отварная'],
+        ['куриная грудка запеченная', 165, 31, 3.6, 0, 0, 'грудка запеченная|куриное филе запеченное'],
+        ['куриная грудка жареная', 197, 30.3, 7.7, 0.4, 0, 'жареное филе'],
+        ['куриная грудка гриль', 158, 30.4, 3.5, 0, 0, 'грудка гриль|курица гриль филе'],
+        ['курица целая сырая', 190, 16, 14, 0, 0, 'курица|цыпленок'],
+        ['курица запеченная', 239, 27.3, 13.6, 0, 0, 'курица гриль|курица в духовке'],
+        ['куриное бедро без кожи', 185, 19.5, 11.6, 0, 0, 'бедро курицы'],
+        ['куриное бедро запеченное', 229, 24, 14.7, 0, 0],
+        ['куриная голень', 158, 18.2, 8.4, 0, 0, 'голень|ножки куриные'],
+        ['куриные крылья', 186, 19.2, 12.2, 0, 0, 'крылышки'],
+        ['куриные крылья запеченные', 290, 23.8, 20.8, 0, 0],
+        ['фарш куриный', 143, 17.4, 8.1, 0, 0, 'куриный фарш'],
+        ['куриная печень', 137, 20.4, 5.9, 0.7, 0, 'печень куриная'],
+        ['куриные сердечки', 158, 15.8, 10.3, 0.8, 0, 'сердечки'],
+        ['куриные желудки', 114, 21, 3.4, 0, 0, 'пупки|желудочки'],
+        ['котлета куриная', 190, 16, 10, 8.9, 0.3],
+        ['наггетсы куриные', 296, 15.3, 19.8, 14.6, 0.9, 'наггетсы'],
+        ['индейка филе', 114, 23.5, 1.5, 0, 0, 'филе индейки|грудка индейки'],
+        ['индейка филе запеченное', 139, 29, 1.9, 0, 0, 'индейка запеченная'],
+        ['индейка бедро', 144, 19.9, 6.8, 0, 0],
+        ['фарш индейки', 161, 19.7, 8.7, 0, 0],
+        ['утка', 308, 16.5, 27, 0, 0, 'утиное мясо'],
+        ['утиная грудка', 140, 19.8, 6, 0, 0],
+        ['гусь', 319, 16, 28.1, 0, 0],
+        ['перепелка', 230, 18.2, 17.3, 0.4, 0],
+        ['курица тушеная', 164, 16.9, 10.3, 0.7, 0],
+        ['суп куриный с лапшой', 45, 3.1, 1.4, 5, 0.3, 'куриный суп|лапша куриная'],
+        ['бульон куриный', 15, 2, 0.5, 0.3, 0, 'бульон'],
+        ['куриная грудка на пару', 120, 25.8, 1.5, 0, 0, 'грудка на пару'],
+        ['куриная грудка тушеная', 145, 26.5, 4, 0, 0],
+        ['куриная грудка в панировке', 222, 21, 10, 10.5, 0.5, 'курица в панировке'],
+        ['куриное филе су-вид', 125, 26, 2.2, 0, 0],
+        ['куриная грудка с кожей', 172, 20.8, 9.2, 0, 0],
+        ['курица отварная целая', 204, 25.2, 11.4, 0, 0, 'отварная курица'],
+        ['курица жареная', 210, 26, 11.6, 0, 0, 'жареная курица'],
+        ['курица копченая', 184, 27.5, 8.2, 0, 0, 'копченая курица'],
+        ['курица гриль с кожей', 210, 24.4, 12.3, 0, 0],
+        ['окорочок куриный', 158, 16.8, 10.2, 0, 0, 'окорочка|куриный окорочок'],
+        ['окорочок запеченный', 222, 22.4, 14.6, 0, 0, 'запеченные окорочка'],
+        ['окорочок копченый', 184, 27.5, 8.2, 0, 0],
+        ['голень запеченная', 172, 27, 7.1, 0, 0, 'куриная голень запеченная'],
+        ['голень без кожи', 119, 20, 4.2, 0, 0],
+        ['бедро куриное с кожей', 211, 16.8, 15.9, 0, 0, 'куриное бедро'],
+        ['бедро куриное жареное', 247, 24.9, 16.1, 0, 0],
+        ['филе бедра отварное', 176, 24.8, 8.6, 0, 0],
+        ['крылья баффало', 260, 21, 17.5, 4.3, 0.2, 'крылышки баффало'],
+        ['крылья жареные', 321, 26.6, 23.1, 0, 0, 'жареные крылышки'],
+        ['куриная кожа', 349, 12, 33, 0, 0],
+        ['фарш куриный из грудки', 110, 20.5, 3, 0, 0],
+        ['курица отварная в бульоне', 170, 25.2, 7.4, 0, 0],
+        ['куриная печень жареная', 172, 24.5, 7.2, 2, 0],
+        ['куриная печень тушеная', 156, 19.6, 7.1, 3.5, 0.3],
+        ['паштет из куриной печени', 220, 15.2, 16.3, 2.6, 0.2, 'паштет куриный'],
+        ['куриные сердечки тушеные', 185, 20.6, 10.8, 0.8, 0.1],
+        ['куриные желудки тушеные', 130, 21.5, 4.7, 0.6, 0],
+        ['куриные шкварки', 466, 36, 35, 0, 0],
+        ['котлета из куриной грудки на пару', 140, 18.3, 5.5, 4.8, 0.3, 'паровая куриная котлета'],
+        ['куриные рубленые котлеты', 207, 17, 12, 7.7, 0.3],
+        ['куриные тефтели', 156, 15.1, 8.3, 5.2, 0.3],
+        ['куриные стрипсы', 260, 18, 14, 16, 1, 'стрипсы'],
+        ['крылышки острые', 285, 20.5, 19.8, 6, 0.3],
+        ['куриный рулет', 138, 17.4, 6.8, 1.2, 0, 'рулет куриный'],
+        ['курица терияки', 163, 19.8, 4.3, 10.5, 0.2],
+        ['курица карри', 145, 13.4, 7.5, 5.6, 1.1, 'карри с курицей'],
+        ['курица в сливочном соусе', 182, 17.5, 11.6, 2.2, 0.1],
+        ['курица в кисло-сладком соусе', 192, 13.7, 8.2, 16.1, 0.6],
+        ['курица кунг пао', 168, 14.8, 9.7, 6.4, 1.2, 'кунг пао'],
+        ['курица тикка масала', 141, 12.5, 7.7, 5.5, 1.1, 'тикка масала'],
+        ['чахохбили', 127, 12.6, 7.3, 3.1, 0.7],
+        ['цыпленок табака', 246, 19.6, 18.5, 0, 0],
+        ['курица с овощами', 112, 12.5, 5.2, 3.7, 1.2],
+        ['жульен с курицей', 187, 11.5, 13.6, 4.8, 0.5, 'жюльен'],
+        ['курица по-мексикански', 146, 15.6, 6.5, 6.4, 1.6],
+        ['индейка голень', 156, 19.3, 8.9, 0, 0, 'голень индейки'],
+        ['индейка голень запеченная', 205, 27.9, 10.4, 0, 0],
+        ['индейка крылья', 197, 20.2, 12.9, 0, 0],
+        ['индейка фарш жареный', 203, 27.4, 10.4, 0, 0],
+        ['индейка грудка отварная', 130, 29, 1.2, 0, 0],
+        ['индейка бедро запеченное', 188, 23.8, 10.3, 0, 0],
+        ['котлеты из индейки', 170, 16.4, 9.3, 5, 0.3],
+        ['тефтели из индейки', 158, 15.3, 8.5, 4.7, 0.3],
+        ['индейка копченая', 144, 22.4, 6.1, 0, 0, 'копченая индейка'],
+        ['индейка целая запеченная', 189, 28.5, 8.2, 0, 0, 'индейка в духовке'],
+        ['утка запеченная', 337, 19, 29, 0, 0, 'утка в духовке'],
+        ['утка по-пекински', 337, 19, 28.6, 2.5, 0.1, 'пекинская утка'],
+        ['утиная грудка жареная', 201, 23.5, 11.2, 0, 0],
+        ['утиная ножка конфи', 282, 24, 20.6, 0, 0, 'конфи'],
+        ['утиная печень', 136, 18.7, 4.6, 3.5, 0],
+        ['фуа-гра', 462, 11.4, 43.8, 4.7, 0, 'фуа гра'],
+        ['гусь запеченный', 305, 25.2, 22.4, 0, 0],
+        ['гусиная печень', 133, 16.4, 4.3, 6.3, 0],
+        ['перепелка запеченная', 227, 25.1, 14.1, 0, 0],
+        ['цесарка', 110, 20.6, 2.5, 0, 0],
+        ['страус', 114, 22.5, 2.5, 0, 0, 'страусятина'],
+        ['фазан', 153, 18, 8.8, 0, 0],
+        ['бройлер', 220, 17.6, 16.1, 0, 0, 'бройлерная курица'],
+        ['грудка куриная копченая', 117, 21.1, 3.5, 0.5, 0, 'копченая грудка'],
+        ['грудка куриная вяленая', 170, 35, 3, 0, 0, 'вяленая курица|джерки куриные'],
+        ['ветчина из индейки', 104, 17, 3.5, 1.5, 0],
+        ['колбаса из индейки', 160, 14.7, 10.8, 1, 0],
+        ['сосиски куриные', 239, 11, 20.7, 1.5, 0],
+        ['куриные колбаски гриль', 185, 15.3, 13.2, 1.5, 0, 'колбаски куриные'],
+        ['купаты', 301, 13.3, 27.5, 0.2, 0],
+        ['бульон индейки', 18, 2.3, 0.8, 0.2, 0],
+        ['суп с фрикадельками из курицы', 50, 3.3, 2.3, 4.4, 0.5],
+        ['куриная грудка в сливочном соусе', 170, 21.2, 8.6, 2.2, 0.1],
+        ['куриное филе в соевом соусе', 146, 24.6, 3.2, 4.3, 0.2],
+        ['курица в медово-горчичном соусе', 180, 21.7, 6.5, 8.6, 0.2],
+        ['курица с ананасами запеченная', 155, 16.1, 7.2, 6.2, 0.4],
+        ['курица фаршированная', 186, 17.7, 11.3, 3.5, 0.3],
+        ['куриные ножки жареные', 226, 23.2, 14.5, 0, 0],
+        ['куриные бедра гриль', 210, 25.3, 12, 0, 0],
+        ['куриное филе в кляре', 220, 18.3, 11.6, 10.4, 0.4],
+        ['кебаб из курицы', 180, 21.3, 9.3, 2.5, 0.3],
+        ['люля-кебаб из курицы', 195, 18.1, 12.2, 3, 0.3],
+        ['индейка в сливочном соусе', 165, 20.1, 8.7, 2.1, 0.1],
+        ['индейка тушеная', 150, 21.8, 6.9, 0, 0],
+        ['индейка с овощами', 104, 12.3, 4.1, 4.8, 1.2],
+        ['индейка на гриле', 150, 29.5, 3.2, 0, 0],
+        ['гуляш из индейки', 125, 14.2, 6, 3.3, 0.6],
+        ['утка с яблоками', 260, 15.9, 19.3, 6.8, 1],
+        ['перепела жареные', 260, 22.5, 18.6, 0, 0],
+    ],
+    'Колбасы и полуфабрикаты': [
+        ['колбаса вареная', 257, 12.8, 22.2, 1.5, 0, 'докторская|молочная колбаса'],
+        ['колбаса докторская', 257, 12.8, 22.2, 1.5, 0],
+        ['колбаса сервелат', 461, 24, 40.5, 0.2, 0, 'сервелат'],
+        ['колбаса сырокопченая', 473, 24.8, 41.5, 0, 0, 'салями'],
+        ['колбаса полукопченая', 375, 16, 34, 0, 0],
+        ['сосиски', 266, 11, 23.9, 1.6, 0, 'сосиска'],
+        ['сардельки', 270, 10, 25, 1.5, 0],
+        ['ветчина', 270, 14, 23.6, 0, 0],
+        ['ветчина куриная', 110, 17, 4, 1.5, 0],
+        ['буженина', 210, 21, 14, 0, 0],
+        ['карбонад', 135, 16, 8, 0, 0],
+        ['паштет печеночный', 301, 11.8, 28.6, 0.9, 0, 'паштет'],
+        ['тушенка говяжья', 220, 16.8, 17, 0, 0, 'тушенка'],
+        ['хот-дог', 290, 10.4, 17, 23.4, 0.8, 'хотдог'],
+        ['шаурма с курицей', 210, 10, 10.5, 19.5, 1.2, 'шаурма|шаверма'],
+        ['бургер', 254, 13.3, 11.8, 24.5, 1.2, 'гамбургер'],
+        ['чизбургер', 263, 14.2, 12.6, 23.5, 1.3],
+        ['пицца маргарита', 239, 9.8, 8.9, 29.8, 1.6, 'пицца'],
+        ['пицца пепперони', 298, 12.2, 14.8, 29.4, 1.5],
+        ['блинчики с мясом', 225, 9, 11, 22.5, 0.8],
+        ['чебурек', 264, 8.5, 14.5, 24.7, 1],
+        ['беляш', 272, 11.5, 14.2, 25, 1.1],
+        ['пирожок с капустой', 235, 5.4, 9.3, 32.4, 1.6, 'пирожок'],
+        ['пирожок с мясом', 270, 10.6, 10.5, 33.4, 1.2],
+        ['пирожок с картошкой', 234, 5.6, 8.8, 33.5, 1.5],
+        ['ролл филадельфия', 142, 6, 4.6, 19.1, 0.7, 'филадельфия|роллы'],
+        ['ролл калифорния', 176, 7.2, 5.4, 24.6, 0.9, 'калифорния'],
+        ['суши с лососем', 150, 7.6, 2.6, 24, 0.4, 'суши|нигири'],
+        ['колбаса молочная', 252, 11.7, 22.8, 0, 0],
+        ['колбаса любительская', 301, 12.2, 28, 0, 0, 'любительская'],
+        ['колбаса телячья', 316, 12.5, 29.6, 0, 0],
+        ['колбаса чайная', 216, 11.7, 18.4, 0.5, 0],
+        ['колбаса краковская', 466, 16.2, 44.6, 0, 0, 'краковская'],
+        ['колбаса московская', 406, 24.8, 34, 0, 0],
+        ['колбаса брауншвейгская', 473, 27.4, 40.5, 0, 0],
+        ['колбаса ливерная', 326, 14.4, 28.5, 2.2, 0, 'ливерная колбаса|ливерка'],
+        ['колбаса кровяная', 274, 9, 19.5, 14.5, 0, 'кровянка'],
+        ['колбаса пепперони', 504, 23, 44, 1.2, 0, 'пепперони'],
+        ['колбаса чоризо', 455, 24.1, 38.3, 1.9, 0, 'чоризо'],
+        ['колбаса охотничья', 463, 24, 40, 0.3, 0, 'охотничьи колбаски'],
+        ['колбаски для жарки', 324, 13.4, 29.6, 0, 0, 'колбаски гриль'],
+        ['колбаски баварские', 320, 11, 30, 1, 0, 'баварские колбаски'],
+        ['колбаски мюнхенские белые', 290, 11.4, 26.3, 1, 0, 'вайсвурст'],
+        ['колбаса диетическая', 170, 12.1, 13.5, 0, 0],
+        ['колбаса из курицы', 196, 13, 15.5, 1, 0, 'куриная колбаса'],
+        ['сосиски молочные', 266, 11, 23.9, 1.6, 0, 'молочные сосиски'],
+        ['сосиски венские', 306, 11.5, 28.5, 0.4, 0, 'венские сосиски'],
+        ['сосиски сливочные', 227, 10.1, 20.1, 1.6, 0],
+        ['сосиски с сыром', 305, 12.4, 28, 0.3, 0],
+        ['сосиски говяжьи', 215, 11.4, 18.2, 1.5, 0],
+        ['сосиски из индейки', 235, 11.9, 20, 1.8, 0],
+        ['сардельки говяжьи', 215, 11.4, 18.2, 1.5, 0],
+        ['шпикачки', 335, 10.6, 31.6, 1.9, 0],
+        ['салями миланская', 407, 24.5, 34, 1.2, 0, 'салями милано'],
+        ['хот-дог французский', 296, 10.6, 16, 26.5, 1],
+        ['ветчина свиная', 279, 22.6, 20.9, 0, 0],
+        ['ветчина вареная', 145, 20, 7, 1, 0, 'ветчина для завтрака'],
+        ['ветчина в оболочке', 270, 14, 23.6, 0, 0],
+        ['балык свиной', 171, 18.9, 10.5, 0, 0, 'балык'],
+        ['грудинка варено-копченая', 360, 14, 33, 0, 0],
+        ['рулет из свинины', 264, 18, 21, 0, 0],
+        ['сальтисон', 330, 18, 28, 0, 0],
+        ['зельц', 270, 16, 22, 1.5, 0],
+        ['паштет из говядины', 270, 10.5, 24.5, 1.7, 0],
+        ['паштет из утиной печени', 340, 11.4, 32.4, 1.5, 0],
+        ['печеночный торт', 220, 13.6, 15.6, 6.9, 0.4],
+        ['тушенка свиная', 349, 14.9, 32.2, 0, 0],
+        ['каша с мясом консервированная', 167, 8.5, 9, 13, 1.4, 'консервированная каша'],
+        ['завтрак туриста', 197, 20.5, 12, 0, 0],
+        ['фарш для пельменей', 278, 15.4, 24, 0, 0],
+        ['полуфабрикат котлеты говяжьи', 225, 14.4, 14.1, 9.8, 0.3],
+        ['полуфабрикат котлеты куриные', 200, 14, 12, 9.6, 0.3],
+        ['блинчики с творогом', 198, 8.7, 7.1, 25, 0.5],
+        ['блинчики с ветчиной и сыром', 228, 11.8, 11.4, 20, 0.6],
+        ['блинчики с курицей', 200, 10.8, 8.6, 20.2, 0.7],
+        ['блинчики с вишней', 200, 4.4, 7.3, 30, 1.1],
+        ['чебурек жареный с сыром', 280, 10, 16, 24, 0.9],
+        ['самса с мясом', 312, 10.4, 18.5, 27.1, 1.1, 'самса'],
+        ['самса с курицей', 281, 11.6, 14.3, 27.2, 1.1],
+        ['хычин', 250, 9, 11, 28, 1.3],
+        ['кутаб', 221, 8.5, 9.2, 26.3, 1.7, 'кутабы'],
+        ['осетинский пирог с сыром', 244, 9, 10, 29, 1.2, 'осетинский пирог'],
+        ['курник', 255, 9.5, 13.1, 24.9, 1],
+        ['кулебяка', 225, 8.2, 9.6, 26.3, 1.3],
+        ['расстегай с рыбой', 220, 10.4, 9.4, 23.6, 0.9, 'расстегай'],
+        ['пирог с мясом', 245, 10.6, 11.6, 24.8, 1],
+        ['пирог с капустой', 205, 5.4, 8.3, 28, 1.8],
+        ['пирог с рыбой', 210, 10.1, 8.8, 22.7, 0.9],
+        ['пирог с картошкой и грибами', 200, 4.8, 7.6, 28.6, 1.8],
+        ['пирожок жареный с мясом', 277, 10.6, 13.5, 28.9, 1.2],
+        ['пирожок жареный с капустой', 251, 5.2, 12.5, 30.1, 1.8],
+        ['пирожок печеный с яйцом и луком', 240, 8.1, 9.7, 30.4, 1.2],
+        ['пирожок с повидлом', 277, 4.6, 8.2, 47, 1.5],
+        ['пирожок с вишней', 263, 4.6, 9.3, 41, 1.5],
+        ['эчпочмак', 278, 11.9, 15.1, 24.1, 1.2, 'треугольник с мясом'],
+        ['губадия', 245, 6.5, 9.3, 34.3, 1.1],
+        ['бургер с курицей', 240, 12.8, 9.8, 25.2, 1.3, 'чикенбургер'],
+        ['бургер двойной', 278, 15.2, 15.2, 20.7, 1.1, 'двойной бургер'],
+        ['бургер вегетарианский', 214, 8.5, 9.2, 25.6, 3.7, 'вегбургер'],
+        ['роял чизбургер', 276, 15.4, 14.1, 20.9, 1.3],
+        ['биг мак', 252, 11.3, 13.3, 21.9, 1.6, 'бигмак'],
+        ['наггетсы запеченные', 222, 16, 11, 14.3, 0.9],
+        ['куриные крылья острые фастфуд', 292, 20, 19.6, 9.2, 0.5],
+        ['картофель фри средний', 323, 3.4, 15.5, 42.5, 3.8],
+        ['картофель по-деревенски фастфуд', 197, 3, 10, 23.9, 2.5],
+        ['луковые кольца', 411, 4.5, 22.7, 46.6, 2.5, 'луковые кольца в кляре'],
+        ['сырные палочки', 311, 14.7, 17.5, 24.9, 1, 'моцарелла палочки'],
+        ['ролл твистер', 218, 9.5, 10, 22.8, 1.4, 'твистер|ролл с курицей'],
+        ['буррито с говядиной', 206, 9.8, 8.2, 22.8, 2.1, 'буррито'],
+        ['буррито с курицей', 185, 10.5, 6.1, 22.3, 2],
+        ['тако', 226, 9.4, 12.6, 20.7, 2.7, 'тако с говядиной'],
+        ['кесадилья с курицей', 240, 13.8, 11.8, 19.7, 1.4, 'кесадилья'],
+        ['начос с сыром', 306, 8, 16.8, 32.2, 2.9, 'начос'],
+        ['фахитос с курицей', 150, 11.2, 5.2, 14.1, 1.6, 'фахитос'],
+        ['пицца четыре сыра', 290, 12.5, 13.5, 29, 1.4, 'четыре сыра'],
+        ['пицца гавайская', 235, 10.2, 8.4, 29.7, 1.5, 'гавайская пицца'],
+        ['пицца с грибами', 220, 9.4, 8.4, 26.6, 1.6],
+        ['пицца барбекю', 256, 11.6, 9.9, 29.8, 1.4],
+        ['пицца с ветчиной и грибами', 235, 10.7, 9.2, 27.3, 1.5],
+        ['пицца вегетарианская', 209, 8.6, 8.1, 25.8, 2],
+        ['пицца замороженная', 266, 10.7, 11.4, 29.9, 1.8],
+        ['пицца на тонком тесте', 270, 11.4, 12.6, 27.4, 1.7],
+        ['кальцоне', 264, 11.4, 11.6, 28, 1.5],
+        ['мини-пицца', 269, 10.4, 10.7, 32.1, 1.7],
+        ['сэндвич с ветчиной и сыром', 255, 12.5, 11.2, 25.5, 1.3, 'сэндвич с ветчиной'],
+        ['сэндвич с тунцом', 204, 11.3, 7.9, 21.8, 1.4],
+        ['сэндвич с яйцом', 226, 9.3, 10.9, 22.3, 1.3],
+        ['клаб-сэндвич', 235, 12.6, 10.7, 21.5, 1.5, 'клаб сэндвич'],
+        ['панини', 259, 12.2, 11.7, 25.4, 1.4],
+        ['тост с авокадо', 197, 5.5, 9.7, 22, 5.1, 'авокадо тост'],
+        ['брускетта с томатами', 171, 4.5, 6.4, 24.1, 1.9, 'брускетта'],
+        ['крок-месье', 287, 15.8, 15.1, 21.3, 1],
+        ['хот-дог с горчицей', 268, 10, 15.5, 22, 0.9],
+        ['шаурма со свининой', 246, 11, 13.1, 20.8, 1.2],
+        ['шаурма с говядиной', 235, 11.8, 11.6, 21.4, 1.2],
+        ['шаурма в пите', 205, 10.8, 9.1, 20.8, 1.4],
+        ['донер кебаб', 215, 12.3, 10.1, 18.9, 1.5, 'донер'],
+        ['гирос', 205, 12.7, 9.2, 18.7, 1.6],
+        ['фалафель в пите', 224, 8.3, 10.8, 24.3, 3.4],
+        ['ролл унаги маки', 206, 8.2, 5.3, 31.1, 0.7, 'унаги ролл'],
+        ['ролл с лососем маки', 174, 8.1, 2.5, 29.5, 0.6, 'сяке маки'],
+        ['ролл с огурцом', 122, 2.8, 0.3, 26.5, 0.8, 'каппа маки'],
+        ['ролл с тунцом', 146, 8.4, 0.6, 26.2, 0.5, 'текка маки'],
+        ['ролл запеченный', 219, 8.3, 10.6, 22.8, 0.6, 'запеченные роллы'],
+        ['ролл темпура', 252, 8.4, 12.7, 26, 0.8, 'темпура ролл'],
+        ['ролл дракон', 175, 6.7, 5.8, 23.9, 0.9, 'дракон'],
+        ['ролл канада', 207, 8.2, 8.5, 24.2, 0.7, 'канада'],
+        ['ролл с крабом', 155, 5.6, 2.9, 26.6, 0.7],
+        ['ролл цезарь', 190, 9, 7.2, 22.2, 0.9],
+        ['суши с угрем', 180, 8.5, 4.5, 26, 0.3, 'унаги нигири'],
+        ['суши с тунцом', 139, 9.6, 0.8, 23.1, 0.3, 'нигири с тунцом'],
+        ['суши с креветкой', 127, 8.3, 0.5, 22.1, 0.3, 'эби нигири'],
+        ['гунканы с икрой', 186, 10.8, 3.8, 26.8, 0.5, 'гункан'],
+        ['онигири', 166, 3.6, 0.6, 36.2, 0.8],
+        ['поке с лососем', 145, 8.3, 5.4, 15.8, 1.5, 'поке'],
+        ['поке с тунцом', 129, 8.6, 3.3, 16.3, 1.5],
+        ['спринг-роллы свежие', 120, 5.3, 1.8, 20.5, 1.2, 'спринг роллы'],
+        ['спринг-роллы жареные', 235, 5.6, 11.8, 26.7, 1.6, 'нэм'],
+        ['вареники с капустой', 140, 3.6, 3.3, 24.2, 1.7],
+        ['вареники с картофелем и грибами', 150, 4.2, 3.4, 25.9, 1.7],
+        ['вареники с клубникой', 180, 4.4, 1.6, 37.1, 1.2],
+        ['вареники жареные', 245, 5.3, 11.1, 31.8, 1.5],
+        ['пельмени куриные', 225, 12.8, 8.3, 25.4, 1.2],
+        ['пельмени из индейки', 211, 13.3, 6.7, 24.6, 1.1],
+        ['пельмени с бульоном', 123, 5.5, 5.5, 12.9, 0.6],
+        ['пельмени со сметаной', 256, 9.9, 14.3, 21.8, 1],
+        ['манты с тыквой', 150, 4.3, 5.4, 21.8, 1.8],
+        ['позы', 230, 11.6, 11.5, 20.4, 1, 'бузы|буузы'],
+        ['чебупели', 250, 9.5, 13, 24, 1.1],
+        ['котлеты рыбные полуфабрикат', 157, 11.8, 6.3, 13.5, 0.4],
+        ['рыбные палочки', 238, 12.4, 11.5, 21.2, 1, 'палочки рыбные'],
+        ['крабовое мясо', 94, 6.8, 1.2, 14.2, 0, 'снежный краб'],
+        ['пицца-роллы', 270, 9, 11, 34, 1.5],
+        ['хачапури по-имеретински', 280, 11.2, 12.1, 31, 1.1, 'хачапури имеретинский'],
+        ['хачапури по-мегрельски', 315, 12.5, 16.2, 29.6, 1, 'хачапури мегрельский'],
+        ['лобиани', 230, 8.4, 6.3, 35.2, 3.4],
+        ['ачма', 352, 12.5, 21.1, 28, 1, 'ачма с сыром'],
+    ],
+    'Рыба и морепродукты': [
+        ['лосось сырой', 208, 20.4, 13.4, 0, 0, 'семга|лосось'],
+        ['лосось запеченный', 206, 22.1, 12.4, 0, 0, 'семга запеченная'],
+        ['лосось слабосоленый', 202, 22.5, 12.5, 0, 0, 'семга соленая|слабосоленая семга'],
+        ['форель', 119, 20.5, 3.5, 0, 0],
+        ['форель запеченная', 168, 23.8, 7.4, 0, 0],
+        ['горбуша', 140, 20.5, 6.5, 0, 0],
+        ['кета', 127, 19, 5.6, 0, 0],
+        ['треска', 78, 17.7, 0.7, 0, 0],
+        ['треска отварная', 92, 20.1, 0.7, 0, 0],
+        ['минтай', 72, 15.9, 0.9, 0, 0],
+        ['хек', 86, 16.6, 2.2, 0, 0],
+        ['судак', 84, 18.4, 1.1, 0, 0],
+        ['тилапия', 96, 20.1, 1.7, 0, 0],
+        ['дорадо', 96, 18, 3, 0, 0],
+        ['сибас', 97, 18.4, 2, 0, 0],
+        ['скумбрия', 191, 18, 13.2, 0, 0],
+        ['скумбрия копченая', 221, 20.7, 15.5, 0, 0],
+        ['сельдь', 161, 17.5, 9.8, 0, 0, 'селедка'],
+        ['сельдь соленая', 217, 19.8, 15.4, 0, 0, 'селедка соленая'],
+        ['тунец свежий', 101, 23, 1, 0, 0],
+        ['тунец консервированный в собственном соку', 96, 21, 1, 0, 0, 'тунец консервы|тунец в банке'],
+        ['сардины в масле', 220, 19.7, 15.5, 0, 0, 'сардины'],
+        ['шпроты в масле', 363, 17.4, 32.4, 0.4, 0, 'шпроты'],
+        ['горбуша консервированная', 136, 20.9, 5.2, 0, 0],
+        ['печень трески', 613, 4.2, 65.7, 1.2, 0],
+        ['рыба жареная', 156, 17, 8, 3.5, 0.2, 'жареная рыба'],
+        ['рыбные котлеты', 168, 12.5, 6.2, 16.1, 0.6, 'котлеты рыбные'],
+        ['креветки', 95, 22, 1, 0, 0, 'креветки вареные'],
+        ['кальмар', 100, 18, 2.2, 2, 0, 'кальмары'],
+        ['мидии', 77, 11.5, 2, 3.3, 0],
+        ['осьминог', 82, 14.9, 1, 2.2, 0],
+        ['крабовые палочки', 73, 6, 1, 10, 0, 'крабовые'],
+        ['икра красная', 245, 31.6, 13.8, 0, 0, 'красная икра'],
+        ['морская капуста', 25, 0.9, 0.2, 3, 0.6, 'ламинария'],
+        ['уха', 46, 4.6, 1.5, 3.5, 0.3, 'рыбный суп'],
+        ['лосось на гриле', 216, 24, 13.2, 0, 0, 'лосось гриль'],
+        ['лосось на пару', 190, 22.5, 11, 0, 0],
+        ['лосось копченый', 199, 25.4, 10.1, 0, 0, 'копченый лосось'],
+        ['лосось холодного копчения', 153, 23.7, 5.8, 0, 0],
+        ['стейк из лосося', 206, 22.1, 12.4, 0, 0, 'стейк лосося'],
+        ['семга слабосоленая', 219, 22.5, 14.4, 0, 0],
+        ['форель слабосоленая', 186, 20.6, 11.4, 0, 0, 'форель соленая'],
+        ['форель копченая', 132, 25.7, 3.3, 0, 0],
+        ['форель радужная', 141, 19.9, 6.9, 0, 0, 'радужная форель'],
+        ['горбуша запеченная', 170, 25.2, 7.6, 0, 0],
+        ['горбуша жареная', 193, 21.5, 11.7, 0, 0],
+        ['горбуша соленая', 169, 22.1, 9, 0, 0],
+        ['кета запеченная', 154, 25.8, 5.5, 0, 0],
+        ['кета соленая', 184, 24.1, 9.8, 0, 0],
+        ['нерка', 157, 20.3, 8.4, 0, 0],
+        ['нерка запеченная', 183, 26, 8.6, 0, 0],
+        ['кижуч', 140, 21.6, 6, 0, 0],
+        ['чавыча', 148, 19.9, 7.8, 0, 0],
+        ['голец', 135, 19.4, 6.4, 0, 0],
+        ['омуль', 89, 19, 1, 0, 0],
+        ['омуль копченый', 150, 26, 5, 0, 0],
+        ['муксун', 88, 17.3, 2, 0, 0],
+        ['сиг', 144, 19, 7.5, 0, 0],
+        ['нельма', 160, 21, 8, 0, 0],
+        ['треска запеченная', 105, 22.8, 0.9, 0, 0],
+        ['треска жареная', 111, 19.7, 3.3, 0, 0, 'жареная треска'],
+        ['треска в кляре', 205, 15.6, 11.2, 10.4, 0.4, 'рыба в кляре'],
+        ['треска на пару', 85, 19.5, 0.6, 0, 0],
+        ['минтай отварной', 79, 17.6, 1, 0, 0],
+        ['минтай жареный', 136, 19.1, 6.6, 0, 0, 'жареный минтай'],
+        ['минтай запеченный', 95, 19.9, 1.4, 0, 0],
+        ['хек отварной', 95, 16.6, 2.9, 0, 0],
+        ['хек жареный', 149, 18.5, 8.1, 0, 0],
+        ['хек запеченный', 100, 19.3, 2.5, 0, 0],
+        ['пикша', 73, 17.2, 0.5, 0, 0],
+        ['пикша отварная', 90, 20, 1, 0, 0],
+        ['навага', 73, 16.1, 1, 0, 0],
+        ['мойва', 116, 13.4, 7, 0, 0],
+        ['мойва жареная', 230, 16.7, 17.2, 2.9, 0.1],
+        ['мойва копченая', 232, 18.4, 17.6, 0, 0],
+        ['камбала', 83, 15.7, 3, 0, 0],
+        ['камбала жареная', 149, 19.5, 7.9, 0, 0],
+        ['палтус', 102, 18.9, 3, 0, 0],
+        ['палтус запеченный', 127, 24.4, 3.1, 0, 0],
+        ['палтус холодного копчения', 190, 18.4, 12.8, 0, 0],
+        ['окунь морской', 103, 18.2, 3.3, 0, 0, 'морской окунь'],
+        ['окунь речной', 91, 19.2, 0.9, 0, 0, 'окунь'],
+        ['судак отварной', 97, 21.3, 1.3, 0, 0],
+        ['судак запеченный', 105, 21.1, 2.1, 0, 0],
+        ['щука', 84, 18.4, 1.1, 0, 0],
+        ['щука запеченная', 98, 21.3, 1.3, 0, 0],
+        ['карп', 112, 16, 5.3, 0, 0, 'сазан'],
+        ['карп жареный', 196, 18.3, 11.6, 3.5, 0.1],
+        ['карась', 87, 17.7, 1.8, 0, 0],
+        ['карась жареный', 150, 18.5, 8.3, 0, 0],
+        ['лещ', 105, 17.1, 4.4, 0, 0],
+        ['лещ вяленый', 221, 42.5, 5.5, 0, 0, 'вяленый лещ'],
+        ['вобла вяленая', 234, 46.4, 5.5, 0, 0, 'вобла'],
+        ['тарань вяленая', 234, 46.4, 5.5, 0, 0],
+        ['чехонь вяленая', 172, 35, 3.3, 0, 0],
+        ['сом', 115, 16.8, 5.3, 0, 0],
+        ['сом запеченный', 149, 18.4, 8.4, 0, 0],
+        ['толстолобик', 86, 19.5, 0.9, 0, 0],
+        ['налим', 81, 18.8, 0.6, 0, 0],
+        ['масляная рыба', 112, 19, 4, 0, 0, 'эсколар|масляная холодного копчения'],
+        ['скумбрия запеченная', 200, 22.7, 12.1, 0, 0],
+        ['скумбрия соленая', 194, 18, 13.5, 0, 0],
+        ['скумбрия холодного копчения', 150, 23.4, 6.4, 0, 0],
+        ['ставрида', 114, 18.5, 4.5, 0, 0],
+        ['сардина свежая', 169, 19, 10, 0, 0, 'сардина'],
+        ['сайра', 205, 18.6, 14.6, 0, 0],
+        ['сайра в масле', 283, 18.3, 23.3, 0, 0, 'сайра консервы'],
+        ['килька', 137, 14.1, 9.1, 0, 0, 'шпроты свежие'],
+        ['килька в томатном соусе', 178, 14.6, 10.8, 5.6, 0.5, 'килька в томате'],
+        ['салака', 121, 17.3, 5.6, 0, 0],
+        ['сельдь копченая', 220, 24.8, 13.6, 0, 0],
+        ['сельдь маринованная', 192, 16.5, 10.7, 8.3, 0, 'селедка маринованная'],
+        ['сельдь в масле', 301, 15.5, 26.5, 0, 0],
+        ['сельдь под маринадом с луком', 203, 14.8, 13.5, 6.1, 0.5],
+        ['тунец в масле', 198, 29.1, 8.2, 0, 0, 'тунец консервированный в масле'],
+        ['тунец на гриле', 184, 29.9, 6.3, 0, 0, 'стейк тунца'],
+        ['тунец сашими', 144, 23.3, 4.9, 0, 0, 'сашими'],
+        ['лосось сашими', 208, 20.4, 13.4, 0, 0],
+        ['печень минтая', 474, 6.6, 50.3, 0, 0],
+        ['угорь копченый', 326, 17.7, 28.6, 0, 0, 'угорь'],
+        ['угорь унаги', 233, 23, 14.8, 2.6, 0, 'унаги'],
+        ['осетр', 164, 16.4, 10.9, 0, 0, 'осетрина'],
+        ['осетр горячего копчения', 160, 22.1, 7.9, 0, 0],
+        ['севрюга', 160, 16.9, 10.3, 0, 0],
+        ['белуга', 131, 23.7, 4, 0, 0, 'белуга рыба'],
+        ['стерлядь', 122, 17, 6.1, 0, 0],
+        ['скат', 95, 21.6, 0.7, 0, 0],
+        ['акула', 130, 20.9, 4.5, 0, 0],
+        ['меч-рыба', 125, 20.4, 4.4, 0, 0, 'рыба-меч'],
+        ['барабулька', 80, 19.3, 0.2, 0, 0, 'султанка'],
+        ['дорадо запеченная', 127, 23.1, 3.9, 0, 0],
+        ['сибас запеченный', 124, 23.6, 2.6, 0, 0],
+        ['тилапия жареная', 153, 24.8, 5.7, 0, 0],
+        ['пангасиус', 92, 15.2, 3, 0, 0, 'пангасиус филе'],
+        ['мерлуза', 86, 16.6, 2.2, 0, 0],
+        ['сайда', 73, 17.3, 0.3, 0, 0],
+        ['путассу', 72, 16.1, 0.9, 0, 0],
+        ['зубатка', 126, 19.6, 5.3, 0, 0],
+        ['лемонема', 80, 17, 1.3, 0, 0],
+        ['нототения', 122, 19.7, 4.7, 0, 0],
+        ['рыбный фарш', 98, 17, 2.5, 2, 0, 'фарш рыбный'],
+        ['рыба на пару', 92, 19, 1.5, 0, 0, 'рыба паровая'],
+        ['рыба запеченная с овощами', 110, 12.5, 5.2, 3.5, 1, 'рыба с овощами'],
+        ['рыба под маринадом', 135, 12.4, 7.1, 6.5, 1.2],
+        ['рыба в томатном соусе', 121, 11.8, 6.5, 4.1, 0.8],
+        ['рыбные тефтели', 145, 11.5, 6.5, 10.1, 0.6],
+        ['рыбный пирог', 210, 10.1, 8.8, 22.7, 0.9],
+        ['заливное из рыбы', 79, 13.4, 2.3, 0.9, 0, 'рыба заливная'],
+        ['форшмак', 243, 12.1, 20.5, 2.5, 0.3],
+        ['креветки королевские', 87, 18.3, 1.1, 0.8, 0, 'королевские креветки|тигровые креветки'],
+        ['креветки жареные', 140, 21.5, 5.5, 0.5, 0],
+        ['креветки в кляре', 242, 12.1, 12.3, 20.1, 0.8, 'креветки темпура'],
+        ['креветки очищенные замороженные', 71, 15, 0.9, 0.1, 0],
+        ['лангустины', 90, 19, 1.2, 0.5, 0],
+        ['кальмар отварной', 110, 18, 2.2, 2, 0, 'кальмар вареный'],
+        ['кальмар жареный', 175, 18, 7.5, 7.8, 0.3, 'кольца кальмара'],
+        ['кальмар сушеный', 263, 62.6, 2.3, 0, 0, 'сушеный кальмар'],
+        ['мидии в раковинах', 50, 9.1, 1.5, 0, 0],
+        ['мидии отварные', 86, 12, 2.2, 3.7, 0],
+        ['гребешок', 88, 17, 0.8, 2.4, 0, 'морской гребешок|гребешки'],
+        ['гребешок жареный', 111, 20.5, 0.8, 5.4, 0],
+        ['устрицы', 72, 9, 2, 4.5, 0],
+        ['краб', 73, 16, 0.5, 0, 0, 'крабовое мясо натуральное'],
+        ['краб камчатский', 96, 20, 1.1, 0, 0],
+        ['лобстер', 89, 19, 0.9, 0, 0, 'омар'],
+        ['лангуст', 112, 21, 2, 0, 0],
+        ['раки', 76, 15.5, 1.2, 1, 0, 'раки отварные'],
+        ['осьминог отварной', 164, 29.8, 2.1, 4.4, 0],
+        ['каракатица', 79, 16.2, 0.7, 0.8, 0],
+        ['трепанг', 35, 7.3, 0.6, 0, 0, 'морской огурец'],
+        ['морской коктейль', 87, 15.9, 1.8, 1.1, 0, 'коктейль из морепродуктов'],
+        ['морской коктейль в масле', 185, 15.3, 13.1, 1.2, 0],
+        ['икра минтая', 131, 28.4, 1.9, 0, 0, 'минтаевая икра'],
+        ['икра мойвы', 230, 7, 20, 3.5, 0, 'икра мойвы сливочная'],
+        ['икра щучья', 87, 17.3, 2, 0, 0],
+        ['икра черная', 235, 26.8, 13.8, 0.8, 0, 'черная икра|икра осетровая'],
+        ['икра лососевая', 230, 30.6, 11.9, 0, 0, 'икра кеты'],
+        ['икра трески', 123, 24.2, 2, 0, 0],
+        ['икра летучей рыбы', 70, 10.5, 3.5, 0.5, 0, 'тобико'],
+        ['водоросли нори', 35, 5.8, 0.3, 5.1, 0.3, 'нори'],
+        ['водоросли вакаме', 45, 3, 0.6, 9.1, 0.5, 'вакаме'],
+        ['салат чука', 75, 2.5, 3.5, 8.5, 3, 'чука'],
+        ['спирулина', 290, 57.5, 7.7, 20.3, 3.6],
+        ['палочки крабовые из сурими', 88, 6.5, 0.5, 14.5, 0, 'сурими'],
+        ['рыбные консервы в собственном соку', 122, 21.5, 4.1, 0, 0],
+        ['скумбрия в масле', 278, 13.1, 25.1, 0, 0, 'скумбрия консервированная'],
+        ['лосось консервированный', 143, 20.5, 6.8, 0, 0],
+        ['сардины в томатном соусе', 175, 17, 11, 1.5, 0],
+        ['бычки в томате', 124, 12.1, 5.4, 6.4, 0.6],
+        ['лосось в сливочном соусе', 223, 17.3, 16.2, 2.1, 0.1],
+        ['лосось терияки', 210, 19.3, 10.4, 9.2, 0.1],
+        ['форель на гриле', 165, 23.8, 7.4, 0, 0],
+        ['форель на пару', 145, 21.4, 6.1, 0, 0],
+        ['скумбрия на гриле', 215, 21.6, 13.6, 0, 0],
+        ['скумбрия жареная', 240, 20.9, 17, 0, 0],
+        ['сельдь запеченная', 190, 20.2, 12.2, 0, 0],
+        ['треска в томатном соусе', 95, 14, 2.2, 4.1, 0.7],
+        ['минтай в кляре', 194, 14.1, 10.3, 11.4, 0.4],
+        ['минтай тушеный с овощами', 78, 10.4, 2.2, 4.3, 1.1],
+        ['хек тушеный', 103, 16.6, 3.1, 2.7, 0.4],
+        ['судак в кляре', 190, 15.7, 10.1, 10.5, 0.4],
+        ['камбала запеченная', 110, 21.3, 2.6, 0, 0],
+        ['пикша запеченная', 103, 23.3, 0.9, 0, 0],
+        ['тилапия запеченная', 128, 26.2, 2.7, 0, 0],
+        ['дорадо на гриле', 140, 24.2, 4.9, 0, 0],
+        ['сибас на гриле', 135, 24.4, 4.1, 0, 0],
+        ['креветки на гриле', 110, 22.5, 1.7, 1, 0],
+        ['кальмар на гриле', 120, 19.1, 3.6, 2.3, 0],
+        ['осьминог на гриле', 172, 29.8, 3.3, 4.4, 0],
+        ['мидии запеченные с сыром', 160, 14.1, 10.2, 3.6, 0],
+        ['гребешок на гриле', 111, 20.5, 0.8, 5.4, 0],
+        ['лосось сливочный тартар', 220, 18.8, 15.8, 0.5, 0, 'тартар из лосося'],
+        ['тартар из тунца', 150, 22.8, 6.1, 0.6, 0],
+    ],
+    'Яйца': [
+        ['яйцо куриное', 157, 12.7, 11.5, 0.7, 0, 'яйцо|яйца'],
+        ['яйцо вареное', 160, 12.9, 11.6, 0.8, 0, 'яйцо отварное|вареное яйцо'],
+        ['яйцо жареное', 243, 12.9, 20.9, 0.9, 0, 'яичница|глазунья'],
+        ['омлет', 184, 9.6, 15.4, 1.9, 0, 'омлет с молоком'],
+        ['яичный белок', 44, 11.1, 0, 0, 0, 'белок яйца'],
+        ['яичный желток', 352, 16.2, 31.2, 1, 0, 'желток'],
+        ['яйцо перепелиное', 168, 11.9, 13.1, 0.6, 0, 'перепелиные яйца'],
+        ['меланж яичный', 157, 12.7, 11.5, 0.7, 0],
+        ['яйцо всмятку', 159, 12.8, 11.6, 0.8, 0, 'яйцо в мешочек'],
+        ['яйцо пашот', 143, 12.5, 9.5, 0.7, 0, 'пашот'],
+        ['яйцо фаршированное', 218, 9.8, 19.1, 1.4, 0, 'яйца фаршированные'],
+        ['яйца по-шотландски', 241, 13.2, 17.6, 7.6, 0.5],
+        ['яичница с беконом', 278, 14.6, 24.1, 0.8, 0],
+        ['яичница с помидорами', 137, 7.6, 11.1, 1.8, 0.5],
+        ['яичница с колбасой', 239, 12.9, 20.2, 1.1, 0],
+        ['скрэмбл', 166, 11.4, 12.6, 1.7, 0, 'болтунья|скрэмбл из яиц'],
+        ['омлет из белков', 74, 10.9, 2.6, 1.2, 0, 'белковый омлет'],
+        ['омлет с сыром', 222, 13.2, 18.1, 1.6, 0],
+        ['омлет с ветчиной', 192, 13.2, 14.6, 1.5, 0],
+        ['омлет с грибами', 145, 8.5, 11.2, 2.5, 0.4],
+        ['фриттата', 155, 9.8, 11.6, 2.8, 0.6],
+        ['яичный белок вареный', 52, 13, 0.2, 0.7, 0],
+        ['яйцо утиное', 185, 13, 14.5, 1.1, 0, 'утиное яйцо'],
+        ['яйцо гусиное', 185, 13.9, 13.3, 1.4, 0, 'гусиное яйцо'],
+        ['яйцо индюшиное', 171, 13.7, 11.9, 1.2, 0, 'индюшиное яйцо'],
+        ['яичный порошок', 542, 46, 37.3, 4.5, 0, 'меланж сухой'],
+        ['яйцо жареное без масла', 160, 12.9, 11.6, 0.8, 0],
+    ],
+    'Молочные продукты': [
+        ['молоко 1.5%', 44, 2.8, 1.5, 4.7, 0],
+        ['молоко 2.5%', 52, 2.8, 2.5, 4.7, 0, 'молоко'],
+        ['молоко 3.2%', 59, 2.9, 3.2, 4.7, 0],
+        ['молоко обезжиренное', 31, 3, 0.1, 4.7, 0],
+        ['молоко топленое', 67, 3, 4, 4.7, 0],
+        ['молоко сгущенное', 320, 7.2, 8.5, 56, 0, 'сгущенка'],
+        ['кефир 1%', 40, 3, 1, 4, 0],
+        ['кефир 2.5%', 53, 2.9, 2.5, 4, 0, 'кефир'],
+        ['кефир 3.2%', 59, 2.9, 3.2, 4, 0],
+        ['ряженка 4%', 67, 2.8, 4, 4.2, 0, 'ряженка'],
+        ['простокваша', 53, 2.9, 2.5, 4.1, 0],
+        ['айран', 24, 1.1, 1.5, 1.4, 0, 'тан'],
+        ['йогурт натуральный 2%', 60, 4.3, 2, 6.2, 0, 'йогурт натуральный|йогурт'],
+        ['йогурт греческий', 66, 5, 2, 5, 0, 'греческий йогурт'],
+        ['йогурт фруктовый', 85, 2.8, 2.5, 13, 0.2],
+        ['творог 0%', 71, 16.5, 0, 1.3, 0, 'творог обезжиренный'],
+        ['творог 5%', 121, 17.2, 5, 1.8, 0, 'творог'],
+        ['творог 9%', 159, 16.7, 9, 2, 0],
+        ['творог зерненый', 105, 12, 5, 2, 0, 'зерненый творог|коттедж чиз'],
+        ['сырок глазированный', 407, 8.5, 27.8, 32, 0, 'глазированный сырок'],
+        ['сырники', 220, 11.6, 10, 20.7, 0.4],
+        ['запеканка творожная', 168, 17.6, 4.2, 14.2, 0.2, 'творожная запеканка'],
+        ['сметана 10%', 115, 3, 10, 2.9, 0],
+        ['сметана 15%', 158, 2.6, 15, 3, 0],
+        ['сметана 20%', 206, 2.8, 20, 3.2, 0, 'сметана'],
+        ['сливки 10%', 118, 3, 10, 4, 0, 'сливки'],
+        ['сливки 20%', 205, 2.8, 20, 3.7, 0],
+        ['сливки 33%', 322, 2.2, 33, 3, 0, 'сливки жирные'],
+        ['сыр российский', 363, 24.1, 29.5, 0.3, 0, 'сыр|сыр твердый'],
+        ['сыр голландский', 352, 26, 26.8, 0, 0],
+        ['сыр гауда', 356, 25, 27.4, 2.2, 0, 'гауда'],
+        ['сыр пармезан', 392, 35.8, 25.8, 3.2, 0, 'пармезан'],
+        ['сыр моцарелла', 280, 22.2, 21.6, 2.2, 0, 'моцарелла'],
+        ['сыр фета', 264, 14.2, 21.3, 4.1, 0, 'фета'],
+        ['брынза', 260, 17.9, 20.1, 0.4, 0, 'брынза коровья'],
+        ['сыр адыгейский', 264, 19.8, 19.8, 1.5, 0, 'адыгейский'],
+        ['сыр сулугуни', 286, 20.5, 22, 0.4, 0, 'сулугуни'],
+        ['сыр плавленый', 257, 16.8, 11.2, 23.8, 0, 'плавленый сырок'],
+        ['сыр творожный', 317, 5.5, 31, 2.6, 0, 'крем-чиз|творожный сыр'],
+        ['сыр рикотта', 174, 11.3, 13, 3, 0, 'рикотта'],
+        ['сыр маскарпоне', 412, 4.8, 41.5, 4.8, 0, 'маскарпоне'],
+        ['сыр камамбер', 300, 19.8, 24.3, 0.5, 0, 'камамбер|бри'],
+        ['масло сливочное 82%', 748, 0.5, 82.5, 0.8, 0, 'сливочное масло|масло сливочное'],
+        ['масло топленое', 892, 0.3, 99, 0.6, 0, 'гхи'],
+        ['мороженое пломбир', 232, 3.2, 15, 20.8, 0, 'пломбир|мороженое'],
+        ['мороженое сливочное', 179, 3.3, 10, 19.8, 0],
+        ['молочный коктейль', 95, 3.2, 2.8, 14.5, 0],
+        ['протеиновый коктейль', 85, 15, 1.5, 3, 0.5, 'протеин готовый'],
+        ['сывороточный протеин порошок', 380, 75, 6, 8, 0, 'протеин|сывороточный протеин'],
+        ['молоко 1%', 42, 3.3, 1, 4.8, 0],
+        ['молоко 3.5%', 61, 3, 3.5, 4.7, 0],
+        ['молоко 6%', 84, 3, 6, 4.7, 0, 'молоко жирное'],
+        ['молоко пастеризованное 3.2%', 58, 2.9, 3.2, 4.7, 0, 'молоко пастеризованное'],
+        ['молоко безлактозное', 48, 3, 1.5, 4.8, 0, 'безлактозное молоко'],
+        ['молоко козье', 68, 3, 4.2, 4.5, 0, 'козье молоко'],
+        ['молоко сухое цельное', 496, 25.6, 25, 39.3, 0, 'сухое молоко'],
+        ['молоко сухое обезжиренное', 362, 36, 1, 52.6, 0],
+        ['молоко сгущенное вареное', 330, 7.2, 8.5, 55, 0, 'вареная сгущенка'],
+        ['сгущенка без сахара', 136, 6.6, 7.5, 9.5, 0, 'сгущенное молоко без сахара'],
+        ['молочный продукт сгущенный с сахаром', 330, 7, 8.5, 56, 0],
+        ['сливки сухие', 579, 23, 42.7, 26.3, 0],
+        ['сливки растительные', 290, 1, 27, 10, 0, 'сливки для кофе'],
+        ['сливки 22%', 210, 2.5, 22, 3, 0],
+        ['сливки 35%', 337, 2.5, 35, 3, 0, 'сливки для взбивания'],
+        ['сливки взбитые', 257, 3.2, 22.2, 12.5, 0, 'взбитые сливки'],
+        ['сливки 15%', 162, 2.5, 15, 3.5, 0],
+        ['сметана 25%', 248, 2.6, 25, 2.7, 0],
+        ['сметана 30%', 294, 2.4, 30, 3.1, 0],
+        ['сметанный продукт 15%', 149, 2.5, 15, 3, 0, 'сметанный продукт'],
+        ['кефир 0%', 31, 3, 0.1, 3.8, 0, 'кефир обезжиренный'],
+        ['кефир 1.5%', 44, 3.3, 1.5, 3.6, 0],
+        ['бифидок', 49, 2.9, 2.5, 3.9, 0, 'бифидокефир'],
+        ['ацидофилин', 57, 2.8, 3.2, 3.8, 0],
+        ['варенец', 53, 2.9, 2.5, 4.1, 0],
+        ['мацони', 62, 3.8, 3.2, 4.5, 0, 'мацун'],
+        ['ряженка 2.5%', 54, 2.9, 2.5, 4.2, 0],
+        ['ряженка 6%', 84, 2.8, 6, 4.1, 0],
+        ['снежок', 91, 2.8, 3.2, 12.5, 0],
+        ['тан газированный', 24, 1.1, 1.5, 1.4, 0],
+        ['кумыс', 50, 2.1, 1.9, 5, 0],
+        ['йогурт натуральный 3.5%', 68, 5, 3.5, 4.4, 0],
+        ['йогурт питьевой', 68, 2.8, 1.5, 10.8, 0, 'питьевой йогурт'],
+        ['йогурт греческий 0%', 53, 9, 0.3, 3.8, 0, 'греческий йогурт обезжиренный'],
+        ['йогурт греческий 10%', 133, 5, 10, 4, 0, 'греческий йогурт жирный'],
+        ['йогурт клубничный', 102, 3.2, 2.5, 16.5, 0.1, 'клубничный йогурт'],
+        ['йогурт с мюсли', 108, 3.6, 2.8, 17.2, 0.7],
+        ['йогурт высокобелковый', 62, 10, 0.5, 4, 0, 'протеиновый йогурт'],
+        ['йогурт растительный кокосовый', 95, 0.5, 6, 9, 0.5, 'кокосовый йогурт'],
+        ['йогурт соевый', 66, 3.6, 2.1, 7.7, 0.5, 'соевый йогурт'],
+        ['скир', 63, 11, 0.2, 4, 0, 'исландский йогурт'],
+        ['активиа', 76, 3, 3, 9, 0, 'биойогурт'],
+        ['творог 2%', 103, 18, 2, 3.3, 0],
+        ['творог 1.8%', 101, 18, 1.8, 3.3, 0],
+        ['творог 12%', 178, 16, 12, 1.5, 0],
+        ['творог 18%', 232, 15, 18, 2.8, 0, 'жирный творог'],
+        ['творог деревенский', 159, 16.7, 9, 2, 0, 'домашний творог'],
+        ['творог мягкий 5%', 121, 16, 5, 3, 0, 'мягкий творог'],
+        ['творожная масса сладкая', 341, 7.1, 23, 28, 0, 'творожная масса'],
+        ['творожная масса с изюмом', 343, 6.8, 21, 31.4, 0.3],
+        ['творожок детский', 130, 8, 5, 13.1, 0, 'творожок'],
+        ['творожный десерт', 160, 7, 6, 19, 0, 'творожный крем'],
+        ['сырок творожный без глазури', 292, 9.1, 21, 17, 0],
+        ['сырники запеченные', 183, 15.1, 6.1, 15.8, 0.3],
+        ['сырники жареные на масле', 230, 13.5, 11.6, 18.5, 0.4],
+        ['вареники ленивые', 188, 10.6, 4.8, 25.3, 0.6, 'ленивые вареники'],
+        ['творожная запеканка с изюмом', 198, 14.8, 6.3, 19.6, 0.3],
+        ['творог со сметаной', 152, 13.9, 8.7, 2.1, 0],
+        ['творог с бананом', 117, 12.9, 2.7, 10.4, 0.6],
+        ['творог с медом', 160, 13.5, 4.1, 16.4, 0.1],
+        ['пасха творожная', 328, 10.1, 25.2, 15.6, 0, 'пасха'],
+        ['сыр тильзитер', 340, 25.6, 26.3, 0, 0, 'тильзитер'],
+        ['сыр маасдам', 350, 23, 29, 0, 0, 'маасдам'],
+        ['сыр эмменталь', 380, 28.5, 29.7, 0, 0, 'эмменталь|швейцарский сыр'],
+        ['сыр чеддер', 403, 24.9, 33.1, 1.3, 0, 'чеддер'],
+        ['сыр эдам', 357, 25, 27.8, 1.4, 0, 'эдам'],
+        ['сыр пошехонский', 350, 26, 26.5, 0, 0],
+        ['сыр костромской', 345, 25.2, 26.3, 0, 0],
+        ['сыр ламбер', 380, 24, 31, 0, 0, 'ламбер'],
+        ['сыр грана падано', 384, 33, 28, 0, 0, 'грана падано'],
+        ['сыр пекорино', 387, 31.8, 27.9, 3.6, 0, 'пекорино'],
+        ['сыр грюйер', 413, 29.8, 32.3, 0.4, 0, 'грюйер'],
+        ['сыр рокфор', 353, 21.5, 30, 2, 0, 'рокфор'],
+        ['сыр дор блю', 354, 20.9, 30.5, 0, 0, 'дорблю|сыр с плесенью'],
+        ['сыр горгонзола', 330, 19, 28, 0, 0, 'горгонзола'],
+        ['сыр бри', 334, 20.8, 27.7, 0.5, 0],
+        ['сыр халуми', 321, 21, 26, 2.2, 0, 'халуми'],
+        ['сыр страчателла', 291, 16, 25, 1.2, 0, 'страчателла'],
+        ['сыр буррата', 300, 17, 25, 2, 0, 'буррата'],
+        ['сыр моцарелла легкая', 254, 24.3, 15.9, 2.8, 0],
+        ['сыр моцарелла для пиццы', 300, 22, 23, 2, 0],
+        ['сыр чечил', 313, 19.5, 25.8, 0, 0, 'чечил|сыр косичка'],
+        ['сыр косичка копченый', 330, 20, 27.6, 0, 0],
+        ['сыр сулугуни копченый', 310, 20.5, 24, 0.5, 0],
+        ['сыр имеретинский', 240, 18.5, 18, 0.7, 0, 'имеретинский'],
+        ['брынза овечья', 298, 14.6, 25.9, 0, 0],
+        ['сыр козий мягкий', 364, 21.6, 29.8, 0.1, 0, 'козий сыр'],
+        ['сыр козий твердый', 452, 30.5, 35.6, 2.2, 0],
+        ['сыр тофу', 145, 15.8, 8.7, 1.1, 0.3],
+        ['сыр легкий 17%', 255, 28, 15, 0, 0, 'легкий сыр'],
+        ['сыр плавленый колбасный', 270, 23, 19, 2, 0, 'колбасный сыр'],
+        ['сыр плавленый ломтики', 270, 13, 21, 6, 0, 'сыр для бутербродов'],
+        ['сыр плавленый с ветчиной', 225, 9, 16, 10.5, 0],
+        ['сыр творожный легкий', 160, 7.5, 12.5, 4, 0],
+        ['сыр филадельфия', 253, 5.4, 24.7, 2.7, 0, 'филадельфия сыр'],
+        ['сыр мягкий с травами', 300, 7, 29, 3, 0],
+        ['сыр тертый пармезан', 431, 38.5, 28.6, 4, 0],
+        ['сыр панир', 321, 25, 25, 3.6, 0, 'панир'],
+        ['сыр жареный', 395, 25, 31, 5, 0],
+        ['сыр рассольный', 257, 17.9, 20.1, 0.4, 0],
+        ['сырная нарезка', 350, 25, 27, 0, 0],
+        ['масло сливочное 72.5%', 662, 0.8, 72.5, 1.3, 0, 'масло крестьянское'],
+        ['масло сливочное 78%', 709, 0.7, 78, 1, 0],
+        ['масло шоколадное', 662, 1.3, 61.5, 23.7, 0, 'шоколадное масло'],
+        ['спред растительно-сливочный', 662, 0.5, 72.5, 1.3, 0, 'спред'],
+        ['мороженое эскимо', 270, 3.5, 20, 20, 0, 'эскимо'],
+        ['мороженое молочное', 126, 3.2, 3.5, 21.3, 0, 'молочное мороженое'],
+        ['мороженое шоколадное', 231, 3.8, 13, 23.8, 0.3, 'шоколадное мороженое'],
+        ['мороженое фруктовое', 134, 0.3, 0.3, 33.6, 0.3, 'фруктовый лед'],
+        ['мороженое сорбет', 120, 0.5, 0.2, 29, 0.8, 'сорбет'],
+        ['мороженое в вафельном стаканчике', 227, 3.4, 13.7, 22.7, 0.2, 'стаканчик'],
+        ['мороженое рожок', 276, 3.9, 15, 31.5, 0.4, 'рожок'],
+        ['джелато', 210, 4, 11, 24, 0],
+        ['мороженое протеиновое', 120, 8, 4, 14, 2, 'протеиновое мороженое'],
+        ['молочный коктейль шоколадный', 119, 3.2, 3.4, 18.8, 0.3],
+        ['молочный коктейль клубничный', 112, 3.1, 2.8, 18.8, 0],
+        ['милкшейк', 148, 3.4, 5.2, 22, 0.1],
+        ['коктейль молочный белковый', 70, 10, 1.3, 4.7, 0],
+        ['казеин порошок', 370, 80, 1.5, 6, 0, 'казеин|казеиновый протеин'],
+        ['протеин соевый порошок', 338, 85, 1, 3, 0, 'соевый протеин'],
+        ['протеин гороховый порошок', 380, 80, 7, 2, 1, 'гороховый протеин'],
+        ['гейнер', 380, 20, 3.5, 68, 1.5],
+        ['творожный сыр с зеленью', 271, 6.5, 25.5, 3.5, 0],
+        ['сливочный сыр для роллов', 342, 6, 34, 4, 0],
+        ['молочная сыворотка', 20, 0.8, 0.2, 3.5, 0, 'сыворотка'],
+        ['пахта', 40, 3.3, 1, 4.7, 0],
+        ['молоко ультрапастеризованное 2.5%', 52, 2.8, 2.5, 4.7, 0, 'молоко ультрапастеризованное'],
+        ['молоко ультрапастеризованное 3.2%', 59, 2.9, 3.2, 4.7, 0],
+        ['молоко 0.5%', 35, 3, 0.5, 4.9, 0],
+        ['молоко 4%', 64, 3, 4, 4.7, 0],
+        ['молоко топленое 6%', 84, 3, 6, 4.7, 0],
+        ['молоко кокосовое для напитков', 20, 0.2, 1.9, 0.3, 0],
+        ['кефир 2%', 49, 3, 2, 4, 0],
+        ['кефир 3.4%', 60, 3, 3.4, 4, 0],
+        ['кефир 5%', 74, 3, 5, 4, 0],
+        ['кефир с клетчаткой', 50, 3, 1.5, 5.5, 1.5],
+        ['йогурт натуральный 1.5%', 51, 5, 1.5, 3.5, 0],
+        ['йогурт натуральный 5%', 80, 4, 5, 4.2, 0],
+        ['йогурт персиковый', 93, 2.9, 2.5, 14.6, 0.2],
+        ['йогурт черничный', 95, 2.9, 2.5, 15.1, 0.3],
+        ['йогурт вишневый', 98, 2.9, 2.5, 15.8, 0.2],
+        ['йогурт ванильный', 98, 3.5, 2.5, 15.3, 0],
+        ['йогурт злаковый', 105, 3.3, 2.4, 17.3, 0.6],
+        ['йогурт с соусом', 107, 3.2, 2.9, 17, 0.1, 'йогурт с наполнителем'],
+        ['йогурт без лактозы', 60, 3.5, 2.5, 5.5, 0],
+        ['творог обезжиренный мягкий', 62, 11, 0.1, 4, 0],
+        ['творог 3%', 109, 17.3, 3, 3.4, 0],
+        ['творог 4%', 114, 17, 4, 3, 0],
+        ['творог 7%', 140, 17, 7, 2.4, 0],
+        ['творожный сыр с огурцом', 238, 7, 22, 3.5, 0.2],
+        ['творожная масса с курагой', 310, 7.3, 17.5, 31.6, 0.8],
+        ['творожная масса с ванилью', 341, 7.1, 23, 28, 0],
+        ['сырок глазированный с ванилью', 413, 8.5, 27.8, 33, 0],
+        ['сырок глазированный со сгущенкой', 420, 7.6, 26.8, 37.4, 0],
+        ['сырок в шоколаде', 440, 8.2, 30, 35, 0.5],
+        ['десерт творожный шоколадный', 170, 6.5, 6.5, 21, 0.4],
+        ['пудинг творожный', 163, 14, 8.3, 8, 0.2],
+        ['сметана 12%', 133, 2.8, 12, 3.2, 0],
+        ['сметана 42%', 401, 2.3, 42, 2.6, 0],
+        ['сливки 8%', 107, 3, 8, 4.4, 0],
+        ['сливки 12%', 138, 2.8, 12, 4, 0],
+        ['сливки 38%', 362, 2.2, 38, 3, 0],
+        ['кофейные сливки порционные', 123, 2.9, 10, 4.7, 0],
+        ['сыр российский 45%', 320, 23.7, 23.9, 1, 0],
+        ['сыр голландский 45%', 344, 24, 26.5, 0, 0],
+        ['сыр гауда легкий', 270, 30, 16, 1.5, 0],
+        ['сыр чеддер легкий', 294, 31.4, 18.2, 1, 0],
+        ['сыр брынза легкая', 210, 18.1, 15.2, 0.4, 0],
+        ['сыр фета легкая', 180, 17, 12, 2, 0],
+        ['сыр адыгейский легкий', 208, 19, 13.5, 1.5, 0],
+        ['сыр сулугуни легкий', 250, 24, 16.5, 0.5, 0],
+        ['сыр моцарелла мини', 240, 17.5, 18.5, 1, 0, 'моцарелла чильеджина|шарики моцареллы'],
+        ['сыр копченый колбасный', 275, 23, 20, 0, 0],
+        ['сыр пармезан мелкая стружка', 431, 38.5, 28.6, 4, 0],
+        ['сыр твердый козий', 452, 30.5, 35.6, 2.2, 0],
+        ['сыр раклет', 357, 22.5, 28.5, 1, 0, 'раклет'],
+        ['сыр фондю', 260, 15.5, 16.5, 4, 0, 'фондю'],
+        ['масло сливочное 60%', 568, 1, 60, 1.3, 0, 'масло бутербродное'],
+        ['масло с зеленью', 636, 1.2, 70, 1.5, 0.2, 'травяное масло'],
+        ['мороженое без сахара', 140, 4, 8, 14, 3],
+        ['мороженое пломбир шоколадный', 232, 3.7, 15, 21, 0.5],
+        ['мороженое пломбир в шоколадной глазури', 320, 4, 22, 27, 0.5],
+        ['мороженое крем-брюле', 230, 3.6, 14.5, 21.1, 0],
+        ['мороженое ванильное', 207, 3.5, 11, 24, 0.7, 'ванильное мороженое'],
+        ['мороженое клубничное', 192, 3.2, 8.4, 27.6, 0.3],
+        ['мороженое фисташковое', 245, 4.3, 15, 24, 0.6],
+        ['йогурт замороженный', 159, 3.5, 5.6, 24, 0, 'фрозен йогурт'],
+    ],
+    'Масла, жиры и соусы': [
+        ['масло подсолнечное', 899, 0, 99.9, 0, 0, 'подсолнечное масло|растительное масло'],
+        ['масло оливковое', 898, 0, 99.8, 0, 0, 'оливковое масло'],
+        ['масло кокосовое', 899, 0, 99.9, 0, 0],
+        ['масло льняное', 898, 0, 99.8, 0, 0],
+        ['майонез 67%', 627, 0.3, 67, 2.6, 0, 'майонез'],
+        ['майонез легкий', 260, 0.3, 27, 3.9, 0],
+        ['кетчуп', 93, 1.8, 0.1, 22.2, 0.3],
+        ['томатная паста', 82, 4.3, 0.5, 16.7, 4],
+        ['горчица', 143, 9.9, 12.7, 5.3, 4],
+        ['соевый соус', 53, 6, 0, 7, 0.8, 'соевый'],
+        ['соус песто', 463, 5, 47, 4, 1.5, 'песто'],
+        ['соус терияки', 89, 5.9, 0, 15.6, 0.1, 'терияки'],
+        ['соус барбекю', 172, 0.8, 0.6, 40.8, 0.9, 'барбекю'],
+        ['соус цезарь', 540, 2, 57, 4, 0],
+        ['соус томатный', 30, 1.5, 0.2, 5.5, 1.4],
+        ['соус сырный', 230, 5, 20, 7, 0],
+        ['соус тартар', 400, 1, 42, 5, 0.3],
+        ['аджика', 59, 1, 3.7, 5.8, 1.6],
+        ['хрен', 56, 3.2, 0.4, 10.5, 3.3],
+        ['уксус', 11, 0, 0, 3, 0],
+        ['маргарин', 743, 0.3, 82, 1, 0],
+        ['масло кукурузное', 899, 0, 99.9, 0, 0, 'кукурузное масло'],
+        ['масло рапсовое', 899, 0, 99.9, 0, 0, 'рапсовое масло'],
+        ['масло кунжутное', 899, 0, 99.9, 0, 0, 'кунжутное масло'],
+        ['масло горчичное', 898, 0, 99.8, 0, 0, 'горчичное масло'],
+        ['масло тыквенное', 896, 0, 99.6, 0, 0],
+        ['масло виноградных косточек', 899, 0, 99.9, 0, 0],
+        ['масло арахисовое', 899, 0, 99.9, 0, 0, 'арахисовое растительное масло'],
+        ['масло авокадо', 884, 0, 100, 0, 0],
+        ['масло грецкого ореха', 898, 0, 99.8, 0, 0],
+        ['масло рыжиковое', 899, 0, 99.9, 0, 0],
+        ['масло оливковое нерафинированное', 898, 0, 99.8, 0, 0, 'оливковое масло первого отжима'],
+        ['масло пальмовое', 899, 0, 99.9, 0, 0],
+        ['масло сливочное несоленое', 748, 0.5, 82.5, 0.8, 0],
+        ['масло растительное спрей', 792, 0, 88, 0, 0, 'масло в спрее'],
+        ['жир свиной топленый', 897, 0, 99.7, 0, 0, 'смалец|лярд'],
+        ['жир говяжий', 854, 0, 94.7, 0, 0, 'говяжий жир'],
+        ['жир куриный', 899, 0, 99.9, 0, 0],
+        ['жир гусиный', 900, 0, 99.7, 0, 0],
+        ['жир рыбий', 902, 0, 99.9, 0, 0, 'рыбий жир'],
+        ['майонез провансаль', 629, 2.8, 67, 3.7, 0, 'провансаль'],
+        ['майонез 50%', 470, 0.8, 50, 3.1, 0],
+        ['майонез 30%', 313, 0.3, 30, 9.6, 0],
+        ['майонез постный', 320, 0, 32, 8, 0, 'майонез без яиц'],
+        ['майонез домашний', 680, 2.8, 75, 0.5, 0],
+        ['соус айоли', 680, 1.3, 75, 1, 0, 'айоли'],
+        ['соус чесночный', 330, 1, 33.5, 6, 0.1, 'чесночный соус'],
+        ['соус сметанный', 196, 2.7, 18.3, 5.5, 0],
+        ['соус бешамель', 134, 3.9, 9.6, 8.1, 0.2, 'бешамель'],
+        ['соус голландский', 488, 4.5, 51.3, 2.2, 0, 'голландез'],
+        ['соус сливочный', 219, 2.6, 21.5, 3.9, 0],
+        ['соус грибной сливочный', 167, 2.2, 15.6, 4.7, 0.5],
+        ['соус сырный начос', 220, 4.2, 15.4, 15.6, 0.3],
+        ['соус карри', 115, 2.5, 7.2, 10.8, 1.9, 'карри соус'],
+        ['соус сацебели', 79, 1.5, 3.1, 12, 1.6, 'сацебели'],
+        ['соус ткемали', 60, 0.3, 0.2, 14.1, 1.5, 'ткемали'],
+        ['соус наршараб', 275, 0.5, 0, 68, 0, 'наршараб'],
+        ['соус сальса', 36, 1.5, 0.2, 7, 1.9, 'сальса'],
+        ['соус чили сладкий', 245, 0.3, 0.5, 59, 1, 'сладкий чили'],
+        ['соус чили острый', 63, 1, 0.5, 13, 1.5, 'соус чили'],
+        ['соус шрирача', 93, 1.9, 0.9, 19.2, 2.2, 'шрирача'],
+        ['соус табаско', 12, 1.3, 0.8, 0.8, 0.6, 'табаско'],
+        ['соус кисло-сладкий', 157, 0.2, 0.2, 38.7, 0.3, 'кисло-сладкий'],
+        ['соус устричный', 51, 1.4, 0.3, 11, 0.3, 'устричный соус'],
+        ['соус рыбный', 35, 5.1, 0, 3.6, 0, 'рыбный соус'],
+        ['соус хойсин', 220, 3.3, 3.4, 44, 2.8, 'хойсин'],
+        ['соус унаги', 230, 3.5, 0.1, 54, 0.2, 'унаги соус'],
+        ['соус вустерширский', 78, 0, 0, 19.5, 0, 'вустерширский'],
+        ['соус ворчестер', 78, 0, 0, 19.5, 0],
+        ['соус бургер', 350, 1, 33, 13, 0.5, 'соус для бургеров'],
+        ['соус ранч', 430, 1.3, 44.5, 6, 0.1, 'ранч'],
+        ['соус тысяча островов', 370, 1.1, 35.1, 14.6, 0.8, 'тысяча островов'],
+        ['соус блю чиз', 480, 4.5, 50, 4.5, 0],
+        ['соус медово-горчичный', 284, 1.5, 20, 25, 0.5, 'медово-горчичный'],
+        ['соус спайси', 520, 1.2, 55, 6, 0.2, 'спайси'],
+        ['соус томатный для пиццы', 47, 1.6, 1.1, 7.5, 1.9, 'соус для пиццы'],
+        ['соус маринара', 50, 1.4, 1.7, 7.5, 1.6, 'маринара'],
+        ['соус болоньезе', 112, 6.5, 6.4, 7.1, 1.4],
+        ['соус бархатный', 120, 2.4, 8.1, 9.6, 0.2],
+        ['соус краснодарский', 100, 1, 0.1, 24, 0.4, 'краснодарский'],
+        ['соус сливочно-чесночный', 226, 2.3, 22, 4.5, 0.2],
+        ['соус цацики', 90, 4, 5.6, 5.8, 0.3, 'цацики|дзадзики'],
+        ['соус тахини', 450, 13, 40, 11, 6, 'тахинный соус'],
+        ['соус песто из рукколы', 440, 4.5, 45, 4, 1.5],
+        ['соус ромеско', 215, 4.3, 18.9, 7.4, 3],
+        ['соус демиглас', 80, 3.5, 3.5, 8.5, 0.3, 'демиглас'],
+        ['подлива мясная', 90, 3, 6, 6, 0.3, 'подлива|грейви'],
+        ['соус грибной', 75, 1.8, 5.2, 5.6, 0.7],
+        ['соус клюквенный', 151, 0.1, 0.1, 38.9, 1, 'клюквенный соус'],
+        ['соус брусничный', 180, 0.4, 0.2, 45, 1.5],
+        ['соус яблочный', 68, 0.2, 0.1, 17.2, 1, 'яблочный соус'],
+        ['соус лимонный', 223, 0.6, 22, 6, 0.2],
+        ['соус соевый низкосолевой', 53, 8.1, 0, 4.9, 0.8, 'соевый соус без соли'],
+        ['соус понзу', 56, 3.5, 0, 10, 0, 'понзу'],
+        ['соус терияки для маринада', 150, 4.4, 0, 32, 0.3],
+        ['соус для шашлыка', 105, 1.5, 0.2, 24.4, 0.8, 'шашлычный соус'],
+        ['кетчуп острый', 110, 1.6, 0.2, 25, 0.4, 'чили кетчуп'],
+        ['кетчуп без сахара', 35, 1.5, 0.2, 6, 1, 'кетчуп диетический'],
+        ['томатный соус домашний', 65, 1.7, 3.2, 7.9, 1.5],
+        ['томатное пюре', 38, 1.7, 0.2, 8, 1.9, 'томат-пюре'],
+        ['горчица дижонская', 160, 7, 11, 6, 3.3, 'дижонская горчица'],
+        ['горчица зерновая', 162, 7.3, 11, 5.6, 3.7, 'французская горчица'],
+        ['горчица русская', 162, 9.9, 12.7, 5.3, 4, 'горчица столовая'],
+        ['горчица медовая', 185, 4, 9, 24, 2],
+        ['хрен столовый', 56, 1.2, 0.4, 11, 2.8, 'хрен с уксусом'],
+        ['хрен со свеклой', 64, 1.2, 0.3, 13.3, 2.4],
+        ['васаби', 292, 2.5, 10.9, 46.1, 6.1, 'васаби паста'],
+        ['имбирь маринованный', 51, 0.2, 0.3, 12.5, 0.6, 'гари|розовый имбирь'],
+        ['аджика абхазская', 59, 1, 3.7, 5.8, 1.6],
+        ['ткемали зеленый', 53, 0.4, 0.1, 12.4, 1.4],
+        ['ткемали красный', 59, 0.3, 0.2, 14.1, 1.5],
+        ['сацебели томатный', 66, 1.4, 2.5, 9.5, 1.5],
+        ['уксус яблочный', 21, 0, 0, 0.9, 0, 'яблочный уксус'],
+        ['уксус бальзамический', 88, 0.5, 0, 17, 0, 'бальзамический уксус|бальзамик'],
+        ['уксус винный', 19, 0, 0, 0.3, 0, 'винный уксус'],
+        ['уксус рисовый', 54, 0, 0, 13, 0, 'рисовый уксус'],
+        ['глазурь бальзамическая', 270, 0.5, 0, 66, 0, 'бальзамический крем'],
+        ['заправка для салата', 320, 0.5, 33, 6, 0, 'заправка'],
+        ['заправка цезарь легкая', 210, 2, 19, 8, 0],
+        ['заправка оливковое масло с лимоном', 780, 0, 86, 1.5, 0],
+        ['заправка горчично-медовая', 240, 1.5, 18, 18, 0.5],
+        ['соус из йогурта', 72, 3.6, 3.7, 5.9, 0.2, 'йогуртовый соус'],
+        ['соус из авокадо', 140, 2, 12.5, 5.5, 4.5],
+        ['соус сладкий карамельный', 350, 1.5, 9, 70, 0, 'карамельный соус|соленая карамель'],
+        ['сироп кленовый', 260, 0, 0.1, 67, 0, 'кленовый сироп'],
+        ['сироп топинамбура', 267, 2, 0, 65, 0, 'топинамбуровый сироп'],
+        ['сироп агавы', 310, 0, 0.5, 76, 0.2, 'агава'],
+        ['сироп сахарный', 282, 0, 0, 70, 0],
+        ['сироп кофейный', 312, 0, 0, 78, 0, 'сироп для кофе'],
+        ['сироп без сахара', 2, 0, 0, 0.5, 0, 'сироп зеро'],
+        ['патока', 296, 0, 0, 74, 0, 'меласса'],
+        ['топпинг шоколадный', 280, 1.4, 1.1, 66, 1.6, 'шоколадный топпинг'],
+        ['топпинг клубничный', 270, 0.1, 0.1, 67, 0.3],
+        ['сгущенное молоко с какао', 320, 7, 7.5, 56, 0.3, 'какао со сгущенкой'],
+    ],
+    'Орехи и семена': [
+        ['грецкий орех', 654, 15.2, 65.2, 7, 6.7, 'грецкие орехи'],
+        ['миндаль', 576, 21.2, 49.4, 9.5, 12.2],
+        ['фундук', 651, 15, 61.5, 9.4, 9.7, 'лесной орех'],
+        ['кешью', 553, 18.2, 43.9, 30.2, 3.3],
+        ['арахис', 567, 25.8, 49.2, 9.9, 8.1],
+        ['арахисовая паста', 588, 25, 50, 20, 6, 'арахисовое масло'],
+        ['фисташки', 560, 20.2, 45.3, 17.2, 10.6],
+        ['кедровые орехи', 673, 13.7, 68.4, 13.1, 3.7],
+        ['бразильский орех', 659, 14.3, 67.1, 4.2, 7.5],
+        ['пекан', 691, 9.2, 72, 4.3, 9.6],
+        ['макадамия', 718, 7.9, 75.8, 5.2, 8.6],
+        ['семечки подсолнечника', 578, 20.7, 52.9, 3.4, 8.6, 'семечки'],
+        ['тыквенные семечки', 556, 24.5, 45.8, 4.7, 6, 'семена тыквы'],
+        ['семена чиа', 486, 16.5, 30.7, 7.7, 34.4, 'чиа'],
+        ['семена льна', 534, 18.3, 42.2, 1.6, 27.3, 'лен|льняное семя'],
+        ['кунжут', 565, 19.4, 48.7, 12.2, 5.6],
+        ['тахини', 595, 17, 53.8, 9.4, 9.3, 'кунжутная паста'],
+        ['ореховая смесь', 607, 20, 54, 13, 7, 'орехи'],
+        ['миндаль жареный', 598, 21, 52.5, 9, 11],
+        ['миндаль в шоколаде', 550, 10.5, 36, 46, 6, 'миндаль шоколадный'],
+        ['миндальные лепестки', 576, 21.2, 49.4, 9.5, 12.2, 'лепестки миндаля'],
+        ['грецкий орех в меде', 430, 8, 30, 35, 3.5, 'орехи с медом'],
+        ['фундук жареный', 646, 15, 62.4, 7.5, 9.4],
+        ['кешью жареный', 574, 15.3, 46.4, 27.6, 3, 'кешью жареный соленый'],
+        ['арахис жареный', 611, 26.3, 52, 9.9, 8.1, 'арахис жареный соленый'],
+        ['арахис в глазури', 490, 15, 25, 50, 4, 'арахис в сахаре'],
+        ['арахис в кокосовой глазури', 510, 12, 30, 48, 4],
+        ['арахисовая паста без сахара', 600, 26, 51, 12, 6, 'арахисовая паста натуральная'],
+        ['миндальная паста', 614, 21, 55.5, 8, 10.5, 'миндальное масло ореховое'],
+        ['паста из кешью', 587, 17.6, 49.4, 27.6, 2, 'кешью паста'],
+        ['паста из фундука', 646, 15, 61, 9, 9.7],
+        ['урбеч', 580, 20, 50, 10, 15, 'урбеч из семян'],
+        ['урбеч из льна', 529, 18.3, 42.2, 1.6, 27.3],
+        ['фисташки соленые', 569, 21, 46, 18, 10],
+        ['кедровый орех очищенный', 673, 13.7, 68.4, 9.4, 3.7],
+        ['орех пекан жареный', 710, 9.5, 74.3, 4.6, 9.4],
+        ['макадамия жареная', 718, 7.8, 76, 5.2, 8, 'макадамия соленая'],
+        ['каштаны жареные', 245, 3.2, 2.2, 49.5, 5.1, 'каштаны'],
+        ['каштаны вареные', 131, 2, 1.4, 27.8, 4],
+        ['орех мускатный', 525, 5.8, 36.3, 28.5, 20.8, 'мускатный орех'],
+        ['кокос сушеный', 660, 6.9, 64.5, 7.4, 16.3],
+        ['семечки подсолнечника жареные', 601, 20.7, 52.9, 5, 11.1, 'жареные семечки'],
+        ['семечки подсолнечника соленые', 592, 20, 51.5, 7, 11],
+        ['тыквенные семечки жареные', 574, 29.8, 49, 6, 6.5],
+        ['семена конопли', 553, 31.6, 48.8, 1.1, 4, 'конопляное семя'],
+        ['семена кунжута черного', 573, 17.7, 49.7, 11.7, 11.8, 'черный кунжут'],
+        ['семена мака', 525, 18, 41.6, 12.7, 19.5, 'мак'],
+        ['семена подорожника', 195, 2, 0.6, 4, 85, 'псиллиум'],
+        ['семена киноа проросшие', 195, 7, 3, 30, 5],
+        ['смесь орехов и сухофруктов', 450, 11, 26, 42, 6, 'студенческая смесь|трейл микс'],
+        ['орехи в карамели', 520, 10, 30, 52, 4],
+        ['козинаки из арахиса', 521, 15.7, 29.3, 46.3, 4.8],
+        ['козинаки кунжутные', 517, 14.5, 35.5, 37.5, 6],
+        ['нуга ореховая', 500, 12, 23, 62, 3, 'нуга'],
+        ['пралине', 537, 7, 33, 53, 3],
+        ['марципан', 444, 8, 22, 55, 6, 'марципановая масса'],
+        ['ореховый батончик', 513, 15, 34, 39, 6, 'батончик с орехами'],
+        ['кокосовый батончик', 475, 4, 25.6, 60, 4, 'баунти'],
+        ['тыквенный протеин', 350, 60, 10, 7, 5],
+    ],
+    'Сладости и выпечка': [
+        ['сахар', 398, 0, 0, 99.7, 0, 'сахар-песок|рафинад'],
+        ['мед', 328, 0.8, 0, 80.3, 0.2, 'мёд'],
+        ['варенье', 265, 0.3, 0.2, 70.9, 1, 'джем|конфитюр'],
+        ['шоколад молочный', 535, 7.6, 29.7, 59.4, 3.4, 'молочный шоколад'],
+        ['шоколад горький 70%', 580, 7.8, 42.6, 33.6, 10.9, 'горький шоколад|темный шоколад'],
+        ['шоколад белый', 541, 4.2, 30.4, 62.2, 0, 'белый шоколад'],
+        ['шоколадная паста', 539, 6.3, 30.9, 57.5, 3.4, 'нутелла'],
+        ['конфеты шоколадные', 493, 4.5, 26, 60, 2, 'конфеты'],
+        ['карамель', 378, 0, 0.1, 94.5, 0, 'леденцы'],
+        ['мармелад', 321, 0.1, 0.1, 79.4, 0.1],
+        ['зефир', 326, 0.8, 0.1, 78.5, 1, 'маршмеллоу'],
+        ['пастила', 324, 0.5, 0, 80.4, 0.8],
+        ['халва подсолнечная', 516, 11.6, 29.7, 54, 4.3, 'халва'],
+        ['козинак', 576, 15.5, 41.4, 40.3, 3.9, 'козинаки'],
+        ['печенье овсяное', 437, 6.5, 14.4, 71.8, 2.8, 'овсяное печенье'],
+        ['печенье сахарное', 417, 7.5, 11.8, 74.4, 1.9, 'печенье'],
+        ['печенье сдобное', 458, 10.4, 5.2, 76.8, 1.8],
+        ['крекер', 440, 10, 13, 70, 2.5, 'крекеры'],
+        ['пряник', 364, 5.8, 6.5, 71.6, 1.2, 'пряники'],
+        ['вафли', 425, 4.5, 21, 64, 1.2],
+        ['торт бисквитный', 344, 4.7, 20, 49.8, 0.3, 'торт'],
+        ['торт наполеон', 392, 5.2, 25, 39, 0.6, 'наполеон'],
+        ['торт медовик', 478, 6.3, 28, 51, 0.9, 'медовик'],
+        ['чизкейк', 321, 5.5, 22.5, 25.5, 0.4],
+        ['тирамису', 283, 4.9, 18.8, 24.5, 0.3],
+        ['пирожное эклер', 337, 4.6, 20.3, 34.7, 0.3, 'эклер'],
+        ['кекс', 388, 5.9, 19, 48, 1, 'маффин'],
+        ['блины', 233, 6.1, 12.3, 26, 0.7, 'блинчики'],
+        ['оладьи', 235, 6.4, 9.5, 31.7, 1.1, 'оладушки'],
+        ['пончик', 421, 5.8, 22.4, 49, 1.5, 'пышка'],
+        ['шарлотка', 210, 4.8, 5.3, 36, 1.3, 'пирог яблочный'],
+        ['сушки с маком', 339, 11, 1.3, 73, 3],
+        ['протеиновый батончик', 350, 30, 10, 35, 5, 'батончик протеиновый'],
+        ['батончик мюсли', 394, 5.2, 12.5, 64, 4.5, 'мюсли батончик'],
+        ['чипсы картофельные', 536, 6.6, 34.6, 52.9, 4.4, 'чипсы'],
+        ['попкорн', 387, 12.9, 4.5, 77.8, 14.5],
+        ['сахарозаменитель', 0, 0, 0, 0, 0, 'стевия|эритритол'],
+        ['сахар тростниковый', 377, 0, 0, 97.3, 0, 'тростниковый сахар|коричневый сахар'],
+        ['сахарная пудра', 399, 0, 0, 99.8, 0, 'пудра сахарная'],
+        ['сахар ванильный', 398, 0, 0, 99.5, 0, 'ванильный сахар'],
+        ['фруктоза', 399, 0, 0, 99.8, 0],
+        ['мед гречишный', 309, 0.5, 0, 76.4, 0.2, 'гречишный мед'],
+        ['мед липовый', 325, 0.6, 0, 80.9, 0.2, 'липовый мед'],
+        ['мед цветочный', 328, 0.8, 0, 80.3, 0.2, 'цветочный мед'],
+        ['мед крем', 325, 0.8, 0, 80, 0.2, 'крем-мед'],
+        ['джем клубничный', 285, 0.3, 0.1, 74, 1, 'клубничный джем'],
+        ['джем абрикосовый', 242, 0.5, 0, 62, 1, 'абрикосовый джем'],
+        ['джем без сахара', 130, 0.5, 0.1, 32, 1.5],
+        ['варенье малиновое', 273, 0.6, 0, 70.4, 1.3, 'малиновое варенье'],
+        ['варенье вишневое', 256, 0.8, 0, 67.6, 0.6, 'вишневое варенье'],
+        ['варенье из черной смородины', 284, 0.6, 0, 72.5, 1.5],
+        ['повидло яблочное', 250, 0.4, 0, 65, 0.8, 'повидло'],
+        ['джем апельсиновый', 270, 0.3, 0, 70, 0.7, 'апельсиновый джем|мармелад апельсиновый'],
+        ['шоколад горький 85%', 600, 11, 50, 19, 14, 'шоколад 85'],
+        ['шоколад горький 99%', 592, 14, 55, 8, 15],
+        ['шоколад молочный с орехами', 547, 8.5, 34.8, 52.4, 3.5, 'шоколад с орехами'],
+        ['шоколад с изюмом и орехами', 520, 7, 30, 55, 3.3],
+        ['шоколад пористый', 545, 6.5, 32, 56, 1.8, 'пористый шоколад'],
+        ['шоколад без сахара', 470, 8, 38, 17, 11, 'шоколад на стевии'],
+        ['шоколадные конфеты с начинкой', 450, 4, 20, 63, 2, 'конфеты с начинкой'],
+        ['конфеты ириски', 410, 3.3, 7.5, 81.8, 0, 'ириски'],
+        ['конфеты трюфели', 570, 4.3, 37.1, 55.6, 3, 'трюфели'],
+        ['конфеты суфле', 388, 2.8, 13, 66, 0.5, 'птичье молоко конфеты'],
+        ['конфеты грильяж', 484, 7.7, 24, 58, 2, 'грильяж'],
+        ['конфеты батончики', 455, 4.6, 24.5, 54, 2, 'рот фронт'],
+        ['конфеты желейные', 320, 0.4, 0.2, 80.1, 0.2],
+        ['конфеты помадные', 367, 2.3, 4.6, 79.2, 0.2, 'помадка'],
+        ['конфеты коровка', 364, 2.5, 4.5, 80, 0],
+        ['карамель с начинкой', 370, 0.1, 1.2, 90, 0.3, 'карамель леденцовая'],
+        ['леденцы без сахара', 240, 0, 0.1, 95, 0],
+        ['драже', 404, 3, 10, 76, 1, 'драже шоколадное'],
+        ['драже орехи в шоколаде', 522, 10.5, 34, 44, 4],
+        ['шоколадный батончик', 481, 4.5, 24, 61, 1.6, 'сникерс|марс|батончик шоколадный'],
+        ['шоколадные яйца', 550, 8.5, 34.5, 53.5, 0.4, 'киндер сюрприз'],
+        ['мармелад жевательный', 334, 6.3, 0.1, 77, 0.1, 'жевательный мармелад|мармеладки'],
+        ['мармелад без сахара', 128, 3, 0, 55, 13],
+        ['зефир в шоколаде', 396, 2, 10, 74.8, 0.5, 'зефир шоколадный'],
+        ['пастила белевская', 324, 0.5, 0, 80.4, 0.8, 'белевская пастила'],
+        ['пастила фруктовая без сахара', 275, 1.3, 0.5, 66, 4],
+        ['фруктовые батончики', 300, 2, 2, 70, 4.5, 'фруктовый батончик'],
+        ['халва тахинная', 512, 12.7, 29.9, 50.6, 3, 'тахинная халва'],
+        ['халва арахисовая', 532, 16.7, 31.8, 44, 4],
+        ['щербет', 430, 6, 15, 68, 1, 'шербет'],
+        ['лукум', 346, 0.6, 1.2, 83, 0.3, 'рахат-лукум'],
+        ['чак-чак', 455, 6.6, 24, 52, 1.1, 'чак чак'],
+        ['пахлава', 424, 5.9, 23.5, 47.5, 2.5, 'баклава'],
+        ['вафли с шоколадом', 527, 6.2, 32.3, 51.5, 1.8, 'шоколадные вафли'],
+        ['вафли бельгийские', 291, 7.9, 14.1, 33.4, 1.1, 'венские вафли'],
+        ['вафельные трубочки со сгущенкой', 380, 5.7, 16.4, 52.6, 0.7, 'трубочки'],
+        ['вафельный торт', 540, 4, 30, 63, 1],
+        ['печенье юбилейное', 451, 7.6, 17.2, 67, 1.8, 'юбилейное'],
+        ['печенье шоколадное', 480, 6, 23, 62, 3, 'шоколадное печенье'],
+        ['печенье с шоколадной крошкой', 490, 5.5, 24, 62, 2, 'кукис'],
+        ['печенье затяжное', 418, 7.5, 10.9, 72.9, 2.2, 'мария'],
+        ['печенье галетное', 393, 11, 9, 69, 3, 'галеты'],
+        ['печенье песочное', 458, 6.2, 23.1, 56.8, 1.6, 'песочное печенье'],
+        ['печенье курабье', 516, 6.5, 28, 59, 1.3, 'курабье'],
+        ['печенье сэндвич', 480, 5, 20, 70, 2.5, 'орео'],
+        ['печенье имбирное', 437, 5.7, 15, 70, 1.4, 'имбирные пряники'],
+        ['печенье безе', 304, 2.6, 0, 75, 0, 'безе|меренги'],
+        ['печенье макарон', 410, 8, 17, 57, 2, 'макарун'],
+        ['печенье без сахара', 414, 7, 18, 55, 5, 'диабетическое печенье'],
+        ['печенье цельнозерновое', 430, 7.5, 15.5, 65, 6, 'печенье из цельного зерна'],
+        ['савоярди', 390, 8, 5, 77, 1, 'дамские пальчики'],
+        ['бисквит', 296, 10, 6.8, 49.4, 1, 'бисквитный корж'],
+        ['корж песочный', 470, 6, 25, 55, 1.5],
+        ['пряник тульский', 365, 5.8, 3.2, 77, 1.5, 'тульский пряник'],
+        ['пряник медовый', 355, 4.7, 2.8, 75.4, 1.3],
+        ['сочник с творогом', 340, 10, 13, 46, 1, 'сочни'],
+        ['ватрушка с творогом', 285, 10.6, 10.8, 35.6, 1, 'ватрушка'],
+        ['слойка с яблоком', 354, 5.7, 18.4, 41.6, 1.4, 'слойка'],
+        ['слойка с сыром', 379, 10.3, 24.3, 29.6, 1.2],
+        ['слойка с ветчиной и сыром', 340, 11.6, 21.2, 26.4, 1],
+        ['слойка с вишней', 340, 5.2, 16.9, 42.6, 1.3],
+        ['круассан с шоколадом', 435, 7.4, 24, 48, 2.5, 'пан о шоколя'],
+        ['круассан с миндалем', 441, 9.5, 25.8, 43.4, 2.8],
+        ['круассан с ветчиной и сыром', 345, 12.8, 21.4, 25.3, 1.2],
+        ['трубочка с кремом', 429, 4.5, 26, 44, 0.5],
+        ['корзиночка с кремом', 469, 4.8, 25.6, 55, 0.5, 'корзиночка'],
+        ['пирожное картошка', 375, 6, 17, 49, 2, 'картошка пирожное'],
+        ['пирожное наполеон', 352, 4.2, 20.5, 37.5, 0.5],
+        ['пирожное бизе', 377, 3, 6, 78, 0, 'бизе пирожное'],
+        ['профитроли', 348, 6.3, 23.4, 29, 0.5],
+        ['макаруны', 410, 8, 17, 57, 2, 'макарон пирожное'],
+        ['брауни', 466, 6.3, 25.2, 54.5, 2.4],
+        ['маффин шоколадный', 420, 6, 20, 55, 2, 'шоколадный маффин'],
+        ['маффин черничный', 377, 5.3, 16.1, 52.5, 1.4, 'черничный маффин'],
+        ['капкейк', 385, 4, 17, 55, 0.6],
+        ['кекс столичный', 390, 6.1, 17.1, 53.5, 1.1, 'кекс с изюмом'],
+        ['кекс творожный', 310, 9, 13, 39, 0.6],
+        ['рулет бисквитный', 370, 4.5, 15.5, 53, 0.7, 'бисквитный рулет'],
+        ['рулет с маком', 350, 6.5, 12.5, 53, 3],
+        ['штрудель яблочный', 274, 3.1, 11.2, 40.6, 1.6, 'штрудель'],
+        ['торт прага', 412, 5.4, 25.2, 41.2, 1.2, 'прага'],
+        ['торт птичье молоко', 365, 3.4, 16.2, 51.3, 0.2, 'птичье молоко'],
+        ['торт киевский', 455, 5.5, 22, 58, 1],
+        ['торт красный бархат', 390, 4.5, 22, 45, 0.5, 'красный бархат'],
+        ['торт морковный', 415, 4.5, 25, 43, 1.5, 'морковный торт'],
+        ['торт муравейник', 456, 5.8, 24.7, 54, 1],
+        ['торт сметанник', 364, 4.4, 19.3, 43.5, 0.6, 'сметанник'],
+        ['торт захер', 370, 5.5, 21, 42, 2.5, 'захер'],
+        ['торт шоколадный', 380, 5.2, 21.5, 42.7, 2, 'шоколадный торт'],
+        ['торт йогуртовый', 225, 4.5, 11, 27.5, 0.3],
+        ['торт мороженое', 250, 3.5, 14, 28, 0.3],
+        ['чизкейк нью-йорк', 321, 5.5, 22.5, 25.5, 0.4],
+        ['чизкейк шоколадный', 350, 6, 24, 28, 1.3],
+        ['панна котта', 249, 2.9, 19, 17, 0, 'панакота'],
+        ['крем-брюле', 286, 4, 23, 16, 0, 'крем брюле'],
+        ['пудинг ванильный', 120, 3.3, 3, 19.5, 0, 'пудинг'],
+        ['пудинг шоколадный', 142, 3.1, 3.4, 24.9, 1.2],
+        ['желе фруктовое', 80, 1.5, 0, 18.5, 0, 'желе'],
+        ['мусс шоколадный', 255, 5.5, 18, 20, 1.6, 'шоколадный мусс'],
+        ['суфле творожное', 150, 10, 6.5, 12.5, 0],
+        ['трайфл', 265, 4.2, 14, 29, 0.6],
+        ['эклер с заварным кремом', 262, 6.4, 15.7, 23.6, 0.5],
+        ['пончик с глазурью', 452, 4.9, 25, 51, 1.7, 'донат'],
+        ['пончик с начинкой', 379, 5.9, 19.3, 45, 1.3, 'берлинер'],
+        ['хворост', 495, 7.1, 31, 47, 1.5, 'хворост сладкий'],
+        ['чурос', 447, 4.9, 28, 44, 2.4],
+        ['блины тонкие', 185, 5.4, 6.1, 27.2, 0.8, 'тонкие блины'],
+        ['блины с творогом', 198, 8.7, 7.1, 25, 0.5],
+        ['блины со сметаной', 220, 5.7, 11.6, 22.8, 0.6],
+        ['блины с медом', 272, 4.7, 9.1, 43.4, 0.6],
+        ['блины гречневые', 200, 6.8, 6.9, 28, 1.7],
+        ['блины овсяные', 175, 7.3, 6.1, 23, 2.2],
+        ['панкейки', 227, 6.4, 9.7, 28.3, 0.9, 'панкейк|американские блинчики'],
+        ['оладьи из кабачков', 135, 3.5, 8.2, 12.1, 1.2, 'кабачковые оладьи'],
+        ['оладьи на кефире', 230, 6.4, 8.5, 32, 1.1],
+        ['оладьи банановые', 180, 6.2, 5.6, 26.9, 1.5],
+        ['сырники со сметаной', 232, 12, 12.3, 18.4, 0.3],
+        ['запеканка рисовая', 158, 4.2, 4.7, 24.8, 0.3],
+        ['запеканка манная', 178, 5.6, 4.9, 27.8, 0.3],
+        ['запеканка морковная', 96, 2.9, 3.7, 12.8, 2.3],
+        ['гурьевская каша', 192, 5.6, 6.6, 28, 0.3],
+        ['шарлотка с грушей', 210, 4.8, 5.3, 36, 1.5],
+        ['пирог с яблоками', 260, 4.1, 11.2, 35.6, 1.6, 'яблочный пирог'],
+        ['пирог с вишней', 270, 4.3, 11, 38, 1.5, 'вишневый пирог'],
+        ['пирог с брусникой', 240, 4.3, 9.2, 35.6, 1.8],
+        ['пирог с творогом', 295, 9, 15, 31, 0.5, 'творожный пирог'],
+        ['пирог с капустой и яйцом', 212, 6.1, 9.4, 26, 1.7],
+        ['пирог тыквенный', 257, 4.5, 11.6, 34.2, 1.3, 'тыквенный пирог'],
+        ['пирог лимонный', 333, 4.2, 15.5, 44, 0.8, 'лимонный тарт'],
+        ['тарт с ягодами', 301, 4.2, 15, 37.5, 1.8],
+        ['тирамису классический', 303, 5.2, 19.8, 25.9, 0.3],
+        ['меренговый рулет', 365, 3.4, 18, 48, 0.3],
+        ['пастила яблочная домашняя', 318, 1.3, 0.4, 80, 5.6],
+        ['желейные конфеты без сахара', 150, 4, 0, 70, 12],
+        ['чипсы картофельные запеченные', 430, 6.6, 17, 60, 4.6, 'запеченные чипсы'],
+        ['чипсы кукурузные', 498, 6.6, 23.5, 63, 5, 'тортилья чипсы|начос чипсы'],
+        ['чипсы из лаваша', 430, 10, 16, 62, 3],
+        ['чипсы овощные', 480, 4.8, 28, 50, 10, 'чипсы из овощей'],
+        ['чипсы из нори', 520, 30, 40, 10, 6, 'снеки из водорослей'],
+        ['чипсы пита', 470, 11, 19, 65, 3.5],
+        ['попкорн соленый', 407, 7.3, 13.5, 62.7, 10.2],
+        ['попкорн сладкий', 401, 5.3, 8.2, 76, 6],
+        ['попкорн карамельный', 430, 3.8, 12.8, 78, 4.1, 'карамельный попкорн'],
+        ['снеки кукурузные палочки', 372, 8.3, 2.9, 79, 3, 'кукурузные палочки'],
+        ['кукурузные палочки сладкие', 372, 8.3, 2.9, 79, 3],
+        ['крекеры с сыром', 490, 11, 24, 57, 2],
+        ['крекеры рыбки', 470, 10.2, 19, 64, 2.5],
+        ['сушеное мясо снек', 290, 45, 8, 8, 0],
+        ['рисовые шарики', 385, 7, 1.5, 85, 1, 'воздушный рис'],
+        ['рисовые крекеры', 400, 7, 5, 80, 1.5, 'сенбеи'],
+        ['протеиновое печенье', 350, 25, 12, 36, 5],
+        ['протеиновые чипсы', 400, 40, 12, 30, 3],
+        ['кранчи', 468, 9, 21, 60, 5, 'хлопья кранчи'],
+        ['торт фруктовый', 250, 3.6, 10, 37, 1, 'фруктовый торт'],
+        ['торт с безе', 405, 4.6, 20.8, 51, 0.5],
+        ['торт пражский', 412, 5.4, 25.2, 41.2, 1.2],
+        ['торт тирамису', 283, 4.9, 18.8, 24.5, 0.3],
+        ['торт чизкейк', 321, 5.5, 22.5, 25.5, 0.4],
+        ['пирожное корзиночка с фруктами', 330, 4, 15.5, 44, 1.4],
+        ['пирожное шу', 348, 6.3, 23.4, 29, 0.5, 'шу'],
+        ['пирожное павлова', 290, 3.2, 12, 43, 0.8, 'павлова'],
+        ['пирожное тарталетка с ягодами', 290, 4.2, 14.5, 37, 1.7],
+        ['пирожное птичье молоко', 365, 3.4, 16.2, 51.3, 0.2],
+        ['пирожное медовое', 430, 6, 22, 52, 1],
+        ['пирожное красный бархат', 390, 4.5, 22, 45, 0.5],
+        ['пирожное эстерхази', 450, 8, 30, 38, 2.5, 'эстерхази'],
+        ['пирожное наполеон классический', 392, 5.2, 25, 39, 0.6],
+        ['трубочка вафельная с кремом', 440, 4.2, 25, 50, 0.5],
+        ['ромовая баба', 320, 5, 8, 57, 0.7, 'ромовая бабка'],
+        ['кулич', 340, 7.3, 12.1, 50.5, 1.6, 'пасхальный кулич'],
+        ['штоллен', 390, 6.7, 16.5, 53.3, 2.2],
+        ['панеттоне', 332, 7.6, 13.4, 46, 1.6],
+        ['брецель', 380, 9.3, 3.5, 79, 3, 'крендель|претцель'],
+        ['рогалик с повидлом', 320, 6, 7.5, 57, 1.5, 'рогалики'],
+        ['рогалик сдобный', 350, 7.5, 10, 57, 1.5],
+        ['ватрушка с повидлом', 300, 6.5, 8.5, 49, 1.3],
+        ['булочка с изюмом', 316, 7.5, 8.3, 52.5, 2],
+        ['булочка с шоколадом', 390, 7, 16.5, 53, 2.6],
+        ['булочка с сахаром', 350, 7.5, 10.1, 56.5, 1.8],
+        ['булочка ржаная', 247, 7.5, 2.5, 48, 5],
+        ['булочка с кунжутом', 280, 9.5, 5.5, 48, 2.6],
+        ['пышка с сахарной пудрой', 390, 6, 19, 49, 1.4],
+        ['лепешка с сыром', 290, 11, 12, 34, 1.4],
+        ['пирожок печеный с капустой', 211, 5.5, 5.8, 34, 2],
+        ['пирожок печеный с мясом', 250, 10.5, 9, 31, 1.3],
+        ['пирожок с рисом и яйцом', 240, 7.5, 8.5, 33.5, 1.2],
+        ['пирожок с луком и яйцом жареный', 268, 7.6, 13.1, 29.8, 1.4],
+        ['пирожок с грибами', 220, 6, 8.2, 30.4, 1.7],
+        ['пирожок с печенью', 255, 10.3, 10.8, 28.7, 1.2],
+        ['беляш с курицей', 255, 12, 12.3, 24.3, 1.1],
+        ['пирожок с яблоком', 260, 4.5, 8.5, 42, 1.8],
+        ['пирожок с курагой', 270, 4.9, 8.3, 44.9, 2],
+        ['пирожок с творогом', 270, 10.5, 8.6, 37.6, 1],
+        ['кекс банановый', 326, 4.3, 11, 53, 1.6, 'банановый хлеб'],
+        ['кекс лимонный', 370, 5, 17, 49, 0.8],
+        ['кекс шоколадный', 400, 5.5, 20.5, 48, 2],
+        ['кекс морковный', 340, 4.8, 17, 43, 1.6],
+        ['маффин банановый', 340, 5, 14, 48, 1.6],
+        ['маффин творожный', 300, 9, 12, 39, 0.6],
+        ['маффин с яблоком', 330, 4.7, 13.5, 47, 1.8],
+        ['печенье кокосовое', 460, 6, 22, 60, 5, 'кокосовое печенье'],
+        ['печенье миндальное', 445, 9.5, 23, 51, 3.5, 'амаретти'],
+        ['печенье ореховое', 480, 8, 27, 52, 2.8, 'орешки со сгущенкой'],
+        ['печенье с изюмом', 420, 6.5, 15, 65, 2],
+        ['печенье с джемом', 410, 5.5, 14, 65, 1.5],
+        ['печенье творожное', 410, 10.5, 18, 52, 1, 'творожное печенье'],
+        ['печенье гусиные лапки', 420, 10, 18, 55, 1, 'гусиные лапки'],
+        ['печенье бискотти', 410, 10.4, 14.6, 60, 3.5, 'бискотти|кантуччи'],
+        ['печенье ржаное', 380, 7.5, 12, 61, 6],
+        ['печенье рыбки соленые', 470, 10.2, 19, 64, 2.5],
+        ['пряник с начинкой', 350, 5, 4, 73, 1.5],
+        ['пряник мятный', 350, 4.7, 3, 76, 1.3],
+        ['коврижка медовая', 344, 4.3, 7, 66, 1.5, 'коврижка'],
+        ['пахлава ореховая', 470, 7.5, 28, 48, 3],
+        ['чак-чак с медом', 470, 6.6, 25, 55, 1.1],
+        ['халва ванильная', 516, 11.6, 29.7, 54, 4.3],
+        ['шербет ореховый', 430, 6, 15, 68, 1],
+        ['нуга с орехами', 440, 5, 16, 68, 2],
+        ['зефир ванильный', 318, 0.8, 0, 79.2, 1],
+        ['зефир клюквенный', 320, 0.6, 0, 80, 1],
+        ['маршмеллоу жареный', 318, 1.8, 0.2, 81.3, 0.1],
+    ],
+    'Напитки': [
+        ['чай без сахара', 1, 0, 0, 0.3, 0, 'чай|чай черный|чай зеленый'],
+        ['кофе черный', 2, 0.1, 0, 0, 0, 'кофе|американо|эспрессо'],
+        ['капучино', 42, 2.1, 2.1, 3.6, 0],
+        ['латте', 54, 2.8, 2.8, 4.6, 0],
+        ['какао на молоке', 80, 3.4, 3.2, 10, 0.5, 'какао'],
+        ['сок апельсиновый', 45, 0.7, 0.2, 10.4, 0.2, 'апельсиновый сок'],
+        ['сок яблочный', 46, 0.1, 0.1, 11.3, 0.2, 'яблочный сок'],
+        ['сок томатный', 17, 0.8, 0.1, 3.4, 0.4, 'томатный сок'],
+        ['морс клюквенный', 41, 0.1, 0, 10.7, 0, 'морс'],
+        ['компот', 60, 0.5, 0, 14.5, 0.5, 'компот из сухофруктов'],
+        ['кисель', 53, 0, 0, 13.6, 0],
+        ['квас', 27, 0.2, 0, 5.2, 0],
+        ['кола', 42, 0, 0, 10.6, 0, 'кока-кола|газировка'],
+        ['кола без сахара', 0, 0, 0, 0, 0, 'кола зеро|диетическая кола'],
+        ['лимонад', 40, 0, 0, 10, 0],
+        ['энергетик', 45, 0, 0, 11, 0, 'энергетический напиток'],
+        ['смузи фруктовый', 60, 0.8, 0.3, 13.5, 1.2, 'смузи'],
+        ['пиво светлое', 43, 0.5, 0, 3.6, 0, 'пиво'],
+        ['вино сухое красное', 68, 0.2, 0, 0.3, 0, 'вино красное|красное вино'],
+        ['вино сухое белое', 66, 0.1, 0, 0.6, 0, 'белое вино'],
+        ['вино полусладкое', 78, 0.2, 0, 5, 0],
+        ['шампанское', 88, 0.2, 0, 5, 0, 'игристое вино'],
+        ['водка', 235, 0, 0, 0.1, 0],
+        ['коньяк', 239, 0, 0, 0.1, 0],
+        ['виски', 250, 0, 0, 0, 0],
+        ['молоко соевое', 54, 3.3, 1.8, 5.7, 0.6, 'соевое молоко'],
+        ['молоко овсяное', 46, 1, 1.5, 6.7, 0.8, 'овсяное молоко'],
+        ['молоко миндальное', 24, 0.5, 1.1, 3, 0.3, 'миндальное молоко'],
+        ['молоко кокосовое', 197, 1.8, 21, 2.8, 0, 'кокосовое молоко'],
+        ['вода', 0, 0, 0, 0, 0, 'минеральная вода'],
+        ['чай с сахаром', 28, 0.1, 0, 7, 0, 'сладкий чай'],
+        ['чай с молоком', 38, 1.4, 1.3, 5, 0],
+        ['чай с лимоном', 2, 0, 0, 0.5, 0],
+        ['чай травяной', 1, 0, 0, 0.2, 0, 'травяной чай|ромашковый чай'],
+        ['чай каркаде', 5, 0.3, 0, 0.6, 0, 'каркаде'],
+        ['чай масала', 60, 2, 2.2, 8, 0, 'масала|масала чай'],
+        ['чай матча латте', 65, 3, 2.5, 8, 0.3, 'матча латте'],
+        ['чай пуэр', 1, 0, 0, 0.2, 0, 'пуэр'],
+        ['чай холодный', 32, 0, 0, 8, 0, 'холодный чай|айс ти'],
+        ['чай бабл', 110, 0.8, 2, 22, 0.3, 'бабл ти'],
+        ['чай облепиховый', 40, 0.2, 0.6, 9, 0.2, 'облепиховый чай'],
+        ['иван-чай', 1, 0, 0, 0.2, 0, 'копорский чай'],
+        ['кофе с молоком', 32, 1.1, 1.1, 4.4, 0, 'кофе с молоком без сахара'],
+        ['кофе с сахаром', 28, 0.1, 0, 7, 0],
+        ['кофе растворимый', 2, 0.1, 0, 0.2, 0, 'растворимый кофе'],
+        ['кофе растворимый порошок', 241, 20, 0.5, 41, 0],
+        ['кофе три в одном', 420, 3.5, 11, 76, 2, 'кофе 3 в 1'],
+        ['кофе со сливками', 60, 0.6, 5.4, 1.6, 0],
+        ['флэт уайт', 49, 2.6, 2.6, 3.9, 0, 'флэт уайт'],
+        ['раф кофе', 123, 2.1, 9.2, 8, 0, 'раф'],
+        ['латте на овсяном молоке', 42, 0.9, 1.4, 6.4, 0.6],
+        ['латте на растительном молоке', 38, 0.8, 1.4, 5.5, 0.4],
+        ['капучино на обезжиренном молоке', 29, 2.6, 0.1, 4, 0],
+        ['мокко', 74, 2.6, 3.1, 9.2, 0.5, 'мокачино'],
+        ['кофе по-венски', 110, 1.5, 8.8, 6.5, 0, 'венский кофе'],
+        ['кофе глясе', 95, 1.5, 4, 13, 0, 'глясе'],
+        ['фраппучино', 90, 1.6, 3, 14, 0, 'фраппе'],
+        ['колд брю', 2, 0.1, 0, 0.2, 0, 'колдбрю'],
+        ['цикорий', 12, 0.1, 0, 3, 0, 'цикорий растворимый'],
+        ['какао на воде', 30, 1, 0.8, 4.8, 0.7],
+        ['горячий шоколад', 120, 3, 4.5, 16.5, 1, 'горячий шоколад на молоке'],
+        ['сок мультифруктовый', 52, 0.3, 0.1, 12.5, 0.1, 'мультифрукт'],
+        ['сок вишневый', 52, 0.7, 0, 12.3, 0.2, 'вишневый сок'],
+        ['сок виноградный', 60, 0.4, 0.1, 14.2, 0.2, 'виноградный сок'],
+        ['сок ананасовый', 48, 0.3, 0.1, 11.4, 0.2, 'ананасовый сок'],
+        ['сок грейпфрутовый', 38, 0.3, 0.1, 8, 0.1, 'грейпфрутовый сок'],
+        ['сок гранатовый', 54, 0.1, 0, 14.5, 0.1, 'гранатовый сок'],
+        ['сок морковный', 28, 1.1, 0.1, 5.8, 0.4, 'морковный сок'],
+        ['сок свекольный', 42, 1, 0, 9.9, 0.4],
+        ['сок тыквенный', 38, 0, 0, 9, 0.4, 'тыквенный сок'],
+        ['сок березовый', 7, 0, 0, 1.8, 0, 'березовый сок'],
+        ['сок сельдереевый', 14, 0.7, 0.2, 3, 0.4],
+        ['сок персиковый', 45, 0.2, 0, 11.5, 0.2, 'персиковый нектар'],
+        ['нектар абрикосовый', 54, 0.3, 0, 13, 0.3, 'абрикосовый сок'],
+        ['сок свежевыжатый апельсиновый', 45, 0.7, 0.2, 10.4, 0.2, 'фреш апельсиновый|фреш'],
+        ['сок свежевыжатый яблочный', 46, 0.4, 0.4, 9.8, 0.2],
+        ['морс брусничный', 41, 0.1, 0, 10.7, 0, 'брусничный морс'],
+        ['морс смородиновый', 46, 0.1, 0, 11, 0],
+        ['компот из яблок', 65, 0.2, 0.1, 15.7, 0.2],
+        ['компот вишневый', 99, 0.8, 0, 24.6, 0.3],
+        ['компот без сахара', 20, 0.1, 0, 5, 0.2],
+        ['узвар', 52, 0.3, 0, 12.7, 0.3],
+        ['кисель клюквенный', 53, 0, 0, 13.6, 0],
+        ['сбитень', 54, 0.1, 0, 13.8, 0],
+        ['квас домашний', 27, 0.2, 0, 5.2, 0],
+        ['тархун напиток', 43, 0, 0, 10.8, 0, 'лимонад тархун'],
+        ['лимонад домашний', 46, 0.1, 0, 11.8, 0.1],
+        ['спрайт', 41, 0, 0, 10.3, 0, 'газировка лимонная|фанта'],
+        ['тоник', 34, 0, 0, 8.8, 0, 'тоник напиток'],
+        ['газировка без сахара', 1, 0, 0, 0, 0, 'лимонад без сахара'],
+        ['холодный чай без сахара', 1, 0, 0, 0.2, 0],
+        ['энергетик без сахара', 3, 0, 0, 0.5, 0],
+        ['спортивный напиток', 26, 0, 0, 6.4, 0, 'изотоник'],
+        ['вода с лимоном', 2, 0, 0, 0.5, 0],
+        ['вода минеральная газированная', 0, 0, 0, 0, 0, 'газированная вода|минералка'],
+        ['вода кокосовая натуральная', 19, 0.7, 0.2, 3.7, 1.1],
+        ['смузи банан-клубника', 65, 0.9, 0.3, 14.3, 1.5],
+        ['смузи зеленый', 42, 1, 0.3, 8.5, 1.5, 'зеленый смузи'],
+        ['смузи ягодный', 56, 0.8, 0.3, 12.5, 2],
+        ['смузи протеиновый', 75, 7, 1.5, 8, 1],
+        ['кефирный коктейль с ягодами', 60, 2.6, 1.6, 8.6, 0.6],
+        ['коктейль банановый молочный', 90, 3, 2.6, 13.5, 0.5],
+        ['молоко рисовое', 47, 0.3, 1, 9.2, 0.3, 'рисовое молоко'],
+        ['молоко кешью', 25, 0.6, 2, 1.5, 0.2],
+        ['молоко гороховое', 44, 2.5, 1.7, 4.7, 0.3],
+        ['молоко банановое', 76, 2.6, 2.6, 10.4, 0.4, 'банановое молоко'],
+        ['молоко шоколадное', 72, 3, 2, 10.7, 0.4, 'шоколадное молоко'],
+        ['какао-напиток растворимый', 380, 5, 3, 80, 5, 'несквик|какао порошок сладкий'],
+        ['какао порошок', 289, 24.3, 15, 10.2, 35.3, 'какао-порошок'],
+        ['кэроб порошок', 222, 4.6, 0.7, 49, 40, 'кэроб|рожковое дерево'],
+        ['пиво темное', 48, 0.3, 0, 5.7, 0, 'темное пиво'],
+        ['пиво безалкогольное', 26, 0.2, 0, 5.3, 0, 'безалкогольное пиво'],
+        ['пиво крепкое', 61, 0.6, 0, 4.9, 0],
+        ['сидр', 42, 0, 0, 4.2, 0],
+        ['медовуха', 60, 0, 0, 12, 0],
+        ['вино сладкое', 100, 0.2, 0, 8, 0, 'десертное вино'],
+        ['вино полусухое', 78, 0.2, 0, 2.5, 0],
+        ['вино розовое', 71, 0.1, 0, 1.5, 0, 'розе'],
+        ['вино крепленое', 150, 0, 0, 10, 0, 'портвейн|херес'],
+        ['шампанское брют', 75, 0.2, 0, 1.5, 0, 'брют'],
+        ['просекко', 80, 0.1, 0, 1.6, 0],
+        ['мартини', 145, 0, 0, 15.9, 0, 'вермут'],
+        ['глинтвейн', 134, 0.1, 0, 17.5, 0],
+        ['ликер', 300, 0, 0, 35, 0, 'ликер фруктовый'],
+        ['ликер сливочный', 327, 2.8, 15.7, 19.8, 0, 'бейлиз'],
+        ['ром', 231, 0, 0, 0, 0],
+        ['джин', 263, 0, 0, 0, 0],
+        ['текила', 231, 0, 0, 0, 0],
+        ['самогон', 235, 0, 0, 0, 0],
+        ['настойка', 215, 0, 0, 8, 0],
+        ['саке', 134, 0.5, 0, 5, 0],
+        ['коктейль мохито', 62, 0, 0, 9.5, 0.2, 'мохито'],
+        ['коктейль пина колада', 245, 0.6, 7.6, 32.1, 0.3, 'пина колада'],
+        ['коктейль апероль шприц', 110, 0, 0, 7.5, 0, 'апероль'],
+        ['коктейль маргарита', 160, 0.1, 0.1, 12, 0],
+        ['джин-тоник', 80, 0, 0, 6.8, 0, 'джин тоник'],
+        ['виски-кола', 100, 0, 0, 8, 0],
+        ['сангрия', 85, 0.1, 0, 10, 0.1],
+    ],
+    'Супы и готовые блюда': [
+        ['борщ', 49, 1.1, 2.2, 6.7, 1.3, 'борщ со сметаной'],
+        ['щи', 31, 1.8, 1.7, 3.2, 0.9, 'щи из свежей капусты'],
+        ['солянка мясная', 69, 4.8, 4.2, 3.1, 0.5, 'солянка'],
+        ['рассольник', 42, 1.5, 1.9, 4.8, 0.8],
+        ['суп гороховый', 66, 4.4, 2.4, 7, 1.6, 'гороховый суп'],
+        ['суп грибной', 26, 1, 1.2, 3, 0.5],
+        ['суп овощной', 29, 0.8, 1.4, 3.7, 0.9, 'овощной суп'],
+        ['суп-пюре тыквенный', 52, 1.2, 2.6, 6.2, 1, 'тыквенный суп'],
+        ['суп-пюре грибной', 61, 1.7, 3.5, 5.8, 0.6, 'крем-суп'],
+        ['окрошка на кефире', 60, 3.3, 3.1, 4.8, 0.5, 'окрошка'],
+        ['харчо', 76, 4.5, 3.5, 6.4, 0.6],
+        ['том ям', 41, 3, 2, 2.5, 0.3],
+        ['рамен', 85, 4.3, 3.1, 10.2, 0.6],
+        ['оливье', 198, 5.5, 16.5, 6.8, 1.1, 'салат оливье'],
+        ['винегрет', 76, 1.5, 4.6, 7.8, 2],
+        ['сельдь под шубой', 193, 8.2, 14, 8.9, 1.5, 'шуба'],
+        ['салат цезарь с курицей', 160, 10, 10.6, 6, 0.9, 'цезарь'],
+        ['салат греческий', 96, 2.5, 8, 3.6, 1.2, 'греческий салат'],
+        ['салат из свежих овощей', 35, 1, 1.5, 4, 1.3, 'овощной салат|салат овощной'],
+        ['салат из свежих овощей с маслом', 85, 1, 6.5, 4.3, 1.3],
+        ['лазанья', 160, 9.5, 7.5, 13.5, 1],
+        ['паста карбонара', 190, 8, 9, 19, 0.9, 'карбонара'],
+        ['паста болоньезе', 145, 7.5, 5.1, 17, 1.3, 'болоньезе'],
+        ['ризотто с грибами', 127, 3.2, 4.6, 18.7, 0.7, 'ризотто'],
+        ['макароны по-флотски', 200, 9, 9, 20.5, 1, 'по-флотски'],
+        ['курица с рисом', 142, 10.3, 4.3, 15.4, 0.3],
+        ['гречка с курицей', 124, 10.5, 3.1, 13.8, 1.7],
+        ['гречка с мясом', 153, 9.2, 6.4, 15.3, 1.6, 'гречка по-купечески'],
+        ['жаркое с мясом', 140, 7.7, 7.9, 9.6, 1.3, 'жаркое'],
+        ['рагу с мясом', 114, 7, 6.5, 7.4, 1.5],
+        ['овощи тушеные', 58, 1.4, 3, 6.5, 2, 'тушеные овощи'],
+        ['драники', 208, 4, 11.5, 22, 2, 'драники картофельные'],
+        ['вареники с творогом', 197, 10.8, 3.6, 30.6, 0.9],
+        ['вареники с вишней', 180, 4.1, 1.6, 37.4, 1.1],
+        ['хачапури по-аджарски', 297, 11.2, 14, 31.5, 1.1, 'хачапури'],
+        ['шакшука', 104, 6.2, 6.8, 4.6, 1.3],
+        ['фалафель', 333, 13.3, 17.8, 31.8, 4.9],
+        ['бутерброд с сыром', 282, 11.5, 13, 30.5, 1.8, 'бутерброд'],
+        ['бутерброд с колбасой', 275, 10, 14, 27.4, 1.7],
+        ['сэндвич с курицей', 220, 12.8, 8.6, 23, 1.6, 'сэндвич'],
+        ['омлет с овощами', 120, 7.1, 8.7, 3.4, 0.8],
+        ['борщ без мяса', 35, 1, 1.6, 4.5, 1.3, 'постный борщ|вегетарианский борщ'],
+        ['борщ с мясом', 57, 3.1, 2.9, 4.8, 1.2],
+        ['борщ зеленый', 39, 2.4, 2.3, 2.4, 0.8, 'щавелевый суп|зеленые щи'],
+        ['борщ холодный', 52, 2.2, 2.5, 5.4, 1.1, 'свекольник|холодник'],
+        ['щи из квашеной капусты', 32, 1.2, 2.1, 2.3, 1.3, 'кислые щи'],
+        ['щи с мясом', 48, 3.1, 2.9, 2.4, 0.9],
+        ['солянка рыбная', 58, 5.4, 3.1, 2.3, 0.5],
+        ['солянка грибная', 44, 1.5, 3.1, 2.7, 1],
+        ['рассольник с мясом', 56, 2.9, 2.8, 4.7, 0.8, 'рассольник ленинградский'],
+        ['суп гороховый с копченостями', 88, 5.1, 4.3, 7.5, 1.5],
+        ['суп фасолевый', 55, 3.1, 1.6, 7.2, 2.3, 'фасолевый суп'],
+        ['суп чечевичный', 56, 3.6, 1.6, 7.3, 2.5, 'чечевичный суп'],
+        ['суп картофельный', 38, 0.9, 1.5, 5.5, 0.7, 'картофельный суп'],
+        ['суп рисовый', 41, 1.2, 1.5, 5.7, 0.2],
+        ['суп гречневый', 51, 2.5, 1.6, 6.5, 0.9, 'гречневый суп'],
+        ['суп вермишелевый', 47, 2.1, 1.3, 6.8, 0.3, 'суп с вермишелью'],
+        ['суп с клецками', 57, 2.5, 2.1, 7.1, 0.3],
+        ['суп с фрикадельками', 52, 3.4, 2.4, 4.3, 0.5, 'фрикадельковый суп'],
+        ['суп молочный с вермишелью', 84, 3.3, 2.6, 11.7, 0.2, 'молочный суп'],
+        ['суп сырный', 67, 3.1, 4, 4.7, 0.4, 'сырный суп'],
+        ['суп-пюре из брокколи', 43, 2.2, 2.2, 3.9, 1.1, 'крем-суп из брокколи'],
+        ['суп-пюре гороховый', 72, 4.5, 1.8, 9.6, 2.2],
+        ['суп-пюре из цветной капусты', 40, 1.7, 2.4, 3.2, 1],
+        ['суп-пюре морковный', 42, 0.9, 2.4, 4.5, 1.1],
+        ['суп-пюре из шампиньонов', 61, 1.7, 3.5, 5.8, 0.6],
+        ['суп-пюре из чечевицы', 62, 3.8, 1.4, 8.4, 2.8],
+        ['суп-пюре картофельный', 63, 1.6, 2.7, 8.1, 0.9],
+        ['суп-пюре из кабачков', 35, 1.1, 2, 3.3, 0.7],
+        ['суп-пюре томатный', 47, 1.3, 2.1, 5.9, 1, 'томатный суп'],
+        ['суп-пюре из батата', 54, 1.1, 2.1, 8, 1.3],
+        ['гаспачо', 36, 0.9, 2.1, 3.7, 0.8],
+        ['минестроне', 41, 1.7, 1.3, 5.8, 1.5],
+        ['крем-суп с лососем', 80, 5.3, 5.1, 3.3, 0.4, 'сливочный суп с лососем'],
+        ['сливочный суп с креветками', 86, 5.6, 5.5, 3.5, 0.3],
+        ['финский суп с лососем', 72, 4.9, 4.4, 3.4, 0.4, 'лохикейтто'],
+        ['суп рыбный с консервами', 44, 3.8, 1.8, 3.3, 0.4],
+        ['уха из семги', 52, 5.4, 2.2, 2.5, 0.3],
+        ['уха из красной рыбы', 50, 5, 2.1, 2.6, 0.3],
+        ['суп с курицей и рисом', 45, 3.5, 1.4, 4.7, 0.3],
+        ['суп куриный с вермишелью', 41, 3.1, 1.3, 4.5, 0.3],
+        ['бульон говяжий', 20, 2.3, 1.1, 0.1, 0, 'говяжий бульон'],
+        ['бульон овощной', 8, 0.5, 0.1, 1.3, 0.2, 'овощной бульон'],
+        ['бульон рыбный', 15, 2.1, 0.5, 0.1, 0, 'рыбный бульон'],
+        ['бульон костный', 25, 3, 1.3, 0.2, 0, 'костный бульон'],
+        ['шурпа', 92, 6.6, 5.5, 4.1, 0.7],
+        ['лагман', 111, 5.4, 4.3, 12.7, 0.7, 'суп лагман'],
+        ['бозбаш', 98, 6.2, 5.8, 5.1, 1.5],
+        ['хаш', 76, 9.8, 4.1, 0, 0],
+        ['чихиртма', 68, 5.4, 4, 2.5, 0.1],
+        ['суп бограч', 76, 5.3, 4.3, 4.3, 0.9, 'бограч'],
+        ['пити', 110, 6.9, 6.3, 6.3, 1.6],
+        ['мисо суп', 36, 2.6, 1.1, 4, 0.6, 'мисосиру'],
+        ['фо бо', 60, 4.5, 1.3, 7.3, 0.3, 'фо|суп фо'],
+        ['том кха', 85, 3.4, 7.4, 2.3, 0.4, 'том ка'],
+        ['суп удон', 65, 3.5, 1.3, 9.5, 0.5],
+        ['рамен с курицей', 82, 5, 2.5, 10.1, 0.5],
+        ['суп харира', 60, 3.5, 1.5, 8, 2.1, 'харира'],
+        ['суп гуляш', 73, 5, 3.6, 5.1, 0.9, 'гуляшсуп'],
+        ['суп луковый', 55, 1.7, 2.8, 5.5, 0.8, 'французский луковый суп'],
+        ['окрошка на квасе', 52, 2.7, 2.1, 5.5, 0.6],
+        ['окрошка на воде со сметаной', 42, 2.3, 2.6, 2.4, 0.4],
+        ['ботвинья', 45, 3.4, 0.7, 6.1, 0.8],
+        ['тюря', 60, 1.8, 0.4, 12.6, 1.5],
+        ['салат мимоза', 208, 9.1, 17.8, 2.8, 0.4, 'мимоза'],
+        ['салат крабовый', 156, 4.7, 11.7, 7.8, 0.9, 'крабовый салат'],
+        ['салат столичный', 186, 8.1, 15.5, 3.9, 0.6, 'столичный'],
+        ['салат оливье с колбасой', 198, 5.5, 16.5, 6.8, 1.1, 'оливье с колбасой'],
+        ['салат оливье с курицей', 160, 6.1, 12.6, 6.2, 1.1],
+        ['салат нисуаз', 112, 8.5, 6.4, 5.3, 1.3, 'нисуаз'],
+        ['салат капрезе', 219, 11.6, 18.5, 2.3, 0.4, 'капрезе'],
+        ['салат витаминный', 37, 1.3, 0.1, 8, 2.3, 'салат из капусты и моркови'],
+        ['салат из капусты', 50, 1.5, 3.5, 3.4, 1.7, 'капустный салат|коулслоу'],
+        ['салат из огурцов и помидоров со сметаной', 60, 1.4, 4.2, 3.9, 1, 'салат со сметаной'],
+        ['салат из огурцов и помидоров с маслом', 75, 0.9, 6.3, 3.7, 1],
+        ['салат из свеклы с черносливом', 130, 1.5, 6.6, 15.8, 2.6],
+        ['салат из свеклы с орехами', 168, 3.5, 11.6, 11.4, 2.6],
+        ['салат с тунцом', 110, 9.3, 6.2, 3.9, 1.2],
+        ['салат с курицей и ананасом', 173, 9, 12.2, 6.9, 0.5],
+        ['салат с кальмарами', 125, 8.5, 8.8, 3.2, 0.6],
+        ['салат из морской капусты с яйцом', 120, 3.1, 9.8, 4.4, 0.7],
+        ['салат с фасолью', 140, 5.8, 8.7, 10.2, 3.6],
+        ['салат с рукколой и креветками', 100, 8.5, 6.3, 2.4, 0.9],
+        ['салат с печенью трески', 270, 8, 24.5, 3.4, 0.5],
+        ['салат табуле', 118, 2.9, 6.1, 13.6, 2.3, 'табуле'],
+        ['салат фунчоза с овощами', 147, 1.6, 5.4, 22.7, 1, 'фунчоза салат'],
+        ['салат морковный со сметаной', 82, 1.3, 5.2, 7.3, 1.9],
+        ['салат с крабовыми палочками и кукурузой', 173, 4.5, 13, 10, 1],
+        ['салат из редиса со сметаной', 50, 1.5, 3.4, 3.8, 1.3],
+        ['салат из шпината', 36, 2.5, 1.5, 3.6, 2],
+        ['салат с моцареллой', 168, 8.5, 13.3, 3.2, 0.7],
+        ['салат с курицей и грибами', 158, 9.1, 12.3, 2.7, 0.7, 'нежность'],
+        ['салат обжорка', 206, 7.7, 17.2, 5.4, 1.1, 'обжорка'],
+        ['селедка с луком', 170, 12.7, 11.3, 4.1, 0.7],
+        ['икра свекольная', 90, 1.7, 5, 9.6, 2.3],
+        ['икра грибная', 113, 3.1, 9, 5.1, 2.1, 'грибная икра'],
+        ['закуска из баклажанов', 120, 1.5, 10, 6, 2.9],
+        ['паштет овощной', 95, 1.8, 7.3, 5.5, 2],
+        ['котлеты овощные', 155, 3.3, 7.8, 17.8, 2.7, 'овощные котлеты'],
+        ['котлеты морковные', 88, 2.9, 3.6, 11.8, 2.4],
+        ['котлеты капустные', 106, 3.2, 5, 12.6, 2.5],
+        ['котлеты картофельные', 167, 3.7, 7.4, 22.2, 1.8],
+        ['котлеты гречневые', 167, 5.7, 5.5, 24.1, 2.1, 'гречаники'],
+        ['котлеты из чечевицы', 155, 8.4, 5.1, 19.4, 4],
+        ['макароны с фаршем', 200, 9, 9, 20.5, 1],
+        ['макароны с сыром запеченные', 190, 7.6, 8.4, 21.2, 0.9, 'мак энд чиз'],
+        ['макароны с курицей', 150, 10, 4.4, 17.6, 0.8],
+        ['спагетти с морепродуктами', 140, 9.5, 3.6, 17.4, 0.9],
+        ['паста с лососем в сливочном соусе', 185, 9, 9.5, 16.5, 0.7],
+        ['паста альфредо', 195, 7.3, 9.8, 19.5, 0.9, 'альфредо'],
+        ['паста примавера', 118, 3.7, 3.6, 18.1, 1.7, 'примавера'],
+        ['паста с песто', 227, 6.6, 11.8, 24.2, 1.5],
+        ['паста с грибами', 150, 4.9, 6.2, 19.3, 1.3],
+        ['лапша с курицей в соусе', 156, 9.2, 4.9, 18.6, 1, 'вок с курицей'],
+        ['лапша вок с говядиной', 155, 9.5, 5.3, 17.6, 1.1, 'вок с говядиной'],
+        ['лапша вок с морепродуктами', 139, 7.9, 4.2, 17.4, 1.1],
+        ['лапша удон с курицей', 139, 7.3, 3.7, 19.2, 1],
+        ['пад тай', 157, 7, 5.8, 19.6, 1.3, 'пад-тай|пад тай с курицей'],
+        ['лазанья вегетарианская', 133, 6.3, 5.6, 15.2, 1.7],
+        ['каннеллони с мясом', 164, 8.3, 7.9, 15, 1.1],
+        ['ризотто с курицей', 142, 7.3, 4.6, 18, 0.5],
+        ['ризотто с морепродуктами', 138, 7, 4.2, 18.4, 0.5],
+        ['паэлья', 156, 8.5, 4.6, 20.1, 0.9],
+        ['плов с курицей', 155, 7.7, 5.7, 18.2, 0.7],
+        ['плов вегетарианский', 126, 2.5, 4.3, 19.5, 1.2],
+        ['рис с овощами', 101, 2.1, 2.6, 17.4, 1.1],
+        ['рис с курицей и овощами', 125, 8.4, 3.3, 15.5, 1],
+        ['ризотто с тыквой', 119, 2.8, 3.9, 18.5, 1],
+        ['гречка с грибами', 117, 4.1, 3.6, 17.3, 2.6],
+        ['гречка с овощами', 104, 3.5, 3.1, 15.9, 2.5],
+        ['гречка с луком и морковью', 110, 3.6, 3.5, 16.5, 2.6],
+        ['гречка по-монастырски', 135, 4.8, 4.7, 18.5, 2.7],
+        ['каша гречневая с маслом', 132, 4.2, 3.9, 20.6, 2.7],
+        ['каша рисовая с тыквой', 98, 1.7, 2.9, 16.1, 0.6],
+        ['перловка с грибами', 104, 2.7, 2.9, 17.3, 2.6],
+        ['перловка с мясом', 147, 7.8, 5.9, 15.8, 2],
+        ['макароны по-флотски с курицей', 168, 10.2, 5.2, 20.2, 0.9],
+        ['голубцы ленивые', 146, 7.3, 8.6, 9.8, 1.3, 'ленивые голубцы'],
+        ['голубцы с рисом и овощами', 76, 2.3, 2.5, 11.3, 1.8, 'постные голубцы'],
+        ['капуста тушеная с мясом', 109, 6.6, 6.5, 5.8, 2.1, 'бигус|солянка из капусты'],
+        ['капуста тушеная с сосисками', 126, 4.9, 9.2, 5.8, 1.8],
+        ['картофель тушеный с мясом', 120, 6.5, 6.3, 9.7, 1.1, 'тушеная картошка с мясом'],
+        ['картофель с курицей в духовке', 133, 9.8, 5.8, 10.1, 1.1],
+        ['картошка с грибами', 98, 2.4, 4.5, 12.3, 1.8, 'картошка жареная с грибами'],
+        ['картофельная запеканка с грибами', 113, 3.1, 5.3, 13.8, 1.5],
+        ['запеканка с курицей и брокколи', 118, 11.2, 6.1, 4.4, 1],
+        ['запеканка из кабачков', 95, 5.2, 6.4, 4.2, 0.8],
+        ['запеканка овощная', 78, 3.5, 4.6, 5.9, 1.7],
+        ['рагу из курицы с овощами', 96, 9.2, 4.2, 5.3, 1.5],
+        ['рагу из кролика', 135, 12.6, 7.1, 5.2, 1.3],
+        ['гуляш из свинины', 165, 12.9, 11.6, 2.5, 0.4],
+        ['гуляш из курицы', 121, 13.9, 5.8, 3.5, 0.5],
+        ['бефстроганов из курицы', 150, 15.8, 8.1, 3.2, 0.3],
+        ['фрикасе из курицы', 151, 14.5, 9.2, 2.8, 0.2, 'фрикасе'],
+        ['курица в йогуртовом соусе', 135, 17.4, 5.6, 3.6, 0.2],
+        ['поджарка из свинины', 270, 17.8, 20.6, 3.3, 0.5, 'поджарка'],
+        ['мясо по-тайски', 158, 13.5, 8.6, 6.4, 0.9],
+        ['говядина по-китайски', 165, 13.4, 8.9, 8.3, 0.8],
+        ['свинина в кисло-сладком соусе', 230, 12.6, 11.8, 18.3, 0.6],
+        ['тефтели из индейки с рисом', 135, 11.8, 5.1, 10.7, 0.4],
+        ['чили кон карне', 108, 8.3, 4.3, 9, 2.8, 'чили'],
+        ['энчилада', 168, 8.1, 8.2, 16.2, 2.1],
+        ['фаршированные кабачки с рисом', 95, 5.2, 4.9, 7.6, 1],
+        ['перец фаршированный мясом и рисом', 118, 6.8, 6.5, 8, 1.7],
+        ['баклажаны фаршированные', 120, 6.5, 8.2, 5.2, 2.2],
+        ['кабачки с сыром запеченные', 88, 4.8, 6, 4.1, 1],
+        ['цветная капуста в кляре', 120, 4.2, 7.2, 9.9, 1.9],
+        ['брокколи с сыром', 92, 5.2, 6.1, 4.1, 2.2],
+        ['овощи гриль с сыром', 110, 4.6, 7.6, 5.6, 2.1],
+        ['драники с мясом', 210, 8.2, 12.8, 16.1, 1.6],
+        ['драники со сметаной', 198, 3.9, 11.9, 18.7, 1.8],
+        ['ежики мясные', 146, 10.3, 7.7, 8.3, 0.4, 'ежики|тефтели с рисом'],
+        ['тефтели рыбные в соусе', 123, 9.4, 6.3, 7.2, 0.6],
+        ['рыба с картошкой в духовке', 120, 8.6, 5.2, 9.7, 1],
+        ['рыба по-польски', 124, 12.5, 7, 2, 0],
+        ['рыба в кляре с картофелем фри', 244, 12, 12.3, 21.3, 1.8, 'фиш энд чипс'],
+        ['рыба под сырной корочкой', 175, 17.4, 10.7, 1.5, 0.1],
+        ['морепродукты в сливочном соусе', 145, 12.3, 9.5, 2.6, 0.1],
+        ['кальмары в сметане', 142, 13.4, 8.2, 3.9, 0],
+        ['креветки в чесночном соусе', 165, 17.4, 9.6, 2.1, 0.2],
+        ['мидии в сливочном соусе', 140, 10.6, 8.4, 5.1, 0.2],
+        ['каша пшенная с мясом', 150, 8, 6.2, 15.6, 0.8],
+        ['каша овсяная с яблоком', 93, 2.7, 1.7, 16.9, 2],
+        ['каша кукурузная с сыром', 140, 5.2, 5.7, 17.3, 1],
+        ['ленивые пельмени', 202, 9.8, 8.7, 21, 1],
+        ['завтрак английский', 182, 10.4, 12.7, 6.1, 1.5, 'английский завтрак'],
+        ['гренки с яйцом', 225, 9.7, 11.1, 22.1, 1.2, 'французские тосты'],
+        ['бутерброд с маслом', 361, 6.3, 20.6, 37.8, 2, 'хлеб с маслом'],
+        ['бутерброд с маслом и сыром', 368, 12.5, 22.3, 29, 1.7],
+        ['бутерброд с икрой', 280, 11.4, 14.9, 25.7, 1.3],
+        ['бутерброд с красной рыбой', 230, 12.5, 9.9, 22.6, 1.4],
+        ['бутерброд с ветчиной', 245, 11.4, 10.4, 27.3, 1.5],
+        ['бутерброд с паштетом', 285, 9.1, 15.2, 28.2, 1.8],
+        ['бутерброд с арахисовой пастой', 370, 13, 19.3, 37.5, 4],
+        ['бутерброд с авокадо и яйцом', 212, 8.2, 11.5, 19.5, 4.4],
+        ['боул с курицей', 131, 10.3, 4.8, 11.9, 2.1, 'боул'],
+        ['боул с лососем', 148, 8.8, 6.5, 13.7, 1.9],
+        ['боул с киноа и овощами', 115, 4.3, 4.5, 14.4, 2.9, 'будда боул'],
+        ['шакшука с фетой', 125, 7.1, 8.7, 4.5, 1.2],
+        ['яйца бенедикт', 225, 11.6, 15.7, 9.7, 0.5, 'бенедикт'],
+        ['омлет с шпинатом', 135, 9.5, 10, 2, 0.8],
+        ['хумус с лепешкой', 220, 7.2, 8.4, 29.3, 4.5],
+    ],
+    'Специи и приправы': [
+        ['соль поваренная', 0, 0, 0, 0, 0, 'соль'],
+        ['соль морская', 0, 0, 0, 0, 0],
+        ['перец черный молотый', 251, 10.4, 3.3, 38.7, 25.3, 'черный перец'],
+        ['перец красный молотый', 318, 12, 17.3, 28.5, 27.2, 'паприка острая|кайенский перец'],
+        ['паприка сладкая', 282, 14.1, 12.9, 19.1, 34.9, 'паприка'],
+        ['паприка копченая', 282, 14.1, 12.9, 19.1, 34.9],
+        ['перец душистый', 263, 6.1, 8.7, 50.5, 21.6, 'душистый перец'],
+        ['куркума', 312, 9.7, 3.3, 44.4, 22.7],
+        ['карри порошок', 325, 14.3, 14, 25.2, 33.2, 'приправа карри'],
+        ['корица молотая', 247, 4, 1.2, 27.5, 53.1, 'корица'],
+        ['имбирь молотый', 335, 9, 4.2, 57.5, 14.1, 'имбирь сушеный'],
+        ['кардамон', 311, 10.8, 6.7, 40.5, 28],
+        ['гвоздика', 274, 6, 13, 31.6, 33.9, 'гвоздика пряность'],
+        ['мускатный орех молотый', 525, 5.8, 36.3, 28.5, 20.8],
+        ['зира', 375, 17.8, 22.3, 33.7, 10.5, 'кумин'],
+        ['кориандр семена', 298, 12.4, 17.8, 13.1, 41.9, 'семена кориандра'],
+        ['семена укропа', 305, 16, 14.5, 34.1, 21.1],
+        ['фенхель семена', 345, 15.8, 14.9, 12.5, 39.8],
+        ['тмин', 333, 19.8, 14.6, 11.9, 38],
+        ['бадьян', 337, 17.6, 15.9, 35.4, 14.6, 'звездчатый анис|анис'],
+        ['горчичный порошок', 508, 26.1, 36.2, 16.3, 12.2],
+        ['хмели-сунели', 290, 11, 6, 43, 26],
+        ['сумах', 239, 4.7, 14, 27, 31, 'сумах специя'],
+        ['прованские травы', 275, 9, 5, 29, 38, 'итальянские травы'],
+        ['базилик сушеный', 233, 23, 4.1, 10.3, 37.7],
+        ['укроп сушеный', 253, 20, 4.36, 42.2, 13.6],
+        ['петрушка сушеная', 292, 26.6, 5.5, 23.8, 26.7],
+        ['лавровый лист', 313, 7.6, 8.4, 48.7, 26.3, 'лавровый'],
+        ['розмарин сушеный', 331, 4.9, 15.2, 21.5, 42.6],
+        ['тимьян сушеный', 276, 9.1, 7.4, 26.9, 37],
+        ['ванилин', 0, 0, 0, 0, 0, 'ванилин порошок'],
+        ['чеснок гранулированный', 331, 16.6, 0.7, 63.7, 9, 'чесночные гранулы'],
+        ['лук сушеный', 341, 10.2, 1.1, 64.9, 9.2, 'лук сушеный хлопья'],
+        ['приправа для курицы', 250, 8, 4, 42, 10],
+        ['приправа для плова', 270, 10, 8, 35, 18],
+        ['приправа универсальная', 150, 6, 2, 25, 6, 'вегета'],
+        ['бульонный кубик', 220, 15, 14, 8, 0, 'кубик бульонный'],
+        ['глутамат натрия', 0, 0, 0, 0, 0, 'глутамат'],
+        ['желатин', 355, 87.2, 0.4, 0.7, 0],
+        ['агар-агар', 306, 6.2, 0.3, 73.2, 7.7, 'агар'],
+        ['пектин', 325, 0.3, 0.3, 77.4, 8.6, 'пектин яблочный'],
+        ['лимонная кислота', 0, 0, 0, 0, 0],
+        ['сода пищевая', 0, 0, 0, 0, 0, 'сода'],
+        ['пищевые дрожжи', 325, 50, 4, 22, 18, 'неактивные дрожжи'],
+        ['какао тертое', 590, 12, 52.5, 8, 33, 'какао масса'],
+        ['масло какао', 899, 0, 99.8, 0, 0],
+        ['шоколадная крошка', 500, 5, 30, 60, 3, 'шоколадные капли'],
+        ['кондитерская посыпка', 390, 0, 1, 95, 0, 'посыпка'],
+        ['мастика сахарная', 400, 0, 1, 97, 0, 'мастика'],
+        ['глазурь шоколадная', 540, 4, 33, 56, 3],
+        ['крем заварной', 212, 4.4, 11, 24, 0, 'заварной крем'],
+        ['крем сливочный', 530, 1, 49, 22, 0, 'масляный крем'],
+        ['крем-чиз для торта', 332, 4.8, 29, 12.4, 0, 'крем чиз крем'],
+        ['сгущенка с маслом крем', 480, 4, 35, 38, 0],
+    ],
+    'Детское питание': [
+        ['смесь молочная детская сухая', 516, 10.6, 27.5, 56.5, 0, 'детская смесь'],
+        ['смесь молочная готовая', 67, 1.4, 3.6, 7.3, 0, 'смесь детская готовая'],
+        ['пюре яблочное детское', 44, 0.3, 0.1, 10.4, 1.4, 'детское пюре яблоко'],
+        ['пюре грушевое детское', 47, 0.3, 0.1, 11, 2],
+        ['пюре банановое детское', 86, 1, 0.3, 19.7, 1.4],
+        ['пюре из чернослива детское', 73, 0.5, 0.1, 17.6, 3],
+        ['пюре фруктовое детское', 55, 0.4, 0.2, 12.8, 1.3, 'фруктовое пюре'],
+        ['пюре из кабачков детское', 24, 0.6, 0.1, 4.3, 1, 'кабачковое пюре'],
+        ['пюре из брокколи детское', 31, 2.4, 0.3, 3.4, 2.2],
+        ['пюре из цветной капусты детское', 29, 1.7, 0.3, 3.6, 1.8],
+        ['пюре из тыквы детское', 28, 0.9, 0.1, 5.7, 1.5],
+        ['пюре морковное детское', 32, 0.7, 0.1, 6.9, 2],
+        ['пюре мясное говядина детское', 101, 10.5, 6.3, 0.5, 0, 'пюре из говядины'],
+        ['пюре из индейки детское', 96, 10.3, 5.9, 0.3, 0],
+        ['пюре из кролика детское', 110, 11.1, 7, 0.4, 0],
+        ['пюре из курицы детское', 123, 10.5, 9, 0.4, 0],
+        ['пюре мясо-овощное детское', 68, 4.1, 2.6, 7.2, 1.2],
+        ['пюре рыбное детское', 88, 10, 5, 1, 0],
+        ['творожок фруктовый детский', 111, 5.3, 3.8, 14, 0.3],
+        ['йогурт детский', 82, 2.9, 2.7, 11.8, 0],
+        ['кефир детский', 43, 2.8, 2.5, 4, 0],
+        ['каша молочная детская сухая', 413, 10.5, 9.4, 69, 2],
+        ['каша безмолочная детская сухая', 375, 8, 2, 80, 3, 'каша детская на воде'],
+        ['каша гречневая детская готовая', 65, 2, 1.7, 10.3, 0.6],
+        ['каша рисовая детская готовая', 68, 1.5, 2.1, 10.8, 0.3],
+        ['каша овсяная детская готовая', 70, 2.1, 2.2, 10.4, 0.9],
+        ['печенье детское', 430, 8.4, 11.9, 72.6, 1.7, 'детское печенье'],
+        ['сок яблочный детский', 46, 0.1, 0.1, 11.3, 0.2, 'детский сок'],
+        ['компот детский', 43, 0, 0, 10.9, 0.1],
+        ['вода детская', 0, 0, 0, 0, 0],
+        ['сушки детские', 353, 10, 2.3, 73, 2.6],
+        ['пюре сливочно-фруктовое', 90, 1, 3.5, 14, 0.8],
+        ['фруктовые хрустики детские', 380, 1.6, 0.5, 90, 7],
+    ],
+    'Блюда кухонь мира': [
+        ['карбонара с беконом', 210, 8.6, 10.5, 20.1, 0.9],
+        ['спагетти аматричана', 150, 5.4, 5.6, 19.6, 1.5, 'аматричана'],
+        ['спагетти аль помодоро', 120, 3.9, 2.6, 20.3, 1.7, 'спагетти с томатами'],
+        ['спагетти алио олио', 204, 5.2, 7.8, 28.4, 1.4, 'алио олио'],
+        ['паста путтанеска', 135, 4.4, 4.5, 19.1, 1.7, 'путтанеска'],
+        ['пенне арабьята', 128, 4.1, 3.4, 20.2, 1.7, 'арабьята'],
+        ['тортеллини с сыром', 250, 10.5, 8.2, 33, 1.5, 'тортеллини'],
+        ['равиоли с рикоттой и шпинатом', 195, 8.4, 6.8, 25, 1.8],
+        ['ньокки с соусом песто', 190, 4.1, 8.5, 24.5, 1.9],
+        ['лазанья болоньезе', 165, 9.1, 8.3, 13.8, 1],
+        ['ризотто миланское', 150, 3.5, 5.2, 22, 0.3, 'ризотто с шафраном'],
+        ['оссобуко', 150, 18.1, 6.4, 3.3, 0.5],
+        ['вителло тоннато', 180, 18.5, 10.7, 1.5, 0.1],
+        ['карпаччо из говядины', 128, 17.7, 6.2, 0.3, 0, 'карпаччо'],
+        ['брускетта с лососем', 196, 9.6, 7.7, 22.2, 1.3],
+        ['фокачча с розмарином', 257, 6.3, 8.8, 37.9, 1.8],
+        ['минестроне с пастой', 56, 2.1, 1.4, 8.8, 1.6],
+        ['пицца маргарита неаполитанская', 227, 9.2, 8.1, 29.1, 1.5, 'неаполитанская пицца'],
+        ['кассуле', 141, 9.9, 6.5, 10.6, 3.3],
+        ['рататуй по-провански', 54, 1.2, 3.5, 4.7, 1.8],
+        ['киш лорен', 290, 10.3, 20.7, 15.6, 0.6, 'киш'],
+        ['луковый пирог', 240, 6.1, 15.2, 20.4, 1.1],
+        ['беф бургиньон', 158, 16.6, 7.8, 3.6, 0.7, 'бургиньон'],
+        ['кок о вен', 150, 15.3, 7.9, 2.8, 0.5, 'петух в вине'],
+        ['крок-мадам', 282, 16.1, 16.4, 17.3, 0.8],
+        ['буйабес', 70, 8.3, 3.1, 2.1, 0.4],
+        ['тартифлет', 198, 8.2, 12.2, 14.4, 1.3],
+        ['паэлья с морепродуктами', 150, 9.5, 3.7, 19.4, 0.8],
+        ['тортилья испанская', 160, 5.6, 9.5, 13.2, 1.3, 'испанский омлет'],
+        ['пататас бравас', 163, 2.2, 9.2, 18.7, 2.2, 'бравас'],
+        ['хамон с дыней', 110, 7.1, 3.7, 12.1, 0.8],
+        ['чурраско', 247, 24.8, 16, 0, 0],
+        ['шницель венский', 272, 17.5, 13.1, 21.2, 0.8, 'венский шницель'],
+        ['сосиски с капустой', 147, 5.9, 11.7, 4.6, 2.2],
+        ['айнтопф', 62, 3.8, 2.4, 6.1, 1.4],
+        ['картофельный салат по-немецки', 143, 2.4, 8.6, 14.1, 1.5, 'картофельный салат'],
+        ['гуляш венгерский', 130, 11.4, 7.5, 4.3, 0.9],
+        ['паприкаш из курицы', 132, 12.7, 7.5, 3.1, 0.6, 'паприкаш'],
+        ['пастуший пирог', 118, 6.6, 5.1, 11.2, 1.3, 'шепердс пай'],
+        ['говядина веллингтон', 275, 14.2, 17.6, 14.1, 0.8, 'веллингтон'],
+        ['сувлаки', 193, 21.1, 10.7, 2.5, 0.3, 'сувлаки из свинины'],
+        ['спанакопита', 250, 7.4, 15.5, 20.4, 2.2],
+        ['долма', 174, 7.4, 11.4, 10.7, 1.9, 'толма'],
+        ['кебаб адана', 265, 16.5, 21, 2.5, 0.4, 'адана кебаб'],
+        ['искандер кебаб', 190, 12.2, 10.1, 12.1, 1],
+        ['лахмаджун', 225, 9.6, 7.3, 29.4, 2, 'турецкая пицца'],
+        ['пиде', 255, 10.7, 9.1, 32.4, 1.6],
+        ['менемен', 98, 5.6, 7.1, 3.2, 1.1],
+        ['кюфта', 262, 15.6, 19.7, 5.6, 0.6, 'кофта'],
+        ['шакшука с колбасой', 145, 8.5, 10.9, 3.5, 1.1],
+        ['табуле с киноа', 127, 3.7, 6.2, 14.1, 2.5],
+        ['баба гануш', 120, 2.1, 9.9, 6.6, 3, 'баба гануж'],
+        ['мутабаль', 140, 3, 11.5, 6.5, 3.1],
+        ['фатуш', 77, 1.5, 5.1, 6.8, 1.9],
+        ['кус-кус с курицей', 145, 10.3, 4.2, 16.4, 1.3],
+        ['тажин с курицей', 120, 11.5, 5.6, 5.6, 1.5, 'тажин'],
+        ['шаурма тарелка', 165, 11.6, 8.9, 10.1, 1.3],
+        ['хумус с мясом', 195, 10.5, 12.5, 10.5, 4.2],
+        ['плов ферганский', 225, 7.2, 12.6, 21.1, 0.8],
+        ['манты с бараниной', 240, 11.2, 12.3, 21.6, 1],
+        ['самса с тыквой', 230, 4.5, 12, 26.6, 1.6],
+        ['бешбармак', 196, 11.8, 9.7, 15.1, 0.6],
+        ['казы', 405, 16, 38, 0, 0],
+        ['чучвара', 240, 11.5, 10.1, 25.6, 1.1],
+        ['нарын', 180, 12.5, 7.8, 15.1, 0.6],
+        ['кавурма', 325, 19, 27.8, 0, 0],
+        ['димлама', 92, 5.7, 4.8, 6.9, 1.6],
+        ['шашлык из говядины', 185, 25.4, 9.3, 0, 0],
+        ['хинкали с сыром', 222, 10.4, 9.1, 24.8, 1],
+        ['аджарули', 297, 11.2, 14, 31.5, 1.1],
+        ['пхали', 145, 3.5, 11.5, 7.3, 3.6, 'пхали из шпината'],
+        ['сациви', 228, 15.1, 16.8, 4.3, 1.2],
+        ['чакапули', 135, 14.3, 7.5, 2.1, 1.1],
+        ['купаты жареные', 305, 13.7, 27.2, 0.5, 0],
+        ['кюфта бозбаш', 110, 7.1, 6.3, 6.4, 1.4],
+        ['кутабы с зеленью', 180, 5.3, 6.6, 26.1, 2.3],
+        ['драники белорусские', 208, 4, 11.5, 22, 2],
+        ['мачанка', 220, 13.7, 16.2, 4.7, 0.4],
+        ['колдуны', 230, 10.4, 11.6, 20.6, 1.6],
+        ['вареники с вишней и сметаной', 200, 4.5, 4.1, 36, 1],
+        ['галушки полтавские', 175, 6.5, 5, 26.5, 1.1],
+        ['деруны', 200, 4, 11, 21.5, 2],
+        ['холодник литовский', 52, 2.2, 2.5, 5.4, 1.1],
+        ['цеппелины', 192, 7.1, 8.8, 21.1, 1.4, 'цепелины'],
+        ['суши сет', 150, 6.5, 3.5, 23, 0.6],
+        ['сашими ассорти', 150, 22, 6.5, 0, 0],
+        ['темпура овощная', 200, 3.2, 12.3, 19.1, 1.8, 'темпура'],
+        ['якитори', 170, 18.2, 7.5, 7, 0.3],
+        ['тонкацу', 290, 17, 17.5, 16.3, 0.9, 'свиная котлета в панко'],
+        ['оякодон', 140, 9.3, 4.2, 16.1, 0.4],
+        ['гюдон', 160, 7.3, 5.8, 19.4, 0.4],
+        ['кацудон', 205, 9.4, 8.1, 23.5, 0.5],
+        ['карри японское', 130, 5.4, 5.6, 14.3, 1.2, 'японское карри'],
+        ['окономияки', 178, 7.3, 10.1, 14.9, 1.3],
+        ['такояки', 176, 6.4, 9.2, 16.9, 0.5],
+        ['рамен тонкоцу', 95, 5.1, 4.2, 9.2, 0.4, 'тонкоцу'],
+        ['соба с овощами', 110, 4.2, 2.6, 18.1, 1.4],
+        ['бибимбап', 130, 6.3, 4.3, 16.6, 1.4, 'пибимпап'],
+        ['пулькоги', 175, 15.7, 8.9, 7.3, 0.5, 'бульгоги'],
+        ['кимчи чиге', 45, 3.2, 2.4, 2.7, 1.1],
+        ['ттокпокки', 185, 3.8, 3, 36, 0.9, 'токпокки'],
+        ['хе из рыбы', 138, 14.6, 6.7, 4.1, 1, 'хе'],
+        ['кукси', 100, 4.9, 3.5, 12.4, 1.1],
+        ['свинина гобаожоу', 245, 13, 11, 23, 0.3, 'гобаожоу|гуобаороу'],
+        ['мапо тофу', 110, 7.5, 7.6, 3.3, 0.6],
+        ['утка по-сычуаньски', 270, 17, 20.3, 4.2, 0.4],
+        ['лапша чоу мейн', 145, 5.6, 5.4, 18.7, 1.3, 'чоу мейн'],
+        ['рис жареный с креветками', 165, 6.4, 5.5, 22.1, 0.8],
+        ['димсамы с креветками', 165, 7.3, 5.4, 21.3, 0.8, 'димсам|хакао'],
+        ['баоцзы', 230, 9.2, 7.8, 30.8, 1.2, 'паровые булочки|бао'],
+        ['вонтоны', 200, 9.2, 7.6, 23.4, 0.8],
+        ['суп вонтон', 55, 3.5, 1.8, 6.1, 0.3],
+        ['том ям с креветками', 45, 3.6, 2.3, 2.5, 0.3],
+        ['грин карри', 125, 7.8, 8.5, 4.4, 1.1, 'зеленое карри'],
+        ['массаман карри', 165, 9.5, 11.2, 7.3, 1.5, 'массаман'],
+        ['пад си ю', 166, 7.1, 5.1, 22.9, 1, 'пад сиу'],
+        ['фо га', 58, 5, 1.2, 6.9, 0.2, 'фо с курицей'],
+        ['бан ми', 220, 10, 7.3, 28.7, 1.6, 'банх ми'],
+        ['наси горенг', 170, 6.2, 6.1, 22.6, 0.9],
+        ['сатай из курицы', 190, 19.8, 10.4, 4.8, 0.7, 'сатэ'],
+        ['ренданг', 195, 17.8, 12.4, 3.2, 0.9],
+        ['лакса', 105, 5.2, 6.8, 5.9, 0.6],
+        ['бирьяни с курицей', 165, 9.4, 5.1, 20.5, 0.9, 'бирьяни'],
+        ['дал', 110, 6.6, 3.1, 14.7, 3.7, 'дал из чечевицы'],
+        ['палак панир', 135, 7.1, 10, 4.9, 2.1],
+        ['курица тандури', 149, 21.9, 5.1, 3, 0.7, 'тандури'],
+        ['баттер чикен', 160, 13.2, 9.8, 5.3, 0.8, 'курица в масляном соусе'],
+        ['чана масала', 128, 5.6, 5.2, 15.4, 4.3],
+        ['алу гоби', 95, 2.2, 5.3, 10.1, 2.6],
+        ['самоса', 300, 5.9, 16.9, 31.3, 2.7],
+        ['наан', 290, 9.6, 5.1, 50.8, 2.2, 'лепешка наан'],
+        ['роти', 280, 8.5, 6.2, 46, 4.5],
+        ['пакора', 270, 7.5, 15.2, 25.5, 3.4],
+        ['ласси', 75, 3.5, 2.5, 10, 0, 'ласси манго'],
+        ['гуакамоле с начос', 230, 3.7, 14.9, 21.2, 4.2],
+        ['кесадилья с сыром', 300, 13.3, 16.4, 25.1, 1.6],
+        ['тамалес', 190, 6.2, 8.7, 22.5, 2.3],
+        ['чимичанга', 252, 10.2, 12.5, 25.1, 2],
+        ['фахитас с говядиной', 160, 12.5, 6.6, 13.1, 1.6],
+        ['севиче', 90, 14.8, 1.5, 4.1, 0.7],
+        ['поке боул с креветками', 130, 8.8, 3.6, 15.5, 1.5],
+        ['эмпанадас', 285, 10.1, 14.8, 27.9, 1.5, 'эмпанада'],
+        ['фейжоада', 140, 9.4, 7.1, 9.5, 3.4],
+        ['пастель де ната', 300, 5, 15, 37, 0.3, 'паштел де ната'],
+        ['бургер с говядиной и беконом', 290, 15.4, 17, 19.4, 1],
+        ['пулд порк', 205, 18.2, 9.5, 10.5, 0.3, 'рваная свинина'],
+        ['клэм чаудер', 78, 3.2, 4.3, 6.7, 0.5, 'чаудер'],
+        ['джамбалайя', 145, 9.2, 5.3, 15.3, 0.9],
+        ['коб салат', 154, 10.8, 11.1, 3.1, 1.3, 'салат кобб'],
+        ['картофельные скины', 210, 6.4, 12.8, 17.5, 2.1],
+        ['сэндвич рубен', 245, 13.7, 13.6, 17.3, 1.4],
+        ['лобстер ролл', 210, 10.8, 8.5, 22, 0.8],
+        ['брискет', 290, 24, 21, 0, 0, 'говяжья грудинка копченая'],
+    ],
+    'Консервы и заготовки': [
+        ['горошек и морковь консервированные', 42, 2.3, 0.2, 7.4, 2.5],
+        ['фасоль стручковая консервированная', 23, 1.1, 0.1, 3.4, 1.6],
+        ['овощное ассорти маринованное', 25, 1, 0.1, 4.8, 1.5, 'ассорти овощное'],
+        ['огурцы консервированные', 16, 0.5, 0.1, 3.1, 0.7],
+        ['перец фаршированный консервированный', 97, 1.7, 6.6, 7.5, 1.8],
+        ['икра кабачковая консервированная', 97, 1.2, 7, 7.4, 1.2],
+        ['икра баклажанная консервированная', 148, 1.7, 13.3, 5.1, 3],
+        ['салат из морской капусты консервированный', 49, 0.9, 2.8, 4.2, 0.6],
+        ['грибы консервированные', 24, 2.2, 0.4, 2.3, 2.5],
+        ['оливки консервированные', 145, 1, 15, 0.5, 3.3],
+        ['ананасы кусочками консервированные', 60, 0.4, 0.1, 15.2, 0.8],
+        ['кукуруза сахарная консервированная', 58, 2.2, 0.4, 11.2, 3.2],
+        ['томаты резаные консервированные', 23, 1.1, 0.2, 3.8, 1.1, 'томаты кубиками|помидоры резаные'],
+        ['томатный соус пассата', 31, 1.3, 0.2, 5.6, 1.4, 'пассата'],
+        ['соленья ассорти', 15, 0.9, 0.1, 2.5, 1.1],
+        ['капуста квашеная с клюквой', 29, 1.5, 0.1, 5.1, 2.4],
+        ['лечо консервированное', 63, 1.2, 3.5, 6.6, 1.8],
+        ['ветчина консервированная', 226, 17, 17.5, 0, 0],
+        ['тушенка куриная', 207, 18, 15, 0, 0],
+        ['печень трески консервированная', 613, 4.2, 65.7, 1.2, 0],
+        ['паштет консервированный', 301, 11.8, 28.6, 0.9, 0],
+        ['горбуша в собственном соку', 136, 20.9, 5.2, 0, 0],
+        ['сардина атлантическая в масле', 220, 19.7, 15.5, 0, 0],
+        ['килька в масле', 363, 17.4, 32.4, 0.4, 0],
+        ['шпроты в томатном соусе', 182, 14.6, 10.8, 5.6, 0.5],
+        ['тунец кусочками в масле', 198, 29.1, 8.2, 0, 0],
+        ['кальмар консервированный', 122, 17.9, 4.2, 2, 0],
+        ['мидии маринованные', 80, 11.5, 2, 3.3, 0],
+        ['креветки в рассоле', 89, 16, 1.5, 2.5, 0],
+        ['икра мойвы в соусе', 230, 7, 20, 3.5, 0],
+        ['фрукты консервированные в соку', 50, 0.5, 0.1, 12, 1],
+        ['ягоды протертые с сахаром', 230, 0.7, 0.2, 58, 2, 'протертая смородина'],
+        ['консервированная вишня без косточки', 55, 0.8, 0.1, 12.9, 1.1],
+        ['джем из смородины', 284, 0.6, 0, 72.5, 1.5],
+        ['варенье из крыжовника', 274, 0.3, 0.1, 71, 1.2],
+        ['варенье из шишек', 260, 0, 0, 65, 0],
+        ['варенье из одуванчиков', 300, 0, 0, 75, 0],
+        ['варенье клубничное', 285, 0.3, 0.1, 74, 1, 'клубничное варенье'],
+        ['варенье абрикосовое', 245, 0.5, 0, 63, 1, 'абрикосовое варенье'],
+        ['варенье из инжира', 270, 0.5, 0.1, 68, 2],
+        ['сгущенка в тюбике', 320, 7.2, 8.5, 56, 0],
+        ['суп быстрого приготовления сухой', 435, 11.1, 17.6, 58.7, 2.9, 'суп в пакетике'],
+        ['пюре быстрого приготовления сухое', 353, 7.7, 0.7, 78.8, 5.3, 'пюре в пакетике'],
+        ['каша быстрого приготовления овсяная', 375, 9, 6.4, 70, 6],
+        ['вермишель быстрого приготовления', 450, 9, 20, 58, 2.4, 'бомж-пакет'],
+        ['картофельное пюре быстрого приготовления готовое', 88, 1.9, 3.9, 11.4, 1],
+    ],
+    'Спортивное и диетическое питание': [
+        ['протеиновый батончик без сахара', 340, 33, 12, 22, 10],
+        ['протеиновый батончик с орехами', 400, 30, 16, 33, 6],
+        ['протеиновый пудинг', 90, 10, 1.8, 7.5, 0.3],
+        ['протеиновый напиток готовый', 60, 10, 0.8, 3.2, 0, 'протеиновый напиток'],
+        ['протеиновые блинчики', 210, 18, 6, 20, 2],
+        ['протеиновая паста шоколадная', 540, 22, 43, 17, 8],
+        ['изолят сывороточного протеина', 370, 90, 1, 2, 0, 'изолят'],
+        ['аминокислоты bcaa', 350, 87.5, 0, 0, 0, 'bcaa'],
+        ['креатин', 0, 0, 0, 0, 0],
+        ['коллаген порошок', 360, 90, 0, 0, 0, 'коллаген'],
+        ['клетчатка сибирская', 227, 17, 5, 19, 53.1, 'клетчатка'],
+        ['отруби хрустящие', 320, 13, 4, 45, 26],
+        ['хлебцы протеиновые', 380, 30, 9, 39, 12],
+        ['батончик мюсли без сахара', 400, 8, 18, 42, 12],
+        ['гейнер с креатином', 385, 22, 3.5, 68, 1.5],
+        ['изотоник порошок', 380, 0, 0, 95, 0],
+        ['энергетический гель', 268, 0, 0, 67, 0, 'гель энергетический'],
+        ['кето хлеб', 250, 19, 17, 5, 12, 'кето-хлеб'],
+        ['кето печенье', 490, 15, 42, 9, 11],
+        ['шоколад протеиновый', 450, 30, 27, 20, 8],
+        ['мармелад протеиновый', 290, 25, 0, 45, 5],
+        ['овсяная каша протеиновая', 372, 25, 6, 52, 8],
+        ['арахисовая паста протеиновая', 550, 35, 43, 10, 6],
+        ['сырок протеиновый', 180, 15, 8, 11, 0.5],
+        ['напиток на основе сои', 45, 3.3, 1.8, 3.6, 0.5],
+        ['заменитель сахара сукралоза', 0, 0, 0, 0, 0, 'сукралоза'],
+        ['сироп цикория', 275, 0.6, 0, 68.5, 6, 'инулин сироп'],
+        ['топинамбур порошок', 330, 6, 1, 65, 18],
+    ],
+};
+
+const buildReferenceFoods = (): ReferenceFood[] => {
+    const foods: ReferenceFood[] = [];
+    Object.entries(FOOD_TABLE).forEach(([category, rows]) => {
+        rows.forEach(([name, calories, protein, fat, carbohydrate, fiber, synonyms]) => {
+            foods.push({
+                id: `ref-${name.replace(/\s+/g, '-')}`,
+                name,
+                category,
+                synonyms: synonyms ? synonyms.split('|') : [],
+                per100g: { calories, protein, fat, carbohydrate, fiber },
+            });
+        });
+    });
+    return foods;
+};
+
+export const REFERENCE_FOODS: ReferenceFood[] = buildReferenceFoods();
@@ -0,0 +1,105 @@
+/**
+ * Таблицы для перевода бытовых мер в граммы.
+ *
+ * Шаблон — основы слов: каждое слово названия продукта должно начинаться
+ * с основы и продолжаться только окончанием («яйц» — «яйцо», «яйца»,
+ * но «соль» не совпадает с «фасоль», а «лимон» — с «лимонад»). Берётся первое
+ * совпадение, поэтому более узкие шаблоны идут раньше общих. Значения средние:
+ * вес стакана муки или штуки картофеля заметно колеблется.
+ */
+
+export type HouseholdUnitId = 'cup' | 'tbsp' | 'tsp' | 'piece';
+
+export interface HouseholdUnit {
+    id: HouseholdUnitId;
+    label: string;
+    // Объём меры в мл; у штук объёма нет — вес берётся из таблицы штук
+    volumeMl: number | null;
+}
+
+export const HOUSEHOLD_UNITS: HouseholdUnit[] = [
+    { id: 'cup', label: 'стак.', volumeMl: 250 },
+    { id: 'tbsp', label: 'ст. л.', volumeMl: 15 },
+    { id: 'tsp', label: 'ч. л.', volumeMl: 5 },
+    { id: 'piece', label: 'шт', volumeMl: null },
+];
+
+// Плотность в г/мл для сыпучих и жидких продуктов
+export const FOOD_DENSITIES: Array<[pattern: string, density: number]> = [
+    ['масл сливочн', 0.95],
+    ['сливочн масл', 0.95],
+    ['масл', 0.92],
+    ['сахарн пудр', 0.7],
+    ['сахар', 0.85],
+    ['мук', 0.55],
+    ['крахмал', 0.6],
+    ['соль', 1.2],
+    ['мед', 1.4],
+    ['сгущенк', 1.3],
+    ['сметан', 1.0],
+    ['йогурт', 1.05],
+    ['кефир', 1.03],
+    ['молок', 1.03],
+    ['сливк', 1.0],
+    ['овсян хлопь', 0.36],
+    ['хлопь', 0.4],
+    ['гречк сух', 0.72],
+    ['рис', 0.8],
+    ['пшен', 0.8],
+    ['манн', 0.64],
+    ['круп', 0.75],
+    ['какао', 0.5],
+    ['орех', 0.55],
+    ['семечк', 0.6],
+    ['семен', 0.6],
+    ['соус', 1.1],
+    ['кетчуп', 1.1],
+    ['майонез', 0.95],
+    ['уксус', 1.0],
+    ['сок', 1.04],
+    ['вод', 1.0],
+];
+
+// Средний вес одной штуки съедобной части, г
+export const PIECE_WEIGHTS: Array<[pattern: string, grams: number]> = [
+    ['яйц перепелин', 12],
+    ['перепелин яйц', 12],
+    ['яйц', 55],
+    ['зубчик', 5],
+    ['чеснок', 5],
+    ['яблок', 160],
+    ['груш', 150],
+    ['банан', 120],
+    ['апельсин', 150],
+    ['мандарин', 70],
+    ['лимон', 100],
+    ['киви', 70],
+    ['персик', 130],
+    ['картофел', 100],
+    ['картошк', 100],
+    ['батат', 150],
+    ['морков', 80],
+    ['лук репчат', 80],
+    ['луковиц', 80],
+    ['помидор черри', 15],
+    ['черри', 15],
+    ['помидор', 120],
+    ['томат', 120],
+    ['огурец', 100],
+    ['огурц', 100],
+    ['перец болгарск', 150],
+    ['болгарск перец', 150],
+    ['кабачок', 250],
+    ['кабачк', 250],
+    ['баклажан', 250],
+    ['хлеб', 30],
+    ['батон', 25],
+    ['лаваш', 60],
+    ['тортиль', 40],
+    ['сосиск', 50],
+    ['котлет', 90],
+    ['сырник', 60],
+    ['блин', 50],
+    ['печенье', 12],
+    ['печенья', 12],
+];
@@ -0,0 +1,14 @@
+import { MealSlot } from '../types';
+
+/**
+ * Стандартные приёмы пищи. Свои приёмы («Перед тренировкой», «Второй завтрак»)
+ * пользователь добавляет в конструкторе, они хранятся отдельно.
+ */
+export const DEFAULT_MEAL_SLOTS: MealSlot[] = [
+    { type: 'breakfast', label: 'Завтрак', emoji: '🌅', time: '08:00' },
+    { type: 'lunch', label: 'Обед', emoji: '☀️', time: '13:00' },
+    { type: 'snack', label: 'Перекус', emoji: '🍎', time: '16:00' },
+    { type: 'dinner', label: 'Ужин', emoji: '🌙', time: '19:00' },
+];
+
+export const CUSTOM_MEAL_SLOT_EMOJI = '🍽️';
@@ -0,0 +1,40 @@
+import { ModelPrice } from '../types';
+
+/**
+ * Ориентировочные цены моделей в долларах за 1 млн токенов (ввод / вывод).
+ * Провайдеры меняют цены, поэтому расходы в приложении — оценка;
+ * точные значения можно задать на экране расходов.
+ *
+ * Шаблон ищется как подстрока в ID модели, поэтому подходят и ID OpenRouter
+ * вида «openai/gpt-4o-mini». Более узкие шаблоны должны идти раньше общих.
+ */
+export const DEFAULT_MODEL_PRICES: Array<[pattern: string, price: ModelPrice]> = [
+    [':free', { input: 0, output: 0 }],
+    ['gpt-4o-mini', { input: 0.15, output: 0.6 }],
+    ['gpt-4o', { input: 2.5, output: 10 }],
+    ['gpt-4.1-nano', { input: 0.1, output: 0.4 }],
+    ['gpt-4.1-mini', { input: 0.4, output: 1.6 }],
+    ['gpt-4.1', { input: 2, output: 8 }],
+    ['gpt-5-nano', { input: 0.05, output: 0.4 }],
+    ['gpt-5-mini', { input: 0.25, output: 2 }],
+    ['gpt-5', { input: 1.25, output: 10 }],
+    ['o4-mini', { input: 1.1, output: 4.4 }],
+    ['o3-mini', { input: 1.1, output: 4.4 }],
+    ['claude-3-haiku', { input: 0.25, output: 1.25 }],
+    ['haiku', { input: 0.8, output: 4 }],
+    ['sonnet', { input: 3, output: 15 }],
+    ['opus', { input: 15, output: 75 }],
+    ['gemini-2.5-flash-lite', { input: 0.1, output: 0.4 }],
+    ['gemini-2.5-flash', { input: 0.3, output: 2.5 }],
+    ['gemini-2.5-pro', { input: 1.25, output: 10 }],
+    ['gemini-2.0-flash', { input: 0.1, output: 0.4 }],
+    ['gemini-1.5-flash', { input: 0.075, output: 0.3 }],
+    ['gemini-1.5-pro', { input: 1.25, output: 5 }],
+    ['deepseek-reasoner', { input: 0.55, output: 2.19 }],
+    ['deepseek-r1', { input: 0.55, output: 2.19 }],
+    ['deepseek', { input: 0.27, output: 1.1 }],
+    ['mistral-small', { input: 0.2, output: 0.6 }],
+    ['mistral-medium', { input: 0.4, output: 2 }],
+    ['mistral-large', { input: 2, output: 6 }],
+    ['pixtral', { input: 2, output: 6 }],
+];
@@ -0,0 +1,242 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PreparedRequest } from '../providerAdapters';
+import { requestJson, requestStream } from '../aiRequest';
+import { AIError } from '../aiErrors';
+import { MockServer, sendJson, sendSse, startMockServer } from './mockServer';
+
+let server: MockServer;
+
+const post = (path = '/chat'): PreparedRequest => ({
+    url: `${server.baseUrl}${path}`,
+    init: { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: '{}' },
+});
+
+const settings = (maxRetries = 0, timeoutSeconds = 5) => ({ timeoutSeconds, maxRetries });
+
+/**
+ * Ошибка запроса как AIError — чтобы проверять её вид и поля
+ */
+const failure = async (promise: Promise<unknown>): Promise<AIError> => {
+    try {
+        await promise;
+    } catch (error) {
+        expect(error).toBeInstanceOf(AIError);
+        return error as AIError;
+    }
+    throw new Error('Ожидалась ошибка запроса');
+};
+
+beforeAll(async () => {
+    server = await startMockServer();
+});
+
+beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    server.requests.length = 0;
+    vi.restoreAllMocks();
+});
+
+afterAll(async () => {
+    await server.close();
+});
+
+describe('requestJson: ошибки провайдера', () => {
+    it.each([
+        [401, { error: { message: 'Invalid API key' } }, 'auth'],
+        [403, { error: { message: 'Forbidden' } }, 'auth'],
+        [402, { error: { message: 'Payment required' } }, 'quota'],
+        [429, { error: { message: 'You exceeded your current quota' } }, 'quota'],
+        [429, { error: { message: 'Rate limit reached' } }, 'rate-limit'],
+        [400, { error: { message: 'Unknown model' } }, 'request'],
+        [404, { message: 'Not found' }, 'request'],
+        [408, {}, 'server'],
+        [503, { error: 'Service unavailable' }, 'server'],
+    ])('HTTP %i → %s', async (status, body, kind) => {
+        server.handle((_, res) => sendJson(res, status, body));
+
+        const error = await failure(requestJson(post(), { settings: settings() }));
+
+        expect(error.kind).toBe(kind);
+        expect(error.status).toBe(status);
+        expect(server.requests).toHaveLength(1);
+    });
+
+    it('добавляет текст ошибки из тела ответа', async () => {
+        server.handle((_, res) => sendJson(res, 400, { error: { message: 'max_tokens is too large' } }));
+
+        const error = await failure(requestJson(post(), { settings: settings() }));
+
+        expect(error.message).toContain('max_tokens is too large');
+    });
+
+    it('ответ не в формате JSON → parse', async () => {
+        server.handle((_, res) => {
+            res.writeHead(200, { 'Content-Type': 'text/html' });
+            res.end('<html>proxy</html>');
+        });
+
+        const error = await failure(requestJson(post(), { settings: settings() }));
+
+        expect(error.kind).toBe('parse');
+    });
+
+    it('недоступный сервер → network', async () => {
+        const closed = await startMockServer();
+        await closed.close();
+
+        const error = await failure(requestJson({ url: `${closed.baseUrl}/chat`, init: {} }, { settings: settings() }));
+
+        expect(error.kind).toBe('network');
+    });
+
+    it('сервер не ответил вовремя → timeout', async () => {
+        server.handle(() => {});
+
+        const error = await failure(requestJson(post(), { settings: settings(0, 1) }));
+
+        expect(error.kind).toBe('timeout');
+    });
+
+    it('отмена пользователем → cancelled', async () => {
+        server.handle(() => {});
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 50);
+
+        const error = await failure(requestJson(post(), { settings: settings(), signal: controller.signal }));
+
+        expect(error.kind).toBe('cancelled');
+    });
+});
+
+describe('requestJson: повторы', () => {
+    it('повторяет временный сбой и возвращает успешный ответ', async () => {
+        server.handle((_, res) => server.requests.length === 1
+            ? sendJson(res, 503, {}, { 'Retry-After': '0' })
+            : sendJson(res, 200, { ok: true }));
+
+        await expect(requestJson(post(), { settings: settings(2) })).resolves.toEqual({ ok: true });
+        expect(server.requests).toHaveLength(2);
+    });
+
+    it('ждёт столько, сколько указано в Retry-After', async () => {
+        server.handle((_, res) => server.requests.length === 1
+            ? sendJson(res, 429, { error: { message: 'Rate limit reached' } }, { 'Retry-After': '1' })
+            : sendJson(res, 200, { ok: true }));
+        const startedAt = Date.now();
+
+        await expect(requestJson(post(), { settings: settings(1) })).resolves.toEqual({ ok: true });
+
+        expect(Date.now() - startedAt).toBeGreaterThanOrEqual(950);
+        expect(server.requests).toHaveLength(2);
+    });
+
+    it('понимает Retry-After в виде HTTP-даты', async () => {
+        server.handle((_, res) => sendJson(res, 429, {}, { 'Retry-After': new Date(Date.now() + 120000).toUTCString() }));
+
+        const error = await failure(requestJson(post(), { settings: settings(3) }));
+
+        expect(error.kind).toBe('rate-limit');
+        expect(error.retryAfterMs).toBeGreaterThan(100000);
+    });
+
+    it('не ждёт, если Retry-After дольше разумного', async () => {
+        server.handle((_, res) => sendJson(res, 429, {}, { 'Retry-After': '120' }));
+
+        const error = await failure(requestJson(post(), { settings: settings(3) }));
+
+        expect(error.retryAfterMs).toBe(120000);
+        expect(server.requests).toHaveLength(1);
+    });
+
+    it('не повторяет ошибки, которые повтор не исправит', async () => {
+        server.handle((_, res) => sendJson(res, 401, {}));
+
+        const error = await failure(requestJson(post(), { settings: settings(3) }));
+
+        expect(error.kind).toBe('auth');
+        expect(server.requests).toHaveLength(1);
+    });
+
+    it('сдаётся после исчерпания попыток', async () => {
+        server.handle((_, res) => sendJson(res, 500, {}, { 'Retry-After': '0' }));
+
+        const error = await failure(requestJson(post(), { settings: settings(2) }));
+
+        expect(error.kind).toBe('server');
+        expect(server.requests).toHaveLength(3);
+    });
+
+    it('отмена во время ожидания повтора', async () => {
+        server.handle((_, res) => sendJson(res, 503, {}, { 'Retry-After': '10' }));
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 100);
+
+        const error = await failure(requestJson(post(), { settings: settings(1), signal: controller.signal }));
+
+        expect(error.kind).toBe('cancelled');
+        expect(server.requests).toHaveLength(1);
+    });
+});
+
+describe('requestStream', () => {
+    const collect = async (maxRetries = 0) => {
+        const events: any[] = [];
+        await requestStream(post(), { settings: settings(maxRetries) }, data => events.push(data));
+        return events;
+    };
+
+    it('склеивает события, разорванные между фрагментами, и пропускает [DONE]', async () => {
+        server.handle((_, res) => {
+            res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+            res.write(': keep-alive\n\ndata: {"n":1}\n\ndata: {"n"');
+            setTimeout(() => {
+                res.write(':2}\r\n\r\ndata: [DONE]\n\n');
+                res.end('data: {"n":3}');
+            }, 20);
+        });
+
+        await expect(collect()).resolves.toEqual([{ n: 1 }, { n: 2 }, { n: 3 }]);
+    });
+
+    it('ошибка посреди потока → server', async () => {
+        server.handle((_, res) => sendSse(res, [{ n: 1 }, { error: { message: 'upstream failed' } }]));
+
+        const error = await failure(collect());
+
+        expect(error.kind).toBe('server');
+        expect(error.message).toContain('upstream failed');
+    });
+
+    it('битый фрагмент → parse', async () => {
+        server.handle((_, res) => sendSse(res, ['{not json']));
+
+        const error = await failure(collect());
+
+        expect(error.kind).toBe('parse');
+    });
+
+    it('повторяет сбой до первого фрагмента', async () => {
+        server.handle((_, res) => server.requests.length === 1
+            ? sendJson(res, 502, {}, { 'Retry-After': '0' })
+            : sendSse(res, [{ n: 1 }]));
+
+        await expect(collect(2)).resolves.toEqual([{ n: 1 }]);
+        expect(server.requests).toHaveLength(2);
+    });
+
+    it('не повторяет запрос после первого фрагмента', async () => {
+        server.handle((_, res) => {
+            res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+            res.write('data: {"n":1}\n\n');
+            setTimeout(() => res.destroy(), 20);
+        });
+
+        const error = await failure(collect(2));
+
+        expect(error.kind).toBe('network');
+        expect(server.requests).toHaveLength(1);
+    });
+});
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { per100gSchema } from '../aiSchemas';
+
+describe('per100gSchema', () => {
+    it.each([
+        ['вода', { calories: 0, protein: 0, fat: 0, carbohydrate: 0, fiber: 0 }],
+        ['соль', { calories: 0, protein: 0, fat: 0, carbohydrate: 0, fiber: 0 }],
+        ['чай черный', { calories: 1, protein: 0.1, fat: 0, carbohydrate: 0.2, fiber: 0 }],
+    ])('принимает продукт без калорий: %s', (name, values) => {
+        const result = per100gSchema.validate({ name, ...values });
+
+        expect(result.errors).toEqual([]);
+        expect(result.value).toMatchObject(values);
+    });
+
+    it('отклоняет калории, не согласованные с БЖУ', () => {
+        const result = per100gSchema.validate({ name: 'сахар', calories: 0, protein: 0, fat: 0, carbohydrate: 99.8, fiber: 0 });
+
+        expect(result.value).toBeNull();
+        expect(result.errors[0]).toContain('не сходятся с БЖУ');
+    });
+});
@@ -0,0 +1,84 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiConfig } from '../../types';
+import { fetchIngredientData } from '../aiService';
+import { AIError } from '../aiErrors';
+import { MockServer, sendJson, startMockServer } from './mockServer';
+
+let server: MockServer;
+let storage: Map<string, string>;
+
+const configFor = (model: string): ApiConfig => ({
+    currentProviderId: 'custom-local',
+    customProviders: [{
+        id: 'custom-local',
+        name: 'Локальный сервер',
+        baseUrl: server.baseUrl,
+        requiresAuth: false,
+        protocol: 'openai',
+        isCustom: true,
+        authStyle: 'none',
+    }],
+    requestSettings: { timeoutSeconds: 5, maxRetries: 0 },
+    providers: { 'custom-local': { token: '', model } },
+});
+
+const setUsageSettings = (monthlyBudget: number | null, customPrices = {}) => {
+    storage.set('ai-usage-settings', JSON.stringify({ monthlyBudget, customPrices }));
+};
+
+beforeAll(async () => {
+    server = await startMockServer();
+});
+
+beforeEach(() => {
+    storage = new Map([['ai-cache-settings', JSON.stringify({ enabled: false, ttlDays: 30 })]]);
+    vi.stubGlobal('localStorage', {
+        getItem: (key: string) => storage.get(key) ?? null,
+        setItem: (key: string, value: string) => storage.set(key, value),
+        removeItem: (key: string) => storage.delete(key),
+    });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    server.handle((_, res) => sendJson(res, 200, {
+        choices: [{ message: { content: '{"calories":0,"protein":0,"fat":0,"carbohydrate":0,"fiber":0}' } }],
+        usage: { prompt_tokens: 100, completion_tokens: 20 },
+    }));
+});
+
+afterEach(() => {
+    server.requests.length = 0;
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+});
+
+afterAll(async () => {
+    await server.close();
+});
+
+describe('месячный лимит и модели без цены', () => {
+    it('без лимита модель без цены работает', async () => {
+        setUsageSettings(null);
+
+        await expect(fetchIngredientData('вода', configFor('local-model'))).resolves.toMatchObject({ calories: 0 });
+        expect(server.requests).toHaveLength(1);
+    });
+
+    it('при заданном лимите запрос к модели без цены не отправляется', async () => {
+        setUsageSettings(5);
+
+        const error = await fetchIngredientData('вода', configFor('local-model')).catch(e => e);
+
+        expect(error).toBeInstanceOf(AIError);
+        expect(error.kind).toBe('config');
+        expect(error.message).toContain('local-model');
+        expect(server.requests).toHaveLength(0);
+    });
+
+    it('с указанной ценой модель учитывается в лимите', async () => {
+        setUsageSettings(5, { 'local-model': { input: 1, output: 2 } });
+
+        await expect(fetchIngredientData('вода', configFor('local-model'))).resolves.toMatchObject({ calories: 0 });
+        const [record] = JSON.parse(storage.get('ai-usage-ledger'));
+        expect(record.cost).toBeCloseTo((100 * 1 + 20 * 2) / 1_000_000);
+    });
+});
@@ -0,0 +1,77 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+
+/**
+ * Запрос, который получил тестовый сервер
+ */
+export interface RecordedRequest {
+    method: string;
+    path: string;
+    headers: IncomingMessage['headers'];
+    body: any;
+}
+
+export type MockHandler = (request: RecordedRequest, response: ServerResponse) => void;
+
+export interface MockServer {
+    baseUrl: string;
+    requests: RecordedRequest[];
+    // Обработчик следующих запросов; по умолчанию сервер отвечает 404
+    handle: (handler: MockHandler) => void;
+    close: () => Promise<void>;
+}
+
+/**
+ * Локальный HTTP-сервер вместо API провайдера: запоминает запросы
+ * и отвечает так, как задано в тесте
+ */
+export const startMockServer = async (): Promise<MockServer> => {
+    const requests: RecordedRequest[] = [];
+    let handler: MockHandler = (_, response) => sendJson(response, 404, { error: { message: 'Not found' } });
+
+    const server = createServer((req, res) => {
+        let raw = '';
+        req.setEncoding('utf8');
+        req.on('data', chunk => { raw += chunk; });
+        req.on('end', () => {
+            let body: any = raw;
+            try {
+                body = raw ? JSON.parse(raw) : null;
+            } catch {
+                // Тело не JSON — оставляем строкой
+            }
+            const recorded = { method: req.method || 'GET', path: req.url || '/', headers: req.headers, body };
+            requests.push(recorded);
+            handler(recorded, res);
+        });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        baseUrl: `http://127.0.0.1:${port}`,
+        requests,
+        handle: next => { handler = next; },
+        close: () => new Promise<void>(resolve => {
+            server.closeAllConnections();
+            server.close(() => resolve());
+        }),
+    };
+};
+
+export const sendJson = (response: ServerResponse, status: number, data: unknown, headers: Record<string, string> = {}) => {
+    response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    response.end(JSON.stringify(data));
+};
+
+/**
+ * Отправляет события SSE по одному, как это делают API провайдеров
+ */
+export const sendSse = (response: ServerResponse, events: Array<unknown | string>) => {
+    response.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+    events.forEach(event => {
+        response.write(`data: ${typeof event === 'string' ? event : JSON.stringify(event)}\n\n`);
+    });
+    response.end();
+};
@@ -0,0 +1,297 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { ApiProvider } from '../../types';
+import { getProviderById } from '../../constants/apiProviders';
+import { getProviderAdapter, ChatMessage, ChatRequestOptions } from '../providerAdapters';
+import { requestJson, requestStream } from '../aiRequest';
+import { fetchModels } from '../aiService';
+import { MockServer, sendJson, sendSse, startMockServer } from './mockServer';
+
+const SETTINGS = { timeoutSeconds: 5, maxRetries: 0 };
+const IMAGE_DATA_URL = 'data:image/jpeg;base64,QUJD';
+
+const MESSAGES: ChatMessage[] = [
+    { role: 'system', content: 'Ты нутрициолог.' },
+    {
+        role: 'user',
+        content: [
+            { type: 'text', text: 'Что на фото?' },
+            { type: 'image_url', image_url: { url: IMAGE_DATA_URL } },
+        ],
+    },
+];
+
+let server: MockServer;
+
+// Встроенный провайдер с адресом тестового сервера
+const builtIn = (id: string, path: string): ApiProvider => ({ ...getProviderById(id)!, baseUrl: `${server.baseUrl}${path}` });
+
+const chatOptions = (provider: ApiProvider, overrides: Partial<ChatRequestOptions> = {}): ChatRequestOptions => ({
+    provider,
+    token: 'test-token',
+    model: 'test-model',
+    messages: MESSAGES,
+    isJson: false,
+    maxTokens: 256,
+    temperature: 0.1,
+    ...overrides,
+});
+
+/**
+ * Полный путь запроса: адаптер собирает запрос, сервер отвечает, адаптер разбирает ответ
+ */
+const chat = async (options: ChatRequestOptions) => {
+    const adapter = getProviderAdapter(options.provider.protocol);
+    const data = await requestJson(adapter.buildChatRequest(options), { settings: SETTINGS });
+    return { text: adapter.parseChatResponse(data), usage: adapter.parseUsage(data) };
+};
+
+const chatStream = async (options: ChatRequestOptions) => {
+    const adapter = getProviderAdapter(options.provider.protocol);
+    let text = '';
+    let usage = {};
+    await requestStream(adapter.buildChatRequest({ ...options, stream: true }), { settings: SETTINGS }, data => {
+        const delta = adapter.parseStreamEvent(data);
+        text += delta.text;
+        if (delta.usage) usage = { ...usage, ...delta.usage };
+    });
+    return { text, usage };
+};
+
+beforeAll(async () => {
+    server = await startMockServer();
+    // Заголовки атрибуции OpenRouter берут адрес страницы
+    vi.stubGlobal('window', { location: { origin: 'http://localhost:5173' } });
+});
+
+afterEach(() => {
+    server.requests.length = 0;
+});
+
+afterAll(async () => {
+    vi.unstubAllGlobals();
+    await server.close();
+});
+
+describe('OpenAI-совместимый протокол', () => {
+    it('отправляет Chat Completions с Bearer-токеном и разбирает ответ', async () => {
+        server.handle((_, res) => sendJson(res, 200, {
+            choices: [{ message: { content: '{"name":"яблоко"}' } }],
+            usage: { prompt_tokens: 12, completion_tokens: 5 },
+        }));
+
+        const result = await chat(chatOptions(builtIn('openrouter', '/api/v1/'), { isJson: true }));
+
+        expect(result).toEqual({ text: '{"name":"яблоко"}', usage: { promptTokens: 12, completionTokens: 5 } });
+        const [request] = server.requests;
+        expect(request.method).toBe('POST');
+        expect(request.path).toBe('/api/v1/chat/completions');
+        expect(request.headers['authorization']).toBe('Bearer test-token');
+        expect(request.headers['http-referer']).toBe('http://localhost:5173');
+        expect(request.body).toEqual({
+            model: 'test-model',
+            messages: MESSAGES,
+            temperature: 0.1,
+            max_tokens: 256,
+            response_format: { type: 'json_object' },
+        });
+    });
+
+    it('у пользовательского провайдера использует выбранную авторизацию и не шлёт атрибуцию', async () => {
+        server.handle((_, res) => sendJson(res, 200, { choices: [{ message: { content: 'ок' } }] }));
+        const provider: ApiProvider = {
+            id: 'custom-local',
+            name: 'Локальный сервер',
+            baseUrl: server.baseUrl,
+            requiresAuth: true,
+            protocol: 'openai',
+            isCustom: true,
+            authStyle: 'header',
+            authHeaderName: 'X-Secret',
+            extraHeaders: { 'X-Project': 'kbju' },
+        };
+
+        const result = await chat(chatOptions(provider));
+
+        expect(result).toEqual({ text: 'ок', usage: { promptTokens: 0, completionTokens: 0 } });
+        const { headers, body } = server.requests[0];
+        expect(headers['x-secret']).toBe('test-token');
+        expect(headers['x-project']).toBe('kbju');
+        expect(headers['authorization']).toBeUndefined();
+        expect(headers['http-referer']).toBeUndefined();
+        expect(body.response_format).toBeUndefined();
+    });
+
+    it('собирает потоковый ответ и расход токенов из последнего события', async () => {
+        server.handle((_, res) => sendSse(res, [
+            { choices: [{ delta: { role: 'assistant' } }] },
+            { choices: [{ delta: { content: 'Белок ' } }] },
+            { choices: [{ delta: { content: 'в норме' } }] },
+            { choices: [], usage: { prompt_tokens: 40, completion_tokens: 3 } },
+            '[DONE]',
+        ]));
+
+        const result = await chatStream(chatOptions(builtIn('openai', '/v1')));
+
+        expect(result).toEqual({ text: 'Белок в норме', usage: { promptTokens: 40, completionTokens: 3 } });
+        expect(server.requests[0].body).toMatchObject({ stream: true, stream_options: { include_usage: true } });
+    });
+
+    it('пустой ответ считается ошибкой', async () => {
+        server.handle((_, res) => sendJson(res, 200, { choices: [] }));
+
+        await expect(chat(chatOptions(builtIn('openai', '/v1')))).rejects.toThrow('Пустой ответ от AI');
+    });
+});
+
+describe('Anthropic Messages', () => {
+    it('переносит системные сообщения в system, а изображения — в base64-блоки', async () => {
+        server.handle((_, res) => sendJson(res, 200, {
+            content: [
+                { type: 'thinking', thinking: '...' },
+                { type: 'text', text: '{"calories":' },
+                { type: 'text', text: '52}' },
+            ],
+            usage: { input_tokens: 30, output_tokens: 8 },
+        }));
+
+        const result = await chat(chatOptions(builtIn('anthropic', '/v1'), { isJson: true }));
+
+        expect(result).toEqual({ text: '{"calories":52}', usage: { promptTokens: 30, completionTokens: 8 } });
+        const { path, headers, body } = server.requests[0];
+        expect(path).toBe('/v1/messages');
+        expect(headers['x-api-key']).toBe('test-token');
+        expect(headers['anthropic-version']).toBe('2023-06-01');
+        expect(headers['anthropic-dangerous-direct-browser-access']).toBe('true');
+        expect(headers['authorization']).toBeUndefined();
+        expect(body.system).toMatch(/^Ты нутрициолог\.\n\nОтвечай только валидным JSON/);
+        expect(body.messages).toEqual([{
+            role: 'user',
+            content: [
+                { type: 'text', text: 'Что на фото?' },
+                { type: 'image', source: { type: 'base64', media_type: 'image/jpeg', data: 'QUJD' } },
+            ],
+        }]);
+        expect(body).toMatchObject({ model: 'test-model', max_tokens: 256, temperature: 0.1 });
+        expect(body.response_format).toBeUndefined();
+    });
+
+    it('собирает текст и токены из событий потока', async () => {
+        server.handle((_, res) => sendSse(res, [
+            { type: 'message_start', message: { usage: { input_tokens: 21, output_tokens: 1 } } },
+            { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+            { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Мало ' } },
+            { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'клетчатки' } },
+            { type: 'message_delta', usage: { output_tokens: 6 } },
+            { type: 'message_stop' },
+        ]));
+
+        const result = await chatStream(chatOptions(builtIn('anthropic', '/v1')));
+
+        expect(result).toEqual({ text: 'Мало клетчатки', usage: { promptTokens: 21, completionTokens: 6 } });
+        expect(server.requests[0].body.stream).toBe(true);
+    });
+
+    it('событие error в потоке прерывает ответ', async () => {
+        server.handle((_, res) => sendSse(res, [
+            { type: 'message_start', message: { usage: { input_tokens: 5 } } },
+            { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } },
+        ]));
+
+        await expect(chatStream(chatOptions(builtIn('anthropic', '/v1')))).rejects.toThrow('Overloaded');
+    });
+});
+
+describe('Gemini generateContent', () => {
+    it('передаёт модель в пути, изображения как inline_data и включает JSON-режим', async () => {
+        server.handle((_, res) => sendJson(res, 200, {
+            candidates: [{ content: { parts: [{ text: '[{"name":' }, { text: '"рис"}]' }] } }],
+            usageMetadata: { promptTokenCount: 100, candidatesTokenCount: 20, thoughtsTokenCount: 15 },
+        }));
+        const history: ChatMessage[] = [...MESSAGES, { role: 'assistant', content: 'Рис' }, { role: 'user', content: 'Сколько?' }];
+
+        const result = await chat(chatOptions(builtIn('google', '/v1beta'), {
+            model: 'gemini-2.5-flash',
+            messages: history,
+            isJson: true,
+        }));
+
+        expect(result).toEqual({ text: '[{"name":"рис"}]', usage: { promptTokens: 100, completionTokens: 35 } });
+        const { path, headers, body } = server.requests[0];
+        expect(path).toBe('/v1beta/models/gemini-2.5-flash:generateContent');
+        expect(headers['x-goog-api-key']).toBe('test-token');
+        expect(headers['authorization']).toBeUndefined();
+        expect(body.systemInstruction).toEqual({ parts: [{ text: 'Ты нутрициолог.' }] });
+        expect(body.contents).toEqual([
+            { role: 'user', parts: [{ text: 'Что на фото?' }, { inline_data: { mime_type: 'image/jpeg', data: 'QUJD' } }] },
+            { role: 'model', parts: [{ text: 'Рис' }] },
+            { role: 'user', parts: [{ text: 'Сколько?' }] },
+        ]);
+        expect(body.generationConfig).toEqual({ temperature: 0.1, maxOutputTokens: 256, responseMimeType: 'application/json' });
+    });
+
+    it('потоковый запрос идёт на streamGenerateContent с alt=sse', async () => {
+        server.handle((_, res) => sendSse(res, [
+            { candidates: [{ content: { parts: [{ text: 'Норма ' }] } }] },
+            {
+                candidates: [{ content: { parts: [{ text: 'выполнена' }] }, finishReason: 'STOP' }],
+                usageMetadata: { promptTokenCount: 50, candidatesTokenCount: 4 },
+            },
+        ]));
+
+        const result = await chatStream(chatOptions(builtIn('google', '/v1beta'), { model: 'gemini-2.5-flash' }));
+
+        expect(result).toEqual({ text: 'Норма выполнена', usage: { promptTokens: 50, completionTokens: 4 } });
+        expect(server.requests[0].path).toBe('/v1beta/models/gemini-2.5-flash:streamGenerateContent?alt=sse');
+        expect(server.requests[0].body.generationConfig.responseMimeType).toBeUndefined();
+    });
+
+    it('сообщает причину блокировки, если кандидатов нет', async () => {
+        server.handle((_, res) => sendJson(res, 200, { promptFeedback: { blockReason: 'SAFETY' } }));
+
+        await expect(chat(chatOptions(builtIn('google', '/v1beta')))).rejects.toThrow('AI не вернул ответ: SAFETY');
+    });
+});
+
+describe('fetchModels', () => {
+    const configFor = (providerId: string, provider: ApiProvider) => ({
+        currentProviderId: providerId,
+        customProviders: [provider],
+        requestSettings: SETTINGS,
+        providers: { [providerId]: { token: 'test-token', model: '' } },
+    });
+
+    it('OpenAI: /models с Bearer-токеном', async () => {
+        server.handle((_, res) => sendJson(res, 200, { data: [{ id: 'gpt-4o' }, { id: 'or/model', name: 'Модель OR' }] }));
+
+        const models = await fetchModels(configFor('openai', builtIn('openai', '/v1')));
+
+        expect(models).toEqual([{ id: 'gpt-4o', name: 'gpt-4o' }, { id: 'or/model', name: 'Модель OR' }]);
+        expect(server.requests[0].path).toBe('/v1/models');
+        expect(server.requests[0].headers['authorization']).toBe('Bearer test-token');
+    });
+
+    it('Anthropic: display_name и заголовок x-api-key', async () => {
+        server.handle((_, res) => sendJson(res, 200, { data: [{ id: 'claude-test', display_name: 'Claude Test' }] }));
+
+        const models = await fetchModels(configFor('anthropic', builtIn('anthropic', '/v1')));
+
+        expect(models).toEqual([{ id: 'claude-test', name: 'Claude Test' }]);
+        expect(server.requests[0].path).toBe('/v1/models?limit=1000');
+        expect(server.requests[0].headers['x-api-key']).toBe('test-token');
+    });
+
+    it('Gemini: только модели с generateContent, без префикса models/', async () => {
+        server.handle((_, res) => sendJson(res, 200, {
+            models: [
+                { name: 'models/gemini-2.5-flash', displayName: 'Gemini 2.5 Flash', supportedGenerationMethods: ['generateContent'] },
+                { name: 'models/text-embedding-004', supportedGenerationMethods: ['embedContent'] },
+            ],
+        }));
+
+        const models = await fetchModels(configFor('google', builtIn('google', '/v1beta')));
+
+        expect(models).toEqual([{ id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash' }]);
+        expect(server.requests[0].path).toBe('/v1beta/models?pageSize=1000');
+        expect(server.requests[0].headers['x-goog-api-key']).toBe('test-token');
+    });
+});
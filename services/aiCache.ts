@@ -0,0 +1,155 @@
+import { AICacheEntry, AICacheKind, AICacheSettings } from '../types';
+import { normalizeFoodName } from '../utils/foodSearch';
+
+/**
+ * Постоянный кэш ответов AI в IndexedDB. Повторные запросы с тем же текстом,
+ * фото, провайдером и моделью обслуживаются локально — мгновенно и без сети.
+ */
+
+const DB_NAME = 'nutrition-ai-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'responses';
+const SETTINGS_KEY = 'ai-cache-settings';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_CACHE_SETTINGS: AICacheSettings = {
+    enabled: true,
+    ttlDays: 30,
+};
+
+export const loadCacheSettings = (): AICacheSettings => {
+    try {
+        const stored = localStorage.getItem(SETTINGS_KEY);
+        return stored ? { ...DEFAULT_CACHE_SETTINGS, ...JSON.parse(stored) } : DEFAULT_CACHE_SETTINGS;
+    } catch (error) {
+        console.error('Error loading cache settings:', error);
+        return DEFAULT_CACHE_SETTINGS;
+    }
+};
+
+export const saveCacheSettings = (settings: AICacheSettings): void => {
+    try {
+        localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.error('Error saving cache settings:', error);
+        throw new Error('Не удалось сохранить настройки кэша');
+    }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB недоступен в этом браузере'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+                store.createIndex('expiresAt', 'expiresAt');
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Неудачное открытие не кэшируем, чтобы следующая попытка могла пройти
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const runTransaction = async <T>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORE_NAME, mode);
+        const request = action(transaction.objectStore(STORE_NAME));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+/**
+ * Приводит текст запроса к единому виду: «Гречка  200 г» и «гречка 200г» дают один ключ
+ */
+export const normalizePromptText = (text: string): string => {
+    return normalizeFoodName(text)
+        .replace(/(\d)\s+(?=[a-zа-я])/g, '$1')
+        .replace(/\s+/g, ' ');
+};
+
+/**
+ * SHA-256 содержимого файла — одинаковое фото даёт одинаковый ключ независимо от имени
+ */
+export const hashFile = async (file: Blob): Promise<string> => {
+    const buffer = await file.arrayBuffer();
+    const digest = await crypto.subtle.digest('SHA-256', buffer);
+    return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const buildCacheKey = (kind: AICacheKind, providerId: string, model: string, parts: string[]): string => {
+    return [kind, providerId, model, ...parts].join('|');
+};
+
+/**
+ * Возвращает значение из кэша или null. Ошибки IndexedDB не мешают запросу к AI.
+ */
+export const getCachedResponse = async <T>(key: string): Promise<AICacheEntry & { value: T } | null> => {
+    try {
+        const entry = await runTransaction<AICacheEntry | undefined>('readonly', store => store.get(key));
+        if (!entry) return null;
+        if (entry.expiresAt <= Date.now()) {
+            await deleteCacheEntry(key);
+            return null;
+        }
+        return entry as AICacheEntry & { value: T };
+    } catch (error) {
+        console.error('Error reading AI cache:', error);
+        return null;
+    }
+};
+
+export const putCachedResponse = async (
+    entry: Omit<AICacheEntry, 'createdAt' | 'expiresAt'>,
+    ttlDays: number
+): Promise<void> => {
+    const createdAt = Date.now();
+    try {
+        await runTransaction('readwrite', store => store.put({
+            ...entry,
+            createdAt,
+            expiresAt: createdAt + ttlDays * DAY_MS,
+        }));
+    } catch (error) {
+        console.error('Error writing AI cache:', error);
+    }
+};
+
+export const listCacheEntries = async (): Promise<AICacheEntry[]> => {
+    const entries = await runTransaction<AICacheEntry[]>('readonly', store => store.getAll());
+    return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteCacheEntry = async (key: string): Promise<void> => {
+    await runTransaction('readwrite', store => store.delete(key));
+};
+
+export const clearCache = async (): Promise<void> => {
+    await runTransaction('readwrite', store => store.clear());
+};
+
+/**
+ * Удаляет записи с истёкшим сроком хранения, возвращает их количество
+ */
+export const pruneExpiredEntries = async (): Promise<number> => {
+    const expiredKeys = await runTransaction<IDBValidKey[]>(
+        'readonly',
+        store => store.index('expiresAt').getAllKeys(IDBKeyRange.upperBound(Date.now()))
+    );
+    await Promise.all(expiredKeys.map(key => deleteCacheEntry(String(key))));
+    return expiredKeys.length;
+};
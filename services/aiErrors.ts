@@ -0,0 +1,112 @@
+/**
+ * Типизированные ошибки запросов к AI. По `kind` интерфейс решает, что показать
+ * пользователю, а конвейер запросов — стоит ли повторять попытку.
+ */
+export type AIErrorKind =
+    | 'config'      // провайдер, токен или модель не настроены
+    | 'auth'        // 401/403: неверный или отозванный токен
+    | 'quota'       // закончились средства или месячная квота
+    | 'rate-limit'  // 429: слишком частые запросы
+    | 'server'      // 5xx и 408 на стороне провайдера
+    | 'request'     // прочие 4xx: неверная модель, слишком большой запрос
+    | 'network'     // сеть недоступна, CORS, обрыв соединения
+    | 'timeout'     // истекло время ожидания ответа
+    | 'cancelled'   // запрос отменён пользователем
+    | 'budget'      // превышен месячный лимит расходов, заданный пользователем
+    | 'parse';      // ответ не удалось разобрать или он не прошёл проверку
+
+export class AIError extends Error {
+    kind: AIErrorKind;
+    status?: number;
+    retryAfterMs?: number;
+
+    constructor(kind: AIErrorKind, message: string, options: { status?: number; retryAfterMs?: number } = {}) {
+        super(message);
+        this.name = 'AIError';
+        this.kind = kind;
+        this.status = options.status;
+        this.retryAfterMs = options.retryAfterMs;
+    }
+}
+
+const RETRYABLE_KINDS: AIErrorKind[] = ['rate-limit', 'server', 'network', 'timeout'];
+
+export const isRetryableError = (error: unknown): boolean => {
+    return error instanceof AIError && RETRYABLE_KINDS.includes(error.kind);
+};
+
+// Ошибки, после которых имеет смысл попробовать другого провайдера.
+// Отмену, отсутствие настроек и исчерпанный бюджет другой провайдер не исправит.
+const NON_FALLBACK_KINDS: AIErrorKind[] = ['cancelled', 'config', 'budget'];
+
+export const isFallbackError = (error: unknown): boolean => {
+    return error instanceof AIError && !NON_FALLBACK_KINDS.includes(error.kind);
+};
+
+export const isCancelledError = (error: unknown): boolean => {
+    return error instanceof AIError && error.kind === 'cancelled';
+};
+
+const QUOTA_PATTERN = /quota|insufficient|credit|billing|balance|payment/i;
+
+/**
+ * Превращает неуспешный HTTP-ответ провайдера в AIError.
+ * Текст ошибки из тела ответа добавляется к сообщению, если его удалось прочитать.
+ */
+export const createHttpError = (status: number, statusText: string, body: string, retryAfterMs?: number): AIError => {
+    let detail = '';
+    try {
+        const data = JSON.parse(body);
+        detail = data?.error?.message || data?.message || (typeof data?.error === 'string' ? data.error : '');
+    } catch {
+        detail = body.slice(0, 200);
+    }
+    const suffix = detail ? `: ${detail}` : '';
+
+    if (status === 401 || status === 403) {
+        return new AIError('auth', `Ошибка авторизации (HTTP ${status}). Проверьте токен API${suffix}`, { status });
+    }
+    if (status === 402 || (status === 429 && QUOTA_PATTERN.test(detail))) {
+        return new AIError('quota', `Исчерпана квота или баланс у провайдера (HTTP ${status})${suffix}`, { status });
+    }
+    if (status === 429) {
+        return new AIError('rate-limit', `Слишком много запросов (HTTP 429)${suffix}`, { status, retryAfterMs });
+    }
+    if (status === 408 || status >= 500) {
+        return new AIError('server', `Провайдер временно недоступен (HTTP ${status} ${statusText})${suffix}`, { status, retryAfterMs });
+    }
+    return new AIError('request', `Запрос отклонён (HTTP ${status} ${statusText})${suffix}`, { status });
+};
+
+/**
+ * Приводит любую ошибку к AIError, сохраняя уже типизированные
+ */
+export const toAIError = (error: unknown, fallbackKind: AIErrorKind = 'parse'): AIError => {
+    if (error instanceof AIError) return error;
+    return new AIError(fallbackKind, error instanceof Error ? error.message : String(error));
+};
+
+/**
+ * Сообщение для пользователя с подсказкой, что делать дальше
+ */
+export const getAIErrorMessage = (error: unknown): string => {
+    if (!(error instanceof AIError)) {
+        return error instanceof Error ? error.message : String(error);
+    }
+    switch (error.kind) {
+        case 'auth':
+            return `${error.message}. Откройте настройки API и обновите токен.`;
+        case 'quota':
+            return `${error.message}. Пополните баланс или выберите другого провайдера.`;
+        case 'rate-limit':
+            return `${error.message}. Подождите немного и повторите.`;
+        case 'network':
+            return `${error.message}. Проверьте подключение к интернету.`;
+        case 'budget':
+            return `${error.message}. Увеличьте лимит на экране расходов в настройках API.`;
+        case 'timeout':
+            return `${error.message}. Попробуйте ещё раз или увеличьте время ожидания в настройках API.`;
+        default:
+            return error.message;
+    }
+};
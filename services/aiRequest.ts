@@ -0,0 +1,254 @@
+import { AIRequestSettings } from '../types';
+import { PreparedRequest } from './providerAdapters';
+import { AIError, createHttpError, isRetryableError } from './aiErrors';
+
+export interface RequestOptions {
+    settings: AIRequestSettings;
+    signal?: AbortSignal;
+}
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+
+/**
+ * Разбирает заголовок Retry-After: число секунд или HTTP-дата
+ */
+const parseRetryAfter = (header: string | null): number | undefined => {
+    if (!header) return undefined;
+    const seconds = Number(header);
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(header);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Экспоненциальная задержка со случайным разбросом, чтобы параллельные
+ * вкладки не повторяли запросы одновременно
+ */
+const getBackoffDelay = (attempt: number, error: AIError): number => {
+    if (error.retryAfterMs !== undefined) return error.retryAfterMs;
+    const exponential = BASE_DELAY_MS * 2 ** attempt;
+    return Math.min(exponential / 2 + Math.random() * exponential / 2, MAX_DELAY_MS);
+};
+
+const cancelledError = () => new AIError('cancelled', 'Запрос отменён');
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(cancelledError());
+        return;
+    }
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(cancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const timeoutError = (timeoutMs: number) => new AIError('timeout', `Провайдер не ответил за ${Math.round(timeoutMs / 1000)} с`);
+
+/**
+ * Различает отмену пользователем, таймаут и сетевой сбой — все они прерывают fetch одинаково
+ */
+const classifyFetchError = (error: unknown, signal: AbortSignal | undefined, timedOut: boolean, timeoutMs: number): AIError => {
+    if (error instanceof AIError) return error;
+    if (signal?.aborted) return cancelledError();
+    if (timedOut) return timeoutError(timeoutMs);
+    return new AIError('network', `Не удалось связаться с провайдером: ${(error as Error).message}`);
+};
+
+const ensureOk = async (response: Response) => {
+    if (response.ok) return;
+    const body = await response.text().catch(() => '');
+    throw createHttpError(response.status, response.statusText, body, parseRetryAfter(response.headers.get('Retry-After')));
+};
+
+/**
+ * Один запрос с ограничением по времени. Таймаут и отмена пользователем
+ * прерывают fetch через общий AbortController, но дают разные ошибки.
+ */
+const fetchOnce = async (request: PreparedRequest, timeoutMs: number, signal?: AbortSignal): Promise<any> => {
+    if (signal?.aborted) throw cancelledError();
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+        let response: Response;
+        try {
+            response = await fetch(request.url, { ...request.init, signal: controller.signal });
+        } catch (error) {
+            throw classifyFetchError(error, signal, timedOut, timeoutMs);
+        }
+        await ensureOk(response);
+
+        try {
+            return await response.json();
+        } catch {
+            if (signal?.aborted) throw cancelledError();
+            if (timedOut) throw timeoutError(timeoutMs);
+            throw new AIError('parse', 'Провайдер вернул ответ не в формате JSON');
+        }
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+    }
+};
+
+/**
+ * Выполняет запрос к провайдеру с таймаутом и повторами. Повторяются только
+ * временные сбои: 429, 5xx, таймаут и сетевые ошибки.
+ */
+export const requestJson = async (request: PreparedRequest, { settings, signal }: RequestOptions): Promise<any> => {
+    const timeoutMs = Math.max(1, settings.timeoutSeconds) * 1000;
+    const maxRetries = Math.max(0, settings.maxRetries);
+
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await fetchOnce(request, timeoutMs, signal);
+        } catch (error) {
+            if (!isRetryableError(error) || attempt >= maxRetries) throw error;
+            // Если провайдер просит подождать дольше разумного, сразу сообщаем об ошибке
+            const retryAfterMs = (error as AIError).retryAfterMs;
+            if (retryAfterMs !== undefined && retryAfterMs > MAX_DELAY_MS) throw error;
+
+            const delay = getBackoffDelay(attempt, error as AIError);
+            console.warn(`[AI Request] ${(error as AIError).message}. Повтор ${attempt + 1}/${maxRetries} через ${Math.round(delay)} мс`);
+            await wait(delay, signal);
+        }
+    }
+};
+
+/**
+ * Разбирает одно событие SSE: строки `data:` склеиваются, комментарии и `[DONE]` пропускаются
+ */
+const parseSseEvent = (raw: string): any | null => {
+    const data = raw
+        .split(/\r?\n/)
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n');
+    if (!data || data === '[DONE]') return null;
+
+    let parsed: any;
+    try {
+        parsed = JSON.parse(data);
+    } catch {
+        throw new AIError('parse', 'Не удалось разобрать фрагмент потокового ответа');
+    }
+    // OpenAI-совместимые серверы сообщают об ошибке посреди потока отдельным событием
+    if (parsed?.error) {
+        throw new AIError('server', `Поток ответа прерван: ${parsed.error.message || parsed.error}`);
+    }
+    return parsed;
+};
+
+/**
+ * Потоковый запрос (Server-Sent Events). Таймаут отсчитывается заново после
+ * каждого фрагмента: пока модель пишет, соединение не обрывается.
+ */
+const streamOnce = async (
+    request: PreparedRequest,
+    timeoutMs: number,
+    signal: AbortSignal | undefined,
+    onEvent: (data: any) => void
+): Promise<void> => {
+    if (signal?.aborted) throw cancelledError();
+
+    const controller = new AbortController();
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const resetTimer = () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, timeoutMs);
+    };
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    resetTimer();
+
+    try {
+        let response: Response;
+        try {
+            response = await fetch(request.url, { ...request.init, signal: controller.signal });
+        } catch (error) {
+            throw classifyFetchError(error, signal, timedOut, timeoutMs);
+        }
+        await ensureOk(response);
+        if (!response.body) {
+            throw new AIError('parse', 'Провайдер не поддерживает потоковую передачу ответа');
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        const emit = (raw: string) => {
+            const data = parseSseEvent(raw);
+            if (data !== null) onEvent(data);
+        };
+
+        while (true) {
+            let chunk: ReadableStreamReadResult<Uint8Array>;
+            try {
+                chunk = await reader.read();
+            } catch (error) {
+                throw classifyFetchError(error, signal, timedOut, timeoutMs);
+            }
+            if (chunk.done) break;
+            resetTimer();
+
+            buffer += decoder.decode(chunk.value, { stream: true });
+            const events = buffer.split(/\r?\n\r?\n/);
+            buffer = events.pop() || '';
+            events.forEach(emit);
+        }
+        if (buffer.trim()) emit(buffer);
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+    }
+};
+
+/**
+ * Выполняет потоковый запрос с повторами. Повтор возможен только до первого
+ * фрагмента — иначе пользователь увидел бы текст дважды.
+ */
+export const requestStream = async (
+    request: PreparedRequest,
+    { settings, signal }: RequestOptions,
+    onEvent: (data: any) => void
+): Promise<void> => {
+    const timeoutMs = Math.max(1, settings.timeoutSeconds) * 1000;
+    const maxRetries = Math.max(0, settings.maxRetries);
+    let hasReceived = false;
+
+    for (let attempt = 0; ; attempt++) {
+        try {
+            await streamOnce(request, timeoutMs, signal, data => {
+                hasReceived = true;
+                onEvent(data);
+            });
+            return;
+        } catch (error) {
+            if (hasReceived || !isRetryableError(error) || attempt >= maxRetries) throw error;
+            const retryAfterMs = (error as AIError).retryAfterMs;
+            if (retryAfterMs !== undefined && retryAfterMs > MAX_DELAY_MS) throw error;
+
+            const delay = getBackoffDelay(attempt, error as AIError);
+            console.warn(`[AI Request] ${(error as AIError).message}. Повтор ${attempt + 1}/${maxRetries} через ${Math.round(delay)} мс`);
+            await wait(delay, signal);
+        }
+    }
+};
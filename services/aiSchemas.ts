@@ -0,0 +1,341 @@
+/**
+ * Схемы ответов AI: извлечение JSON из текста, приведение типов и проверка
+ * правдоподобности значений. Ошибки формулируются по-русски, потому что
+ * отправляются модели в корректирующем запросе.
+ */
+
+import { Micronutrients } from '../types';
+import { MICRONUTRIENTS } from '../utils/micronutrients';
+
+export interface ValidationResult<T> {
+    value: T | null;
+    errors: string[];
+}
+
+export interface ResponseSchema<T> {
+    name: string;
+    validate: (data: unknown) => ValidationResult<T>;
+}
+
+export interface AnalyzedIngredient {
+    name: string;
+    calories: number;
+    protein: number;
+    fat: number;
+    carbohydrate: number;
+    fiber: number;
+    weight: number;
+    micronutrients?: Micronutrients;
+}
+
+export interface NutritionPer100g {
+    calories: number;
+    protein: number;
+    fat: number;
+    carbohydrate: number;
+    fiber: number;
+    micronutrients?: Micronutrients;
+}
+
+export interface DailyGoalsResponse {
+    bmr: number;
+    tdee: number;
+    targetCalories: number;
+    protein: number;
+    fat: number;
+    carbohydrate: number;
+    fiber: number;
+}
+
+const FENCED_BLOCK = /```(?:json)?\s*([\s\S]*?)```/i;
+
+// Напитки, калорийность которых в основном даёт алкоголь, а не БЖУ
+const ALCOHOL_PATTERN = /(?:^|[\s-])(?:вин[оа]|пив[оа]|водк|коньяк|виски|ликер|ликёр|ром(?:\s|$)|джин|сидр|шампанск|текил|настойк|бренди|мартини|глинтвейн)/i;
+
+/**
+ * Находит первый сбалансированный JSON-объект или массив в тексте
+ */
+const findBalancedJson = (text: string): string | null => {
+    const start = text.search(/[[{]/);
+    if (start === -1) return null;
+
+    const stack: string[] = [];
+    let inString = false;
+    let escaped = false;
+
+    for (let i = start; i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (char === '\\') escaped = true;
+            else if (char === '"') inString = false;
+            continue;
+        }
+        if (char === '"') inString = true;
+        else if (char === '{' || char === '[') stack.push(char === '{' ? '}' : ']');
+        else if (char === '}' || char === ']') {
+            if (stack.pop() !== char) return null;
+            if (stack.length === 0) return text.slice(start, i + 1);
+        }
+    }
+    return null;
+};
+
+/**
+ * Извлекает JSON из ответа модели: чистый JSON, блок ```json``` или JSON внутри текста
+ */
+export const extractJson = (content: string): unknown => {
+    const candidates = [content.trim()];
+    const fenced = content.match(FENCED_BLOCK);
+    if (fenced) candidates.push(fenced[1].trim());
+    const balanced = findBalancedJson(fenced ? fenced[1] : content);
+    if (balanced) candidates.push(balanced);
+
+    for (const candidate of candidates) {
+        try {
+            return JSON.parse(candidate);
+        } catch {
+            // пробуем следующий вариант
+        }
+    }
+    throw new Error('Не удалось извлечь JSON из ответа AI');
+};
+
+const toNumber = (value: unknown): number | null => {
+    if (typeof value === 'number') return isFinite(value) ? value : null;
+    if (typeof value === 'string') {
+        const parsed = parseFloat(value.replace(',', '.'));
+        return isNaN(parsed) ? null : parsed;
+    }
+    return null;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+interface NumberRule {
+    key: string;
+    min: number;
+    max: number;
+    required?: boolean;
+    fallback?: number;
+}
+
+const readNumbers = (
+    source: Record<string, unknown>,
+    rules: NumberRule[],
+    prefix: string,
+    errors: string[]
+): Record<string, number> => {
+    const result: Record<string, number> = {};
+    rules.forEach(rule => {
+        const raw = source[rule.key];
+        const value = toNumber(raw);
+        if (value === null) {
+            if (raw === undefined && !rule.required && rule.fallback !== undefined) {
+                result[rule.key] = rule.fallback;
+                return;
+            }
+            errors.push(`${prefix}поле "${rule.key}" должно быть числом`);
+            return;
+        }
+        if (value < rule.min || value > rule.max) {
+            errors.push(`${prefix}"${rule.key}" = ${value} вне допустимого диапазона ${rule.min}–${rule.max}`);
+        }
+        result[rule.key] = value;
+    });
+    return result;
+};
+
+const PER_100G_RULES: NumberRule[] = [
+    { key: 'calories', min: 0, max: 900, required: true },
+    { key: 'protein', min: 0, max: 100, required: true },
+    { key: 'fat', min: 0, max: 100, required: true },
+    { key: 'carbohydrate', min: 0, max: 100, required: true },
+    { key: 'fiber', min: 0, max: 100, fallback: 0 },
+];
+
+/**
+ * Проверяет, что калорийность согласуется с БЖУ (4/9/4 ккал на грамм)
+ */
+const checkEnergyBalance = (values: Record<string, number>, prefix: string, name: string, errors: string[]) => {
+    const { calories, protein, fat, carbohydrate } = values;
+    if ([calories, protein, fat, carbohydrate].some(v => v === undefined)) return;
+
+    if (protein + fat + carbohydrate > 101) {
+        errors.push(`${prefix}сумма белков, жиров и углеводов больше 100 г на 100 г продукта`);
+    }
+
+    if (ALCOHOL_PATTERN.test(name)) return;
+    const expected = protein * 4 + fat * 9 + carbohydrate * 4;
+    const difference = Math.abs(expected - calories);
+    if (difference > Math.max(40, calories * 0.3)) {
+        errors.push(
+            `${prefix}калории (${calories}) не сходятся с БЖУ: 4×${protein} + 9×${fat} + 4×${carbohydrate} ≈ ${Math.round(expected)} ккал`
+        );
+    }
+};
+
+/**
+ * Микронутриенты необязательны: нечисловые значения считаются неизвестными,
+ * а явно неправдоподобные отправляются модели на исправление
+ */
+const readMicronutrients = (
+    source: Record<string, unknown>,
+    macros: Record<string, number>,
+    prefix: string,
+    errors: string[]
+): Micronutrients | undefined => {
+    if (!isObject(source.micronutrients)) return undefined;
+
+    const raw = source.micronutrients;
+    const result: Micronutrients = {};
+    MICRONUTRIENTS.forEach(({ key, maxPer100g }) => {
+        const value = toNumber(raw[key]);
+        if (value === null) return;
+        if (value < 0 || value > maxPer100g) {
+            errors.push(`${prefix}"micronutrients.${key}" = ${value} вне допустимого диапазона 0–${maxPer100g}`);
+            return;
+        }
+        result[key] = value;
+    });
+
+    if (result.sugar !== undefined && macros.carbohydrate !== undefined && result.sugar > macros.carbohydrate + 1) {
+        errors.push(`${prefix}сахар (${result.sugar} г) не может превышать углеводы (${macros.carbohydrate} г)`);
+    }
+    if (result.saturatedFat !== undefined && macros.fat !== undefined && result.saturatedFat > macros.fat + 1) {
+        errors.push(`${prefix}насыщенные жиры (${result.saturatedFat} г) не могут превышать жиры (${macros.fat} г)`);
+    }
+    return Object.keys(result).length > 0 ? result : undefined;
+};
+
+const validatePer100g = (
+    source: Record<string, unknown>,
+    prefix: string,
+    name: string,
+    errors: string[]
+): NutritionPer100g => {
+    const values = readNumbers(source, PER_100G_RULES, prefix, errors);
+    checkEnergyBalance(values, prefix, name, errors);
+    const micronutrients = readMicronutrients(source, values, prefix, errors);
+    return { ...values, ...(micronutrients ? { micronutrients } : {}) } as unknown as NutritionPer100g;
+};
+
+/**
+ * Модели в JSON-режиме часто оборачивают массив в объект вида {"ingredients": [...]}
+ */
+const unwrapArray = (data: unknown): unknown[] | null => {
+    if (Array.isArray(data)) return data;
+    if (!isObject(data)) return null;
+    if (typeof data.name === 'string') return [data];
+    const arrays = Object.values(data).filter(Array.isArray);
+    return arrays.length === 1 ? arrays[0] as unknown[] : null;
+};
+
+export const ingredientListSchema: ResponseSchema<AnalyzedIngredient[]> = {
+    name: 'ingredient-list',
+    validate: (data) => {
+        const items = unwrapArray(data);
+        if (!items) {
+            return { value: null, errors: ['Ответ должен быть JSON-массивом объектов ингредиентов'] };
+        }
+        if (items.length === 0) {
+            return { value: null, errors: ['Массив ингредиентов пуст'] };
+        }
+
+        const errors: string[] = [];
+        const value = items.map((item, index) => {
+            if (!isObject(item)) {
+                errors.push(`[${index}]: элемент должен быть объектом`);
+                return null;
+            }
+            const name = typeof item.name === 'string' ? item.name.trim() : '';
+            const prefix = `[${index}]${name ? ` "${name}"` : ''}: `;
+            if (!name) errors.push(`${prefix}отсутствует название в поле "name"`);
+
+            const nutrition = validatePer100g(item, prefix, name, errors);
+            const { weight } = readNumbers(
+                item,
+                [{ key: 'weight', min: 1, max: 5000, fallback: 100 }],
+                prefix,
+                errors
+            );
+            return { name, ...nutrition, weight };
+        });
+
+        return errors.length > 0
+            ? { value: null, errors }
+            : { value: value as AnalyzedIngredient[], errors };
+    },
+};
+
+export const per100gSchema: ResponseSchema<NutritionPer100g> = {
+    name: 'per-100g',
+    validate: (data) => {
+        const source = Array.isArray(data) && data.length === 1 ? data[0] : data;
+        if (!isObject(source)) {
+            return { value: null, errors: ['Ответ должен быть JSON-объектом с полями calories, protein, fat, carbohydrate, fiber'] };
+        }
+
+        const errors: string[] = [];
+        const name = typeof source.name === 'string' ? source.name : '';
+        // Нулевые КБЖУ допустимы (вода, соль, чай): согласованность проверяет баланс энергии
+        const value = validatePer100g(source, '', name, errors);
+        return errors.length > 0 ? { value: null, errors } : { value, errors };
+    },
+};
+
+export const dailyGoalsSchema: ResponseSchema<DailyGoalsResponse> = {
+    name: 'daily-goals',
+    validate: (data) => {
+        if (!isObject(data)) {
+            return { value: null, errors: ['Ответ должен быть JSON-объектом с дневными нормами'] };
+        }
+
+        const errors: string[] = [];
+        const values = readNumbers(data, [
+            { key: 'bmr', min: 800, max: 4000, required: true },
+            { key: 'tdee', min: 1000, max: 7000, required: true },
+            { key: 'targetCalories', min: 800, max: 7000, required: true },
+            { key: 'protein', min: 20, max: 400, required: true },
+            { key: 'fat', min: 20, max: 300, required: true },
+            { key: 'carbohydrate', min: 0, max: 900, required: true },
+            { key: 'fiber', min: 5, max: 100, required: true },
+        ], '', errors);
+
+        if (errors.length === 0) {
+            if (values.tdee < values.bmr) {
+                errors.push(`"tdee" (${values.tdee}) не может быть меньше "bmr" (${values.bmr})`);
+            }
+            const macroCalories = values.protein * 4 + values.fat * 9 + values.carbohydrate * 4;
+            if (Math.abs(macroCalories - values.targetCalories) > values.targetCalories * 0.15) {
+                errors.push(
+                    `БЖУ дают ${Math.round(macroCalories)} ккал, а "targetCalories" = ${values.targetCalories}; пересчитай углеводы как остаток калорий`
+                );
+            }
+        }
+
+        const value: DailyGoalsResponse = {
+            bmr: Math.round(values.bmr),
+            tdee: Math.round(values.tdee),
+            targetCalories: Math.round(values.targetCalories),
+            protein: Math.round(values.protein),
+            fat: Math.round(values.fat),
+            carbohydrate: Math.round(values.carbohydrate),
+            fiber: Math.round(values.fiber),
+        };
+        return errors.length > 0 ? { value: null, errors } : { value, errors };
+    },
+};
+
+/**
+ * Формирует корректирующий запрос с перечнем ошибок проверки
+ */
+export const buildRepairPrompt = (errors: string[]): string => {
+    const list = errors.slice(0, 15).map(error => `- ${error}`).join('\n');
+    return `Твой предыдущий ответ не прошёл проверку:
+${list}
+
+Исправь ошибки и верни полный исправленный ответ в том же формате. Только JSON, без пояснений и markdown.`;
+};
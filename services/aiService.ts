@@ -1,5 +1,26 @@
-import { ApiConfig } from '../types';
-import { getProviderBaseUrl } from '../constants/apiProviders';
+import { ApiConfig, AICacheKind, AIFeature, HistoryMeal, Micronutrients, PeriodSummary } from '../types';
+import { resolveProvider, getRequestSettings } from '../constants/apiProviders';
+import { getProviderAdapter, ChatMessage } from './providerAdapters';
+import { requestJson, requestStream } from './aiRequest';
+import { AIError, toAIError, isFallbackError } from './aiErrors';
+import { recordUsage, getBudgetStatus, getModelPrice, formatCost } from './usageLedger';
+import { loadCacheSettings, buildCacheKey, getCachedResponse, putCachedResponse, normalizePromptText, hashFile } from './aiCache';
+import {
+    ResponseSchema,
+    extractJson,
+    buildRepairPrompt,
+    ingredientListSchema,
+    per100gSchema,
+    dailyGoalsSchema,
+} from './aiSchemas';
+import { formatPeriodSummary } from '../utils/periodReport';
+import { MICRONUTRIENTS, formatMicronutrient } from '../utils/micronutrients';
+import { getMealTypeLabel } from '../utils/calculations';
+import { formatMealTime } from '../utils/mealSlots';
+
+const MICRONUTRIENT_INSTRUCTION = `Дополнительно укажи в объекте "micronutrients" на 100 грамм: ${MICRONUTRIENTS
+    .map(nutrient => `${nutrient.key} (${nutrient.label.toLowerCase()}, ${nutrient.unit})`)
+    .join(', ')}. Если значение неизвестно, не включай его.`;
 
 const fileToBase64 = (file: File): Promise<string> => new Promise((resolve, reject) => {
     const reader = new FileReader();
@@ -8,135 +29,310 @@ const fileToBase64 = (file: File): Promise<string> => new Promise((resolve, reje
     reader.onerror = error => reject(error);
 });
 
-const parseNutrientValue = (value: any): number => {
-    if (typeof value === 'number') return value;
-    if (typeof value === 'string') {
-        const parsed = parseFloat(value.replace(',', '.'));
-        return isNaN(parsed) ? 0 : parsed;
-    }
-    return 0;
-};
-
-const parseIngredients = (data: any): any[] | null => {
-    if (!Array.isArray(data)) return null;
-
-    const parsedData = data.map(item => {
-        if (typeof item !== 'object' || item === null || !item.name) return null;
-
-        return {
-            ...item,
-            calories: parseNutrientValue(item.calories),
-            protein: parseNutrientValue(item.protein),
-            fat: parseNutrientValue(item.fat),
-            carbohydrate: parseNutrientValue(item.carbohydrate),
-            fiber: parseNutrientValue(item.fiber),
-            weight: parseNutrientValue(item.weight) || 100,
-        };
-    }).filter(item => item !== null);
+/**
+ * Сведения о том, какой провайдер фактически ответил на запрос
+ */
+export interface AIAnswerInfo {
+    providerId: string;
+    providerName: string;
+    model: string;
+    isFallback: boolean;
+    // Ошибки провайдеров, которые не ответили до него
+    failures: string[];
+    // Время сохранения, если ответ взят из локального кэша
+    cachedAt?: number;
+}
 
-    return parsedData.length > 0 ? parsedData : null;
+export interface AICallOptions {
+    signal?: AbortSignal;
+    onAnswer?: (info: AIAnswerInfo) => void;
+    // Запросить свежий ответ, не заглядывая в кэш
+    bypassCache?: boolean;
+    // Функция приложения, к которой относится запрос, — для журнала расходов
+    feature?: AIFeature;
+    // Получать текст по мере генерации (потоковый режим, только для текстовых ответов)
+    onChunk?: (textSoFar: string) => void;
 }
 
-export const getCurrentProviderConfig = (config: ApiConfig) => {
-    const providerId = config.currentProviderId;
+export const describeAnswer = (info: AIAnswerInfo): string => {
+    const source = info.model ? `${info.providerName} · ${info.model}` : info.providerName;
+    if (info.cachedAt) {
+        return `Из кэша от ${new Date(info.cachedAt).toLocaleDateString('ru-RU')}: ${source}`;
+    }
+    return info.isFallback ? `Ответил резервный провайдер: ${source}` : `Ответил: ${source}`;
+};
+
+export const getProviderConfig = (config: ApiConfig, providerId: string) => {
     const providerConfig = config.providers[providerId];
-    const baseUrl = getProviderBaseUrl(providerId);
+    const provider = resolveProvider(config, providerId);
+    const token = providerConfig?.token || '';
+    const model = providerConfig?.model || '';
     
     return {
-        token: providerConfig?.token || '',
-        model: providerConfig?.model || '',
-        baseUrl,
+        token,
+        model,
+        provider,
+        baseUrl: provider?.baseUrl || '',
         models: providerConfig?.models || [],
+        // Локальным серверам без авторизации токен не нужен
+        isConfigured: !!provider && !!model && (!!token || !provider.requiresAuth),
     };
 };
 
-export const fetchModels = async (config: ApiConfig, providerId?: string): Promise<{ id: string; name: string }[]> => {
+export const getCurrentProviderConfig = (config: ApiConfig) => {
+    return getProviderConfig(config, config.currentProviderId);
+};
+
+/**
+ * Основной провайдер и настроенные резервные в порядке очереди
+ */
+export const getProviderChain = (config: ApiConfig) => {
+    const ids = [config.currentProviderId, ...(config.fallbackProviderIds || [])];
+    return Array.from(new Set(ids))
+        .map(id => ({ id, ...getProviderConfig(config, id) }))
+        .filter(entry => entry.isConfigured);
+};
+
+export const fetchModels = async (
+    config: ApiConfig,
+    providerId?: string,
+    signal?: AbortSignal
+): Promise<{ id: string; name: string }[]> => {
     try {
         const targetProviderId = providerId || config.currentProviderId;
         const providerConfig = config.providers[targetProviderId];
-        const baseUrl = getProviderBaseUrl(targetProviderId);
+        const provider = resolveProvider(config, targetProviderId);
         
-        if (!providerConfig?.token) {
-            throw new Error('Токен не найден для выбранного провайдера');
+        if (!provider) {
+            throw new AIError('config', 'Провайдер не найден');
         }
-
-        const response = await fetch(`${baseUrl}/models`, {
-            headers: {
-                'Authorization': `Bearer ${providerConfig.token}`,
-                'Content-Type': 'application/json',
-                'HTTP-Referer': window.location.origin,
-                'X-Title': 'Nutrition Facts Calculator',
-            },
-        });
-        
-        if (!response.ok) {
-            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        if (provider.requiresAuth && !providerConfig?.token) {
+            throw new AIError('config', 'Токен не найден для выбранного провайдера');
         }
-        
-        const data = await response.json();
-        return data.data?.map((m: any) => ({ id: m.id, name: m.name || m.id })) || [];
+
+        const adapter = getProviderAdapter(provider.protocol);
+        const request = adapter.buildModelsRequest(provider, providerConfig?.token || '');
+        const data = await requestJson(request, { settings: getRequestSettings(config), signal });
+        return adapter.parseModelsResponse(data);
     } catch (error) {
         console.error('Error fetching models:', error);
         throw error;
     }
 };
 
-const callAI = async (config: ApiConfig, messages: any[], isJson = true, maxTokens = 1024): Promise<any> => {
-    const { token, model, baseUrl } = getCurrentProviderConfig(config);
-    
-    if (!token || !model) {
-        throw new Error('Токен или модель не настроены');
+const callAI = async (
+    config: ApiConfig,
+    messages: ChatMessage[],
+    isJson = true,
+    maxTokens = 1024,
+    options: AICallOptions = {}
+): Promise<string> => {
+    const configured = getProviderChain(config);
+    if (configured.length === 0) {
+        throw new AIError('config', 'Токен или модель не настроены');
     }
 
-    const body = {
-        model,
-        messages,
-        temperature: 0.1,
-        max_tokens: maxTokens,
-        ...(isJson && { response_format: { type: "json_object" } }),
-    };
+    const budget = getBudgetStatus();
+    if (budget.isExceeded) {
+        throw new AIError('budget', `Месячный лимит расходов на AI исчерпан: ${formatCost(budget.spent)} из ${formatCost(budget.budget)}`);
+    }
+    // Расход моделей без цены не попадает в лимит, поэтому при заданном лимите они не используются
+    const chain = budget.budget === null ? configured : configured.filter(entry => getModelPrice(entry.model));
+    if (chain.length === 0) {
+        throw new AIError(
+            'config',
+            `Для модели ${configured[0].model} не задана цена, а её расход не учитывается в месячном лимите. Укажите цену модели на экране расходов в настройках API или снимите лимит`
+        );
+    }
+
+    const stream = !isJson && !!options.onChunk;
+    const failures: string[] = [];
+    for (let index = 0; index < chain.length; index++) {
+        const { id, provider, token, model } = chain[index];
+        const adapter = getProviderAdapter(provider.protocol);
+        const startedAt = Date.now();
+        let usage = { promptTokens: 0, completionTokens: 0 };
+        let content = '';
+        const logUsage = (success: boolean, error?: string) => recordUsage({
+            timestamp: startedAt,
+            feature: options.feature || 'text-analysis',
+            providerId: id,
+            providerName: provider.name,
+            model,
+            ...usage,
+            latencyMs: Date.now() - startedAt,
+            success,
+            error,
+        });
+
+        try {
+            const request = adapter.buildChatRequest({
+                provider,
+                token,
+                model,
+                messages,
+                isJson,
+                maxTokens,
+                temperature: 0.1,
+                stream,
+            });
+            const requestOptions = { settings: getRequestSettings(config), signal: options.signal };
+
+            if (stream) {
+                await requestStream(request, requestOptions, data => {
+                    let delta;
+                    try {
+                        delta = adapter.parseStreamEvent(data);
+                    } catch (error) {
+                        throw toAIError(error, 'server');
+                    }
+                    if (delta.usage) usage = { ...usage, ...delta.usage };
+                    if (delta.text) {
+                        content += delta.text;
+                        options.onChunk(content);
+                    }
+                });
+                if (!content) throw new AIError('parse', 'Пустой ответ от AI');
+            } else {
+                const data = await requestJson(request, requestOptions);
+                usage = adapter.parseUsage(data);
+                try {
+                    content = adapter.parseChatResponse(data);
+                } catch (error) {
+                    throw toAIError(error, 'parse');
+                }
+            }
 
-    const response = await fetch(`${baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-            'HTTP-Referer': window.location.origin,
-            'X-Title': 'Nutrition Facts Calculator',
+            logUsage(true);
+            options.onAnswer?.({
+                providerId: id,
+                providerName: provider.name,
+                model,
+                isFallback: index > 0,
+                failures,
+            });
+            return content;
+        } catch (error) {
+            const aiError = toAIError(error, 'parse');
+            if (aiError.kind !== 'cancelled') logUsage(false, aiError.message);
+            // Часть текста уже показана пользователю — начинать заново у другого провайдера не стоит
+            if (!isFallbackError(aiError) || index === chain.length - 1 || content) throw aiError;
+
+            // Модель без поддержки изображений обычно отвечает 400/404 — следующий провайдер может справиться
+            console.warn(`[AI Fallback] ${provider.name} (${model}): ${aiError.message}. Пробую ${chain[index + 1].provider.name}`);
+            failures.push(`${provider.name}: ${aiError.message}`);
+        }
+    }
+
+    throw new AIError('config', 'Нет доступных провайдеров');
+};
+
+interface CacheRequest {
+    kind: AICacheKind;
+    label: string;
+    parts: string[];
+}
+
+/**
+ * Возвращает ответ из кэша, если он есть для текущего провайдера и модели,
+ * иначе выполняет запрос и сохраняет непустой результат.
+ */
+const withCache = async <T>(
+    config: ApiConfig,
+    request: CacheRequest,
+    options: AICallOptions,
+    compute: (options: AICallOptions) => Promise<T>
+): Promise<T> => {
+    const settings = loadCacheSettings();
+    const { model } = getCurrentProviderConfig(config);
+    if (!settings.enabled) return compute(options);
+
+    const key = buildCacheKey(request.kind, config.currentProviderId, model, request.parts);
+    if (!options.bypassCache) {
+        const cached = await getCachedResponse<T>(key);
+        if (cached) {
+            options.onAnswer?.({
+                providerId: cached.providerId,
+                providerName: cached.answeredBy,
+                model: '',
+                isFallback: false,
+                failures: [],
+                cachedAt: cached.createdAt,
+            });
+            return cached.value;
+        }
+    }
+
+    let answer: AIAnswerInfo | null = null;
+    const value = await compute({
+        ...options,
+        onAnswer: info => {
+            answer = info;
+            options.onAnswer?.(info);
         },
-        body: JSON.stringify(body),
     });
 
-    if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    const hasValue = Array.isArray(value) ? value.length > 0 : value !== null && value !== undefined;
+    if (hasValue && answer) {
+        await putCachedResponse({
+            key,
+            kind: request.kind,
+            label: request.label,
+            providerId: config.currentProviderId,
+            model,
+            answeredBy: `${answer.providerName} · ${answer.model}`,
+            value,
+        }, settings.ttlDays);
     }
+    return value;
+};
+
+/**
+ * Запрашивает JSON-ответ и проверяет его схемой. Если ответ не прошёл проверку,
+ * один раз просит модель исправить его, передав список найденных ошибок.
+ */
+const callAIWithSchema = async <T>(
+    config: ApiConfig,
+    messages: ChatMessage[],
+    schema: ResponseSchema<T>,
+    maxTokens = 1024,
+    options: AICallOptions = {}
+): Promise<T> => {
+    let conversation = messages;
+    let errors: string[] = [];
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+        const content = await callAI(config, conversation, true, maxTokens, options);
+        console.log(`[AI Response] ${schema.name}, attempt ${attempt + 1}:`, content);
 
-    const data = await response.json();
-    const content = data.choices[0].message.content;
-    
-    if (isJson) {
-        console.log('[AI Response] Raw content:', content);
         try {
-            return JSON.parse(content);
-        } catch (e) {
-            console.warn('[AI Response] Failed to parse as JSON, trying to extract JSON from text');
-            const jsonMatch = content.match(/\{[\s\S]*\}/);  
-            if (jsonMatch) {
-                console.log('[AI Response] Extracted JSON:', jsonMatch[0]);
-                return JSON.parse(jsonMatch[0]);
-            }
-            throw new Error('Не удалось извлечь JSON из ответа AI');
+            const result = schema.validate(extractJson(content));
+            if (result.value !== null) return result.value;
+            errors = result.errors;
+        } catch (error) {
+            errors = [(error as Error).message];
         }
+
+        console.warn(`[AI Response] ${schema.name} failed validation:`, errors);
+        conversation = [
+            ...messages,
+            { role: 'assistant', content },
+            { role: 'user', content: buildRepairPrompt(errors) },
+        ];
     }
-    return content;
+
+    throw new AIError('parse', `Ответ AI не прошёл проверку: ${errors.slice(0, 3).join('; ')}`);
 };
 
-export const fetchIngredientData = async (ingredientName: string, config: ApiConfig) => {
-    const { token, model } = getCurrentProviderConfig(config);
-    if (!token || !model) return null;
+export const fetchIngredientData = async (ingredientName: string, config: ApiConfig, options: AICallOptions = {}) => {
+    const { isConfigured } = getCurrentProviderConfig(config);
+    if (!isConfigured) {
+        throw new AIError('config', 'Токен или модель не настроены');
+    }
     
     try {
         const prompt = `Предоставь точное КБЖУК (калории, белки, жиры, углеводы, клетчатка) на 100 грамм для продукта '${ingredientName}'.
+${MICRONUTRIENT_INSTRUCTION}
 Ответ дай только в формате JSON. В значениях должны быть только цифры.
 
 Пример для запроса "яблоко":
@@ -145,36 +341,26 @@ export const fetchIngredientData = async (ingredientName: string, config: ApiCon
   "protein": 0.3,
   "fat": 0.2,
   "carbohydrate": 14,
-  "fiber": 2.4
+  "fiber": 2.4,
+  "micronutrients": { "sugar": 10.4, "saturatedFat": 0, "sodium": 1, "cholesterol": 0, "vitaminC": 4.6, "potassium": 107 }
 }`;
-        const messages = [{ role: "user", content: prompt }];
-        const data = await callAI(config, messages, true);
-
-        if (typeof data !== 'object' || data === null) return null;
-
-        const parsedData = {
-            calories: parseNutrientValue(data.calories),
-            protein: parseNutrientValue(data.protein),
-            fat: parseNutrientValue(data.fat),
-            carbohydrate: parseNutrientValue(data.carbohydrate),
-            fiber: parseNutrientValue(data.fiber),
-        };
-        
-        // Возвращаем данные, даже если некоторые поля нулевые, но хотя бы калории или белки распознаны
-        if (parsedData.calories > 0 || parsedData.protein > 0) {
-            return parsedData;
-        }
-
-        return null;
+        const messages: ChatMessage[] = [{ role: "user", content: prompt }];
+        return await withCache(
+            config,
+            { kind: 'ingredient', label: ingredientName, parts: [normalizePromptText(ingredientName)] },
+            options,
+            callOptions => callAIWithSchema(config, messages, per100gSchema, 1024, { ...callOptions, feature: 'ingredient-lookup' })
+        );
     } catch (error) {
         console.error(`Error fetching data for ${ingredientName}:`, error);
-        return null;
+        if (error instanceof AIError) throw error;
+        throw new Error('Не удалось получить КБЖУК от AI. Проверьте подключение к AI.');
     }
 };
 
-export const analyzeTextWithAI = async (text: string, config: ApiConfig, calculatePer100g = false) => {
-    const { token, model } = getCurrentProviderConfig(config);
-    if (!token || !model || !text) return null;
+export const analyzeTextWithAI = async (text: string, config: ApiConfig, calculatePer100g = false, options: AICallOptions = {}) => {
+    const { isConfigured } = getCurrentProviderConfig(config);
+    if (!isConfigured || !text) return null;
     
     try {
         let weightInstruction = `Определи вес каждого ингредиента в граммах, следуя правилам:
@@ -194,6 +380,7 @@ export const analyzeTextWithAI = async (text: string, config: ApiConfig, calcula
 - Сухие продукты (крупы, макароны в сухом виде) НЕ интересуют пользователя, если явно не указано "сухая", "сырая", "в сухом виде".
 
 Определи все ингредиенты и для каждого предоставь КБЖУК (калории, белки, жиры, углеводы, клетчатка) на 100 грамм ГОТОВОГО продукта.
+${MICRONUTRIENT_INSTRUCTION}
 ${weightInstruction}
 Ответ дай только в формате JSON в виде массива объектов. Важно: название каждого ингредиента в поле 'name' должно быть на русском языке.
 
@@ -206,6 +393,7 @@ ${weightInstruction}
     "fat": 3.6,
     "carbohydrate": 0,
     "fiber": 0,
+    "micronutrients": { "sugar": 0, "saturatedFat": 1, "sodium": 74, "cholesterol": 85, "iron": 1, "potassium": 256 },
     "weight": 80
   },
   {
@@ -215,22 +403,37 @@ ${weightInstruction}
     "fat": 0.2,
     "carbohydrate": 2.9,
     "fiber": 1.3,
+    "micronutrients": { "sugar": 0.8, "sodium": 28, "vitaminA": 370, "vitaminC": 9.2, "calcium": 36, "potassium": 194 },
     "weight": 70
   }
 ]`;
         
-        const messages = [{ role: "user", content: prompt }];
-        const result = await callAI(config, messages, true);
-        return parseIngredients(result);
+        const messages: ChatMessage[] = [{ role: "user", content: prompt }];
+        return await withCache(
+            config,
+            {
+                kind: 'text',
+                label: text.trim(),
+                parts: [normalizePromptText(text), calculatePer100g ? 'per100g' : 'portion'],
+            },
+            options,
+            callOptions => callAIWithSchema(config, messages, ingredientListSchema, 2048, { ...callOptions, feature: 'text-analysis' })
+        );
     } catch (error) {
         console.error("Error analyzing text:", error);
-        return null;
+        throw error;
     }
 };
 
-export const analyzeImageWithAI = async (imageFile: File, userHint: string, config: ApiConfig, calculatePer100g = false) => {
-    const { token, model } = getCurrentProviderConfig(config);
-    if (!token || !model) return null;
+export const analyzeImageWithAI = async (
+    imageFile: File,
+    userHint: string,
+    config: ApiConfig,
+    calculatePer100g = false,
+    options: AICallOptions = {}
+) => {
+    const { isConfigured } = getCurrentProviderConfig(config);
+    if (!isConfigured) return null;
     
     try {
         const base64Data = await fileToBase64(imageFile);
@@ -242,7 +445,8 @@ export const analyzeImageWithAI = async (imageFile: File, userHint: string, conf
 - Используй КБЖУК для готовых продуктов, а не для сухих.
 - Сухие продукты НЕ интересуют пользователя.
 
-Для каждого ингредиента предоставь КБЖУК (калории, белки, жиры, углеводы, клетчатка) на 100 грамм ГОТОВОГО продукта.`;
+Для каждого ингредиента предоставь КБЖУК (калории, белки, жиры, углеводы, клетчатка) на 100 грамм ГОТОВОГО продукта.
+${MICRONUTRIENT_INSTRUCTION}`;
         
         if (calculatePer100g) {
             promptText += `\n\nДля КАЖДОГО определенного ингредиента установи вес РОВНО 100 грамм. Игнорируй любые упоминания веса в подсказке пользователя. В поле 'weight' для каждого ингредиента должно быть число 100.`;
@@ -267,6 +471,7 @@ export const analyzeImageWithAI = async (imageFile: File, userHint: string, conf
     "fat": 11,
     "carbohydrate": 1.1,
     "fiber": 0,
+    "micronutrients": { "sugar": 0.4, "saturatedFat": 3.3, "sodium": 207, "cholesterol": 400, "vitaminA": 160, "vitaminD": 2.2, "iron": 1.8 },
     "weight": 120
   },
   {
@@ -276,28 +481,38 @@ export const analyzeImageWithAI = async (imageFile: File, userHint: string, conf
     "fat": 0.2,
     "carbohydrate": 3.9,
     "fiber": 1.2,
+    "micronutrients": { "sugar": 2.6, "sodium": 5, "vitaminC": 14, "potassium": 237 },
     "weight": 50
   }
 ]`;
         
-        const messages = [
+        const messages: ChatMessage[] = [
             { role: "user", content: [
                 { type: "text", text: promptText },
                 { type: "image_url", image_url: { url: `data:${imageFile.type};base64,${base64Data}` } }
             ] }
         ];
-        const result = await callAI(config, messages, true);
-        return parseIngredients(result);
+        const imageHash = await hashFile(imageFile);
+        return await withCache(
+            config,
+            {
+                kind: 'image',
+                label: userHint.trim() ? `Фото: ${userHint.trim()}` : `Фото ${imageFile.name}`,
+                parts: [imageHash, calculatePer100g ? 'per100g' : normalizePromptText(userHint || '')],
+            },
+            options,
+            callOptions => callAIWithSchema(config, messages, ingredientListSchema, 2048, { ...callOptions, feature: 'image-analysis' })
+        );
     } catch (error) {
         console.error("Error analyzing image:", error);
-        return null;
+        throw error;
     }
 };
 
-export const calculateDailyGoals = async (profile: any, config: ApiConfig) => {
-    const { token, model } = getCurrentProviderConfig(config);
-    if (!token || !model) {
-        throw new Error('Токен или модель не настроены');
+export const calculateDailyGoals = async (profile: any, config: ApiConfig, options: AICallOptions = {}) => {
+    const { isConfigured } = getCurrentProviderConfig(config);
+    if (!isConfigured) {
+        throw new AIError('config', 'Токен или модель не настроены');
     }
     
     try {
@@ -319,7 +534,7 @@ export const calculateDailyGoals = async (profile: any, config: ApiConfig) => {
 - Пол: ${genderRu}
 - Возраст: ${profile.age} лет
 - Вес: ${profile.weight} кг
-- Рост: ${profile.height} см
+- Рост: ${profile.height} см${profile.bodyFatPercent ? `\n- Процент жира: ${profile.bodyFatPercent}% (для BMR используй формулу Кетча-МакАрдла)` : ''}
 - Уровень активности: ${activityLabels[profile.activityLevel] || profile.activityLevel}
 - Цель: ${goalLabels[profile.goal] || profile.goal}
 
@@ -345,25 +560,14 @@ export const calculateDailyGoals = async (profile: any, config: ApiConfig) => {
   "fiber": 30
 }`;
 
-        const messages = [{ role: "user", content: prompt }];
-        const data = await callAI(config, messages, true, 2048);
-        
-        console.log('[calculateDailyGoals] Received data:', data);
-
-        const result = {
-            bmr: Math.round(parseNutrientValue(data.bmr)),
-            tdee: Math.round(parseNutrientValue(data.tdee)),
-            targetCalories: Math.round(parseNutrientValue(data.targetCalories)),
-            protein: Math.round(parseNutrientValue(data.protein)),
-            fat: Math.round(parseNutrientValue(data.fat)),
-            carbohydrate: Math.round(parseNutrientValue(data.carbohydrate)),
-            fiber: Math.round(parseNutrientValue(data.fiber)),
-        };
+        const messages: ChatMessage[] = [{ role: "user", content: prompt }];
+        const result = await callAIWithSchema(config, messages, dailyGoalsSchema, 2048, { ...options, feature: 'daily-goals' });
         
         console.log('[calculateDailyGoals] Calculated result:', result);
         return result;
     } catch (error) {
         console.error("Error calculating daily goals:", error);
+        if (error instanceof AIError) throw error;
         throw new Error('Не удалось рассчитать дневные нормы. Проверьте подключение к AI.');
     }
 };
@@ -371,13 +575,16 @@ export const calculateDailyGoals = async (profile: any, config: ApiConfig) => {
 export const analyzeDailyIntake = async (
     date: string,
     dailyTotals: any,
-    meals: any[],
+    // Приёмы пищи в хронологическом порядке
+    meals: HistoryMeal[],
     userGoals: any | null,
-    config: ApiConfig
+    micronutrientGoals: Micronutrients | null,
+    config: ApiConfig,
+    options: AICallOptions = {}
 ): Promise<string> => {
-    const { token, model } = getCurrentProviderConfig(config);
-    if (!token || !model) {
-        throw new Error('Токен или модель не настроены');
+    const { isConfigured } = getCurrentProviderConfig(config);
+    if (!isConfigured) {
+        throw new AIError('config', 'Токен или модель не настроены');
     }
     
     try {
@@ -397,17 +604,25 @@ export const analyzeDailyIntake = async (
         prompt += `- Белки: ${dailyTotals.protein.toFixed(1)}г\n`;
         prompt += `- Жиры: ${dailyTotals.fat.toFixed(1)}г\n`;
         prompt += `- Углеводы: ${dailyTotals.carbohydrate.toFixed(1)}г\n`;
-        prompt += `- Клетчатка: ${dailyTotals.fiber.toFixed(1)}г\n\n`;
+        prompt += `- Клетчатка: ${dailyTotals.fiber.toFixed(1)}г\n`;
+        // Микронутриенты известны не для всех продуктов, поэтому передаём только посчитанные
+        const micronutrientLines = MICRONUTRIENTS
+            .filter(nutrient => dailyTotals.micronutrients?.[nutrient.key] !== undefined)
+            .map(nutrient => {
+                const goal = micronutrientGoals?.[nutrient.key];
+                const goalText = goal ? ` (${nutrient.kind === 'limit' ? 'предел' : 'норма'} ${goal} ${nutrient.unit})` : '';
+                return `- ${nutrient.label}: ${formatMicronutrient(nutrient, dailyTotals.micronutrients[nutrient.key])}${goalText}\n`;
+            });
+        if (micronutrientLines.length > 0) {
+            prompt += `Микронутриенты (только по продуктам с известным составом):\n${micronutrientLines.join('')}`;
+        }
+        prompt += `\n`;
         
-        prompt += `МОЙ РАЦИОН:\n`;
+        const hasTiming = meals.some(meal => meal.timestamp);
+        prompt += hasTiming ? `МОЙ РАЦИОН (по времени):\n` : `МОЙ РАЦИОН:\n`;
         meals.forEach((meal, index) => {
-            const mealTypeLabels: { [key: string]: string } = {
-                breakfast: 'Завтрак',
-                lunch: 'Обед',
-                dinner: 'Ужин',
-                snack: 'Перекус',
-            };
-            prompt += `${index + 1}. ${mealTypeLabels[meal.type] || meal.type}:\n`;
+            const time = formatMealTime(meal);
+            prompt += `${index + 1}. ${time ? `${time} — ` : ''}${getMealTypeLabel(meal.type)}:\n`;
             meal.ingredients.forEach((ing: any) => {
                 const ingCalories = Math.round((ing.baseCPFC.calories * ing.weight) / 100);
                 prompt += `   - ${ing.name} (${ing.weight}г) - ${ingCalories} ккал\n`;
@@ -417,15 +632,51 @@ export const analyzeDailyIntake = async (
         prompt += `\nДай краткий и понятный анализ (максимум 150-200 слов):\n`;
         prompt += `1. Что было хорошо в моем питании?\n`;
         prompt += `2. Что можно улучшить?\n`;
-        prompt += `3. Как скорректировать питание завтра, чтобы лучше соответствовать моим целям?\n\n`;
+        prompt += `3. Как скорректировать питание завтра, чтобы лучше соответствовать моим целям?\n`;
+        if (hasTiming) {
+            prompt += `Учитывай время приёмов пищи: распределение калорий и белка в течение дня, длинные перерывы и поздние приёмы.\n`;
+        }
+        prompt += `\n`;
         prompt += `Ответ должен быть дружелюбным, мотивирующим и конкретным. Формат ответа - обычный текст, не JSON.`;
 
-        const messages = [{ role: "user", content: prompt }];
-        const analysis = await callAI(config, messages, false);
+        const messages: ChatMessage[] = [{ role: "user", content: prompt }];
+        const analysis = await callAI(config, messages, false, 1024, { ...options, feature: 'daily-analysis' });
         
         return analysis;
     } catch (error) {
         console.error("Error analyzing daily intake:", error);
+        if (error instanceof AIError) throw error;
         throw new Error('Не удалось проанализировать рацион. Проверьте подключение к AI.');
     }
-};
\ No newline at end of file
+};
+
+export const analyzePeriod = async (
+    summary: PeriodSummary,
+    config: ApiConfig,
+    options: AICallOptions = {}
+): Promise<string> => {
+    const { isConfigured } = getCurrentProviderConfig(config);
+    if (!isConfigured) {
+        throw new AIError('config', 'Токен или модель не настроены');
+    }
+
+    try {
+        const periodLabel = summary.period === 'week' ? 'неделю' : 'месяц';
+        const nextPeriodLabel = summary.period === 'week' ? 'следующую неделю' : 'следующий месяц';
+        let prompt = `Вот сводка моего питания за ${periodLabel}.\n\n`;
+        prompt += `${formatPeriodSummary(summary)}\n\n`;
+        prompt += `Дай отчёт о тенденциях за период (максимум 250-300 слов):\n`;
+        prompt += `1. Какие устойчивые привычки идут мне на пользу?\n`;
+        prompt += `2. Где систематически не достигаю целей или перебираю и почему это может происходить?\n`;
+        prompt += `3. Что заметно в распределении приёмов пищи и в разнице между буднями и выходными?\n`;
+        prompt += `4. Два-три конкретных изменения на ${nextPeriodLabel}.\n\n`;
+        prompt += `Не разбирай отдельные дни — смотри на общую картину. Ответ должен быть дружелюбным и конкретным. Формат ответа - обычный текст, не JSON.`;
+
+        const messages: ChatMessage[] = [{ role: "user", content: prompt }];
+        return await callAI(config, messages, false, 1536, { ...options, feature: 'period-report' });
+    } catch (error) {
+        console.error("Error analyzing period:", error);
+        if (error instanceof AIError) throw error;
+        throw new Error('Не удалось составить отчёт за период. Проверьте подключение к AI.');
+    }
+};
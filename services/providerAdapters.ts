@@ -0,0 +1,319 @@
+import { ApiProtocol, ApiProvider } from '../types';
+
+/**
+ * Сообщения внутри приложения хранятся в формате OpenAI Chat Completions:
+ * content — строка или массив частей `{ type: 'text' }` / `{ type: 'image_url' }`.
+ * Адаптеры переводят их в формат конкретного API и обратно.
+ */
+export interface ChatMessagePart {
+    type: 'text' | 'image_url';
+    text?: string;
+    image_url?: { url: string };
+}
+
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string | ChatMessagePart[];
+}
+
+export interface ChatRequestOptions {
+    provider: ApiProvider;
+    token: string;
+    model: string;
+    messages: ChatMessage[];
+    isJson: boolean;
+    maxTokens: number;
+    temperature: number;
+    // Потоковый ответ (SSE) — только для текстовых запросов
+    stream?: boolean;
+}
+
+export interface PreparedRequest {
+    url: string;
+    init: RequestInit;
+}
+
+export interface TokenUsage {
+    promptTokens: number;
+    completionTokens: number;
+}
+
+// Фрагмент потокового ответа: очередной кусок текста и, в некоторых событиях, расход токенов
+export interface StreamDelta {
+    text: string;
+    usage?: Partial<TokenUsage>;
+}
+
+export interface ProviderAdapter {
+    buildChatRequest: (options: ChatRequestOptions) => PreparedRequest;
+    parseChatResponse: (data: any) => string;
+    parseUsage: (data: any) => TokenUsage;
+    parseStreamEvent: (data: any) => StreamDelta;
+    buildModelsRequest: (provider: ApiProvider, token: string) => PreparedRequest;
+    parseModelsResponse: (data: any) => { id: string; name: string }[];
+}
+
+const JSON_ONLY_INSTRUCTION = 'Отвечай только валидным JSON без пояснений и markdown-разметки.';
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+/**
+ * Собирает заголовки запроса. У встроенных провайдеров используется авторизация,
+ * принятая в их API; у пользовательских — способ, выбранный в настройках.
+ */
+const buildHeaders = (
+    provider: ApiProvider,
+    token: string,
+    defaultAuth: Record<string, string>,
+    baseHeaders: Record<string, string> = {}
+): Record<string, string> => {
+    let auth = defaultAuth;
+    if (provider.authStyle === 'none' || !token) {
+        auth = {};
+    } else if (provider.authStyle === 'bearer') {
+        auth = { 'Authorization': `Bearer ${token}` };
+    } else if (provider.authStyle === 'header') {
+        auth = { [provider.authHeaderName || 'X-API-Key']: token };
+    }
+    return { ...baseHeaders, ...auth, ...(provider.extraHeaders || {}) };
+};
+
+// Заголовки атрибуции нужны OpenRouter; локальным серверам они лишь добавляют CORS-preflight
+const openAIBaseHeaders = (provider: ApiProvider): Record<string, string> => provider.isCustom
+    ? { 'Content-Type': 'application/json' }
+    : {
+        'Content-Type': 'application/json',
+        'HTTP-Referer': window.location.origin,
+        'X-Title': 'Nutrition Facts Calculator',
+    };
+
+const parseDataUrl = (url: string): { mimeType: string; data: string } | null => {
+    const match = url.match(/^data:([^;]+);base64,(.*)$/);
+    return match ? { mimeType: match[1], data: match[2] } : null;
+};
+
+const toParts = (content: ChatMessage['content']): ChatMessagePart[] => {
+    return typeof content === 'string' ? [{ type: 'text', text: content }] : content;
+};
+
+const collectSystemText = (messages: ChatMessage[], isJson: boolean): string => {
+    const systemText = messages
+        .filter(m => m.role === 'system')
+        .flatMap(m => toParts(m.content))
+        .map(part => part.text || '')
+        .filter(Boolean);
+    if (isJson) systemText.push(JSON_ONLY_INSTRUCTION);
+    return systemText.join('\n\n');
+};
+
+const openAIAdapter: ProviderAdapter = {
+    buildChatRequest: ({ provider, token, model, messages, isJson, maxTokens, temperature, stream }) => ({
+        url: `${trimSlash(provider.baseUrl)}/chat/completions`,
+        init: {
+            method: 'POST',
+            headers: buildHeaders(provider, token, { 'Authorization': `Bearer ${token}` }, openAIBaseHeaders(provider)),
+            body: JSON.stringify({
+                model,
+                messages,
+                temperature,
+                max_tokens: maxTokens,
+                ...(isJson && { response_format: { type: "json_object" } }),
+                // stream_options понимают не все совместимые серверы, поэтому только для встроенных провайдеров
+                ...(stream && { stream: true, ...(!provider.isCustom && { stream_options: { include_usage: true } }) }),
+            }),
+        },
+    }),
+    parseChatResponse: (data) => {
+        const content = data?.choices?.[0]?.message?.content;
+        if (typeof content !== 'string') {
+            throw new Error('Пустой ответ от AI');
+        }
+        return content;
+    },
+    parseUsage: (data) => ({
+        promptTokens: data?.usage?.prompt_tokens || 0,
+        completionTokens: data?.usage?.completion_tokens || 0,
+    }),
+    parseStreamEvent: (data) => ({
+        text: data?.choices?.[0]?.delta?.content || '',
+        usage: data?.usage ? {
+            promptTokens: data.usage.prompt_tokens || 0,
+            completionTokens: data.usage.completion_tokens || 0,
+        } : undefined,
+    }),
+    buildModelsRequest: (provider, token) => ({
+        url: `${trimSlash(provider.baseUrl)}/models`,
+        init: {
+            headers: buildHeaders(provider, token, { 'Authorization': `Bearer ${token}` }, openAIBaseHeaders(provider)),
+        },
+    }),
+    parseModelsResponse: (data) => {
+        return data.data?.map((m: any) => ({ id: m.id, name: m.name || m.id })) || [];
+    },
+};
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+const anthropicHeaders = (provider: ApiProvider, token: string) => buildHeaders(
+    provider,
+    token,
+    { 'x-api-key': token },
+    {
+        'anthropic-version': ANTHROPIC_VERSION,
+        // Без этого заголовка Anthropic отклоняет запросы напрямую из браузера (CORS)
+        'anthropic-dangerous-direct-browser-access': 'true',
+        'Content-Type': 'application/json',
+    }
+);
+
+const anthropicAdapter: ProviderAdapter = {
+    buildChatRequest: ({ provider, token, model, messages, isJson, maxTokens, temperature, stream }) => {
+        const system = collectSystemText(messages, isJson);
+        const anthropicMessages = messages
+            .filter(m => m.role !== 'system')
+            .map(m => ({
+                role: m.role,
+                content: toParts(m.content).map(part => {
+                    if (part.type === 'image_url' && part.image_url) {
+                        const image = parseDataUrl(part.image_url.url);
+                        return image
+                            ? { type: 'image', source: { type: 'base64', media_type: image.mimeType, data: image.data } }
+                            : { type: 'image', source: { type: 'url', url: part.image_url.url } };
+                    }
+                    return { type: 'text', text: part.text || '' };
+                }),
+            }));
+
+        return {
+            url: `${trimSlash(provider.baseUrl)}/messages`,
+            init: {
+                method: 'POST',
+                headers: anthropicHeaders(provider, token),
+                body: JSON.stringify({
+                    model,
+                    max_tokens: maxTokens,
+                    temperature,
+                    messages: anthropicMessages,
+                    ...(system && { system }),
+                    ...(stream && { stream: true }),
+                }),
+            },
+        };
+    },
+    parseChatResponse: (data) => {
+        if (!Array.isArray(data?.content)) {
+            throw new Error('Пустой ответ от AI');
+        }
+        return data.content
+            .filter((block: any) => block.type === 'text')
+            .map((block: any) => block.text)
+            .join('');
+    },
+    parseUsage: (data) => ({
+        promptTokens: data?.usage?.input_tokens || 0,
+        completionTokens: data?.usage?.output_tokens || 0,
+    }),
+    // Входные токены приходят в message_start, выходные — в message_delta
+    parseStreamEvent: (data) => {
+        if (data?.type === 'content_block_delta') {
+            return { text: data.delta?.text || '' };
+        }
+        if (data?.type === 'message_start') {
+            return { text: '', usage: { promptTokens: data.message?.usage?.input_tokens || 0 } };
+        }
+        if (data?.type === 'message_delta') {
+            return { text: '', usage: { completionTokens: data.usage?.output_tokens || 0 } };
+        }
+        if (data?.type === 'error') {
+            throw new Error(data.error?.message || 'Ошибка потока ответа');
+        }
+        return { text: '' };
+    },
+    buildModelsRequest: (provider, token) => ({
+        url: `${trimSlash(provider.baseUrl)}/models?limit=1000`,
+        init: { headers: anthropicHeaders(provider, token) },
+    }),
+    parseModelsResponse: (data) => {
+        return data.data?.map((m: any) => ({ id: m.id, name: m.display_name || m.id })) || [];
+    },
+};
+
+const geminiAdapter: ProviderAdapter = {
+    buildChatRequest: ({ provider, token, model, messages, isJson, maxTokens, temperature, stream }) => {
+        // В JSON-режиме Gemini сам гарантирует формат, дополнительная инструкция не нужна
+        const system = collectSystemText(messages, false);
+        const contents = messages
+            .filter(m => m.role !== 'system')
+            .map(m => ({
+                role: m.role === 'assistant' ? 'model' : 'user',
+                parts: toParts(m.content).map(part => {
+                    if (part.type === 'image_url' && part.image_url) {
+                        const image = parseDataUrl(part.image_url.url);
+                        if (image) {
+                            return { inline_data: { mime_type: image.mimeType, data: image.data } };
+                        }
+                        return { file_data: { file_uri: part.image_url.url } };
+                    }
+                    return { text: part.text || '' };
+                }),
+            }));
+
+        return {
+            url: stream
+                ? `${trimSlash(provider.baseUrl)}/models/${encodeURIComponent(model)}:streamGenerateContent?alt=sse`
+                : `${trimSlash(provider.baseUrl)}/models/${encodeURIComponent(model)}:generateContent`,
+            init: {
+                method: 'POST',
+                headers: buildHeaders(provider, token, { 'x-goog-api-key': token }, { 'Content-Type': 'application/json' }),
+                body: JSON.stringify({
+                    contents,
+                    ...(system && { systemInstruction: { parts: [{ text: system }] } }),
+                    generationConfig: {
+                        temperature,
+                        maxOutputTokens: maxTokens,
+                        ...(isJson && { responseMimeType: 'application/json' }),
+                    },
+                }),
+            },
+        };
+    },
+    parseChatResponse: (data) => {
+        const parts = data?.candidates?.[0]?.content?.parts;
+        if (!Array.isArray(parts)) {
+            const reason = data?.promptFeedback?.blockReason || data?.candidates?.[0]?.finishReason;
+            throw new Error(reason ? `AI не вернул ответ: ${reason}` : 'Пустой ответ от AI');
+        }
+        return parts.map((part: any) => part.text || '').join('');
+    },
+    parseStreamEvent: (data) => ({
+        text: (data?.candidates?.[0]?.content?.parts || []).map((part: any) => part.text || '').join(''),
+        usage: data?.usageMetadata ? geminiAdapter.parseUsage(data) : undefined,
+    }),
+    parseUsage: (data) => ({
+        promptTokens: data?.usageMetadata?.promptTokenCount || 0,
+        // В «думающих» моделях токены рассуждений оплачиваются как выходные
+        completionTokens: (data?.usageMetadata?.candidatesTokenCount || 0) + (data?.usageMetadata?.thoughtsTokenCount || 0),
+    }),
+    buildModelsRequest: (provider, token) => ({
+        url: `${trimSlash(provider.baseUrl)}/models?pageSize=1000`,
+        init: { headers: buildHeaders(provider, token, { 'x-goog-api-key': token }) },
+    }),
+    parseModelsResponse: (data) => {
+        return (data.models || [])
+            .filter((m: any) => !m.supportedGenerationMethods || m.supportedGenerationMethods.includes('generateContent'))
+            .map((m: any) => {
+                const id = String(m.name).replace(/^models\//, '');
+                return { id, name: m.displayName || id };
+            });
+    },
+};
+
+const ADAPTERS: Record<ApiProtocol, ProviderAdapter> = {
+    openai: openAIAdapter,
+    anthropic: anthropicAdapter,
+    gemini: geminiAdapter,
+};
+
+export const getProviderAdapter = (protocol: ApiProtocol): ProviderAdapter => {
+    return ADAPTERS[protocol] || openAIAdapter;
+};
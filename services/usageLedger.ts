@@ -0,0 +1,165 @@
+import { AIFeature, ModelPrice, UsageRecord, UsageSettings } from '../types';
+import { DEFAULT_MODEL_PRICES } from '../constants/modelPrices';
+
+/**
+ * Журнал расхода токенов: каждая попытка запроса к AI с токенами,
+ * оценкой стоимости и задержкой. Хранится в localStorage.
+ */
+
+const LEDGER_KEY = 'ai-usage-ledger';
+const SETTINGS_KEY = 'ai-usage-settings';
+// Ограничение размера журнала, чтобы не упереться в квоту localStorage
+const MAX_RECORDS = 5000;
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+    monthlyBudget: null,
+    customPrices: {},
+};
+
+export const FEATURE_LABELS: Record<AIFeature, string> = {
+    'text-analysis': 'Анализ текста',
+    'image-analysis': 'Анализ фото',
+    'ingredient-lookup': 'КБЖУК продукта',
+    'daily-goals': 'Расчёт норм',
+    'daily-analysis': 'Анализ дня',
+    'period-report': 'Отчёт за период',
+};
+
+export const loadUsageSettings = (): UsageSettings => {
+    try {
+        const stored = localStorage.getItem(SETTINGS_KEY);
+        return stored ? { ...DEFAULT_USAGE_SETTINGS, ...JSON.parse(stored) } : DEFAULT_USAGE_SETTINGS;
+    } catch (error) {
+        console.error('Error loading usage settings:', error);
+        return DEFAULT_USAGE_SETTINGS;
+    }
+};
+
+export const saveUsageSettings = (settings: UsageSettings): void => {
+    try {
+        localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.error('Error saving usage settings:', error);
+        throw new Error('Не удалось сохранить настройки расходов');
+    }
+};
+
+export const loadUsageLedger = (): UsageRecord[] => {
+    try {
+        const stored = localStorage.getItem(LEDGER_KEY);
+        return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+        console.error('Error loading usage ledger:', error);
+        return [];
+    }
+};
+
+export const clearUsageLedger = (): void => {
+    localStorage.removeItem(LEDGER_KEY);
+};
+
+/**
+ * Цена модели: сначала заданная пользователем для точного ID, затем встроенная по шаблону
+ */
+export const getModelPrice = (model: string, settings: UsageSettings = loadUsageSettings()): ModelPrice | null => {
+    if (settings.customPrices[model]) return settings.customPrices[model];
+    const id = model.toLowerCase();
+    const match = DEFAULT_MODEL_PRICES.find(([pattern]) => id.includes(pattern));
+    return match ? match[1] : null;
+};
+
+export const estimateCost = (model: string, promptTokens: number, completionTokens: number): number | null => {
+    const price = getModelPrice(model);
+    if (!price) return null;
+    return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+};
+
+export const recordUsage = (record: Omit<UsageRecord, 'id' | 'cost'>): UsageRecord => {
+    const entry: UsageRecord = {
+        ...record,
+        id: crypto.randomUUID(),
+        cost: estimateCost(record.model, record.promptTokens, record.completionTokens),
+    };
+    try {
+        const ledger = [...loadUsageLedger(), entry].slice(-MAX_RECORDS);
+        localStorage.setItem(LEDGER_KEY, JSON.stringify(ledger));
+    } catch (error) {
+        console.error('Error saving usage record:', error);
+    }
+    return entry;
+};
+
+const toDateKey = (timestamp: number) => {
+    const date = new Date(timestamp);
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export interface UsageTotals {
+    requests: number;
+    failed: number;
+    promptTokens: number;
+    completionTokens: number;
+    cost: number;
+    // Запросы к моделям без известной цены не входят в cost
+    unpricedRequests: number;
+}
+
+export const summarizeUsage = (records: UsageRecord[]): UsageTotals => {
+    return records.reduce((totals, record) => {
+        totals.requests += 1;
+        if (!record.success) totals.failed += 1;
+        totals.promptTokens += record.promptTokens;
+        totals.completionTokens += record.completionTokens;
+        if (record.cost === null) {
+            if (record.promptTokens + record.completionTokens > 0) totals.unpricedRequests += 1;
+        } else {
+            totals.cost += record.cost;
+        }
+        return totals;
+    }, { requests: 0, failed: 0, promptTokens: 0, completionTokens: 0, cost: 0, unpricedRequests: 0 });
+};
+
+export const getRecordsForMonth = (records: UsageRecord[], date = new Date()): UsageRecord[] => {
+    const prefix = toDateKey(date.getTime()).slice(0, 7);
+    return records.filter(record => toDateKey(record.timestamp).startsWith(prefix));
+};
+
+/**
+ * Группирует записи по дням в формате YYYY-MM-DD (по местному времени)
+ */
+export const groupUsageByDay = (records: UsageRecord[]): { [date: string]: UsageTotals } => {
+    const groups: { [date: string]: UsageRecord[] } = {};
+    records.forEach(record => {
+        const key = toDateKey(record.timestamp);
+        (groups[key] = groups[key] || []).push(record);
+    });
+    return Object.fromEntries(Object.entries(groups).map(([date, items]) => [date, summarizeUsage(items)]));
+};
+
+export const groupUsageBy = (records: UsageRecord[], key: 'feature' | 'model'): { [group: string]: UsageTotals } => {
+    const groups: { [group: string]: UsageRecord[] } = {};
+    records.forEach(record => {
+        (groups[record[key]] = groups[record[key]] || []).push(record);
+    });
+    return Object.fromEntries(Object.entries(groups).map(([group, items]) => [group, summarizeUsage(items)]));
+};
+
+/**
+ * Сколько потрачено в текущем месяце и превышен ли лимит
+ */
+export const getBudgetStatus = () => {
+    const settings = loadUsageSettings();
+    const spent = summarizeUsage(getRecordsForMonth(loadUsageLedger())).cost;
+    return {
+        spent,
+        budget: settings.monthlyBudget,
+        isExceeded: settings.monthlyBudget !== null && spent >= settings.monthlyBudget,
+    };
+};
+
+export const formatCost = (cost: number): string => {
+    if (cost === 0) return '$0';
+    return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+};
@@ -1,25 +1,70 @@
+export type MicronutrientKey =
+    | 'sugar'
+    | 'saturatedFat'
+    | 'sodium'
+    | 'cholesterol'
+    | 'vitaminA'
+    | 'vitaminC'
+    | 'vitaminD'
+    | 'calcium'
+    | 'iron'
+    | 'potassium'
+    | 'magnesium';
+
+// Отсутствующий ключ означает, что значение неизвестно, а не равно нулю
+export type Micronutrients = { [key in MicronutrientKey]?: number };
+
+export interface PortionDefinition {
+    // Название меры: «яйцо», «ст. л.», «кусок»
+    label: string;
+    grams: number;
+}
+
 export interface Ingredient {
     id: string;
     name: string;
     weight: number;
+    // Сколько штук ввёл пользователь («2 шт», «3 яйца»): при масштабировании остаётся целым числом
+    pieces?: number;
+    // Свои меры продукта, например «1 яйцо = 55 г»
+    portions?: PortionDefinition[];
     baseCPFC: {
         calories: number;
         protein: number;
         fat: number;
         carbohydrate: number;
         fiber: number;
+        micronutrients?: Micronutrients;
     };
 }
 
+export type ApiProtocol = 'openai' | 'anthropic' | 'gemini';
+export type AuthStyle = 'bearer' | 'header' | 'none';
+
 export interface ApiProvider {
     id: string;
     name: string;
     baseUrl: string;
     requiresAuth: boolean;
+    protocol: ApiProtocol;
+    // Поля ниже задаются только для пользовательских провайдеров
+    isCustom?: boolean;
+    authStyle?: AuthStyle;
+    authHeaderName?: string;
+    extraHeaders?: { [header: string]: string };
+}
+
+export interface AIRequestSettings {
+    timeoutSeconds: number;
+    maxRetries: number;
 }
 
 export interface ApiConfig {
     currentProviderId: string;
+    customProviders?: ApiProvider[];
+    requestSettings?: AIRequestSettings;
+    // Резервные провайдеры в порядке очереди; используются, если основной не ответил
+    fallbackProviderIds?: string[];
     providers: {
         [providerId: string]: {
             token: string;
@@ -29,12 +74,111 @@ export interface ApiConfig {
     };
 }
 
+export type AIFeature = 'text-analysis' | 'image-analysis' | 'ingredient-lookup' | 'daily-goals' | 'daily-analysis' | 'period-report';
+
+export interface ModelPrice {
+    // Цена в долларах за 1 млн токенов
+    input: number;
+    output: number;
+}
+
+export interface UsageRecord {
+    id: string;
+    timestamp: number;
+    feature: AIFeature;
+    providerId: string;
+    providerName: string;
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+    // null — цена модели неизвестна
+    cost: number | null;
+    latencyMs: number;
+    success: boolean;
+    error?: string;
+}
+
+export interface UsageSettings {
+    // Месячный лимит в долларах; null — без ограничения
+    monthlyBudget: number | null;
+    customPrices: { [model: string]: ModelPrice };
+}
+
+export type AICacheKind = 'text' | 'image' | 'ingredient';
+
+export interface AICacheEntry {
+    key: string;
+    kind: AICacheKind;
+    // Запрос пользователя в читаемом виде для экрана кэша
+    label: string;
+    providerId: string;
+    model: string;
+    // Провайдер, который фактически ответил (может быть резервным)
+    answeredBy: string;
+    createdAt: number;
+    expiresAt: number;
+    value: unknown;
+}
+
+export interface AICacheSettings {
+    enabled: boolean;
+    ttlDays: number;
+}
+
+export interface DayAnalysis {
+    id: string;
+    createdAt: string;
+    providerName: string;
+    model: string;
+    // Цели и итоги дня на момент анализа: советы давались относительно них
+    goals: UserProfile['dailyGoals'] | null;
+    totals: HistoryEntry['dailyTotals'];
+    text: string;
+}
+
+export interface WaterLogEntry {
+    id: string;
+    // Время записи в ISO-формате
+    time: string;
+    // Объём в миллилитрах
+    volume: number;
+    beverageId: string;
+    // Приём пищи, в который записан калорийный напиток
+    mealId?: string;
+}
+
+export interface WaterIntake {
+    entries: WaterLogEntry[];
+    // Норма воды на момент последней записи, мл
+    goalMl: number | null;
+}
+
+export interface MealSlot {
+    // Для стандартных приёмов — ключ (breakfast), для своих — само название
+    type: string;
+    label: string;
+    emoji: string;
+    // Обычное время приёма пищи «ЧЧ:ММ» — для подсказки и сортировки старых записей
+    time: string;
+}
+
+export interface HistoryMeal {
+    type: string;
+    ingredients: Ingredient[];
+    // Момент приёма пищи (ISO); в записях до появления времени отсутствует
+    timestamp?: string;
+}
+
+// Приём пищи из истории, открытый в конструкторе для правки
+export interface EditingMeal {
+    date: string;
+    mealId: string;
+    meal: HistoryMeal;
+}
+
 export interface HistoryEntry {
     meals: {
-        [mealId: string]: {
-            type: string;
-            ingredients: Ingredient[];
-        };
+        [mealId: string]: HistoryMeal;
     };
     dailyTotals: {
         calories: number;
@@ -43,6 +187,7 @@ export interface HistoryEntry {
         carbohydrate: number;
         fiber: number;
         weight: number;
+        micronutrients?: Micronutrients;
     };
     progressPercentages?: {
         calories: number;
@@ -51,15 +196,84 @@ export interface HistoryEntry {
         carbohydrate: number;
         fiber: number;
     };
+    // Нормы, действовавшие в этот день, — по ним считается progressPercentages
+    goalsSnapshot?: DailyGoals;
+    // Версия норм, из которой взят снимок
+    goalVersionId?: string;
+    dayType?: GoalDayType;
+    analyses?: DayAnalysis[];
+    water?: WaterIntake;
 }
 
 export interface History {
     [date: string]: HistoryEntry;
 }
 
+export type ReportPeriod = 'week' | 'month';
+
+export type ReportNutrient = 'calories' | 'protein' | 'fat' | 'carbohydrate' | 'fiber';
+
+export interface PeriodSummary {
+    period: ReportPeriod;
+    startDate: string;
+    endDate: string;
+    totalDays: number;
+    loggedDays: number;
+    // Средние значения за день считаются только по дням с записями
+    averages: HistoryEntry['dailyTotals'];
+    goals: UserProfile['dailyGoals'] | null;
+    adherence: Array<{
+        nutrient: ReportNutrient;
+        averagePercent: number;
+        daysOnTarget: number;
+    }>;
+    topFoods: Array<{
+        name: string;
+        count: number;
+        totalWeight: number;
+        totalCalories: number;
+    }>;
+    mealPattern: Array<{
+        type: string;
+        count: number;
+        averageCalories: number;
+        caloriesShare: number;
+    }>;
+    mealsPerDay: number;
+    weekdayCalories: number | null;
+    weekendCalories: number | null;
+}
+
+export interface Recipe {
+    ingredients: Ingredient[];
+    // Сумма весов ингредиентов до приготовления, г
+    rawWeight: number;
+    // Вес готового блюда с учётом уварки или набухания, г
+    cookedWeight: number;
+    servings: number;
+}
+
 export interface SavedDish {
     id: string;
     name: string;
+    // Состав блюда; per100g тогда рассчитан на 100 г готового блюда
+    recipe?: Recipe;
+    portions?: PortionDefinition[];
+    per100g: {
+        calories: number;
+        protein: number;
+        fat: number;
+        carbohydrate: number;
+        fiber: number;
+        micronutrients?: Micronutrients;
+    };
+}
+
+export interface ReferenceFood {
+    id: string;
+    name: string;
+    category: string;
+    synonyms: string[];
     per100g: {
         calories: number;
         protein: number;
@@ -69,25 +283,90 @@ export interface SavedDish {
     };
 }
 
+export interface Beverage {
+    id: string;
+    name: string;
+    // Пищевая ценность на 100 мл; null — напиток без калорий
+    per100ml: SavedDish['per100g'] | null;
+}
+
+export type FoodSource = 'library' | 'reference';
+
+export interface FoodSearchResult {
+    id: string;
+    name: string;
+    source: FoodSource;
+    sourceLabel: string;
+    category?: string;
+    per100g: SavedDish['per100g'];
+    // Свои меры блюда; у рецептов сюда входит и «порция»
+    portions?: PortionDefinition[];
+    score: number;
+}
+
 export type Gender = 'male' | 'female';
 export type ActivityLevel = 'minimal' | 'light' | 'moderate' | 'high' | 'extreme';
 export type Goal = 'lose' | 'maintain' | 'gain';
 
+export interface BodyMetricEntry {
+    id: string;
+    // Дата замера в формате YYYY-MM-DD; на одну дату хранится один замер
+    date: string;
+    weight?: number;
+    waist?: number;
+    bodyFatPercent?: number;
+}
+
+export interface DailyGoals {
+    bmr: number;
+    tdee: number;
+    targetCalories: number;
+    protein: number;
+    fat: number;
+    carbohydrate: number;
+    fiber: number;
+}
+
+export interface GoalVersion {
+    id: string;
+    // Дата (YYYY-MM-DD), с которой действуют нормы
+    effectiveFrom: string;
+    createdAt: string;
+    goals: DailyGoals;
+    schedule?: GoalSchedule;
+}
+
+export type GoalDayType = 'training' | 'refeed';
+
+// Абсолютные значения, заменяющие базовые нормы; незаданные поля берутся из базовых
+export type GoalOverride = Partial<Pick<DailyGoals, 'targetCalories' | 'protein' | 'fat' | 'carbohydrate' | 'fiber'>>;
+
+export interface GoalDayRule {
+    dayType?: GoalDayType;
+    override?: GoalOverride;
+}
+
+export interface GoalSchedule {
+    // Нормы для особых типов дней
+    dayTypes: { [type in GoalDayType]?: GoalOverride };
+    // Правила по дням недели: 0 — воскресенье, 6 — суббота
+    weekdays: { [weekday: number]: GoalDayRule };
+    // Разовые правила на конкретные даты (YYYY-MM-DD), важнее правил по дням недели
+    dates: { [date: string]: GoalDayRule };
+}
+
 export interface UserProfile {
     name: string;
     gender: Gender;
     age: number;
     weight: number;
     height: number;
+    // Процент жира в теле; если указан, BMR считается по формуле Кетча-МакАрдла
+    bodyFatPercent?: number;
     activityLevel: ActivityLevel;
     goal: Goal;
-    dailyGoals?: {
-        bmr: number;
-        tdee: number;
-        targetCalories: number;
-        protein: number;
-        fat: number;
-        carbohydrate: number;
-        fiber: number;
-    };
+    dailyGoals?: DailyGoals;
+    goalSchedule?: GoalSchedule;
+    // Необязательные нормы микронутриентов: для одних это предел, для других — цель
+    micronutrientGoals?: Micronutrients;
 }
\ No newline at end of file
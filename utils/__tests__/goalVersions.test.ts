@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { History, UserProfile } from '../../types';
+import { createInitialGoalVersions, linkEntriesToGoalVersion } from '../goalVersions';
+
+const emptyEntry = () => ({
+    meals: {},
+    dailyTotals: { calories: 0, protein: 0, fat: 0, carbohydrate: 0, fiber: 0, weight: 0 },
+});
+
+describe('linkEntriesToGoalVersion', () => {
+    it('привязывает дни до появления истории норм к первой версии', () => {
+        const profile = { dailyGoals: { calories: 2000, protein: 100, fat: 70, carbohydrate: 250, fiber: 30 } } as unknown as UserProfile;
+        const history: History = {
+            '2026-09-01': emptyEntry(),
+            '2026-10-01': { ...emptyEntry(), goalVersionId: 'other' },
+        };
+        const [initial] = createInitialGoalVersions(profile, history, '2026-10-19');
+
+        const linked = linkEntriesToGoalVersion(history, initial);
+
+        expect(initial.effectiveFrom).toBe('2026-09-01');
+        expect(linked['2026-09-01'].goalVersionId).toBe(initial.id);
+        expect(linked['2026-10-01'].goalVersionId).toBe('other');
+    });
+});
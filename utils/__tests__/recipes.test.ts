@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { Ingredient } from '../../types';
+import { scaleIngredients } from '../recipes';
+import { parsePieceCount } from '../portions';
+
+const ingredient = (name: string, weight: number, pieces?: number): Ingredient => ({
+    id: name,
+    name,
+    weight,
+    ...(pieces ? { pieces } : {}),
+    baseCPFC: { calories: 0, protein: 0, fat: 0, carbohydrate: 0, fiber: 0 },
+});
+
+describe('scaleIngredients', () => {
+    it('вес в граммах масштабируется по весу, даже если совпал с целыми штуками', () => {
+        const [carrot] = scaleIngredients([ingredient('морковь', 160)], 1.25);
+
+        expect(carrot.weight).toBe(200);
+        expect(carrot.pieces).toBeUndefined();
+    });
+
+    it('введённое штуками остаётся целыми штуками', () => {
+        const [eggs] = scaleIngredients([ingredient('яйцо', 110, 2)], 1.25);
+
+        expect(eggs).toMatchObject({ pieces: 3, weight: 165 });
+    });
+
+    it('не опускается ниже одной штуки', () => {
+        const [egg] = scaleIngredients([ingredient('яйцо', 55, 1)], 0.3);
+
+        expect(egg).toMatchObject({ pieces: 1, weight: 55 });
+    });
+});
+
+describe('parsePieceCount', () => {
+    it.each([
+        ['2 шт', [], 2],
+        ['3 яйца', [{ label: 'яйцо', grams: 55 }], 3],
+        ['150', [], null],
+        ['1,5 шт', [], null],
+        ['2 ст. л.', [], null],
+        ['1 шт + 20', [], null],
+    ])('%s → %s', (input, portions, expected) => {
+        expect(parsePieceCount(input, portions)).toBe(expected);
+    });
+});
@@ -0,0 +1,127 @@
+import { BodyMetricEntry, UserProfile } from '../types';
+
+const STORAGE_KEY = 'body-metrics';
+
+// Коэффициент сглаживания тренда за один день: каждый новый замер влияет на тренд на 10%
+const TREND_SMOOTHING = 0.1;
+// Расхождение тренда с весом в профиле, при котором стоит пересчитать нормы
+const DRIFT_THRESHOLD_KG = 1.5;
+const DRIFT_THRESHOLD_SHARE = 0.02;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface WeightTrendPoint {
+    date: string;
+    weight: number;
+    trend: number;
+}
+
+export interface WeightDrift {
+    trendWeight: number;
+    profileWeight: number;
+    difference: number;
+}
+
+const daysBetween = (from: string, to: string) =>
+    Math.round((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS);
+
+export const loadBodyMetrics = (): BodyMetricEntry[] => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (!stored) return [];
+        return JSON.parse(stored);
+    } catch (error) {
+        console.error('Error loading body metrics:', error);
+        return [];
+    }
+};
+
+export const saveBodyMetrics = (entries: BodyMetricEntry[]): void => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+    } catch (error) {
+        console.error('Error saving body metrics:', error);
+        throw new Error('Не удалось сохранить замеры');
+    }
+};
+
+/**
+ * Добавляет замер; если за эту дату замер уже есть, обновляет в нём только указанные показатели.
+ * Список остаётся отсортированным по дате
+ */
+export const upsertBodyMetric = (entries: BodyMetricEntry[], entry: BodyMetricEntry): BodyMetricEntry[] => {
+    const existing = entries.find(item => item.date === entry.date);
+    const merged: BodyMetricEntry = existing
+        ? {
+            ...existing,
+            weight: entry.weight ?? existing.weight,
+            waist: entry.waist ?? existing.waist,
+            bodyFatPercent: entry.bodyFatPercent ?? existing.bodyFatPercent,
+        }
+        : entry;
+    return [...entries.filter(item => item.date !== entry.date), merged]
+        .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Последнее известное значение показателя
+ */
+export const getLatestMetric = (
+    entries: BodyMetricEntry[],
+    key: 'weight' | 'waist' | 'bodyFatPercent'
+): { date: string; value: number } | null => {
+    for (let i = entries.length - 1; i >= 0; i--) {
+        const value = entries[i][key];
+        if (value !== undefined && value > 0) return { date: entries[i].date, value };
+    }
+    return null;
+};
+
+/**
+ * Экспоненциально сглаженный тренд веса. Пропуски между замерами учитываются:
+ * чем дольше не было взвешиваний, тем сильнее новый замер сдвигает тренд
+ */
+export const calculateWeightTrend = (entries: BodyMetricEntry[]): WeightTrendPoint[] => {
+    const points: WeightTrendPoint[] = [];
+    entries
+        .filter(entry => entry.weight !== undefined && entry.weight > 0)
+        .forEach(entry => {
+            const previous = points[points.length - 1];
+            if (!previous) {
+                points.push({ date: entry.date, weight: entry.weight, trend: entry.weight });
+                return;
+            }
+            const days = Math.max(daysBetween(previous.date, entry.date), 1);
+            const alpha = 1 - Math.pow(1 - TREND_SMOOTHING, days);
+            points.push({
+                date: entry.date,
+                weight: entry.weight,
+                trend: previous.trend + alpha * (entry.weight - previous.trend),
+            });
+        });
+    return points;
+};
+
+/**
+ * Скорость изменения тренда в кг за неделю — по последним двум неделям замеров
+ */
+export const getWeeklyRate = (points: WeightTrendPoint[]): number | null => {
+    if (points.length < 2) return null;
+    const latest = points[points.length - 1];
+    const windowStart = points.find(point => daysBetween(point.date, latest.date) <= 14) || points[0];
+    const days = daysBetween(windowStart.date, latest.date);
+    if (days < 7) return null;
+    return ((latest.trend - windowStart.trend) / days) * 7;
+};
+
+/**
+ * Расхождение тренда с весом в профиле; null — если оно в пределах нормы
+ */
+export const getWeightDrift = (points: WeightTrendPoint[], profile: UserProfile | null): WeightDrift | null => {
+    if (!profile || !(profile.weight > 0) || points.length === 0) return null;
+    const trendWeight = points[points.length - 1].trend;
+    const difference = trendWeight - profile.weight;
+    const threshold = Math.max(DRIFT_THRESHOLD_KG, profile.weight * DRIFT_THRESHOLD_SHARE);
+    if (Math.abs(difference) < threshold) return null;
+    return { trendWeight, profileWeight: profile.weight, difference };
+};
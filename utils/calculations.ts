@@ -1,4 +1,5 @@
-import { Ingredient } from '../types';
+import { Ingredient, Micronutrients } from '../types';
+import { addMicronutrients, hasMicronutrients, scaleMicronutrients } from './micronutrients';
 
 /**
  * Рассчитывает общие значения КБЖУ для списка ингредиентов
@@ -12,6 +13,7 @@ export const calculateTotals = (ingredientsList: Ingredient[]) => {
         totals.carbohydrate += (item.baseCPFC.carbohydrate || 0) * ratio;
         totals.fiber += (item.baseCPFC.fiber || 0) * ratio;
         totals.weight += (item.weight || 0);
+        totals.micronutrients = addMicronutrients(totals.micronutrients, item.baseCPFC.micronutrients, ratio);
         return totals;
     }, { 
         calories: 0, 
@@ -19,7 +21,8 @@ export const calculateTotals = (ingredientsList: Ingredient[]) => {
         fat: 0, 
         carbohydrate: 0, 
         fiber: 0, 
-        weight: 0 
+        weight: 0,
+        micronutrients: {} as Micronutrients,
     });
 };
 
@@ -48,6 +51,14 @@ export const formatDate = (dateString: string): string => {
     });
 };
 
+/**
+ * Ключ дня истории «ГГГГ-ММ-ДД» в часовом поясе пользователя:
+ * ужин в 23:30 по Москве относится к этому дню, а не к следующему по UTC
+ */
+export const getLocalDateKey = (date = new Date()): string => {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
 /**
  * Получает метку типа приёма пищи на русском
  */
@@ -57,6 +68,7 @@ export const getMealTypeLabel = (type: string): string => {
         lunch: 'Обед',
         dinner: 'Ужин',
         snack: 'Перекус',
+        drinks: 'Напитки',
     };
     return labels[type] || type;
 };
@@ -83,6 +95,9 @@ export const calculatePer100g = (ingredientsList: Ingredient[]) => {
         fat: Number((totals.fat * ratio).toFixed(1)),
         carbohydrate: Number((totals.carbohydrate * ratio).toFixed(1)),
         fiber: Number((totals.fiber * ratio).toFixed(1)),
+        ...(hasMicronutrients(totals.micronutrients)
+            ? { micronutrients: scaleMicronutrients(totals.micronutrients, ratio) }
+            : {}),
     };
 };
 
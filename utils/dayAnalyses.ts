@@ -0,0 +1,60 @@
+import { DailyGoals, DayAnalysis, History, HistoryEntry } from '../types';
+
+export interface ComparisonRow {
+    key: 'calories' | 'protein' | 'fat' | 'carbohydrate' | 'fiber';
+    label: string;
+    unit: string;
+    base: number;
+    other: number;
+    target: number | null;
+    // true — второй день ближе к цели, false — дальше, null — цели нет или разницы нет
+    improved: boolean | null;
+}
+
+const NUTRIENTS: Array<Pick<ComparisonRow, 'key' | 'label' | 'unit'> & { goalKey: keyof DailyGoals }> = [
+    { key: 'calories', label: 'Калории', unit: 'ккал', goalKey: 'targetCalories' },
+    { key: 'protein', label: 'Белки', unit: 'г', goalKey: 'protein' },
+    { key: 'fat', label: 'Жиры', unit: 'г', goalKey: 'fat' },
+    { key: 'carbohydrate', label: 'Углеводы', unit: 'г', goalKey: 'carbohydrate' },
+    { key: 'fiber', label: 'Клетчатка', unit: 'г', goalKey: 'fiber' },
+];
+
+/**
+ * Последний сохранённый анализ дня
+ */
+export const getLatestAnalysis = (entry: HistoryEntry | undefined): DayAnalysis | null => {
+    const analyses = entry?.analyses || [];
+    return analyses.length > 0 ? analyses[analyses.length - 1] : null;
+};
+
+/**
+ * Ближайший следующий день с записями — на нём видно, выполнены ли советы
+ */
+export const getNextRecordedDate = (history: History, date: string): string | null => {
+    const later = Object.keys(history).filter(other => other > date).sort();
+    return later[0] || null;
+};
+
+/**
+ * Сравнивает итоги анализируемого дня с другим днём относительно целей,
+ * действовавших на момент анализа
+ */
+export const compareWithDay = (analysis: DayAnalysis, otherEntry: HistoryEntry): ComparisonRow[] => {
+    const goals = analysis.goals;
+    return NUTRIENTS.map(({ key, label, unit, goalKey }) => {
+        const base = analysis.totals[key];
+        const other = otherEntry.dailyTotals[key];
+        const target = goals && goals[goalKey] > 0 ? goals[goalKey] : null;
+
+        let improved: boolean | null = null;
+        if (target !== null) {
+            const baseDistance = Math.abs(base - target);
+            const otherDistance = Math.abs(other - target);
+            // Разница меньше 2% цели считается шумом
+            if (Math.abs(baseDistance - otherDistance) > target * 0.02) {
+                improved = otherDistance < baseDistance;
+            }
+        }
+        return { key, label, unit, base, other, target, improved };
+    });
+};
@@ -1,8 +1,12 @@
-import { History, Ingredient } from '../types';
+import { History, Ingredient, PeriodSummary } from '../types';
 import { getMealTypeLabel } from './calculations';
+import { formatMealTime, sortMealsChronologically } from './mealSlots';
+import { DEFAULT_MEAL_SLOTS } from '../constants/mealSlots';
+import { formatPeriodSummary } from './periodReport';
 
 interface ExportRow {
     date: string;
+    time: string;
     mealType: string;
     ingredientName: string;
     weight: number;
@@ -21,11 +25,12 @@ const prepareExportData = (history: History, startDate?: string, endDate?: strin
         if (startDate && date < startDate) return;
         if (endDate && date > endDate) return;
         
-        Object.entries(dayData.meals).forEach(([_, meal]) => {
+        sortMealsChronologically(dayData.meals, DEFAULT_MEAL_SLOTS).forEach(([_, meal]) => {
             meal.ingredients.forEach((ing: Ingredient) => {
                 const ratio = ing.weight / 100;
                 rows.push({
                     date,
+                    time: formatMealTime(meal) || '',
                     mealType: getMealTypeLabel(meal.type),
                     ingredientName: ing.name,
                     weight: ing.weight,
@@ -52,6 +57,7 @@ export const exportToCSV = (history: History, startDate?: string, endDate?: stri
     
     const headers = [
         'Дата',
+        'Время',
         'Прием пищи',
         'Ингредиент',
         'Вес (г)',
@@ -66,6 +72,7 @@ export const exportToCSV = (history: History, startDate?: string, endDate?: stri
         headers.join(','),
         ...rows.map(row => [
             row.date,
+            row.time,
             `"${row.mealType}"`,
             `"${row.ingredientName}"`,
             row.weight,
@@ -132,4 +139,21 @@ export const exportToJSON = (history: History, startDate?: string, endDate?: str
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
-};
\ No newline at end of file
+};
+export const exportPeriodReport = (summary: PeriodSummary, aiReport: string | null): void => {
+    const sections = [formatPeriodSummary(summary)];
+    if (aiReport) {
+        sections.push(`AI-ОТЧЁТ:\n${aiReport}`);
+    }
+
+    const blob = new Blob([sections.join('\n\n') + '\n'], { type: 'text/plain;charset=utf-8;' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+
+    link.setAttribute('href', url);
+    link.setAttribute('download', `отчёт_КБЖУ_${summary.startDate}_${summary.endDate}.txt`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+};
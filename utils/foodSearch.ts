@@ -0,0 +1,151 @@
+import { FoodSearchResult, ReferenceFood, SavedDish } from '../types';
+import { REFERENCE_FOODS, FOOD_DATABASE_SOURCE_LABEL } from '../constants/foodDatabase';
+import { getDishPortions } from './portions';
+
+const LIBRARY_SOURCE_LABEL = 'Мои блюда';
+
+// Окончания, отбрасываемые при грубом стемминге (от длинных к коротким)
+const RUSSIAN_ENDINGS = [
+    'иями', 'ями', 'ами', 'ого', 'его', 'ому', 'ему', 'ыми', 'ими', 'ией',
+    'ая', 'яя', 'ое', 'ее', 'ые', 'ие', 'ой', 'ый', 'ий', 'ую', 'юю', 'ом', 'ем',
+    'ам', 'ям', 'ах', 'ях', 'ов', 'ев', 'ей',
+    'а', 'я', 'ы', 'и', 'у', 'ю', 'о', 'е', 'ь',
+];
+
+/**
+ * Приводит строку к виду для сравнения: нижний регистр, «ё» → «е», без пунктуации
+ */
+export const normalizeFoodName = (value: string): string => {
+    return value
+        .toLowerCase()
+        .replace(/ё/g, 'е')
+        .replace(/[^a-zа-я0-9%.]+/g, ' ')
+        .trim();
+};
+
+const stem = (word: string): string => {
+    if (word.length <= 4) return word;
+    for (const ending of RUSSIAN_ENDINGS) {
+        if (word.endsWith(ending) && word.length - ending.length >= 3) {
+            return word.slice(0, -ending.length);
+        }
+    }
+    return word;
+};
+
+const tokenize = (value: string): string[] => {
+    return normalizeFoodName(value).split(' ').filter(Boolean).map(stem);
+};
+
+const levenshtein = (a: string, b: string): number => {
+    if (a === b) return 0;
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+const matchToken = (queryToken: string, candidateTokens: string[]): number => {
+    let best = 0;
+    const allowedTypos = queryToken.length >= 7 ? 2 : queryToken.length >= 4 ? 1 : 0;
+
+    for (const token of candidateTokens) {
+        if (token === queryToken) return 1;
+        if (token.startsWith(queryToken)) {
+            best = Math.max(best, 0.9);
+        } else if (queryToken.length >= 3 && token.includes(queryToken)) {
+            best = Math.max(best, 0.7);
+        } else if (allowedTypos > 0) {
+            // Сравниваем с префиксом той же длины, чтобы опечатки в недописанном слове тоже находились
+            const prefix = token.slice(0, Math.max(queryToken.length, 3));
+            const distance = Math.min(levenshtein(queryToken, token), levenshtein(queryToken, prefix));
+            if (distance <= allowedTypos) {
+                best = Math.max(best, 0.6 - distance * 0.1);
+            }
+        }
+    }
+    return best;
+};
+
+/**
+ * Оценивает совпадение запроса с названием: 0 — нет совпадения, чем больше, тем лучше.
+ * Каждое слово запроса должно найтись в названии (с учётом окончаний и опечаток).
+ */
+export const scoreFoodName = (query: string, name: string): number => {
+    const queryTokens = tokenize(query);
+    const nameTokens = tokenize(name);
+    if (queryTokens.length === 0 || nameTokens.length === 0) return 0;
+
+    let total = 0;
+    for (const queryToken of queryTokens) {
+        const tokenScore = matchToken(queryToken, nameTokens);
+        if (tokenScore === 0) return 0;
+        total += tokenScore;
+    }
+
+    let score = total / queryTokens.length;
+    if (normalizeFoodName(name).startsWith(normalizeFoodName(query))) score += 0.2;
+    // Короткие названия без лишних слов ближе к тому, что ищет пользователь
+    score -= Math.max(0, nameTokens.length - queryTokens.length) * 0.03;
+    return score;
+};
+
+const scoreReferenceFood = (query: string, food: ReferenceFood): number => {
+    const nameScore = scoreFoodName(query, food.name);
+    const synonymScore = food.synonyms.reduce(
+        (best, synonym) => Math.max(best, scoreFoodName(query, synonym) * 0.95),
+        0
+    );
+    return Math.max(nameScore, synonymScore);
+};
+
+/**
+ * Ищет продукты одновременно в личном справочнике и во встроенной базе.
+ * Блюда пользователя получают небольшой приоритет при равной релевантности.
+ */
+export const searchFoods = (query: string, savedDishes: SavedDish[], limit = 30): FoodSearchResult[] => {
+    if (!query.trim()) return [];
+
+    const results: FoodSearchResult[] = [];
+
+    savedDishes.forEach(dish => {
+        const score = scoreFoodName(query, dish.name);
+        if (score > 0) {
+            const portions = getDishPortions(dish);
+            results.push({
+                id: dish.id,
+                name: dish.name,
+                source: 'library',
+                sourceLabel: LIBRARY_SOURCE_LABEL,
+                per100g: dish.per100g,
+                ...(portions.length > 0 ? { portions } : {}),
+                score: score + 0.1,
+            });
+        }
+    });
+
+    REFERENCE_FOODS.forEach(food => {
+        const score = scoreReferenceFood(query, food);
+        if (score > 0) {
+            results.push({
+                id: food.id,
+                name: food.name,
+                source: 'reference',
+                sourceLabel: FOOD_DATABASE_SOURCE_LABEL,
+                category: food.category,
+                per100g: food.per100g,
+                score,
+            });
+        }
+    });
+
+    return results
+        .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name, 'ru'))
+        .slice(0, limit);
+};
@@ -0,0 +1,135 @@
+import { ActivityLevel, DailyGoals, Goal, UserProfile } from '../types';
+
+export type BmrFormula = 'mifflin-st-jeor' | 'katch-mcardle';
+
+export interface GoalCalculation {
+    goals: DailyGoals;
+    formula: BmrFormula;
+}
+
+export interface GoalDiffRow {
+    key: keyof DailyGoals;
+    label: string;
+    unit: string;
+    local: number;
+    ai: number;
+    // Отклонение ответа AI от расчёта по формуле в процентах
+    diffPercent: number;
+}
+
+export const ACTIVITY_MULTIPLIERS: Record<ActivityLevel, number> = {
+    minimal: 1.2,
+    light: 1.375,
+    moderate: 1.55,
+    high: 1.725,
+    extreme: 1.9,
+};
+
+// Дефицит или профицит калорий относительно TDEE
+const CALORIE_ADJUSTMENT: Record<Goal, number> = {
+    lose: -0.15,
+    maintain: 0,
+    gain: 0.1,
+};
+
+// Белок в граммах на килограмм веса
+const PROTEIN_PER_KG: Record<Goal, number> = {
+    lose: 2.0,
+    maintain: 1.4,
+    gain: 1.8,
+};
+
+// Доля жиров в целевой калорийности
+const FAT_SHARE = 0.3;
+
+// Клетчатка: 14 г на 1000 ккал в пределах рекомендаций для пола
+const FIBER_PER_1000_KCAL = 14;
+const FIBER_RANGE = {
+    male: [30, 38],
+    female: [25, 30],
+};
+
+export const BMR_FORMULA_LABELS: Record<BmrFormula, string> = {
+    'mifflin-st-jeor': 'Миффлина-Сан Жеора',
+    'katch-mcardle': 'Кетча-МакАрдла (по безжировой массе)',
+};
+
+const GOAL_FIELDS: Array<Pick<GoalDiffRow, 'key' | 'label' | 'unit'>> = [
+    { key: 'bmr', label: 'BMR', unit: 'ккал' },
+    { key: 'tdee', label: 'TDEE', unit: 'ккал' },
+    { key: 'targetCalories', label: 'Цель по калориям', unit: 'ккал' },
+    { key: 'protein', label: 'Белки', unit: 'г' },
+    { key: 'fat', label: 'Жиры', unit: 'г' },
+    { key: 'carbohydrate', label: 'Углеводы', unit: 'г' },
+    { key: 'fiber', label: 'Клетчатка', unit: 'г' },
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/**
+ * Основной обмен: Кетч-МакАрдл при известном проценте жира, иначе Миффлин-Сан Жеор
+ */
+export const calculateBmr = (profile: UserProfile): { bmr: number; formula: BmrFormula } => {
+    const bodyFat = profile.bodyFatPercent;
+    if (bodyFat && bodyFat > 0 && bodyFat < 70) {
+        const leanMass = profile.weight * (1 - bodyFat / 100);
+        return { bmr: 370 + 21.6 * leanMass, formula: 'katch-mcardle' };
+    }
+    const base = 10 * profile.weight + 6.25 * profile.height - 5 * profile.age;
+    return { bmr: base + (profile.gender === 'male' ? 5 : -161), formula: 'mifflin-st-jeor' };
+};
+
+/**
+ * Целевая калорийность для цели пользователя при заданном расходе
+ */
+export const getTargetCalories = (tdee: number, goal: Goal): number => tdee * (1 + CALORIE_ADJUSTMENT[goal]);
+
+/**
+ * Жиры — фиксированная доля калорий, углеводы — остаток после белков и жиров
+ */
+export const splitMacros = (targetCalories: number, protein: number): { fat: number; carbohydrate: number } => {
+    const fat = (targetCalories * FAT_SHARE) / 9;
+    return { fat, carbohydrate: Math.max((targetCalories - protein * 4 - fat * 9) / 4, 0) };
+};
+
+/**
+ * Рассчитывает дневные нормы по формулам без обращения к AI
+ */
+export const calculateGoalsLocally = (profile: UserProfile): GoalCalculation => {
+    if (!(profile.weight > 0) || !(profile.height > 0) || !(profile.age > 0)) {
+        throw new Error('Укажите возраст, вес и рост');
+    }
+
+    const { bmr, formula } = calculateBmr(profile);
+    const tdee = bmr * ACTIVITY_MULTIPLIERS[profile.activityLevel];
+    const targetCalories = getTargetCalories(tdee, profile.goal);
+    const protein = profile.weight * PROTEIN_PER_KG[profile.goal];
+    const { fat, carbohydrate } = splitMacros(targetCalories, protein);
+    const [fiberMin, fiberMax] = FIBER_RANGE[profile.gender];
+    const fiber = clamp((targetCalories / 1000) * FIBER_PER_1000_KCAL, fiberMin, fiberMax);
+
+    return {
+        goals: {
+            bmr: Math.round(bmr),
+            tdee: Math.round(tdee),
+            targetCalories: Math.round(targetCalories),
+            protein: Math.round(protein),
+            fat: Math.round(fat),
+            carbohydrate: Math.round(carbohydrate),
+            fiber: Math.round(fiber),
+        },
+        formula,
+    };
+};
+
+/**
+ * Построчное сравнение расчёта по формуле с ответом AI
+ */
+export const compareGoals = (local: DailyGoals, ai: DailyGoals): GoalDiffRow[] => {
+    return GOAL_FIELDS.map(field => ({
+        ...field,
+        local: local[field.key],
+        ai: ai[field.key],
+        diffPercent: local[field.key] > 0 ? Math.round(((ai[field.key] - local[field.key]) / local[field.key]) * 100) : 0,
+    }));
+};
@@ -0,0 +1,95 @@
+import { DailyGoals, GoalDayRule, GoalDayType, GoalOverride, GoalSchedule, HistoryEntry } from '../types';
+import { calculateProgressPercentages } from './calculations';
+
+export interface ResolvedGoals {
+    goals: DailyGoals;
+    dayType: GoalDayType | null;
+}
+
+export const EMPTY_GOAL_SCHEDULE: GoalSchedule = {
+    dayTypes: {},
+    weekdays: {},
+    dates: {},
+};
+
+export const DAY_TYPE_LABELS: Record<GoalDayType, string> = {
+    training: 'Тренировка',
+    refeed: 'Рефид',
+};
+
+// Порядок отображения — с понедельника
+export const WEEKDAYS: Array<{ value: number; label: string }> = [
+    { value: 1, label: 'Пн' },
+    { value: 2, label: 'Вт' },
+    { value: 3, label: 'Ср' },
+    { value: 4, label: 'Чт' },
+    { value: 5, label: 'Пт' },
+    { value: 6, label: 'Сб' },
+    { value: 0, label: 'Вс' },
+];
+
+// Надбавка калорий за счёт углеводов для особых дней
+const DAY_TYPE_CALORIE_BONUS: Record<GoalDayType, number> = {
+    training: 0.1,
+    refeed: 0.25,
+};
+
+const isRuleEmpty = (rule: GoalDayRule | undefined) =>
+    !rule || (!rule.dayType && Object.values(rule.override || {}).every(value => value === undefined));
+
+/**
+ * Нормы по умолчанию для особого дня: дополнительные калории идут в углеводы
+ */
+export const suggestDayTypeOverride = (base: DailyGoals, dayType: GoalDayType): GoalOverride => {
+    const extraCalories = base.targetCalories * DAY_TYPE_CALORIE_BONUS[dayType];
+    return {
+        targetCalories: Math.round(base.targetCalories + extraCalories),
+        carbohydrate: Math.round(base.carbohydrate + extraCalories / 4),
+    };
+};
+
+export const hasGoalSchedule = (schedule: GoalSchedule | undefined): boolean => {
+    if (!schedule) return false;
+    return Object.values(schedule.weekdays).some(rule => !isRuleEmpty(rule))
+        || Object.values(schedule.dates).some(rule => !isRuleEmpty(rule));
+};
+
+/**
+ * Нормы, действующие в указанную дату. Правило на дату полностью заменяет правило дня недели
+ */
+export const resolveGoalsForDate = (
+    base: DailyGoals | null | undefined,
+    schedule: GoalSchedule | undefined,
+    date: string
+): ResolvedGoals | null => {
+    if (!base) return null;
+    if (!schedule) return { goals: base, dayType: null };
+
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+    const rule = schedule.dates[date] || schedule.weekdays[weekday];
+    if (isRuleEmpty(rule)) return { goals: base, dayType: null };
+
+    const dayType = rule.dayType || null;
+    const dayTypeOverride = dayType ? schedule.dayTypes[dayType] || suggestDayTypeOverride(base, dayType) : {};
+    const goals = { ...base };
+    [dayTypeOverride, rule.override || {}].forEach(override => {
+        (Object.keys(override) as Array<keyof GoalOverride>).forEach(key => {
+            if (override[key] !== undefined && override[key] > 0) goals[key] = override[key];
+        });
+    });
+    return { goals, dayType };
+};
+
+/**
+ * Пересчитывает прогресс дня по переданным нормам и сохраняет их снимок в записи
+ */
+export const applyGoalsToEntry = (entry: HistoryEntry, resolved: ResolvedGoals | null): HistoryEntry => {
+    const { goalsSnapshot: _goals, dayType: _dayType, progressPercentages: _progress, ...rest } = entry;
+    if (!resolved) return rest;
+    return {
+        ...rest,
+        goalsSnapshot: resolved.goals,
+        ...(resolved.dayType ? { dayType: resolved.dayType } : {}),
+        progressPercentages: calculateProgressPercentages(entry.dailyTotals, resolved.goals) || undefined,
+    };
+};
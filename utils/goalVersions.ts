@@ -0,0 +1,105 @@
+import { GoalVersion, History, HistoryEntry, UserProfile } from '../types';
+import { applyGoalsToEntry, resolveGoalsForDate } from './goalSchedule';
+
+const STORAGE_KEY = 'goal-versions';
+
+export const loadGoalVersions = (): GoalVersion[] => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (!stored) return [];
+        return JSON.parse(stored);
+    } catch (error) {
+        console.error('Error loading goal versions:', error);
+        return [];
+    }
+};
+
+export const saveGoalVersions = (versions: GoalVersion[]): void => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(versions));
+    } catch (error) {
+        console.error('Error saving goal versions:', error);
+        throw new Error('Не удалось сохранить историю норм');
+    }
+};
+
+/**
+ * Первая версия для данных, сохранённых до появления истории норм:
+ * текущие нормы профиля считаются действующими с первого дня истории
+ */
+export const createInitialGoalVersions = (profile: UserProfile | null, history: History, today: string): GoalVersion[] => {
+    if (!profile?.dailyGoals) return [];
+    const firstDate = Object.keys(history).sort()[0];
+    return recordGoalVersion([], profile, firstDate && firstDate < today ? firstDate : today);
+};
+
+/**
+ * Привязывает дни, записанные до появления истории норм, к первой версии —
+ * иначе каждый прошлый день считался бы рассчитанным по устаревшим нормам
+ */
+export const linkEntriesToGoalVersion = (history: History, version: GoalVersion): History => {
+    const linked: History = {};
+    Object.entries(history).forEach(([date, entry]) => {
+        linked[date] = entry.goalVersionId ? entry : { ...entry, goalVersionId: version.id };
+    });
+    return linked;
+};
+
+const isSameVersion = (version: GoalVersion, profile: UserProfile) =>
+    JSON.stringify(version.goals) === JSON.stringify(profile.dailyGoals)
+    && JSON.stringify(version.schedule || null) === JSON.stringify(profile.goalSchedule || null);
+
+/**
+ * Фиксирует нормы профиля как новую версию, действующую с указанной даты.
+ * Если нормы не изменились, список не меняется; повторная правка в тот же день заменяет версию этого дня
+ */
+export const recordGoalVersion = (versions: GoalVersion[], profile: UserProfile, effectiveFrom: string): GoalVersion[] => {
+    if (!profile.dailyGoals) return versions;
+    const latest = versions[versions.length - 1];
+    if (latest && isSameVersion(latest, profile)) return versions;
+
+    const version: GoalVersion = {
+        id: crypto.randomUUID(),
+        effectiveFrom,
+        createdAt: new Date().toISOString(),
+        goals: profile.dailyGoals,
+        ...(profile.goalSchedule ? { schedule: profile.goalSchedule } : {}),
+    };
+    const earlier = latest?.effectiveFrom === effectiveFrom ? versions.slice(0, -1) : versions;
+    return [...earlier, version];
+};
+
+/**
+ * Версия норм, действовавшая в указанную дату; null — если дата раньше первой версии
+ */
+export const getGoalVersionForDate = (versions: GoalVersion[], date: string): GoalVersion | null => {
+    for (let i = versions.length - 1; i >= 0; i--) {
+        if (versions[i].effectiveFrom <= date) return versions[i];
+    }
+    return null;
+};
+
+export const getCurrentGoalVersion = (versions: GoalVersion[]): GoalVersion | null =>
+    versions.length > 0 ? versions[versions.length - 1] : null;
+
+/**
+ * Пересчитывает прогресс дня по указанной версии норм и запоминает ссылку на неё
+ */
+export const applyGoalVersionToEntry = (entry: HistoryEntry, date: string, version: GoalVersion): HistoryEntry => ({
+    ...applyGoalsToEntry(entry, resolveGoalsForDate(version.goals, version.schedule, date)),
+    goalVersionId: version.id,
+});
+
+/**
+ * Прогресс дня после изменения его записей — по версии норм, уже привязанной к дню
+ * (например, после пересчёта по текущим нормам), иначе по действовавшей в эту дату.
+ * Если дата раньше всех версий, остаётся прежний снимок норм
+ */
+export const recalculateEntryProgress = (entry: HistoryEntry, date: string, versions: GoalVersion[]): HistoryEntry => {
+    const version = versions.find(item => item.id === entry.goalVersionId) || getGoalVersionForDate(versions, date);
+    if (version) return applyGoalVersionToEntry(entry, date, version);
+    if (entry.goalsSnapshot) {
+        return applyGoalsToEntry(entry, { goals: entry.goalsSnapshot, dayType: entry.dayType || null });
+    }
+    return entry;
+};
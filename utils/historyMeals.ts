@@ -0,0 +1,124 @@
+import { GoalVersion, History, HistoryEntry, HistoryMeal, WaterLogEntry } from '../types';
+import { calculateTotals } from './calculations';
+import { recalculateEntryProgress } from './goalVersions';
+import { moveTimestampToDate } from './mealSlots';
+import { isHistoryEntryEmpty } from './water';
+
+export type MealTransferMode = 'move' | 'copy';
+
+export const createEmptyHistoryEntry = (): HistoryEntry => ({
+    meals: {},
+    dailyTotals: { calories: 0, protein: 0, fat: 0, carbohydrate: 0, fiber: 0, weight: 0 },
+});
+
+/**
+ * Пересчитывает итоги дня и прогресс по нормам этой даты; опустевший день удаляется.
+ * Изменяет переданную копию истории
+ */
+const refreshDay = (history: History, date: string, goalVersions: GoalVersion[]): void => {
+    const entry = history[date];
+    if (!entry) return;
+    if (isHistoryEntryEmpty(entry)) {
+        delete history[date];
+        return;
+    }
+    entry.dailyTotals = calculateTotals(Object.values(entry.meals).flatMap(meal => meal.ingredients));
+    history[date] = recalculateEntryProgress(entry, date, goalVersions);
+};
+
+/**
+ * Переносит или копирует приём пищи в другой день (или в тот же — дубликат).
+ * Время суток сохраняется, записи воды калорийного напитка следуют за ним
+ */
+export const transferMeal = (
+    history: History,
+    fromDate: string,
+    mealId: string,
+    toDate: string,
+    mode: MealTransferMode,
+    goalVersions: GoalVersion[]
+): History => {
+    const meal = history[fromDate]?.meals[mealId];
+    if (!meal) throw new Error('Приём пищи не найден');
+    if (mode === 'move' && fromDate === toDate) return history;
+
+    const newHistory: History = JSON.parse(JSON.stringify(history));
+    const source = newHistory[fromDate];
+    const target = newHistory[toDate] = newHistory[toDate] || createEmptyHistoryEntry();
+
+    const newMealId = crypto.randomUUID();
+    const newMeal: HistoryMeal = {
+        ...meal,
+        ingredients: meal.ingredients.map(ingredient => ({ ...ingredient, id: crypto.randomUUID() })),
+        ...(meal.timestamp ? { timestamp: moveTimestampToDate(meal.timestamp, toDate) } : {}),
+    };
+    target.meals[newMealId] = newMeal;
+
+    const linkedWater = (source.water?.entries || []).filter(entry => entry.mealId === mealId);
+    if (linkedWater.length > 0) {
+        target.water = target.water || { entries: [], goalMl: source.water.goalMl };
+        target.water.entries.push(...linkedWater.map(entry => ({
+            ...entry,
+            id: crypto.randomUUID(),
+            time: moveTimestampToDate(entry.time, toDate),
+            mealId: newMealId,
+        })));
+    }
+
+    if (mode === 'move') {
+        delete source.meals[mealId];
+        if (source.water) {
+            source.water.entries = source.water.entries.filter(entry => entry.mealId !== mealId);
+        }
+        refreshDay(newHistory, fromDate, goalVersions);
+    }
+    refreshDay(newHistory, toDate, goalVersions);
+    return newHistory;
+};
+
+/**
+ * Записывает изменённый приём пищи на место прежнего. При смене даты приём
+ * переезжает вместе с записями воды; итоги пересчитываются для обоих дней.
+ * Объём связанной записи воды следует за новым весом напитка (1 г ≈ 1 мл)
+ */
+export const replaceMeal = (
+    history: History,
+    date: string,
+    mealId: string,
+    toDate: string,
+    meal: HistoryMeal,
+    goalVersions: GoalVersion[]
+): History => {
+    if (!history[date]?.meals[mealId]) throw new Error('Приём пищи не найден — возможно, он уже удалён');
+
+    const newHistory: History = JSON.parse(JSON.stringify(history));
+    const source = newHistory[date];
+    delete source.meals[mealId];
+    const target = newHistory[toDate] = newHistory[toDate] || createEmptyHistoryEntry();
+    target.meals[mealId] = JSON.parse(JSON.stringify(meal));
+
+    const linkedWater = (source.water?.entries || []).filter(entry => entry.mealId === mealId);
+    if (linkedWater.length > 0) {
+        const drinkVolume = Math.round(meal.ingredients.reduce((sum, ingredient) => sum + (ingredient.weight || 0), 0));
+        // Несколько записей воды на один напиток уже не сопоставить с весом — отвязываем их
+        const syncEntry = (entry: WaterLogEntry): WaterLogEntry => {
+            if (linkedWater.length === 1) return { ...entry, volume: drinkVolume };
+            const { mealId: _, ...unlinked } = entry;
+            return unlinked;
+        };
+        if (toDate === date) {
+            source.water.entries = source.water.entries.map(entry => entry.mealId === mealId ? syncEntry(entry) : entry);
+        } else {
+            source.water.entries = source.water.entries.filter(entry => entry.mealId !== mealId);
+            target.water = target.water || { entries: [], goalMl: source.water.goalMl };
+            target.water.entries.push(...linkedWater.map(entry => ({
+                ...syncEntry(entry),
+                time: moveTimestampToDate(entry.time, toDate),
+            })));
+        }
+    }
+
+    refreshDay(newHistory, date, goalVersions);
+    if (toDate !== date) refreshDay(newHistory, toDate, goalVersions);
+    return newHistory;
+};
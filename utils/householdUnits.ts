@@ -0,0 +1,65 @@
+import {
+    FOOD_DENSITIES,
+    HOUSEHOLD_UNITS,
+    HouseholdUnit,
+    PIECE_WEIGHTS,
+} from '../constants/householdUnits';
+
+export interface UnitWeight extends HouseholdUnit {
+    // Вес одной меры для конкретного продукта, г
+    grams: number;
+}
+
+// Окончания, допустимые после основы из таблицы
+const WORD_ENDINGS = new Set([
+    '', 'а', 'я', 'ы', 'и', 'у', 'ю', 'о', 'е', 'ь', 'ью',
+    'ой', 'ей', 'ий', 'ый', 'ая', 'яя', 'ое', 'ее', 'ые', 'ие', 'ую', 'юю', 'ого', 'его', 'ым', 'им',
+    'ов', 'ев', 'ам', 'ям', 'ах', 'ях', 'ом', 'ем', 'ами', 'ями',
+]);
+
+const tokenize = (value: string): string[] =>
+    value.toLowerCase().replace(/ё/g, 'е').split(/[^a-zа-я0-9]+/).filter(Boolean);
+
+const matchesStem = (word: string | undefined, stem: string): boolean =>
+    !!word && word.startsWith(stem) && WORD_ENDINGS.has(word.slice(stem.length));
+
+const findByPattern = <T>(table: Array<[string, T]>, name: string): T | null => {
+    const words = tokenize(name);
+    const match = table.find(([pattern]) => {
+        const stems = tokenize(pattern);
+        return words.some((_, start) => stems.every((stem, index) => matchesStem(words[start + index], stem)));
+    });
+    return match ? match[1] : null;
+};
+
+export const getDensity = (name: string): number | null => findByPattern(FOOD_DENSITIES, name);
+
+export const getPieceWeight = (name: string): number | null => findByPattern(PIECE_WEIGHTS, name);
+
+/**
+ * Бытовые меры, известные для продукта: штуки — по таблице веса штук,
+ * объёмные меры — по плотности
+ */
+export const getAvailableUnits = (name: string): UnitWeight[] => {
+    const density = getDensity(name);
+    const pieceWeight = getPieceWeight(name);
+    return HOUSEHOLD_UNITS.flatMap(unit => {
+        const grams = unit.volumeMl === null ? pieceWeight : density !== null ? unit.volumeMl * density : null;
+        return grams ? [{ ...unit, grams }] : [];
+    });
+};
+
+const roundToHalf = (value: number) => Math.round(value * 2) / 2;
+
+/**
+ * Вес в привычной мере: штуки, если известны, иначе самая крупная мера, которой набирается хотя бы половина
+ */
+export const describeInHouseholdUnits = (name: string, grams: number): string | null => {
+    if (!(grams > 0)) return null;
+    const units = getAvailableUnits(name);
+    const piece = units.find(unit => unit.id === 'piece');
+    const unit = piece || units.find(item => grams / item.grams >= 0.5);
+    if (!unit) return null;
+    const amount = roundToHalf(grams / unit.grams);
+    return amount > 0 ? `≈ ${amount.toString().replace('.', ',')} ${unit.label}` : null;
+};
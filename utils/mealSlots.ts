@@ -0,0 +1,106 @@
+import { HistoryEntry, HistoryMeal, MealSlot } from '../types';
+import { CUSTOM_MEAL_SLOT_EMOJI, DEFAULT_MEAL_SLOTS } from '../constants/mealSlots';
+
+const STORAGE_KEY = 'meal-slots';
+
+const MINUTES_IN_DAY = 24 * 60;
+
+export const loadCustomMealSlots = (): MealSlot[] => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (!stored) return [];
+        return JSON.parse(stored);
+    } catch (error) {
+        console.error('Error loading meal slots:', error);
+        return [];
+    }
+};
+
+export const saveCustomMealSlots = (slots: MealSlot[]): void => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(slots));
+    } catch (error) {
+        console.error('Error saving meal slots:', error);
+        throw new Error('Не удалось сохранить приёмы пищи');
+    }
+};
+
+/**
+ * Свой приём пищи: название служит и типом, поэтому история читается
+ * даже после удаления приёма из списка
+ */
+export const createCustomMealSlot = (label: string, time: string, existing: MealSlot[]): MealSlot => {
+    const trimmed = label.trim();
+    if (!trimmed) throw new Error('Введите название приёма пищи');
+    if (!/^\d{2}:\d{2}$/.test(time)) throw new Error('Укажите время приёма пищи');
+    const normalized = trimmed.toLowerCase();
+    if (existing.some(slot => slot.type.toLowerCase() === normalized || slot.label.toLowerCase() === normalized)) {
+        throw new Error('Такой приём пищи уже есть');
+    }
+    return { type: trimmed, label: trimmed, emoji: CUSTOM_MEAL_SLOT_EMOJI, time };
+};
+
+export const isCustomMealSlot = (slot: MealSlot): boolean => !DEFAULT_MEAL_SLOTS.some(item => item.type === slot.type);
+
+/**
+ * Стандартные и свои приёмы пищи в порядке времени
+ */
+export const getMealSlots = (customSlots: MealSlot[]): MealSlot[] => {
+    return [...DEFAULT_MEAL_SLOTS, ...customSlots].sort((a, b) => a.time.localeCompare(b.time));
+};
+
+const timeToMinutes = (time: string): number => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+};
+
+export const formatTimeOfDay = (date = new Date()): string => {
+    return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+};
+
+/**
+ * Приём пищи, обычное время которого ближе всего к указанному
+ */
+export const suggestMealSlot = (slots: MealSlot[], time: string): MealSlot => {
+    const minutes = timeToMinutes(time);
+    return slots.reduce((best, slot) => {
+        const distance = Math.abs(timeToMinutes(slot.time) - minutes);
+        return distance < Math.abs(timeToMinutes(best.time) - minutes) ? slot : best;
+    });
+};
+
+/**
+ * Метка времени приёма пищи: день истории «ГГГГ-ММ-ДД» и локальное время «ЧЧ:ММ»
+ */
+export const buildMealTimestamp = (date: string, time: string): string => {
+    const [year, month, day] = date.split('-').map(Number);
+    const [hours, minutes] = time.split(':').map(Number);
+    return new Date(year, month - 1, day, hours, minutes).toISOString();
+};
+
+/**
+ * Та же минута суток в другой день — при переносе записи между днями
+ */
+export const moveTimestampToDate = (timestamp: string, date: string): string => {
+    return buildMealTimestamp(date, formatTimeOfDay(new Date(timestamp)));
+};
+
+export const formatMealTime = (meal: HistoryMeal): string | null => {
+    return meal.timestamp ? formatTimeOfDay(new Date(meal.timestamp)) : null;
+};
+
+/**
+ * Приёмы пищи дня по времени. Записи без времени встают на обычное время
+ * своего приёма, неизвестные приёмы — в конец дня в порядке добавления
+ */
+export const sortMealsChronologically = (
+    meals: HistoryEntry['meals'],
+    slots: MealSlot[]
+): Array<[string, HistoryMeal]> => {
+    const getMinutes = (meal: HistoryMeal) => {
+        if (meal.timestamp) return timeToMinutes(formatTimeOfDay(new Date(meal.timestamp)));
+        const slot = slots.find(item => item.type === meal.type);
+        return slot ? timeToMinutes(slot.time) : MINUTES_IN_DAY;
+    };
+    return Object.entries(meals).sort(([, a], [, b]) => getMinutes(a) - getMinutes(b));
+};
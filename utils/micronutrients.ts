@@ -0,0 +1,102 @@
+import { MicronutrientKey, Micronutrients, UserProfile } from '../types';
+
+// limit — не превышать, target — набрать
+export type MicronutrientKind = 'limit' | 'target';
+
+export interface MicronutrientInfo {
+    key: MicronutrientKey;
+    label: string;
+    unit: string;
+    kind: MicronutrientKind;
+    // Правдоподобный максимум на 100 г продукта — для проверки ответов AI
+    maxPer100g: number;
+}
+
+export const MICRONUTRIENTS: MicronutrientInfo[] = [
+    { key: 'sugar', label: 'Сахар', unit: 'г', kind: 'limit', maxPer100g: 100 },
+    { key: 'saturatedFat', label: 'Насыщенные жиры', unit: 'г', kind: 'limit', maxPer100g: 100 },
+    { key: 'sodium', label: 'Натрий', unit: 'мг', kind: 'limit', maxPer100g: 40000 },
+    { key: 'cholesterol', label: 'Холестерин', unit: 'мг', kind: 'limit', maxPer100g: 3500 },
+    { key: 'vitaminA', label: 'Витамин A', unit: 'мкг', kind: 'target', maxPer100g: 30000 },
+    { key: 'vitaminC', label: 'Витамин C', unit: 'мг', kind: 'target', maxPer100g: 2000 },
+    { key: 'vitaminD', label: 'Витамин D', unit: 'мкг', kind: 'target', maxPer100g: 300 },
+    { key: 'calcium', label: 'Кальций', unit: 'мг', kind: 'target', maxPer100g: 3000 },
+    { key: 'iron', label: 'Железо', unit: 'мг', kind: 'target', maxPer100g: 100 },
+    { key: 'potassium', label: 'Калий', unit: 'мг', kind: 'target', maxPer100g: 6000 },
+    { key: 'magnesium', label: 'Магний', unit: 'мг', kind: 'target', maxPer100g: 1000 },
+];
+
+// Доля калорий, которую не стоит превышать сахаром и насыщенными жирами
+const SUGAR_CALORIE_SHARE = 0.1;
+const SATURATED_FAT_CALORIE_SHARE = 0.1;
+
+export const hasMicronutrients = (values: Micronutrients | undefined | null): boolean => {
+    return !!values && Object.values(values).some(value => value !== undefined);
+};
+
+export const roundMicronutrient = (value: number): number => {
+    return value >= 100 ? Math.round(value) : Number(value.toFixed(1));
+};
+
+/**
+ * Прибавляет микронутриенты продукта с учётом коэффициента веса. Неизвестные значения не считаются нулём
+ */
+export const addMicronutrients = (
+    target: Micronutrients,
+    values: Micronutrients | undefined,
+    ratio: number
+): Micronutrients => {
+    if (!values) return target;
+    const result = { ...target };
+    MICRONUTRIENTS.forEach(({ key }) => {
+        const value = values[key];
+        if (typeof value === 'number' && isFinite(value)) {
+            result[key] = (result[key] || 0) + value * ratio;
+        }
+    });
+    return result;
+};
+
+export const scaleMicronutrients = (values: Micronutrients, ratio: number): Micronutrients => {
+    const scaled = addMicronutrients({}, values, ratio);
+    (Object.keys(scaled) as MicronutrientKey[]).forEach(key => {
+        scaled[key] = roundMicronutrient(scaled[key]);
+    });
+    return scaled;
+};
+
+/**
+ * Соль из натрия: 1 г натрия ≈ 2,5 г поваренной соли
+ */
+export const sodiumToSalt = (sodiumMg: number): number => (sodiumMg * 2.5) / 1000;
+
+export const formatMicronutrient = (info: MicronutrientInfo, value: number): string => {
+    const formatted = `${roundMicronutrient(value)} ${info.unit}`;
+    return info.key === 'sodium' ? `${formatted} (соль ${sodiumToSalt(value).toFixed(1)} г)` : formatted;
+};
+
+/**
+ * Ориентировочные суточные нормы для взрослого по полу, возрасту и целевой калорийности
+ */
+export const getRecommendedMicronutrientGoals = (
+    profile: Pick<UserProfile, 'gender' | 'age'>,
+    targetCalories: number
+): Micronutrients => {
+    const isMale = profile.gender === 'male';
+    const goals: Micronutrients = {
+        sodium: 2000,
+        cholesterol: 300,
+        vitaminA: isMale ? 900 : 700,
+        vitaminC: isMale ? 90 : 75,
+        vitaminD: 15,
+        calcium: profile.age > 70 || (!isMale && profile.age > 50) ? 1200 : 1000,
+        iron: isMale || profile.age > 50 ? 8 : 18,
+        potassium: isMale ? 3400 : 2600,
+        magnesium: isMale ? 400 : 310,
+    };
+    if (targetCalories > 0) {
+        goals.sugar = Math.round((targetCalories * SUGAR_CALORIE_SHARE) / 4);
+        goals.saturatedFat = Math.round((targetCalories * SATURATED_FAT_CALORIE_SHARE) / 9);
+    }
+    return goals;
+};
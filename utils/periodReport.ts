@@ -0,0 +1,229 @@
+import { History, PeriodSummary, ReportNutrient, ReportPeriod, UserProfile } from '../types';
+import { formatDate, getMealTypeLabel } from './calculations';
+
+const NUTRIENT_LABELS: Record<ReportNutrient, string> = {
+    calories: 'Калории',
+    protein: 'Белки',
+    fat: 'Жиры',
+    carbohydrate: 'Углеводы',
+    fiber: 'Клетчатка',
+};
+
+const GOAL_KEYS: Record<ReportNutrient, keyof NonNullable<UserProfile['dailyGoals']>> = {
+    calories: 'targetCalories',
+    protein: 'protein',
+    fat: 'fat',
+    carbohydrate: 'carbohydrate',
+    fiber: 'fiber',
+};
+
+// Допустимое отклонение от цели, при котором день считается выполненным
+const TARGET_TOLERANCE: Record<ReportNutrient, number> = {
+    calories: 0.1,
+    protein: 0.2,
+    fat: 0.2,
+    carbohydrate: 0.2,
+    fiber: 0.2,
+};
+
+const TOP_FOODS_LIMIT = 10;
+
+// Ключи истории — даты YYYY-MM-DD, поэтому арифметику ведём в UTC
+const parseDateKey = (date: string) => new Date(`${date}T00:00:00Z`);
+const toDateKey = (date: Date) => date.toISOString().split('T')[0];
+
+const addDays = (date: string, days: number): string => {
+    const result = parseDateKey(date);
+    result.setUTCDate(result.getUTCDate() + days);
+    return toDateKey(result);
+};
+
+export const getNutrientLabel = (nutrient: ReportNutrient): string => NUTRIENT_LABELS[nutrient];
+
+/**
+ * Границы периода, содержащего дату: неделя с понедельника по воскресенье или календарный месяц
+ */
+export const getPeriodRange = (period: ReportPeriod, date: string): { startDate: string; endDate: string } => {
+    const anchor = parseDateKey(date);
+    if (period === 'week') {
+        const shift = (anchor.getUTCDay() + 6) % 7;
+        const startDate = addDays(date, -shift);
+        return { startDate, endDate: addDays(startDate, 6) };
+    }
+    const start = new Date(Date.UTC(anchor.getUTCFullYear(), anchor.getUTCMonth(), 1));
+    const end = new Date(Date.UTC(anchor.getUTCFullYear(), anchor.getUTCMonth() + 1, 0));
+    return { startDate: toDateKey(start), endDate: toDateKey(end) };
+};
+
+/**
+ * Дата внутри соседнего периода: step = -1 — предыдущий, 1 — следующий
+ */
+export const shiftPeriod = (period: ReportPeriod, date: string, step: number): string => {
+    if (period === 'week') return addDays(date, step * 7);
+    const anchor = parseDateKey(date);
+    return toDateKey(new Date(Date.UTC(anchor.getUTCFullYear(), anchor.getUTCMonth() + step, 1)));
+};
+
+/**
+ * Название периода для заголовков: «12 мая – 18 мая 2025 г.» или «май 2025 г.»
+ */
+export const formatPeriodTitle = (period: ReportPeriod, startDate: string, endDate: string): string => {
+    if (period === 'month') {
+        return parseDateKey(startDate).toLocaleDateString('ru-RU', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+    }
+    return `${formatDate(startDate)} – ${formatDate(endDate)}`;
+};
+
+/**
+ * Собирает сводку за период: средние, выполнение целей, частые продукты и распределение по приёмам пищи
+ */
+export const buildPeriodSummary = (
+    history: History,
+    period: ReportPeriod,
+    date: string,
+    goals: UserProfile['dailyGoals'] | null
+): PeriodSummary => {
+    const { startDate, endDate } = getPeriodRange(period, date);
+    // Дни, где записана только вода, не считаются днями с записями питания
+    const dates = Object.keys(history)
+        .filter(day => day >= startDate && day <= endDate && Object.keys(history[day].meals).length > 0)
+        .sort();
+    const entries = dates.map(day => history[day]);
+    const loggedDays = entries.length;
+
+    const sums = { calories: 0, protein: 0, fat: 0, carbohydrate: 0, fiber: 0, weight: 0 };
+    entries.forEach(entry => {
+        (Object.keys(sums) as Array<keyof typeof sums>).forEach(key => {
+            sums[key] += entry.dailyTotals[key] || 0;
+        });
+    });
+    const averages = { ...sums };
+    (Object.keys(averages) as Array<keyof typeof averages>).forEach(key => {
+        averages[key] = loggedDays > 0 ? sums[key] / loggedDays : 0;
+    });
+
+    // Каждый день сравнивается с нормами, действовавшими в этот день
+    const adherence = goals
+        ? (Object.keys(NUTRIENT_LABELS) as ReportNutrient[])
+            .filter(nutrient => goals[GOAL_KEYS[nutrient]] > 0)
+            .map(nutrient => {
+                let daysOnTarget = 0;
+                let percentSum = 0;
+                entries.forEach(entry => {
+                    const dayGoals = entry.goalsSnapshot || goals;
+                    const target = dayGoals[GOAL_KEYS[nutrient]] || goals[GOAL_KEYS[nutrient]];
+                    if (Math.abs(entry.dailyTotals[nutrient] - target) <= target * TARGET_TOLERANCE[nutrient]) {
+                        daysOnTarget += 1;
+                    }
+                    percentSum += entry.dailyTotals[nutrient] / target;
+                });
+                return {
+                    nutrient,
+                    averagePercent: loggedDays > 0 ? Math.round((percentSum / loggedDays) * 100) : 0,
+                    daysOnTarget,
+                };
+            })
+        : [];
+
+    const foods: { [key: string]: PeriodSummary['topFoods'][number] } = {};
+    const mealTypes: { [type: string]: { count: number; calories: number } } = {};
+    let mealsCount = 0;
+
+    entries.forEach(entry => {
+        Object.values(entry.meals).forEach(meal => {
+            mealsCount += 1;
+            let mealCalories = 0;
+            meal.ingredients.forEach(ing => {
+                const calories = (ing.baseCPFC.calories * ing.weight) / 100;
+                mealCalories += calories;
+                const key = ing.name.trim().toLowerCase();
+                const food = foods[key] = foods[key] || { name: ing.name.trim(), count: 0, totalWeight: 0, totalCalories: 0 };
+                food.count += 1;
+                food.totalWeight += ing.weight;
+                food.totalCalories += calories;
+            });
+            const group = mealTypes[meal.type] = mealTypes[meal.type] || { count: 0, calories: 0 };
+            group.count += 1;
+            group.calories += mealCalories;
+        });
+    });
+
+    const topFoods = Object.values(foods)
+        .sort((a, b) => b.count - a.count || b.totalCalories - a.totalCalories)
+        .slice(0, TOP_FOODS_LIMIT);
+
+    const mealPattern = Object.entries(mealTypes)
+        .map(([type, group]) => ({
+            type,
+            count: group.count,
+            averageCalories: group.calories / group.count,
+            caloriesShare: sums.calories > 0 ? Math.round((group.calories / sums.calories) * 100) : 0,
+        }))
+        .sort((a, b) => b.caloriesShare - a.caloriesShare);
+
+    const averageCalories = (days: string[]) => days.length > 0
+        ? days.reduce((sum, day) => sum + history[day].dailyTotals.calories, 0) / days.length
+        : null;
+    const isWeekend = (day: string) => [0, 6].includes(parseDateKey(day).getUTCDay());
+
+    return {
+        period,
+        startDate,
+        endDate,
+        totalDays: Math.round((parseDateKey(endDate).getTime() - parseDateKey(startDate).getTime()) / 86400000) + 1,
+        loggedDays,
+        averages,
+        goals,
+        adherence,
+        topFoods,
+        mealPattern,
+        mealsPerDay: loggedDays > 0 ? mealsCount / loggedDays : 0,
+        weekdayCalories: averageCalories(dates.filter(day => !isWeekend(day))),
+        weekendCalories: averageCalories(dates.filter(isWeekend)),
+    };
+};
+
+/**
+ * Компактное текстовое представление сводки — для запроса к AI и экспорта
+ */
+export const formatPeriodSummary = (summary: PeriodSummary): string => {
+    const { averages, goals } = summary;
+    const lines: string[] = [
+        `Период: ${formatPeriodTitle(summary.period, summary.startDate, summary.endDate)}`,
+        `Дней с записями: ${summary.loggedDays} из ${summary.totalDays}`,
+        '',
+        'СРЕДНЕЕ ЗА ДЕНЬ:',
+        `- Калории: ${Math.round(averages.calories)} ккал${goals ? ` (цель ${goals.targetCalories})` : ''}`,
+        `- Белки: ${averages.protein.toFixed(1)} г${goals ? ` (цель ${goals.protein})` : ''}`,
+        `- Жиры: ${averages.fat.toFixed(1)} г${goals ? ` (цель ${goals.fat})` : ''}`,
+        `- Углеводы: ${averages.carbohydrate.toFixed(1)} г${goals ? ` (цель ${goals.carbohydrate})` : ''}`,
+        `- Клетчатка: ${averages.fiber.toFixed(1)} г${goals ? ` (цель ${goals.fiber})` : ''}`,
+    ];
+
+    if (summary.adherence.length > 0) {
+        lines.push('', 'ВЫПОЛНЕНИЕ ЦЕЛЕЙ (дней в пределах нормы):');
+        summary.adherence.forEach(item => {
+            lines.push(`- ${NUTRIENT_LABELS[item.nutrient]}: ${item.daysOnTarget} из ${summary.loggedDays}, в среднем ${item.averagePercent}% цели`);
+        });
+    }
+
+    if (summary.mealPattern.length > 0) {
+        lines.push('', `ПРИЁМЫ ПИЩИ (в среднем ${summary.mealsPerDay.toFixed(1)} в день):`);
+        summary.mealPattern.forEach(item => {
+            lines.push(`- ${getMealTypeLabel(item.type)}: ${item.count}×, ~${Math.round(item.averageCalories)} ккал, ${item.caloriesShare}% калорий`);
+        });
+    }
+
+    if (summary.weekdayCalories !== null && summary.weekendCalories !== null) {
+        lines.push('', `Будни: ~${Math.round(summary.weekdayCalories)} ккал, выходные: ~${Math.round(summary.weekendCalories)} ккал`);
+    }
+
+    if (summary.topFoods.length > 0) {
+        lines.push('', 'ЧАЩЕ ВСЕГО:');
+        summary.topFoods.forEach(food => {
+            lines.push(`- ${food.name}: ${food.count}×, всего ${Math.round(food.totalWeight)} г, ${Math.round(food.totalCalories)} ккал`);
+        });
+    }
+
+    return lines.join('\n');
+};
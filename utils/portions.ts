@@ -0,0 +1,139 @@
+import { PortionDefinition, SavedDish } from '../types';
+import { HouseholdUnitId } from '../constants/householdUnits';
+import { getAvailableUnits, getDensity } from './householdUnits';
+import { getServingWeight } from './recipes';
+
+const NUMBER_PATTERN = '(\\d+\\s*\\/\\s*\\d+|\\d+(?:[.,]\\d+)?|[.,]\\d+)';
+const TERM_PATTERN = new RegExp(`^${NUMBER_PATTERN}?\\s*(.*)$`);
+const DEFINITION_PATTERN = new RegExp(`^${NUMBER_PATTERN}?\\s*(.+?)\\s*=\\s*${NUMBER_PATTERN}\\s*(?:г|гр|грамм\\S*)?\\.?$`);
+
+const GRAM_UNIT = /^(г|гр|грамм\S*)$/;
+
+// Синонимы бытовых мер после нормализации (без точек, в нижнем регистре)
+const UNIT_ALIASES: Array<[RegExp, HouseholdUnitId]> = [
+    [/^(шт|штук\S*)$/, 'piece'],
+    [/^стак/, 'cup'],
+    [/^(ст л|столов\S* лож\S*|ложк\S* столов\S*)$/, 'tbsp'],
+    [/^(ч л|чайн\S* лож\S*|ложк\S* чайн\S*)$/, 'tsp'],
+];
+
+const normalizeUnit = (unit: string): string => {
+    return unit.toLowerCase().replace(/ё/g, 'е').replace(/\./g, ' ').replace(/\s+/g, ' ').trim();
+};
+
+const parseAmount = (value: string | undefined): number => {
+    if (value === undefined) return 1;
+    if (value.includes('/')) {
+        const [numerator, denominator] = value.split('/').map(part => parseFloat(part));
+        return denominator > 0 ? numerator / denominator : NaN;
+    }
+    return parseFloat(value.replace(',', '.'));
+};
+
+const getHouseholdUnitId = (unit: string): HouseholdUnitId | null => {
+    const match = UNIT_ALIASES.find(([pattern]) => pattern.test(unit));
+    return match ? match[1] : null;
+};
+
+/**
+ * Совпадение названия меры с учётом окончаний: «яйцо» — «яйца», «кусок» — «куска»
+ */
+const matchesPortionLabel = (unit: string, label: string): boolean => {
+    const normalizedLabel = normalizeUnit(label);
+    if (unit === normalizedLabel) return true;
+    const householdId = getHouseholdUnitId(unit);
+    if (householdId && householdId === getHouseholdUnitId(normalizedLabel)) return true;
+
+    let common = 0;
+    while (common < unit.length && unit[common] === normalizedLabel[common]) common += 1;
+    return common >= Math.max(3, normalizedLabel.length - 2);
+};
+
+/**
+ * Вес одной меры в граммах: сначала свои меры продукта, затем таблицы бытовых мер
+ */
+const resolveUnitGrams = (unit: string, name: string, portions: PortionDefinition[]): number => {
+    if (!unit || GRAM_UNIT.test(unit)) return 1;
+    if (unit === 'кг') return 1000;
+    if (unit === 'мл') return getDensity(name) ?? 1;
+    if (unit === 'л') return 1000 * (getDensity(name) ?? 1);
+
+    const portion = portions.find(item => matchesPortionLabel(unit, item.label));
+    if (portion) return portion.grams;
+
+    const householdId = getHouseholdUnitId(unit);
+    if (householdId) {
+        const householdUnit = getAvailableUnits(name).find(item => item.id === householdId);
+        if (householdUnit) return householdUnit.grams;
+        throw new Error(`Вес меры «${unit}» для «${name}» неизвестен — добавьте свою меру`);
+    }
+    throw new Error(`Неизвестная мера «${unit}»`);
+};
+
+/**
+ * Переводит запись веса в граммы: «150», «150+30», «2 шт», «1.5 стакана», «1/2 ст. л.»
+ */
+export const parseWeightExpression = (input: string, name = '', portions: PortionDefinition[] = []): number => {
+    const terms = input.split('+').map(term => term.trim());
+    if (terms.some(term => !term)) throw new Error('Введите вес, например «150» или «2 шт»');
+
+    const total = terms.reduce((sum, term) => {
+        const [, amountText, unitText] = term.match(TERM_PATTERN);
+        const amount = parseAmount(amountText);
+        if (isNaN(amount)) throw new Error(`Не удалось разобрать «${term}»`);
+        return sum + amount * resolveUnitGrams(normalizeUnit(unitText), name, portions);
+    }, 0);
+
+    if (!(total > 0)) throw new Error('Вес должен быть больше нуля');
+    return Math.round(total * 10) / 10;
+};
+
+/**
+ * Число штук, если вес записан одной штучной мерой: «2 шт», «3 яйца».
+ * Для граммов, объёмных мер, дробных количеств и сумм — null
+ */
+export const parsePieceCount = (input: string, portions: PortionDefinition[] = []): number | null => {
+    if (input.includes('+')) return null;
+    const [, amountText, unitText] = input.trim().match(TERM_PATTERN);
+    const unit = normalizeUnit(unitText);
+    if (!unit || GRAM_UNIT.test(unit) || ['кг', 'мл', 'л'].includes(unit)) return null;
+
+    const householdId = getHouseholdUnitId(unit);
+    const isPiece = householdId ? householdId === 'piece' : portions.some(portion => matchesPortionLabel(unit, portion.label));
+    const amount = parseAmount(amountText);
+    return isPiece && Number.isInteger(amount) && amount >= 1 ? amount : null;
+};
+
+/**
+ * Разбирает определение меры вида «1 яйцо = 55 г» или «2 ломтика = 60»
+ */
+export const parsePortionDefinition = (input: string): PortionDefinition => {
+    const match = input.trim().match(DEFINITION_PATTERN);
+    const count = match ? parseAmount(match[1]) : NaN;
+    const grams = match ? parseAmount(match[3]) : NaN;
+    if (!match || !(count > 0) || !(grams > 0)) {
+        throw new Error(`Не удалось разобрать меру «${input.trim()}»: используйте формат «1 кусок = 30 г»`);
+    }
+    return { label: match[2].trim(), grams: Math.round((grams / count) * 10) / 10 };
+};
+
+/**
+ * Меры блюда из справочника; у рецепта дополнительно есть «порция» по его выходу
+ */
+export const getDishPortions = (dish: SavedDish): PortionDefinition[] => {
+    const portions = dish.portions || [];
+    if (!dish.recipe || portions.some(portion => matchesPortionLabel('порция', portion.label))) return portions;
+    return [...portions, { label: 'порция', grams: getServingWeight(dish.recipe) }];
+};
+
+export const formatPortion = (portion: PortionDefinition): string => `1 ${portion.label} = ${portion.grams} г`;
+
+/**
+ * Меры, которые можно использовать в поле веса для продукта, — для подсказок
+ */
+export const getPortionHints = (name: string, portions: PortionDefinition[] = []): string[] => {
+    const household = getAvailableUnits(name)
+        .filter(unit => !portions.some(portion => matchesPortionLabel(normalizeUnit(unit.label), portion.label)))
+        .map(unit => `1 ${unit.label} ≈ ${Math.round(unit.grams)} г`);
+    return [...portions.map(formatPortion), ...household];
+};
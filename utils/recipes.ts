@@ -0,0 +1,101 @@
+import { Ingredient, Recipe, SavedDish } from '../types';
+import { calculateTotals } from './calculations';
+import { hasMicronutrients, scaleMicronutrients } from './micronutrients';
+
+export interface RecipeNutrition {
+    rawWeight: number;
+    per100g: SavedDish['per100g'];
+    perServing: SavedDish['per100g'] & { weight: number };
+}
+
+const roundNutrition = (values: SavedDish['per100g']): SavedDish['per100g'] => ({
+    calories: Math.round(values.calories),
+    protein: Number(values.protein.toFixed(1)),
+    fat: Number(values.fat.toFixed(1)),
+    carbohydrate: Number(values.carbohydrate.toFixed(1)),
+    fiber: Number(values.fiber.toFixed(1)),
+    ...(values.micronutrients ? { micronutrients: values.micronutrients } : {}),
+});
+
+/**
+ * Пищевая ценность рецепта на 100 г готового блюда и на порцию.
+ * Вода при варке уходит или впитывается, поэтому 100 г готового блюда
+ * соответствуют rawWeight / cookedWeight × 100 г сырых ингредиентов.
+ */
+export const calculateRecipeNutrition = (ingredients: Ingredient[], cookedWeight: number, servings: number): RecipeNutrition => {
+    if (!(cookedWeight > 0)) throw new Error('Укажите вес готового блюда');
+    if (!(servings > 0)) throw new Error('Укажите число порций');
+
+    const totals = calculateTotals(ingredients);
+    const scale = (ratio: number): SavedDish['per100g'] => roundNutrition({
+        calories: totals.calories * ratio,
+        protein: totals.protein * ratio,
+        fat: totals.fat * ratio,
+        carbohydrate: totals.carbohydrate * ratio,
+        fiber: totals.fiber * ratio,
+        ...(hasMicronutrients(totals.micronutrients)
+            ? { micronutrients: scaleMicronutrients(totals.micronutrients, ratio) }
+            : {}),
+    });
+
+    return {
+        rawWeight: totals.weight,
+        per100g: scale(100 / cookedWeight),
+        perServing: { ...scale(1 / servings), weight: Math.round(cookedWeight / servings) },
+    };
+};
+
+/**
+ * Собирает блюдо справочника из рецепта; состав сохраняется для повторного редактирования
+ */
+export const buildRecipeDish = (
+    id: string,
+    name: string,
+    ingredients: Ingredient[],
+    cookedWeight: number,
+    servings: number
+): SavedDish => {
+    const { rawWeight, per100g } = calculateRecipeNutrition(ingredients, cookedWeight, servings);
+    const recipe: Recipe = {
+        ingredients: ingredients.map(ingredient => ({ ...ingredient })),
+        rawWeight,
+        cookedWeight,
+        servings,
+    };
+    return { id, name, per100g, recipe };
+};
+
+export const getServingWeight = (recipe: Recipe): number => Math.round(recipe.cookedWeight / recipe.servings);
+
+/**
+ * Копия состава рецепта с новыми id — для загрузки в конструктор
+ */
+export const getRecipeIngredients = (recipe: Recipe): Ingredient[] => {
+    return recipe.ingredients.map(ingredient => ({ ...ingredient, id: crypto.randomUUID() }));
+};
+
+/**
+ * Округление веса после масштабирования: до 0,5 г для специй, до грамма
+ * для средних количеств и до 5 г для крупных
+ */
+export const roundScaledWeight = (weight: number): number => {
+    if (weight < 10) return Math.max(Math.round(weight * 2) / 2, 0.5);
+    if (weight < 100) return Math.round(weight);
+    return Math.round(weight / 5) * 5;
+};
+
+/**
+ * Умножает веса ингредиентов на коэффициент. Продукты, введённые штуками
+ * (2 яйца), остаются целыми штуками; введённые в граммах — округляются по весу
+ */
+export const scaleIngredients = (ingredients: Ingredient[], factor: number): Ingredient[] => {
+    return ingredients.map(ingredient => {
+        if (!(ingredient.weight > 0)) return ingredient;
+        if (ingredient.pieces > 0) {
+            const pieces = Math.max(Math.round(ingredient.pieces * factor), 1);
+            const weight = Math.round(ingredient.weight / ingredient.pieces * pieces * 10) / 10;
+            return { ...ingredient, pieces, weight };
+        }
+        return { ...ingredient, weight: roundScaledWeight(ingredient.weight * factor) };
+    });
+};
@@ -0,0 +1,101 @@
+import { DailyGoals, History, UserProfile } from '../types';
+import { WeightTrendPoint } from './bodyMetrics';
+import { getTargetCalories, splitMacros } from './goalCalculator';
+import { getLocalDateKey } from './calculations';
+
+// Энергия одного килограмма массы тела (смесь жира и безжировой ткани)
+const KCAL_PER_KG = 7700;
+const WINDOW_DAYS = 28;
+const MIN_SPAN_DAYS = 7;
+const MIN_LOGGED_DAYS = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type TdeeConfidence = 'low' | 'medium' | 'high';
+
+export interface TdeeEstimate {
+    tdee: number;
+    targetCalories: number;
+    confidence: TdeeConfidence;
+    // Данные, на которых построена оценка
+    startDate: string;
+    endDate: string;
+    spanDays: number;
+    loggedDays: number;
+    weighIns: number;
+    averageIntake: number;
+    trendChange: number;
+}
+
+export const TDEE_CONFIDENCE_LABELS: Record<TdeeConfidence, string> = {
+    low: 'низкая',
+    medium: 'средняя',
+    high: 'высокая',
+};
+
+const daysBetween = (from: string, to: string) =>
+    Math.round((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS);
+
+const getConfidence = (spanDays: number, loggedShare: number, weighIns: number): TdeeConfidence => {
+    if (spanDays >= 21 && loggedShare >= 0.8 && weighIns >= 10) return 'high';
+    if (spanDays >= 14 && loggedShare >= 0.6 && weighIns >= 5) return 'medium';
+    return 'low';
+};
+
+/**
+ * Оценивает фактический расход по энергобалансу за последние 4 недели:
+ * среднее потребление минус изменение веса по тренду в пересчёте на калории.
+ * Возвращает null, если записей питания или взвешиваний недостаточно
+ */
+export const estimateTdee = (
+    history: History,
+    trend: WeightTrendPoint[],
+    profile: UserProfile,
+    today = getLocalDateKey()
+): TdeeEstimate | null => {
+    const windowStart = new Date(new Date(today).getTime() - (WINDOW_DAYS - 1) * DAY_MS).toISOString().split('T')[0];
+    const points = trend.filter(point => point.date >= windowStart && point.date <= today);
+    if (points.length < 2) return null;
+
+    const startDate = points[0].date;
+    const endDate = points[points.length - 1].date;
+    const spanDays = daysBetween(startDate, endDate);
+    if (spanDays < MIN_SPAN_DAYS) return null;
+
+    // Дни без записей не считаются нулевыми — они просто не участвуют в среднем
+    const intakeDays = Object.keys(history).filter(date =>
+        date >= startDate && date <= endDate && history[date].dailyTotals.calories > 0
+    );
+    if (intakeDays.length < MIN_LOGGED_DAYS) return null;
+
+    const averageIntake = intakeDays.reduce((sum, date) => sum + history[date].dailyTotals.calories, 0) / intakeDays.length;
+    const trendChange = points[points.length - 1].trend - points[0].trend;
+    const tdee = averageIntake - (trendChange * KCAL_PER_KG) / spanDays;
+
+    return {
+        tdee: Math.round(tdee),
+        targetCalories: Math.round(getTargetCalories(tdee, profile.goal)),
+        confidence: getConfidence(spanDays, intakeDays.length / (spanDays + 1), points.length),
+        startDate,
+        endDate,
+        spanDays,
+        loggedDays: intakeDays.length,
+        weighIns: points.length,
+        averageIntake: Math.round(averageIntake),
+        trendChange,
+    };
+};
+
+/**
+ * Подставляет оценку расхода в нормы: белок и клетчатка сохраняются, жиры и углеводы пересчитываются
+ */
+export const applyTdeeEstimate = (goals: DailyGoals, estimate: TdeeEstimate): DailyGoals => {
+    const { fat, carbohydrate } = splitMacros(estimate.targetCalories, goals.protein);
+    return {
+        ...goals,
+        tdee: estimate.tdee,
+        targetCalories: estimate.targetCalories,
+        fat: Math.round(fat),
+        carbohydrate: Math.round(carbohydrate),
+    };
+};
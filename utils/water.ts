@@ -0,0 +1,58 @@
+import { ActivityLevel, Beverage, HistoryEntry, Ingredient, UserProfile, WaterIntake } from '../types';
+import { BEVERAGES } from '../constants/beverages';
+
+// Базовая потребность в жидкости на килограмм веса
+const WATER_ML_PER_KG = 30;
+
+// Надбавка на потери с потом при тренировках и физической работе
+const ACTIVITY_WATER_BONUS: Record<ActivityLevel, number> = {
+    minimal: 0,
+    light: 250,
+    moderate: 500,
+    high: 750,
+    extreme: 1000,
+};
+
+export const QUICK_ADD_VOLUMES = [150, 250, 330, 500];
+
+// Тип приёма пищи для калорийных напитков из трекера воды
+export const DRINKS_MEAL_TYPE = 'drinks';
+
+/**
+ * Дневная норма жидкости по весу и активности, округлённая до 50 мл
+ */
+export const calculateWaterGoal = (profile: UserProfile | null): number | null => {
+    if (!profile || !(profile.weight > 0)) return null;
+    const goal = profile.weight * WATER_ML_PER_KG + ACTIVITY_WATER_BONUS[profile.activityLevel];
+    return Math.round(goal / 50) * 50;
+};
+
+export const getWaterTotal = (water: WaterIntake | undefined): number => {
+    return (water?.entries || []).reduce((sum, entry) => sum + entry.volume, 0);
+};
+
+export const getBeverage = (id: string): Beverage => {
+    return BEVERAGES.find(beverage => beverage.id === id) || BEVERAGES[0];
+};
+
+/**
+ * Ингредиент рациона для калорийного напитка; вес в граммах равен объёму
+ */
+export const createBeverageIngredient = (beverage: Beverage, volume: number): Ingredient | null => {
+    if (!beverage.per100ml) return null;
+    return {
+        id: crypto.randomUUID(),
+        name: beverage.name.toLowerCase(),
+        weight: volume,
+        baseCPFC: beverage.per100ml,
+    };
+};
+
+/**
+ * День без приёмов пищи и без записей воды хранить не нужно
+ */
+export const isHistoryEntryEmpty = (entry: HistoryEntry): boolean => {
+    return Object.keys(entry.meals).length === 0 && !(entry.water?.entries.length);
+};
+
+export const formatLiters = (ml: number): string => `${(ml / 1000).toFixed(ml % 100 === 0 ? 1 : 2)} л`;